@@ -2,6 +2,7 @@ module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
   testMatch: ['**/**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/_test/setupEnv.ts'],
   verbose: true,
   forceExit: false,
 };
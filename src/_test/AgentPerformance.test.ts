@@ -0,0 +1,121 @@
+jest.mock("../typeorm/data-source", () => ({
+  AuditLogRepo: { createQueryBuilder: jest.fn() },
+  ComplianceReportRepo: { createQueryBuilder: jest.fn() },
+  ScanRepo: { createQueryBuilder: jest.fn() },
+  UserRepo: { find: jest.fn(), findOne: jest.fn() },
+}));
+
+import { AuditLogRepo, ComplianceReportRepo, ScanRepo, UserRepo } from "../typeorm/data-source";
+import {
+  AgentActivity,
+  AgentPerformanceService,
+  AgentPerformanceValidation,
+  summarizeActivity,
+} from "../services/agentPerformanceService";
+import { ComplianceStatus, NonComplianceReason } from "../types/enums";
+
+const queryBuilder = (rows: unknown[]) => {
+  const qb: Record<string, jest.Mock> = {};
+  ["select", "addSelect", "where", "andWhere"].forEach((method) => (qb[method] = jest.fn(() => qb)));
+  qb.getRawMany = jest.fn().mockResolvedValue(rows);
+  return qb;
+};
+
+describe("Agent Performance", () => {
+  const at = (iso: string) => new Date(iso);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should summarize scans, reports, active days and scan-to-report time", () => {
+    // Arrange: 01:00 on Oct 19 in Manila is still Oct 18 in UTC
+    const activity: AgentActivity = {
+      scans: [at("2026-10-18T17:00:00Z"), at("2026-10-19T02:00:00Z")],
+      reports: [
+        { status: ComplianceStatus.COMPLIANT, reason: null, reportedAt: at("2026-10-18T17:10:00Z"), lat: 14.5995, lng: 120.9842 },
+        { status: ComplianceStatus.FRAUDULENT, reason: NonComplianceReason.COUNTERFEIT, reportedAt: at("2026-10-19T02:30:00Z"), lat: 14.59955, lng: 120.98425 },
+        // Too long after the last scan to be paired with it
+        { status: ComplianceStatus.COMPLIANT, reason: null, reportedAt: at("2026-10-19T09:00:00Z"), lat: 14.6095, lng: 120.9842 },
+      ],
+      pings: [{ at: at("2026-10-19T05:00:00Z"), lat: 14.6095, lng: 120.9942 }],
+    };
+
+    // Act
+    const performance = summarizeActivity(activity, 1);
+
+    // Assert
+    expect(performance).toMatchObject({
+      scans: 2,
+      reports: { total: 3, byStatus: { COMPLIANT: 2, FRAUDULENT: 1 } },
+      activeDays: 1,
+      medianScanToReportMinutes: 20,
+      pairedReports: 2,
+      // The first two reports are a few meters apart
+      outletsVisited: 2,
+    });
+    expect(performance.coverage.points).toBe(4);
+    expect(performance.coverage.convexHullKm2).toBeGreaterThan(0.5);
+    expect(performance.coverage.hull?.type).toBe("Polygon");
+    expect(performance.coverage.gridCells).toBeGreaterThanOrEqual(2);
+  });
+
+  it("should list every agent and the team totals without per-agent hulls", async () => {
+    // Arrange
+    (ScanRepo.createQueryBuilder as jest.Mock).mockReturnValue(
+      queryBuilder([{ agentId: "agent-1", at: "2026-10-10T01:00:00Z" }])
+    );
+    (ComplianceReportRepo.createQueryBuilder as jest.Mock).mockReturnValue(
+      queryBuilder([
+        { agentId: "agent-1", status: "NON_COMPLIANT", reason: "MISLABELED", at: "2026-10-10T01:05:00Z", lat: "14.5995", lng: "120.9842" },
+        { agentId: "agent-1", status: "COMPLIANT", reason: null, at: "2026-10-11T03:00:00Z", lat: null, lng: null },
+      ])
+    );
+    (AuditLogRepo.createQueryBuilder as jest.Mock).mockReturnValue(queryBuilder([]));
+    (UserRepo.find as jest.Mock).mockResolvedValue([
+      { _id: "agent-1", firstName: "Juan", lastName: "Dela Cruz", badgeId: "B-1", role: "AGENT" },
+      { _id: "agent-2", firstName: "Maria", lastName: "Santos", badgeId: "B-2", role: "AGENT" },
+      { _id: "admin-1", firstName: "Ana", lastName: "Reyes", role: "ADMIN" },
+    ]);
+    const filter = AgentPerformanceValidation.parse({ from: "2026-10-01", to: "2026-10-19" });
+
+    // Act
+    const performance = await AgentPerformanceService.team(filter);
+
+    // Assert
+    expect(performance.agents.map((row) => row.agent._id)).toEqual(["agent-1", "agent-2"]);
+    expect(performance.agents[0]).toMatchObject({
+      scans: 1,
+      reports: { total: 2 },
+      activeDays: 2,
+      medianScanToReportMinutes: 5,
+      outletsVisited: 1,
+    });
+    expect(performance.agents[0].coverage).not.toHaveProperty("hull");
+    expect(performance.agents[1]).toMatchObject({ scans: 0, reports: { total: 0 }, medianScanToReportMinutes: null });
+    expect(performance.team).toMatchObject({ agents: 2, scans: 1, reports: { total: 2 } });
+  });
+
+  it("should reject unknown agents and overly long ranges", async () => {
+    // Arrange
+    (UserRepo.findOne as jest.Mock).mockResolvedValue(null);
+
+    // Act & Assert
+    await expect(
+      AgentPerformanceService.agent("123e4567-e89b-12d3-a456-426614174000", AgentPerformanceValidation.parse({}))
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(AgentPerformanceValidation.safeParse({ from: "2024-01-01", to: "2026-10-19" }).success).toBe(false);
+  });
+
+  it("should cap a range given only a start at now", async () => {
+    // Arrange
+    const filter = AgentPerformanceValidation.parse({ from: "2024-01-01" });
+
+    // Act & Assert
+    await expect(AgentPerformanceService.team(filter, new Date("2026-10-19T00:00:00Z"))).rejects.toMatchObject({
+      statusCode: 400,
+      message: "The range can cover at most 366 days",
+    });
+    expect(UserRepo.find).not.toHaveBeenCalled();
+  });
+});
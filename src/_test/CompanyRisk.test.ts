@@ -0,0 +1,176 @@
+jest.mock("../typeorm/data-source", () => ({
+  CompanyRepo: {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  },
+  ComplianceReportRepo: {
+    createQueryBuilder: jest.fn(),
+  },
+  ProductRepo: {
+    find: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  },
+  RecallRepo: {
+    createQueryBuilder: jest.fn(),
+  },
+}));
+jest.mock("../services/redisService", () => ({
+  redisService: { invalidateCompaniesCache: jest.fn() },
+}));
+
+import { CompanyRepo, ComplianceReportRepo, ProductRepo, RecallRepo } from "../typeorm/data-source";
+import { CompanyRiskInputs, CompanyRiskService, scoreCompanyRisk } from "../services/companyRiskService";
+import { ComplianceStatus } from "../types/enums";
+import { normalizedCodeSql } from "../utils/fuzzyMatch";
+
+const queryBuilder = (result: unknown) => {
+  const qb: Record<string, jest.Mock> = {};
+  ["select", "addSelect", "where", "andWhere"].forEach((method) => (qb[method] = jest.fn(() => qb)));
+  qb.getRawMany = jest.fn().mockResolvedValue(result);
+  qb.getMany = jest.fn().mockResolvedValue(result);
+  return qb;
+};
+
+describe("Company Risk Scoring", () => {
+  const now = new Date("2026-10-19T04:00:00Z");
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const clean: CompanyRiskInputs = {
+    reports: [],
+    lapsedRegistrations: 0,
+    expiringRegistrations: 0,
+    activeRecalls: 0,
+    recentlyClosedRecalls: 0,
+    licenseStatus: "ACTIVE",
+    licenseExpiresAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should weigh fraudulent findings above non-compliant ones and halve them every 90 days", () => {
+    // Act
+    const fresh = scoreCompanyRisk(
+      { ...clean, reports: [{ status: ComplianceStatus.FRAUDULENT, reportedAt: now }] },
+      now
+    );
+    const older = scoreCompanyRisk(
+      { ...clean, reports: [{ status: ComplianceStatus.FRAUDULENT, reportedAt: daysAgo(90) }] },
+      now
+    );
+    const nonCompliant = scoreCompanyRisk(
+      { ...clean, reports: [{ status: ComplianceStatus.NON_COMPLIANT, reportedAt: now }] },
+      now
+    );
+
+    // Assert
+    expect(fresh.breakdown.reports.points).toBe(15);
+    expect(older.breakdown.reports.points).toBe(7.5);
+    expect(nonCompliant.breakdown.reports.points).toBe(5);
+    expect(fresh.breakdown.reports.fraudulent).toBe(1);
+  });
+
+  it("should cap each factor and classify the total", () => {
+    // Act
+    const risk = scoreCompanyRisk(
+      {
+        ...clean,
+        reports: Array.from({ length: 10 }, () => ({ status: ComplianceStatus.FRAUDULENT, reportedAt: now })),
+        lapsedRegistrations: 3,
+        expiringRegistrations: 2,
+        activeRecalls: 1,
+        licenseStatus: "SUSPENDED",
+      },
+      now
+    );
+
+    // Assert
+    expect(risk.breakdown.reports.points).toBe(50);
+    expect(risk.breakdown.registrations.points).toBe(14);
+    expect(risk.breakdown.recalls.points).toBe(8);
+    expect(risk.breakdown.license.points).toBe(10);
+    expect(risk.score).toBe(82);
+    expect(risk.level).toBe("CRITICAL");
+  });
+
+  it("should let compliant reports offset findings but never go below zero", () => {
+    // Act
+    const risk = scoreCompanyRisk(
+      {
+        ...clean,
+        reports: [
+          { status: ComplianceStatus.NON_COMPLIANT, reportedAt: now },
+          ...Array.from({ length: 8 }, () => ({ status: ComplianceStatus.COMPLIANT, reportedAt: now })),
+        ],
+      },
+      now
+    );
+
+    // Assert
+    expect(risk.breakdown.reports.points).toBe(0);
+    expect(risk.score).toBe(0);
+    expect(risk.level).toBe("LOW");
+  });
+
+  it("should treat a license past its expiry date as expired", () => {
+    // Act
+    const expired = scoreCompanyRisk({ ...clean, licenseExpiresAt: "2026-10-18" }, now);
+    const expiring = scoreCompanyRisk({ ...clean, licenseExpiresAt: "2026-11-01" }, now);
+
+    // Assert
+    expect(expired.breakdown.license).toMatchObject({ status: "EXPIRED", points: 10, daysLeft: -1 });
+    expect(expiring.breakdown.license).toMatchObject({ status: "ACTIVE", points: 3, daysLeft: 13 });
+  });
+
+  it("should store the recalculated score with its breakdown", async () => {
+    // Arrange
+    (CompanyRepo.findOne as jest.Mock).mockResolvedValue({
+      _id: "company-uuid",
+      licenseStatus: "ACTIVE",
+      licenseExpiresAt: null,
+    });
+    (ComplianceReportRepo.createQueryBuilder as jest.Mock).mockReturnValue(
+      queryBuilder([{ status: ComplianceStatus.FRAUDULENT, reportedAt: now }])
+    );
+    (ProductRepo.find as jest.Mock).mockResolvedValue([
+      { _id: "product-uuid", CFPRNumber: "CFPR-2021-1234", validityStatus: "LAPSED" },
+    ]);
+    (RecallRepo.createQueryBuilder as jest.Mock).mockReturnValue(
+      queryBuilder([{ _id: "recall-uuid", status: "ACTIVE", closedAt: null }])
+    );
+
+    // Act
+    const risk = await CompanyRiskService.recalculate("company-uuid", now);
+
+    // Assert
+    expect(risk?.score).toBe(27);
+    expect(CompanyRepo.update).toHaveBeenCalledWith("company-uuid", {
+      riskScore: 27,
+      riskLevel: "MEDIUM",
+      riskBreakdown: expect.objectContaining({
+        recalls: expect.objectContaining({ active: 1, points: 8 }),
+        registrations: expect.objectContaining({ lapsed: 1, points: 4 }),
+      }),
+      riskScoredAt: now,
+    });
+  });
+
+  it("should find the companies a recall covers by product or normalized CFPR number", async () => {
+    // Arrange
+    const qb = queryBuilder([{ companyId: "company-1" }, { companyId: "company-2" }, { companyId: null }]);
+    (ProductRepo.createQueryBuilder as jest.Mock).mockReturnValue(qb);
+
+    // Act
+    const companyIds = await CompanyRiskService.companyIdsForRecall({
+      productId: "product-uuid",
+      normalizedCFPR: "20211234",
+    });
+
+    // Assert
+    expect(companyIds).toEqual(["company-1", "company-2"]);
+    expect(qb.where).toHaveBeenCalledWith(
+      `(product._id = :productId OR ${normalizedCodeSql("product.CFPRNumber")} = :cfpr)`,
+      { productId: "product-uuid", cfpr: "20211234" }
+    );
+  });
+});
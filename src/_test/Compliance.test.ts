@@ -103,6 +103,7 @@ describe("Compliance Report Controller", () => {
     };
 
     (DB.getRepository as jest.Mock).mockReturnValue(mockComplianceRepo);
+    (DB.transaction as jest.Mock).mockImplementation(async (work: any) => work({ save: mockComplianceRepo.save }));
 
     // Clear all mocks before each test
     jest.clearAllMocks();
@@ -0,0 +1,127 @@
+const manager = {
+  save: jest.fn(async (entity) => entity),
+  create: jest.fn((_entity, data) => data),
+  update: jest.fn(),
+};
+
+jest.mock("../typeorm/data-source", () => ({
+  DB: { transaction: jest.fn((work) => work(manager)) },
+  ComplianceCaseRepo: { findOne: jest.fn() },
+  ComplianceCaseCommentRepo: { findOne: jest.fn(), create: jest.fn((data) => data), save: jest.fn() },
+  ComplianceCaseEventRepo: {},
+  ComplianceReportRepo: { find: jest.fn() },
+  UserRepo: { findOne: jest.fn() },
+}));
+jest.mock("../services/auditLogService");
+
+import { ComplianceCaseRepo, ComplianceReportRepo } from "../typeorm/data-source";
+import { AuditLogService } from "../services/auditLogService";
+import { canTransition, ComplianceCaseService, threadComments } from "../services/complianceCaseService";
+import { CaseStatus, ComplianceStatus } from "../types/enums";
+
+describe("Compliance Cases", () => {
+  const caseId = "7d9e1f20-3a4b-4c5d-8e6f-708192a3b4c5";
+  const adminId = "550e8400-e29b-41d4-a716-446655440000";
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should only allow workflow transitions", () => {
+    expect(canTransition(CaseStatus.OPEN, CaseStatus.UNDER_REVIEW)).toBe(true);
+    expect(canTransition(CaseStatus.UNDER_REVIEW, CaseStatus.ACTION_TAKEN)).toBe(true);
+    expect(canTransition(CaseStatus.CLOSED, CaseStatus.OPEN)).toBe(true);
+    expect(canTransition(CaseStatus.OPEN, CaseStatus.ACTION_TAKEN)).toBe(false);
+    expect(canTransition(CaseStatus.CLOSED, CaseStatus.ESCALATED)).toBe(false);
+  });
+
+  it("should move a case, record it on the timeline and audit it", async () => {
+    // Arrange
+    (ComplianceCaseRepo.findOne as jest.Mock).mockResolvedValue({
+      _id: caseId,
+      title: "FRAUDULENT: Grower Mash",
+      status: CaseStatus.UNDER_REVIEW,
+    });
+
+    // Act
+    const updated = await ComplianceCaseService.transition(caseId, CaseStatus.CLOSED, adminId, "Seized");
+
+    // Assert
+    expect(updated.status).toBe(CaseStatus.CLOSED);
+    expect(updated.closedAt).toBeInstanceOf(Date);
+    expect(manager.create).toHaveBeenCalledWith(expect.anything(), {
+      type: "STATUS_CHANGED",
+      fromStatus: CaseStatus.UNDER_REVIEW,
+      toStatus: CaseStatus.CLOSED,
+      actorId: adminId,
+      note: "Seized",
+      caseId,
+    });
+    expect(AuditLogService.createLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actionType: "UPDATE_CASE_STATUS",
+        metadata: expect.objectContaining({ caseId, from: "UNDER_REVIEW", to: "CLOSED" }),
+      })
+    );
+  });
+
+  it("should reject a transition outside the workflow", async () => {
+    // Arrange
+    (ComplianceCaseRepo.findOne as jest.Mock).mockResolvedValue({ _id: caseId, status: CaseStatus.OPEN });
+
+    // Act & Assert
+    await expect(
+      ComplianceCaseService.transition(caseId, CaseStatus.ACTION_TAKEN, adminId)
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(AuditLogService.createLog).not.toHaveBeenCalled();
+  });
+
+  it("should not link a report that is part of another open case", async () => {
+    // Arrange
+    (ComplianceReportRepo.find as jest.Mock).mockResolvedValue([
+      { _id: "report-1", caseId: "other-case", case: { status: CaseStatus.ESCALATED } },
+    ]);
+
+    // Act & Assert
+    await expect(
+      ComplianceCaseService.open({ reportIds: ["report-1"] }, adminId)
+    ).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it("should open a case for a fraudulent report but not a compliant one", async () => {
+    // Arrange
+    const report = {
+      _id: "report-1",
+      agentId: "agent-1",
+      status: ComplianceStatus.FRAUDULENT,
+      scannedData: { productName: "Grower Mash" },
+    } as any;
+
+    // Act
+    const opened = await ComplianceCaseService.openForReport(report);
+    const skipped = await ComplianceCaseService.openForReport({ ...report, status: ComplianceStatus.COMPLIANT });
+
+    // Assert
+    expect(opened).toMatchObject({ title: "FRAUDULENT: Grower Mash", status: CaseStatus.OPEN, openedById: "agent-1" });
+    expect(skipped).toBeNull();
+    expect(manager.update).toHaveBeenCalledTimes(1);
+  });
+
+  it("should thread replies under their comments", () => {
+    // Arrange
+    const comments = [
+      { _id: "c1", parentId: null, body: "Checked the store" },
+      { _id: "c2", parentId: "c1", body: "Any photos?" },
+      { _id: "c3", parentId: null, body: "Escalating" },
+      { _id: "c4", parentId: "c2", body: "Attached to the report" },
+    ] as any[];
+
+    // Act
+    const thread = threadComments(comments);
+
+    // Assert
+    expect(thread.map(comment => comment._id)).toEqual(["c1", "c3"]);
+    expect(thread[0].replies[0]._id).toBe("c2");
+    expect(thread[0].replies[0].replies[0]._id).toBe("c4");
+  });
+});
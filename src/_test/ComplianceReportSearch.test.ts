@@ -0,0 +1,86 @@
+const queryBuilder = {
+  leftJoin: jest.fn().mockReturnThis(),
+  addSelect: jest.fn().mockReturnThis(),
+  leftJoinAndSelect: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  orderBy: jest.fn().mockReturnThis(),
+  addOrderBy: jest.fn().mockReturnThis(),
+  offset: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  getManyAndCount: jest.fn(),
+};
+
+jest.mock("../typeorm/data-source", () => ({
+  ComplianceReportRepo: {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  },
+}));
+
+import {
+  ComplianceReportService,
+  ReportSearchValidation,
+} from "../services/complianceReportService";
+
+describe("Compliance Report Search", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should parse comma-separated filters and apply the defaults", () => {
+    // Act
+    const result = ReportSearchValidation.safeParse({
+      status: "NON_COMPLIANT, FRAUDULENT",
+      bbox: "120.9,14.5,121.1,14.7",
+    });
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.success && result.data).toMatchObject({
+      status: ["NON_COMPLIANT", "FRAUDULENT"],
+      bbox: [120.9, 14.5, 121.1, 14.7],
+      sort: "reportedAt",
+      order: "desc",
+    });
+  });
+
+  it("should reject unknown statuses, a radius search without radiusKm and an inverted date range", () => {
+    // Act & Assert
+    expect(ReportSearchValidation.safeParse({ status: "PENDING" }).success).toBe(false);
+    expect(ReportSearchValidation.safeParse({ near: "14.6,121.0" }).success).toBe(false);
+    expect(
+      ReportSearchValidation.safeParse({ from: "2026-10-10", to: "2026-10-01" }).success
+    ).toBe(false);
+  });
+
+  it("should only add the requested filters and page through the results", async () => {
+    // Arrange
+    queryBuilder.getManyAndCount.mockResolvedValue([[{ _id: "report-uuid" }], 1]);
+    const filter = ReportSearchValidation.parse({
+      status: "NON_COMPLIANT",
+      CFPRNumber: "fr-4000-1234",
+      sort: "productName",
+      order: "asc",
+    });
+
+    // Act
+    const [reports, total] = await ComplianceReportService.search(filter, 20, 10);
+
+    // Assert
+    expect(reports).toEqual([{ _id: "report-uuid" }]);
+    expect(total).toBe(1);
+    expect(queryBuilder.andWhere).toHaveBeenCalledTimes(2);
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith("report.status IN (:...statuses)", {
+      statuses: ["NON_COMPLIANT"],
+    });
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(expect.stringContaining("regexp_replace"), {
+      cfpr: "%FR40001234%",
+    });
+    expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+      "LOWER(report.scannedData->>'productName')",
+      "ASC",
+      "NULLS LAST"
+    );
+    expect(queryBuilder.offset).toHaveBeenCalledWith(20);
+    expect(queryBuilder.limit).toHaveBeenCalledWith(10);
+  });
+});
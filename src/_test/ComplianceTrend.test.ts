@@ -0,0 +1,107 @@
+jest.mock("../typeorm/data-source", () => ({
+  ComplianceReportRepo: {
+    createQueryBuilder: jest.fn(),
+  },
+}));
+
+import { ComplianceReportRepo } from "../typeorm/data-source";
+import {
+  bucketStart,
+  ComplianceTrendService,
+  TrendFilterValidation,
+  trendPeriods,
+} from "../services/complianceTrendService";
+
+const queryBuilder = (rows: unknown[]) => {
+  const qb: Record<string, jest.Mock> = {};
+  ["select", "addSelect", "where", "andWhere", "groupBy", "addGroupBy", "innerJoin"].forEach(
+    (method) => (qb[method] = jest.fn(() => qb))
+  );
+  qb.getRawMany = jest.fn().mockResolvedValue(rows);
+  return qb;
+};
+
+describe("Compliance Trends", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should snap dates to Monday weeks and calendar months", () => {
+    // 2026-10-18 is a Sunday
+    expect(bucketStart("2026-10-18", "week")).toBe("2026-10-12");
+    expect(bucketStart("2026-10-19", "week")).toBe("2026-10-19");
+    expect(bucketStart("2026-10-19", "month")).toBe("2026-10-01");
+  });
+
+  it("should cover whole buckets and compare with as many buckets before", () => {
+    // Act
+    const monthly = trendPeriods({ interval: "month", from: "2026-08-15", to: "2026-10-19" }, new Date());
+    // 2026-10-19 00:30 in Manila is still 2026-10-18 in UTC
+    const daily = trendPeriods({ interval: "day" }, new Date("2026-10-18T16:30:00Z"));
+
+    // Assert
+    expect(monthly.period).toEqual({
+      from: "2026-08-01",
+      to: "2026-10-31",
+      buckets: ["2026-08-01", "2026-09-01", "2026-10-01"],
+    });
+    expect(monthly.previousPeriod).toMatchObject({ from: "2026-05-01", to: "2026-07-31" });
+    expect(daily.period.to).toBe("2026-10-19");
+    expect(daily.period.buckets).toHaveLength(30);
+    expect(daily.previousPeriod.to).toBe("2026-09-19");
+  });
+
+  it("should reject ranges with too many buckets", () => {
+    // Arrange
+    const filter = TrendFilterValidation.parse({ interval: "day", from: "2024-01-01", to: "2026-10-19" });
+
+    // Act & Assert
+    expect(() => trendPeriods(filter, new Date())).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+    expect(TrendFilterValidation.safeParse({ from: "2026-02-30" }).success).toBe(false);
+  });
+
+  it("should fill empty buckets and report an improving non-compliance rate", async () => {
+    // Arrange
+    const current = queryBuilder([
+      { bucket: "2026-10-12", status: "COMPLIANT", reason: null, count: "8" },
+      { bucket: "2026-10-12", status: "NON_COMPLIANT", reason: "MISLABELED", count: "1" },
+      { bucket: "2026-10-19", status: "COMPLIANT", reason: null, count: "1" },
+    ]);
+    const previous = queryBuilder([
+      { status: "COMPLIANT", reason: null, count: "5" },
+      { status: "FRAUDULENT", reason: "COUNTERFEIT", count: "5" },
+    ]);
+    (ComplianceReportRepo.createQueryBuilder as jest.Mock)
+      .mockReturnValueOnce(current)
+      .mockReturnValueOnce(previous);
+    const filter = TrendFilterValidation.parse({
+      interval: "week",
+      from: "2026-10-05",
+      to: "2026-10-19",
+      classificationId: "123e4567-e89b-12d3-a456-426614174000",
+    });
+
+    // Act
+    const trends = await ComplianceTrendService.trends(filter);
+
+    // Assert
+    expect(trends.buckets.map((bucket) => [bucket.start, bucket.total])).toEqual([
+      ["2026-10-05", 0],
+      ["2026-10-12", 9],
+      ["2026-10-19", 1],
+    ]);
+    expect(trends.buckets[1].byReason.MISLABELED).toBe(1);
+    expect(trends.comparison.total).toEqual({ current: 10, previous: 10, change: 0, percentChange: 0 });
+    expect(trends.comparison.byStatus.FRAUDULENT).toMatchObject({ current: 0, previous: 5, percentChange: -100 });
+    expect(trends.comparison.nonComplianceRate).toEqual({ current: 10, previous: 50, change: -40 });
+    expect(trends.comparison.direction).toBe("IMPROVING");
+    expect(current.where).toHaveBeenCalledWith(expect.stringContaining("AT TIME ZONE 'Asia/Manila'"), {
+      start: "2026-10-05",
+    });
+    expect(current.andWhere).toHaveBeenCalledWith(expect.any(String), { end: "2026-10-26" });
+    expect(previous.where).toHaveBeenCalledWith(expect.any(String), { start: "2026-09-14" });
+    expect(current.innerJoin).toHaveBeenCalledWith("report.product", "product");
+  });
+});
@@ -0,0 +1,79 @@
+jest.mock("../typeorm/data-source", () => ({
+  DB: { createQueryRunner: jest.fn() },
+}));
+
+import { DB } from "../typeorm/data-source";
+import { createDailyJob, msUntilHour } from "../utils/dailyJob";
+
+describe("Daily Job", () => {
+  const queryRunner = {
+    connect: jest.fn(),
+    query: jest.fn(),
+    release: jest.fn(),
+  };
+  const run = jest.fn();
+  const job = createDailyJob({
+    name: "Test job",
+    hourEnv: "TEST_JOB_HOUR",
+    enabledEnv: "TEST_JOB_ENABLED",
+    defaultHour: 6,
+    lockId: 42,
+    run,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    (DB.createQueryRunner as jest.Mock).mockReturnValue(queryRunner);
+  });
+
+  it("should schedule the next run at the configured hour in Philippine time", () => {
+    // 2026-10-19 05:30 in Manila
+    const now = new Date("2026-10-18T21:30:00Z");
+
+    expect(msUntilHour(6, now)).toBe(30 * 60 * 1000);
+    expect(msUntilHour(5, now)).toBe(23.5 * 60 * 60 * 1000);
+  });
+
+  it("should run under the advisory lock and release it afterwards", async () => {
+    // Arrange
+    queryRunner.query.mockResolvedValueOnce([{ locked: true }]);
+
+    // Act
+    const ran = await job.runOnce();
+
+    // Assert
+    expect(ran).toBe(true);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(queryRunner.query.mock.calls).toEqual([
+      ["SELECT pg_try_advisory_lock($1) AS locked", [42]],
+      ["SELECT pg_advisory_unlock($1)", [42]],
+    ]);
+    expect(queryRunner.release).toHaveBeenCalled();
+  });
+
+  it("should skip the run while another server holds the lock", async () => {
+    // Arrange
+    queryRunner.query.mockResolvedValueOnce([{ locked: false }]);
+
+    // Act
+    const ran = await job.runOnce();
+
+    // Assert
+    expect(ran).toBe(false);
+    expect(run).not.toHaveBeenCalled();
+    expect(queryRunner.query).toHaveBeenCalledTimes(1);
+    expect(queryRunner.release).toHaveBeenCalled();
+  });
+
+  it("should unlock when the run fails", async () => {
+    // Arrange
+    queryRunner.query.mockResolvedValueOnce([{ locked: true }]);
+    run.mockRejectedValueOnce(new Error("Database unavailable"));
+
+    // Act & Assert
+    await expect(job.runOnce()).rejects.toThrow("Database unavailable");
+    expect(queryRunner.query).toHaveBeenLastCalledWith("SELECT pg_advisory_unlock($1)", [42]);
+    expect(queryRunner.release).toHaveBeenCalled();
+  });
+});
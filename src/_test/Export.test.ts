@@ -0,0 +1,148 @@
+const queryBuilder = {
+  alias: "product",
+  leftJoin: jest.fn().mockReturnThis(),
+  addSelect: jest.fn().mockReturnThis(),
+  leftJoinAndSelect: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  orderBy: jest.fn().mockReturnThis(),
+  addOrderBy: jest.fn().mockReturnThis(),
+  clone: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  getMany: jest.fn(),
+  select: jest.fn().mockReturnThis(),
+  where: jest.fn().mockReturnThis(),
+  groupBy: jest.fn().mockReturnThis(),
+  getRawMany: jest.fn(),
+};
+
+jest.mock("../typeorm/data-source", () => ({
+  ProductRepo: { createQueryBuilder: jest.fn(() => queryBuilder) },
+  ScanRepo: { createQueryBuilder: jest.fn(() => queryBuilder) },
+  CompanyRepo: { createQueryBuilder: jest.fn(() => queryBuilder) },
+  AuditLogRepo: { createQueryBuilder: jest.fn(() => queryBuilder) },
+  ComplianceReportRepo: { createQueryBuilder: jest.fn(() => queryBuilder) },
+}));
+
+import { PassThrough } from "stream";
+import { EXPORT_BATCH_SIZE, ExportService, csvCell } from "../services/exportService";
+import CustomError from "../utils/CustomError";
+
+const collect = (stream: PassThrough) => {
+  const chunks: Buffer[] = [];
+  stream.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+  return new Promise<Buffer>((resolve) => stream.on("end", () => resolve(Buffer.concat(chunks))));
+};
+
+describe("Data Exports", () => {
+  const product = {
+    _id: "product-uuid",
+    productName: 'Layer Mash "Premium"',
+    brandName: "=HYPERLINK(\"http://x\")",
+    CFPRNumber: "CFPR-2021-1234",
+    company: { name: "Feeds, Inc." },
+    expirationDate: new Date("2027-01-01T00:00:00Z"),
+    dateOfRegistration: new Date("2021-01-15T00:00:00Z"),
+    validityStatus: "VALID",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should escape CSV cells and neutralise spreadsheet formulas", () => {
+    // Act & Assert
+    expect(csvCell('Layer Mash "Premium"')).toBe('"Layer Mash ""Premium"""');
+    expect(csvCell("Feeds, Inc.")).toBe('"Feeds, Inc."');
+    expect(csvCell("=1+1")).toBe("'=1+1");
+    expect(csvCell(-12.5)).toBe("-12.5");
+    expect(csvCell(null)).toBe("");
+  });
+
+  it("should reject invalid filters with a 400", () => {
+    // Act & Assert
+    expect(() => ExportService.prepare("products", { companyId: "not-a-uuid" })).toThrow(CustomError);
+    expect(() => ExportService.prepare("scans", { scanResult: "Fake" })).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+  });
+
+  it("should stream every batch as CSV and count the rows", async () => {
+    // Arrange
+    const firstBatch = Array.from({ length: EXPORT_BATCH_SIZE }, () => product);
+    queryBuilder.getMany.mockResolvedValueOnce(firstBatch).mockResolvedValueOnce([product]);
+    const prepared = ExportService.prepare("products", { search: "mash" });
+    const out = new PassThrough();
+    const output = collect(out);
+
+    // Act
+    const rowCount = await ExportService.write(prepared, "csv", out);
+    const text = (await output).toString("utf8");
+    const lines = text.trim().split("\r\n");
+
+    // Assert
+    expect(rowCount).toBe(EXPORT_BATCH_SIZE + 1);
+    expect(queryBuilder.andWhere).toHaveBeenCalledTimes(2);
+    expect(queryBuilder.andWhere).toHaveBeenLastCalledWith(
+      "(date_trunc('milliseconds', product.dateOfRegistration), product._id) < (:lastKey, :lastId)",
+      { lastKey: product.dateOfRegistration, lastId: "product-uuid" }
+    );
+    expect(lines).toHaveLength(EXPORT_BATCH_SIZE + 2);
+    expect(text.startsWith("\uFEFFProduct ID,Product Name,Brand Name")).toBe(true);
+    expect(lines[1]).toContain('product-uuid,"Layer Mash ""Premium""","\'=HYPERLINK(""http://x"")",CFPR-2021-1234');
+    expect(lines[1]).toContain('"Feeds, Inc."');
+  });
+
+  it("should stop waiting for the client when the response closes", async () => {
+    // Arrange: nothing reads the stream, so the header waits for a drain
+    const prepared = ExportService.prepare("products", {});
+    const out = new PassThrough({ highWaterMark: 1 });
+
+    // Act
+    const written = ExportService.write(prepared, "csv", out);
+    out.destroy();
+
+    // Assert
+    await expect(written).rejects.toThrow("Export stream closed before it was finished");
+    expect(out.listenerCount("drain")).toBe(0);
+    expect(out.listenerCount("error")).toBe(0);
+  });
+
+  it("should write an XLSX workbook", async () => {
+    // Arrange
+    queryBuilder.getMany.mockResolvedValueOnce([product]);
+    const prepared = ExportService.prepare("products", {});
+    const out = new PassThrough();
+    const output = collect(out);
+
+    // Act
+    const rowCount = await ExportService.write(prepared, "xlsx", out);
+
+    // Assert
+    expect(rowCount).toBe(1);
+    expect((await output).subarray(0, 2).toString()).toBe("PK");
+  });
+
+  it("should add product counts to each batch of companies", async () => {
+    // Arrange
+    queryBuilder.getMany.mockResolvedValueOnce([
+      { _id: "company-1", name: "Feeds Inc" },
+      { _id: "company-2", name: "Vet Supplies" },
+    ]);
+    queryBuilder.getRawMany.mockResolvedValueOnce([{ companyId: "company-1", count: "3" }]);
+    const prepared = ExportService.prepare("companies", {});
+    const out = new PassThrough();
+    const output = collect(out);
+
+    // Act
+    await ExportService.write(prepared, "csv", out);
+    const lines = (await output).toString("utf8").trim().split("\r\n");
+
+    // Assert
+    expect(queryBuilder.where).toHaveBeenCalledWith("product.companyId IN (:...ids)", {
+      ids: ["company-1", "company-2"],
+    });
+    expect(lines[1]).toContain("company-1,Feeds Inc");
+    expect(lines[1]).toContain(",3,");
+    expect(lines[2]).toContain(",0,");
+  });
+});
@@ -0,0 +1,71 @@
+jest.mock("../typeorm/data-source", () => ({
+  ComplianceReportRepo: {
+    createQueryBuilder: jest.fn(),
+  },
+}));
+
+import { ComplianceReportRepo } from "../typeorm/data-source";
+import {
+  aggregateCells,
+  GeospatialAnalyticsService,
+  HeatmapFilterValidation,
+  HeatmapPoint,
+} from "../services/analyticService";
+import { ComplianceStatus, NonComplianceReason } from "../types/enums";
+
+describe("Compliance Heatmap", () => {
+  // Two reports a few meters apart in Manila and one in Quezon City
+  const points: HeatmapPoint[] = [
+    { lat: 14.5995, lng: 120.9842, status: ComplianceStatus.COMPLIANT, reason: null },
+    { lat: 14.59951, lng: 120.98421, status: ComplianceStatus.FRAUDULENT, reason: NonComplianceReason.COUNTERFEIT },
+    { lat: 14.676, lng: 121.0437, status: ComplianceStatus.NON_COMPLIANT, reason: NonComplianceReason.MISLABELED },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each(["square", "hex"] as const)("should count every report once in %s cells", (shape) => {
+    // Act
+    const heatmap = aggregateCells(points, shape, 1);
+
+    // Assert
+    expect(heatmap.type).toBe("FeatureCollection");
+    expect(heatmap.features).toHaveLength(2);
+    expect(heatmap.features.every((cell) => cell.geometry.type === "Polygon")).toBe(true);
+    const [busiest] = [...heatmap.features].sort((a, b) => b.properties.total - a.properties.total);
+    expect(busiest.properties).toMatchObject({
+      total: 2,
+      byStatus: { COMPLIANT: 1, NON_COMPLIANT: 0, FRAUDULENT: 1 },
+    });
+    expect(busiest.properties.byReason.COUNTERFEIT).toBe(1);
+    expect(heatmap.features.reduce((sum, cell) => sum + cell.properties.total, 0)).toBe(3);
+  });
+
+  it("should refuse cells too small for the area covered", () => {
+    // Arrange
+    const spread = [...points, { lat: 7.0731, lng: 125.6128, status: ComplianceStatus.COMPLIANT, reason: null }];
+
+    // Act & Assert
+    expect(() => aggregateCells(spread, "square", 0.1)).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+
+  it("should aggregate only the reports matching the filters", async () => {
+    // Arrange
+    const qb: Record<string, jest.Mock> = {};
+    ["select", "addSelect", "where", "andWhere"].forEach((method) => (qb[method] = jest.fn(() => qb)));
+    qb.getRawMany = jest.fn().mockResolvedValue([
+      { lat: "14.5995", lng: "120.9842", status: "FRAUDULENT", reason: "COUNTERFEIT" },
+    ]);
+    (ComplianceReportRepo.createQueryBuilder as jest.Mock).mockReturnValue(qb);
+    const filter = HeatmapFilterValidation.parse({ shape: "square", cellSizeKm: "2", status: "FRAUDULENT" });
+
+    // Act
+    const heatmap = await GeospatialAnalyticsService.heatmap(filter);
+
+    // Assert
+    expect(qb.andWhere).toHaveBeenCalledWith("report.status IN (:...statuses)", { statuses: ["FRAUDULENT"] });
+    expect(heatmap.features).toHaveLength(1);
+    expect(heatmap.features[0].properties.total).toBe(1);
+  });
+});
@@ -0,0 +1,112 @@
+jest.mock("../typeorm/data-source", () => ({
+  AuditLogRepo: { find: jest.fn() },
+  ComplianceReportRepo: { createQueryBuilder: jest.fn() },
+  UserRepo: { find: jest.fn() },
+}));
+jest.mock("../utils/nodemailer", () => ({ sendMail: jest.fn() }));
+jest.mock("../services/auditLogService");
+
+import { AuditLogRepo, ComplianceReportRepo, UserRepo } from "../typeorm/data-source";
+import { sendMail } from "../utils/nodemailer";
+import { AuditLogService } from "../services/auditLogService";
+import { detectHotspots, HotspotOptionsValidation, HotspotPoint, HotspotService } from "../services/hotspotService";
+import { ComplianceStatus } from "../types/enums";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Emerging Hotspots", () => {
+  const now = new Date("2026-10-19T00:00:00Z");
+  const options = HotspotOptionsValidation.parse({ windowDays: 7, windows: 3, epsKm: 1, minPoints: 3 });
+
+  // Reports a few meters apart around a spot, `daysAgo` before now
+  const reports = (
+    lat: number,
+    lng: number,
+    daysAgo: number,
+    count: number,
+    status = ComplianceStatus.NON_COMPLIANT
+  ): HotspotPoint[] =>
+    Array.from({ length: count }, (_, index) => ({
+      lat: lat + index * 0.0001,
+      lng,
+      status,
+      reportedAt: new Date(now.getTime() - daysAgo * DAY_MS),
+    }));
+
+  // Manila has a long-standing problem, Quezon City a new outbreak, Pasig is fading
+  const points = [
+    ...reports(14.5995, 120.9842, 2, 4),
+    ...reports(14.5995, 120.9842, 9, 4),
+    ...reports(14.5995, 120.9842, 16, 4),
+    ...reports(14.676, 121.0437, 1, 5, ComplianceStatus.FRAUDULENT),
+    ...reports(14.5764, 121.0851, 10, 4),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should label hotspots by comparing the latest window with the one before", () => {
+    // Act
+    const analysis = detectHotspots(points, options, now);
+
+    // Assert
+    expect(analysis.windows.map((window) => window.clusters)).toEqual([2, 2, 1]);
+    expect(analysis.hotspots.map((hotspot) => hotspot.label)).toEqual(["NEW", "PERSISTENT", "FADING"]);
+
+    const [outbreak, standing, fading] = analysis.hotspots;
+    expect(outbreak).toMatchObject({
+      current: { total: 5, fraudulent: 5 },
+      change: { fraudulent: 5 },
+      windowsPresent: 1,
+    });
+    expect(outbreak.centroid.latitude).toBeCloseTo(14.6762, 4);
+    expect(standing).toMatchObject({ windowsPresent: 3, change: { total: 0 } });
+    expect(fading).toMatchObject({ current: { total: 0 }, previous: { total: 4 }, change: { nonCompliant: -4 } });
+  });
+
+  it("should call a hotspot intensifying when its findings grow by a quarter", () => {
+    // Act
+    const analysis = detectHotspots(
+      [...reports(14.5995, 120.9842, 2, 6), ...reports(14.5995, 120.9842, 9, 4)],
+      options,
+      now
+    );
+
+    // Assert
+    expect(analysis.hotspots).toHaveLength(1);
+    expect(analysis.hotspots[0]).toMatchObject({ label: "INTENSIFYING", change: { nonCompliant: 2 } });
+  });
+
+  it("should email admins about new hotspots once", async () => {
+    // Arrange
+    const qb: Record<string, jest.Mock> = {};
+    ["select", "addSelect", "where", "andWhere"].forEach((method) => (qb[method] = jest.fn(() => qb)));
+    qb.getRawMany = jest.fn().mockResolvedValue(
+      points.map((point) => ({ ...point, lat: String(point.lat), lng: String(point.lng) }))
+    );
+    (ComplianceReportRepo.createQueryBuilder as jest.Mock).mockReturnValue(qb);
+    (UserRepo.find as jest.Mock).mockResolvedValue([{ _id: "admin-uuid", email: "admin@example.com" }]);
+    (AuditLogRepo.find as jest.Mock).mockResolvedValueOnce([]);
+
+    // Act
+    const first = await HotspotService.run(now);
+    const notified = (AuditLogService.createLog as jest.Mock).mock.calls[0][0].metadata.notifiedHotspots;
+    (AuditLogRepo.find as jest.Mock).mockResolvedValueOnce([{ metadata: { notifiedHotspots: notified } }]);
+    const second = await HotspotService.run(new Date(now.getTime() + DAY_MS / 2));
+
+    // Assert
+    expect(first.notifiedHotspots).toHaveLength(1);
+    expect(first.notifiedAdmins).toBe(1);
+    expect(sendMail).toHaveBeenCalledTimes(1);
+    expect(sendMail).toHaveBeenCalledWith("admin@example.com", expect.stringContaining("1 new"), expect.stringContaining("14.6762"));
+    expect(AuditLogService.createLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actionType: "HOTSPOT_CHECK",
+        metadata: expect.objectContaining({ labels: { NEW: 1, INTENSIFYING: 0, PERSISTENT: 1, FADING: 1 } }),
+      })
+    );
+    expect(second.newHotspots).toHaveLength(1);
+    expect(second.notifiedHotspots).toHaveLength(0);
+  });
+});
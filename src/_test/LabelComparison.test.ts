@@ -0,0 +1,78 @@
+import { compareLabel } from "../utils/labelComparison";
+
+describe("Label Comparison", () => {
+  const product = {
+    productName: "Champion Grower Mash",
+    brandName: "Champion",
+    LTONumber: "LTO-3000-123",
+    CFPRNumber: "CFPR-2021-1234",
+    lotNumber: "L2301",
+    expirationDate: new Date("2027-01-31T00:00:00+08:00"),
+    company: { name: "Champion Agri Corp." },
+  };
+
+  const statusOf = (comparison: ReturnType<typeof compareLabel>, field: string) =>
+    comparison.fields.find(result => result.field === field)?.status;
+
+  it("should match a label identical to the registration", () => {
+    // Act
+    const comparison = compareLabel(
+      {
+        productName: "CHAMPION GROWER MASH",
+        brandName: "Champion",
+        LTONumber: "LTO 3000 123",
+        CFPRNumber: "CFPR-2021-1234",
+        lotNumber: "L2301",
+        expirationDate: "31-JAN-2027",
+        manufacturer: "Champion Agri Corp",
+      },
+      product
+    );
+
+    // Assert
+    expect(comparison.summary).toEqual({ match: 7, minor_difference: 0, mismatch: 0, not_read: 0 });
+  });
+
+  it("should flag OCR misreads as minor differences", () => {
+    // Act
+    const comparison = compareLabel(
+      {
+        CFPRNumber: "CFPR-2O21-I234",
+        expirationDate: "2027-31-01",
+        manufacturer: "Champion Agri Corp., Batangas City",
+      },
+      product
+    );
+
+    // Assert
+    expect(statusOf(comparison, "CFPRNumber")).toBe("minor_difference");
+    expect(statusOf(comparison, "manufacturer")).toBe("minor_difference");
+    expect(statusOf(comparison, "productName")).toBe("not_read");
+  });
+
+  it("should flag different values as mismatches", () => {
+    // Act
+    const comparison = compareLabel(
+      { brandName: "Thunderbird", LTONumber: "LTO-3000-999", lotNumber: "L9999", expirationDate: "2028-06-30" },
+      product
+    );
+
+    // Assert
+    expect(comparison.fields.filter(result => result.status === "mismatch").map(result => result.field)).toEqual([
+      "brandName",
+      "LTONumber",
+      "lotNumber",
+      "expirationDate",
+    ]);
+  });
+
+  it("should leave out fields that were not registered", () => {
+    // Act
+    const comparison = compareLabel({ lotNumber: "L2301" }, { CFPRNumber: "CFPR-2021-1234" });
+
+    // Assert
+    expect(comparison.fields).toEqual([
+      { field: "CFPRNumber", scanned: null, registered: "CFPR-2021-1234", status: "not_read" },
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+jest.mock("../typeorm/data-source", () => ({
+  DB: { transaction: jest.fn() },
+  ProductRepo: {
+    findOneBy: jest.fn(),
+    find: jest.fn(),
+    merge: jest.fn((product, changes) => Object.assign(product, changes)),
+  },
+  ProductLedgerRepo: { find: jest.fn() },
+  BrandNameRepo: { findOne: jest.fn(), save: jest.fn() },
+}));
+jest.mock("../services/redisService");
+jest.mock("../services/auditLogService");
+
+import { Request, Response, NextFunction } from "express";
+import { BrandNameRepo, DB, ProductLedgerRepo, ProductRepo } from "../typeorm/data-source";
+import { updateProduct } from "../controllers/product/Product";
+import { deleteBrandName } from "../controllers/brandName/BrandName";
+import { ProductLedgerService, GENESIS_HASH, computeBlockHash } from "../services/productLedgerService";
+import { ProductLedgerBlock } from "../typeorm/entities/productLedgerBlock.entity";
+
+/**
+ * Entity manager that keeps blocks in memory
+ */
+const createManager = () => {
+  const blocks: ProductLedgerBlock[] = [];
+  const manager = {
+    query: jest.fn(),
+    find: jest.fn(async () => (blocks.length ? [blocks[blocks.length - 1]] : [])),
+    create: jest.fn((_entity, data) => data),
+    save: jest.fn(async (block) => {
+      const saved = { _id: `block-${blocks.length}`, ...block };
+      blocks.push(saved);
+      return saved;
+    }),
+  };
+  return { manager: manager as any, blocks };
+};
+
+describe("Product Ledger", () => {
+  const product = {
+    _id: "6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f",
+    productName: "Champion Grower Mash",
+    CFPRNumber: "CFPR-2021-1234",
+    lotNumber: "L2301",
+    expirationDate: new Date("2027-01-31T00:00:00Z"),
+  };
+
+  const buildChain = async () => {
+    const { manager, blocks } = createManager();
+    await ProductLedgerService.append(manager, product, "CREATE", "admin-1");
+    await ProductLedgerService.append(manager, { ...product, lotNumber: "L2302" }, "UPDATE", "admin-1");
+    await ProductLedgerService.append(manager, product, "DEACTIVATE", "admin-2");
+    return blocks;
+  };
+
+  it("should link each block to the previous one", async () => {
+    // Act
+    const blocks = await buildChain();
+
+    // Assert
+    expect(blocks.map(block => block.index)).toEqual([0, 1, 2]);
+    expect(blocks[0].previousHash).toBe(GENESIS_HASH);
+    expect(blocks[1].previousHash).toBe(blocks[0].hash);
+    expect(blocks[1].data.lotNumber).toBe("L2302");
+    expect(blocks[0].data.expirationDate).toBe("2027-01-31T00:00:00.000Z");
+    expect(ProductLedgerService.checkBlocks(blocks, null)).toEqual([]);
+  });
+
+  it("should detect a block edited after the fact", async () => {
+    // Arrange
+    const blocks = await buildChain();
+    blocks[1] = { ...blocks[1], data: { ...blocks[1].data, lotNumber: "L9999" } };
+
+    // Act
+    const breaks = ProductLedgerService.checkBlocks(blocks, null);
+
+    // Assert
+    expect(breaks).toEqual([
+      { index: 1, blockId: "block-1", reason: "Contents do not match the block hash" },
+    ]);
+  });
+
+  it("should detect a removed block", async () => {
+    // Arrange
+    const blocks = await buildChain();
+
+    // Act
+    const breaks = ProductLedgerService.checkBlocks([blocks[0], blocks[2]], null);
+
+    // Assert
+    expect(breaks.map(item => item.reason)).toEqual([
+      "Expected block 1; blocks are missing",
+      "Does not link to the previous block",
+    ]);
+  });
+
+  it("should detect a re-hashed block without a valid signature", async () => {
+    // Arrange
+    const blocks = await buildChain();
+    const forged = { ...blocks[2], actorId: "someone-else" };
+    forged.hash = computeBlockHash(forged);
+
+    // Act
+    const breaks = ProductLedgerService.checkBlocks([forged], blocks[1]);
+
+    // Assert
+    expect(breaks.map(item => item.reason)).toEqual(["Signature does not match the block hash"]);
+  });
+
+  it("should record an update made through the controller as the product was stored", async () => {
+    // Arrange: the database stores dates as Date, whatever the request sent
+    const { manager, blocks } = createManager();
+    const rows = new Map<string, any>();
+    manager.save.mockImplementation(async (target: any, data?: any) => {
+      if (!data) {
+        const saved = { _id: `block-${blocks.length}`, ...target };
+        blocks.push(saved);
+        return saved;
+      }
+      const row = { ...data, expirationDate: new Date(data.expirationDate) };
+      rows.set(row._id, row);
+      return row;
+    });
+    manager.findOneByOrFail = jest.fn(async (_entity: unknown, { _id }: { _id: string }) => ({ ...rows.get(_id) }));
+    (DB.transaction as jest.Mock).mockImplementation(async (work) => work(manager));
+    const stored = {
+      ...product,
+      LTONumber: "LTO-3000-123",
+      brandName: "Champion",
+      productClassification: "Feeds",
+      productSubClassification: "Poultry",
+      dateOfRegistration: new Date("2021-01-15T00:00:00Z"),
+      registeredById: "7a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d",
+      companyId: "8b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e",
+    };
+    (ProductRepo.findOneBy as jest.Mock).mockResolvedValue({ ...stored });
+    const { _id, ...fields } = stored;
+
+    const req = {
+      params: { id: product._id },
+      body: { ...fields, lotNumber: "L2302", expirationDate: "2027-06-30" },
+      user: { _id: "admin-1" },
+    } as unknown as Request;
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response;
+
+    // Act
+    await updateProduct(req, res, jest.fn() as NextFunction);
+    (ProductLedgerRepo.find as jest.Mock).mockResolvedValueOnce(blocks).mockResolvedValueOnce([]);
+    const verification = await ProductLedgerService.verifyChain();
+
+    // Assert
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0]).toMatchObject({ productId: product._id, action: "UPDATE", actorId: "admin-1" });
+    expect(blocks[0].data).toMatchObject({ lotNumber: "L2302", expirationDate: "2027-06-30T00:00:00.000Z" });
+    expect(verification).toMatchObject({ valid: true, blocksChecked: 1, breaks: [] });
+  });
+
+  it("should record each product re-routed to another brand name in the ledger", async () => {
+    // Arrange
+    const { manager, blocks } = createManager();
+    const rows = new Map<string, any>([
+      ["product-1", { ...product, _id: "product-1", brandNameId: "brand-old", brandName: "Champion" }],
+      ["product-2", { ...product, _id: "product-2", brandNameId: "brand-old", brandName: "Champion" }],
+    ]);
+    manager.update = jest.fn(async (_entity: unknown, _id: string, changes: object) => Object.assign(rows.get(_id), changes));
+    manager.findOneByOrFail = jest.fn(async (_entity: unknown, { _id }: { _id: string }) => ({ ...rows.get(_id) }));
+    (DB.transaction as jest.Mock).mockImplementation(async (work) => work(manager));
+    (ProductRepo.find as jest.Mock).mockResolvedValue(Array.from(rows.values()));
+    (BrandNameRepo.findOne as jest.Mock)
+      .mockResolvedValueOnce({ _id: "brand-old", name: "Champion" })
+      .mockResolvedValueOnce({ _id: "brand-new", name: "Champion Feeds" });
+
+    const req = {
+      params: { id: "brand-old" },
+      body: { newBrandNameId: "brand-new", confirm: true },
+      user: { _id: "admin-1" },
+    } as unknown as Request;
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response;
+
+    // Act
+    await deleteBrandName(req, res, jest.fn() as NextFunction);
+
+    // Assert
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(blocks.map(block => [block.productId, block.action, block.actorId])).toEqual([
+      ["product-1", "UPDATE", "admin-1"],
+      ["product-2", "UPDATE", "admin-1"],
+    ]);
+    expect(blocks[0].data).toMatchObject({ brandNameId: "brand-new", brandName: "Champion Feeds" });
+    expect(ProductLedgerService.checkBlocks(blocks, null)).toEqual([]);
+  });
+});
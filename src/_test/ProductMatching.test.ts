@@ -0,0 +1,139 @@
+jest.mock("../typeorm/data-source", () => ({
+  ProductRepo: { find: jest.fn(), createQueryBuilder: jest.fn() },
+}));
+
+import { ProductRepo } from "../typeorm/data-source";
+import { codeSimilarity, normalizeCode, normalizedCodeSql, textSimilarity } from "../utils/fuzzyMatch";
+import { MIN_MATCH_SCORE, ProductMatchingService, scoreCandidate } from "../services/productMatchingService";
+import { correctRegistrationCode } from "../services/ruleBasedExtractor";
+
+describe("Product Matching", () => {
+  const product = {
+    productName: "Champion Grower Mash",
+    brandName: "Champion",
+    CFPRNumber: "CFPR-2021-1234",
+    LTONumber: "LTO-3000-123",
+    company: { name: "Champion Agri Corp., Inc." },
+  };
+
+  describe("normalizeCode", () => {
+    it("should ignore separators, prefixes and OCR-confusable characters", () => {
+      // Act & Assert
+      expect(normalizeCode("CFPR-2021-1234")).toBe(normalizeCode("2O2l 1234"));
+      expect(normalizeCode("LTO No. 3000-123")).toBe(normalizeCode("3OOO123"));
+    });
+
+    it("should give a code read from a label the same key as the typed code", () => {
+      // Arrange: what the extractor returns for a misread label
+      const { value } = correctRegistrationCode("CFPR-R4A-2O2I-OO45");
+
+      // Act & Assert
+      expect(normalizeCode(value)).toBe(normalizeCode("CFPR R4A 2021-0045"));
+    });
+  });
+
+  describe("similarity", () => {
+    it("should tolerate a single misread character in a code", () => {
+      // Act
+      const score = codeSimilarity("CFPR-2021-1284", "CFPR-2021-1234");
+
+      // Assert
+      expect(score).toBeGreaterThanOrEqual(0.8);
+      expect(score).toBeLessThan(1);
+    });
+
+    it("should score similar names above unrelated ones", () => {
+      // Act
+      const similar = textSimilarity("Champion Grower Mash", "Champlon Grower-Mash");
+      const unrelated = textSimilarity("Champion Grower Mash", "Thunderbird Game Fowl");
+
+      // Assert
+      expect(similar).toBeGreaterThan(0.5);
+      expect(unrelated).toBeLessThan(0.2);
+    });
+  });
+
+  describe("scoreCandidate", () => {
+    it("should find a product despite an OCR mistake in the CFPR number", () => {
+      // Act
+      const { matchScore, matchBreakdown } = scoreCandidate(
+        { CFPRNumber: "CFPR-2O21-1Z34", productName: "Champion Grower Mash" },
+        product
+      );
+
+      // Assert
+      expect(matchScore).toBeGreaterThanOrEqual(0.9);
+      expect(matchBreakdown.CFPRNumber?.matched).toBe(true);
+      expect(matchBreakdown.productName?.matched).toBe(true);
+      expect(matchBreakdown.LTONumber).toBeUndefined();
+    });
+
+    it("should compare the manufacturer with the company name", () => {
+      // Act
+      const { matchBreakdown } = scoreCandidate({ manufacturer: "Champion Agri Corp" }, product);
+
+      // Assert
+      expect(matchBreakdown.manufacturer?.candidate).toBe("Champion Agri Corp., Inc.");
+      expect(matchBreakdown.manufacturer?.matched).toBe(true);
+    });
+
+    it("should score an unrelated product below the minimum", () => {
+      // Act
+      const { matchScore } = scoreCandidate(
+        { CFPRNumber: "CFPR-2019-5678", productName: "Thunderbird Game Fowl" },
+        product
+      );
+
+      // Assert
+      expect(matchScore).toBeLessThan(MIN_MATCH_SCORE);
+    });
+  });
+
+  describe("rankProducts", () => {
+    const queryBuilder = {
+      leftJoin: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn(),
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (ProductRepo.createQueryBuilder as jest.Mock).mockReturnValue(queryBuilder);
+    });
+
+    it("should narrow candidates by normalized code and name similarity, then rank them", async () => {
+      // Arrange
+      const unrelated = { ...product, _id: "product-2", productName: "Thunderbird Game Fowl", CFPRNumber: "CFPR-2019-5678" };
+      queryBuilder.getMany.mockResolvedValue([unrelated, { ...product, _id: "product-1" }]);
+      (ProductRepo.find as jest.Mock).mockResolvedValue([{ ...product, _id: "product-1" }]);
+
+      // Act
+      const { matches, total } = await ProductMatchingService.rankProducts({
+        CFPRNumber: "CFPR-2O21-1234",
+        productName: "Champion Grower Mash",
+      });
+
+      // Assert
+      const [conditions, params] = queryBuilder.where.mock.calls[0];
+      expect(conditions).toContain(`${normalizedCodeSql("product.CFPRNumber")} = :CFPRNumber`);
+      expect(conditions).toContain("similarity(product.productName, :productName)");
+      expect(params).toMatchObject({ CFPRNumber: "20211234", productName: "Champion Grower Mash" });
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith("relevance", "DESC");
+      expect(total).toBe(1);
+      expect(matches.map(match => match.product._id)).toEqual(["product-1"]);
+    });
+
+    it("should not query products when nothing was read", async () => {
+      // Act
+      const result = await ProductMatchingService.rankProducts({ productName: " ", CFPRNumber: null });
+
+      // Assert
+      expect(result).toEqual({ matches: [], total: 0 });
+      expect(ProductRepo.createQueryBuilder).not.toHaveBeenCalled();
+    });
+  });
+});
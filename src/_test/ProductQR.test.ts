@@ -0,0 +1,113 @@
+jest.mock("../typeorm/data-source", () => ({
+  ProductRepo: { findOne: jest.fn() },
+}));
+jest.mock("../services/registryService", () => ({
+  RegistryService: { getCurrentImport: jest.fn().mockResolvedValue(null), lookup: jest.fn() },
+}));
+jest.mock("../services/recallService", () => ({
+  RecallService: { checkScannedLot: jest.fn() },
+}));
+
+import { ProductRepo } from "../typeorm/data-source";
+import { ProductQRService } from "../services/productQRService";
+import { RecallService } from "../services/recallService";
+
+describe("Product QR Codes", () => {
+  const product = {
+    _id: "6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f",
+    CFPRNumber: "CFPR-2021-1234",
+    lotNumber: "L2301",
+    expirationDate: new Date("2099-01-31T00:00:00Z"),
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    (ProductRepo.findOne as jest.Mock).mockResolvedValue(product);
+    (RecallService.checkScannedLot as jest.Mock).mockResolvedValue(null);
+  });
+
+  it("should verify a code it signed", async () => {
+    // Arrange
+    const qrCode = ProductQRService.sign(product as any);
+
+    // Act
+    const result = await ProductQRService.verify(qrCode);
+
+    // Assert
+    expect(result.status).toBe("VALID");
+    expect(result.likelyCounterfeit).toBe(false);
+    expect(result.payload).toMatchObject({ pid: product._id, cfpr: "CFPR-2021-1234", lot: "L2301" });
+    expect(result.productStatus).toEqual({
+      isActive: true,
+      isExpired: false,
+      expirationDate: "2099-01-31",
+      listedInRegistry: null,
+      recall: null,
+    });
+  });
+
+  it("should report a genuine code for a deactivated product and its active recall", async () => {
+    // Arrange
+    const qrCode = ProductQRService.sign(product as any);
+    const recall = { recalled: true, lotNumber: "L2301", message: "Lot L2301 is under recall", recalls: [] };
+    (ProductRepo.findOne as jest.Mock).mockResolvedValue({ ...product, isActive: false });
+    (RecallService.checkScannedLot as jest.Mock).mockResolvedValue(recall);
+
+    // Act
+    const result = await ProductQRService.verify(qrCode);
+
+    // Assert
+    expect(result).toMatchObject({ status: "PRODUCT_INACTIVE", valid: false, likelyCounterfeit: false });
+    expect(result.productStatus).toMatchObject({ isActive: false, recall });
+    expect(RecallService.checkScannedLot).toHaveBeenCalledWith({
+      productId: product._id,
+      CFPRNumbers: ["CFPR-2021-1234", "CFPR-2021-1234"],
+      lotNumber: "L2301",
+    });
+  });
+
+  it("should report a tampered payload as a likely counterfeit", async () => {
+    // Arrange
+    const [prefix, , sig] = ProductQRService.sign(product as any).split(".");
+    const forged = Buffer.from(JSON.stringify({ pid: product._id, cfpr: "CFPR-2021-9999", lot: "L2301", iat: 0 }))
+      .toString("base64")
+      .replace(/=+$/, "");
+
+    // Act
+    const result = await ProductQRService.verify(`${prefix}.${forged}.${sig}`);
+
+    // Assert
+    expect(result.status).toBe("INVALID_SIGNATURE");
+    expect(result.likelyCounterfeit).toBe(true);
+  });
+
+  it("should reject codes that were not issued by the registry", async () => {
+    // Act
+    const result = await ProductQRService.verify("https://example.com/product/123");
+
+    // Assert
+    expect(result).toMatchObject({ status: "INVALID_FORMAT", likelyCounterfeit: true });
+  });
+
+  it("should flag genuine codes whose product details changed", async () => {
+    // Arrange
+    const qrCode = ProductQRService.sign(product as any);
+    (ProductRepo.findOne as jest.Mock).mockResolvedValue({ ...product, lotNumber: "L2302" });
+
+    // Act
+    const result = await ProductQRService.verify(qrCode);
+
+    // Assert
+    expect(result).toMatchObject({ status: "DETAILS_CHANGED", valid: true, likelyCounterfeit: false });
+  });
+
+  it("should render PNG and SVG images", async () => {
+    // Act
+    const png = await ProductQRService.generate(product as any, "png");
+    const svg = await ProductQRService.generate(product as any, "svg");
+
+    // Assert
+    expect((png.image as Buffer).subarray(1, 4).toString()).toBe("PNG");
+    expect(svg.image).toContain("<svg");
+  });
+});
@@ -0,0 +1,128 @@
+const queryBuilder = {
+  where: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  getMany: jest.fn(),
+};
+
+jest.mock("../typeorm/data-source", () => ({
+  RecallRepo: {
+    create: jest.fn((data) => data),
+    save: jest.fn(async (data) => ({ _id: "recall-uuid", ...data })),
+    findOne: jest.fn(),
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  },
+  ProductRepo: {
+    findOne: jest.fn(),
+  },
+}));
+
+import { ProductRepo, RecallRepo } from "../typeorm/data-source";
+import { RecallService } from "../services/recallService";
+import CustomError from "../utils/CustomError";
+
+describe("Lot Recalls", () => {
+  const productId = "6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f";
+  const recall = {
+    _id: "recall-uuid",
+    productId,
+    CFPRNumber: "CFPR-2021-1234",
+    lotNumbers: ["L2301", "L2302"],
+    reason: "Aflatoxin above the allowed limit",
+    effectiveDate: "2026-10-01",
+    status: "ACTIVE",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should store the product's CFPR number and uppercase lots on create", async () => {
+    // Arrange
+    (ProductRepo.findOne as jest.Mock).mockResolvedValue({ _id: productId, CFPRNumber: "CFPR-2021-1234" });
+
+    // Act
+    const created = await RecallService.create(
+      {
+        productId,
+        lotNumbers: ["l2301", "L2301", "l2302"],
+        reason: "Aflatoxin above the allowed limit",
+        effectiveDate: new Date("2026-10-01"),
+      },
+      "admin-uuid"
+    );
+
+    // Assert
+    expect(created).toMatchObject({
+      productId,
+      CFPRNumber: "CFPR-2021-1234",
+      normalizedCFPR: "20211234",
+      lotNumbers: ["L2301", "L2302"],
+      status: "ACTIVE",
+      createdById: "admin-uuid",
+    });
+  });
+
+  it("should reject a recall for an unknown product", async () => {
+    // Arrange
+    (ProductRepo.findOne as jest.Mock).mockResolvedValue(null);
+
+    // Act & Assert
+    await expect(
+      RecallService.create(
+        { productId, lotNumbers: ["L2301"], reason: "Mislabeled", effectiveDate: new Date() },
+      )
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it("should warn when the scanned lot is recalled, ignoring OCR confusions", async () => {
+    // Arrange
+    queryBuilder.getMany.mockResolvedValue([recall]);
+
+    // Act
+    const warning = await RecallService.checkScannedLot(
+      { productId, CFPRNumbers: ["CFPR-2021-1234"], lotNumber: "l-23O2" },
+      new Date("2026-10-19T02:00:00Z")
+    );
+
+    // Assert
+    expect(warning).toMatchObject({
+      recalled: true,
+      lotNumber: "l-23O2",
+      message: "Lot l-23O2 is under recall since 2026-10-01: Aflatoxin above the allowed limit",
+      recalls: [{ _id: "recall-uuid", lotNumbers: ["L2301", "L2302"] }],
+    });
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith("recall.effectiveDate <= :today", { today: "2026-10-19" });
+  });
+
+  it("should not warn for other lots of a recalled product", async () => {
+    // Arrange
+    queryBuilder.getMany.mockResolvedValue([recall]);
+
+    // Act
+    const warning = await RecallService.checkScannedLot({ productId, lotNumber: "L2399" });
+
+    // Assert
+    expect(warning).toBeNull();
+  });
+
+  it("should not query when no lot number was read", async () => {
+    // Act
+    const warning = await RecallService.checkScannedLot({ productId, lotNumber: "Unknown" });
+
+    // Assert
+    expect(warning).toBeNull();
+    expect(RecallRepo.createQueryBuilder).not.toHaveBeenCalled();
+  });
+
+  it("should not close a recall twice", async () => {
+    // Arrange
+    (RecallRepo.findOne as jest.Mock).mockResolvedValue({ ...recall, status: "CLOSED" });
+
+    // Act
+    const closing = RecallService.close("recall-uuid", "admin-uuid");
+
+    // Assert
+    await expect(closing).rejects.toBeInstanceOf(CustomError);
+    await expect(closing).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
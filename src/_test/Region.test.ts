@@ -0,0 +1,216 @@
+jest.mock("../typeorm/data-source", () => ({
+  DB: { transaction: jest.fn() },
+  ComplianceReportRepo: {
+    find: jest.fn(),
+    update: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  },
+  RegionRepo: {
+    find: jest.fn(),
+    create: jest.fn((region) => region),
+    save: jest.fn((regions) => regions),
+    createQueryBuilder: jest.fn(),
+  },
+}));
+
+import { In } from "typeorm";
+import { ComplianceReportRepo, DB, RegionRepo } from "../typeorm/data-source";
+import { ComplianceReport } from "../typeorm/entities/complianceReport.entity";
+import { Region } from "../typeorm/entities/region.entity";
+import { containingRegions, parseBoundaries, RegionService, RegionShape } from "../services/regionService";
+
+const square = (minLng: number, minLat: number, maxLng: number, maxLat: number) => ({
+  type: "Polygon" as const,
+  coordinates: [
+    [
+      [minLng, minLat],
+      [maxLng, minLat],
+      [maxLng, maxLat],
+      [minLng, maxLat],
+      [minLng, minLat],
+    ],
+  ],
+});
+
+const shape = (_id: string, level: RegionShape["level"], bounds: [number, number, number, number], code = _id) => ({
+  _id,
+  code,
+  level,
+  geometry: square(...bounds),
+  minLng: bounds[0],
+  minLat: bounds[1],
+  maxLng: bounds[2],
+  maxLat: bounds[3],
+});
+
+const queryBuilder = (result: unknown, raw = false) => {
+  const qb: Record<string, jest.Mock> = {};
+  ["select", "addSelect", "where", "andWhere", "groupBy", "addGroupBy", "orderBy", "limit"].forEach(
+    (method) => (qb[method] = jest.fn(() => qb))
+  );
+  qb[raw ? "getRawMany" : "getMany"] = jest.fn().mockResolvedValue(result);
+  return qb;
+};
+
+describe("Regions", () => {
+  const ncr = shape("ncr-uuid", "REGION", [120.9, 14.35, 121.15, 14.8]);
+  const manila = shape("manila-uuid", "PROVINCE", [120.95, 14.55, 121.02, 14.64]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should read boundary names and codes and list every unusable feature", () => {
+    // Arrange
+    const feature = (properties: Record<string, unknown>) => ({
+      type: "Feature",
+      properties,
+      geometry: square(120.95, 14.55, 121.02, 14.64),
+    });
+
+    // Act
+    const [boundary] = parseBoundaries(
+      { type: "FeatureCollection", features: [feature({ NAME: "Manila", PSGC: 1339, REG: "13" })] },
+      { level: "PROVINCE", nameProperty: "NAME", codeProperty: "PSGC", parentCodeProperty: "REG" }
+    );
+
+    // Assert
+    expect(boundary).toMatchObject({ name: "Manila", code: "1339", parentCode: "13", bbox: [120.95, 14.55, 121.02, 14.64] });
+    expect(() =>
+      parseBoundaries(
+        {
+          type: "FeatureCollection",
+          features: [
+            {
+              type: "Feature",
+              properties: { name: "Manila", code: "1339" },
+              geometry: { type: "Polygon", coordinates: [[[120.95, 14.55], [121.02, 14.55], [121.02, 14.64], [120.95, 14.64]]] },
+            },
+            {
+              type: "Feature",
+              properties: { name: "Pasig", code: "1374" },
+              geometry: { type: "Polygon", coordinates: [[[121.1, 14.6], [200, 14.6], [121.1, 14.5], [121.1, 14.6]]] },
+            },
+          ],
+        },
+        { level: "PROVINCE", nameProperty: "name", codeProperty: "code" }
+      )
+    ).toThrow(
+      expect.objectContaining({
+        data: {
+          errors: expect.arrayContaining([
+            expect.objectContaining({ message: "A ring must end at its first position" }),
+            expect.objectContaining({ path: ["features", 1, "geometry", "coordinates", 0, 1, 0] }),
+          ]),
+        },
+      })
+    );
+    expect(() =>
+      parseBoundaries(
+        { type: "FeatureCollection", features: [feature({ name: "Manila" }), feature({ name: "A", code: "1" }), feature({ name: "B", code: "1" })] },
+        { level: "PROVINCE", nameProperty: "name", codeProperty: "code" }
+      )
+    ).toThrow(
+      expect.objectContaining({
+        statusCode: 400,
+        data: { errors: ["Feature 0 has no 'code' property", "Feature 2 repeats code 1"] },
+      })
+    );
+  });
+
+  it("should assign a point to the boundary of each level containing it", () => {
+    // Arrange: a triangle whose bounding box covers the point but whose shape does not
+    const triangle = {
+      ...shape("triangle-uuid", "MUNICIPALITY", [120.95, 14.55, 121.02, 14.64]),
+      geometry: { type: "Polygon" as const, coordinates: [[[120.95, 14.55], [121.02, 14.55], [120.95, 14.64], [120.95, 14.55]]] },
+    };
+
+    // Act & Assert
+    expect(containingRegions([ncr, manila, triangle], 121.01, 14.63)).toEqual({
+      regionId: "ncr-uuid",
+      provinceId: "manila-uuid",
+      municipalityId: null,
+    });
+    expect(containingRegions([ncr, manila], 125.6, 7.07)).toEqual({
+      regionId: null,
+      provinceId: null,
+      municipalityId: null,
+    });
+  });
+
+  it("should link uploaded provinces to their region and reassign reports in the same transaction", async () => {
+    // Arrange
+    (RegionRepo.createQueryBuilder as jest.Mock).mockReturnValueOnce(queryBuilder([ncr]));
+    (RegionRepo.find as jest.Mock).mockResolvedValue([]);
+    const uploaded = queryBuilder([]);
+    uploaded.from = jest.fn(() => uploaded);
+    uploaded.getQuery = jest.fn(() => "(subquery)");
+    const batches = [
+      [
+        { _id: "report-1", location: { latitude: 14.6, longitude: 121.0 }, provinceId: null },
+        { _id: "report-2", location: { latitude: 14.61, longitude: 121.01 }, provinceId: null },
+        { _id: "report-3", location: { latitude: 7.07, longitude: 125.6 }, provinceId: "manila-uuid" },
+      ],
+      [],
+    ];
+    const reports = queryBuilder([]);
+    reports.subQuery = jest.fn(() => uploaded);
+    reports.clone = jest.fn(() => queryBuilder(batches.shift()));
+    const manager = {
+      save: jest.fn(async (_entity, regions) => regions.map((region: object) => ({ _id: "manila-uuid", ...region }))),
+      getRepository: jest.fn(() => ({ createQueryBuilder: () => queryBuilder([ncr, manila]) })),
+      createQueryBuilder: jest.fn(() => reports),
+      update: jest.fn(),
+    };
+    (DB.transaction as jest.Mock).mockImplementation(async (work) => work(manager));
+    const body = {
+      type: "FeatureCollection",
+      features: [{ type: "Feature", properties: { name: "Manila", code: "1339" }, geometry: manila.geometry }],
+    };
+
+    // Act
+    const result = await RegionService.upload(body, { level: "PROVINCE", nameProperty: "name", codeProperty: "code" });
+
+    // Assert
+    expect(manager.save).toHaveBeenCalledWith(
+      Region,
+      [expect.objectContaining({ code: "1339", level: "PROVINCE", parentId: "ncr-uuid", minLng: 120.95, maxLat: 14.64 })],
+      { chunk: 50 }
+    );
+    expect(reports.where).toHaveBeenCalledWith("(report.provinceId IN (:...regionIds) OR EXISTS (subquery))", {
+      regionIds: ["manila-uuid"],
+    });
+    expect(manager.update).toHaveBeenCalledTimes(2);
+    expect(manager.update).toHaveBeenCalledWith(ComplianceReport, { _id: In(["report-1", "report-2"]) }, { provinceId: "manila-uuid" });
+    expect(manager.update).toHaveBeenCalledWith(ComplianceReport, { _id: In(["report-3"]) }, { provinceId: null });
+    expect(ComplianceReportRepo.update).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ created: 1, updated: 0, unmatchedParents: [], reports: { scanned: 3, changed: 3 } });
+  });
+
+  it("should count reports and non-compliance rates per boundary", async () => {
+    // Arrange
+    (RegionRepo.find as jest.Mock).mockResolvedValue([
+      { _id: "manila-uuid", name: "Manila", code: "1339", parentId: "ncr-uuid" },
+      { _id: "pasig-uuid", name: "Pasig", code: "1374", parentId: "ncr-uuid" },
+    ]);
+    const qb = queryBuilder(
+      [
+        { regionId: "manila-uuid", status: "COMPLIANT", reason: null, count: "3" },
+        { regionId: "manila-uuid", status: "FRAUDULENT", reason: "COUNTERFEIT", count: "1" },
+        { regionId: null, status: "NON_COMPLIANT", reason: "MISLABELED", count: "2" },
+      ],
+      true
+    );
+    (ComplianceReportRepo.createQueryBuilder as jest.Mock).mockReturnValue(qb);
+
+    // Act
+    const rollup = await RegionService.rollup({ level: "PROVINCE" });
+
+    // Assert
+    expect(qb.select).toHaveBeenCalledWith("report.provinceId", "regionId");
+    expect(rollup.regions[0]).toMatchObject({ name: "Manila", total: 4, nonComplianceRate: 25 });
+    expect(rollup.regions[0].byReason.COUNTERFEIT).toBe(1);
+    expect(rollup.regions[1]).toMatchObject({ name: "Pasig", total: 0, nonComplianceRate: null });
+    expect(rollup.unassigned).toMatchObject({ total: 2, byStatus: { NON_COMPLIANT: 2 } });
+  });
+});
@@ -0,0 +1,139 @@
+jest.mock("../typeorm/data-source", () => ({
+  DB: { transaction: jest.fn() },
+  ProductRepo: { createQueryBuilder: jest.fn() },
+  RegistryEntryRepo: { find: jest.fn(), findOne: jest.fn() },
+  RegistryImportRepo: { findOne: jest.fn() },
+}));
+
+import { DB, ProductRepo } from "../typeorm/data-source";
+import { RegistryService } from "../services/registryService";
+import { diffRegistrySnapshots, RegistrySnapshotRow } from "../utils/registryDiff";
+import { RegistryRow } from "../utils/registryParser";
+
+describe("Registry Diff", () => {
+  const row = (CFPRNumber: string, overrides: Partial<RegistrySnapshotRow> = {}): RegistrySnapshotRow => ({
+    normalizedCFPR: CFPRNumber.replace(/\D/g, ""),
+    CFPRNumber,
+    productName: "Grower Mash",
+    brandName: "Champion",
+    companyName: "Champion Agri Corp.",
+    validUntil: "2027-01-01",
+    ...overrides,
+  });
+
+  it("should list added, removed and changed entries", () => {
+    // Arrange
+    const before = [row("2021-0001"), row("2021-0002"), row("2021-0003", { validUntil: new Date("2026-06-30") })];
+    const after = [
+      row("2021-0001"),
+      row("2021-0003", { validUntil: "2027-06-30", brandName: "Champion Plus" }),
+      row("2021-0004", { productName: "Layer Pellets" }),
+    ];
+
+    // Act
+    const diff = diffRegistrySnapshots(before, after);
+
+    // Assert
+    expect(diff.added.map((entry) => entry.CFPRNumber)).toEqual(["2021-0004"]);
+    expect(diff.removed.map((entry) => entry.CFPRNumber)).toEqual(["2021-0002"]);
+    expect(diff.changed).toEqual([
+      {
+        CFPRNumber: "2021-0003",
+        normalizedCFPR: "20210003",
+        productName: "Grower Mash",
+        changes: [
+          { field: "brandName", before: "Champion", after: "Champion Plus" },
+          { field: "validUntil", before: "2026-06-30", after: "2027-06-30" },
+        ],
+      },
+    ]);
+    expect(diff.duplicates).toEqual([]);
+  });
+
+  it("should report duplicate CFPR numbers and compare the latest valid entry", () => {
+    // Arrange
+    const before = [row("2021-0001", { validUntil: "2027-01-01" })];
+    const older = row("2021-0001", { validUntil: "2026-01-01", productName: "Old Grower Mash" });
+    const undated = row("2021-0001", { validUntil: null, productName: "Undated Grower Mash" });
+    const latest = row("2021-0001", { validUntil: "2027-01-01" });
+
+    // Act
+    const diff = diffRegistrySnapshots(before, [older, undated, latest]);
+
+    // Assert
+    expect(diff.changed).toEqual([]);
+    expect(diff.duplicates).toEqual([{ normalizedCFPR: "20210001", kept: latest, ignored: [older, undated] }]);
+  });
+
+  it("should number and diff an import against the latest edition read under the import lock", async () => {
+    // Arrange
+    const calls: string[] = [];
+    const manager = {
+      query: jest.fn(async () => calls.push("lock")),
+      findOne: jest.fn(async () => {
+        calls.push("previous");
+        return { _id: "import-2", version: 2 };
+      }),
+      getRepository: jest.fn(() => ({ find: jest.fn().mockResolvedValue([row("2021-0001"), row("2021-0002")]) })),
+      create: jest.fn((_entity, data) => data),
+      save: jest.fn(async (entityOrData, data?) => (data ? data : { _id: "import-3", ...entityOrData })),
+    };
+    (DB.transaction as jest.Mock).mockImplementation(async (work) => work(manager));
+
+    const importedRow = (CFPRNumber: string, productName: string): RegistryRow => ({
+      productClassification: null,
+      subClassification: null,
+      CFPRNumber,
+      brandName: "Champion",
+      productName,
+      companyName: "Champion Agri Corp.",
+      validUntil: new Date("2027-01-01"),
+    });
+
+    // Act
+    const registryImport = await RegistryService.importRows(
+      [
+        importedRow("2021-0001", "Grower Mash"),
+        importedRow("2021-0005", "Starter Crumble"),
+        importedRow("2021-0005", "Starter Crumble"),
+      ],
+      "registry-2026.csv"
+    );
+
+    // Assert
+    expect(calls).toEqual(["lock", "previous"]);
+    expect(manager.query).toHaveBeenCalledWith("SELECT pg_advisory_xact_lock($1)", [expect.any(Number)]);
+    expect(registryImport).toMatchObject({
+      version: 3,
+      totalEntries: 3,
+      addedCount: 1,
+      removedCount: 1,
+      changedCount: 0,
+      duplicateCount: 1,
+    });
+  });
+
+  it("should look up affected products by normalized CFPR number in the query", async () => {
+    // Arrange
+    const product = { _id: "product-1", CFPRNumber: "CFPR No. 2021-0002", productName: "Grower Mash" };
+    const qb = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([product]),
+    };
+    (ProductRepo.createQueryBuilder as jest.Mock).mockReturnValue(qb);
+    const diff = diffRegistrySnapshots(
+      [row("2021-0002"), row("2021-0003")],
+      [row("2021-0003", { validUntil: "2028-01-01" })]
+    );
+
+    // Act
+    const affected = await RegistryService.findAffectedProducts(diff);
+
+    // Assert
+    expect(qb.where).toHaveBeenCalledWith(expect.stringContaining("IN (:...cfprs)"), {
+      cfprs: ["20210002", "20210003"],
+    });
+    expect(affected).toEqual([{ product, changeType: "REMOVED" }]);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  parseCsvTable,
+  parseRegistryCsv,
+  parseRegistryPdfText,
+} from "../utils/registryParser";
+
+describe("Registry Parser", () => {
+  describe("parseCsvTable", () => {
+    it("should handle quoted cells with commas, quotes and line breaks", () => {
+      // Act
+      const rows = parseCsvTable('a,"b, c","say ""hi"""\r\n"multi\nline",x,y');
+
+      // Assert
+      expect(rows).toEqual([
+        ["a", "b, c", 'say "hi"'],
+        ["multi\nline", "x", "y"],
+      ]);
+    });
+  });
+
+  describe("parseRegistryCsv", () => {
+    it("should map the official registry columns to rows", () => {
+      // Arrange
+      const csv = [
+        "PRODUCT CLASSIFICATION,SUB CLASSIFICATION,CFPR NUMBER,BRAND NAME,NAME OF THE PRODUCT,COMPANY NAME,VALID UNTIL",
+        'Commercial Feeds,Hog Feeds,CFPR-2021-1234,Champion,Champion Grower Mash,"Champion Agri Corp., Inc.",03/15/2027',
+        "Commercial Feeds,Layer Feeds,,Golden,Golden Layer Pellets,Golden Feeds,2026-01-01",
+      ].join("\n");
+
+      // Act
+      const result = parseRegistryCsv(csv);
+
+      // Assert
+      expect(result.rows).toEqual([
+        {
+          productClassification: "Commercial Feeds",
+          subClassification: "Hog Feeds",
+          CFPRNumber: "CFPR-2021-1234",
+          brandName: "Champion",
+          productName: "Champion Grower Mash",
+          companyName: "Champion Agri Corp., Inc.",
+          validUntil: new Date("2027-03-15T00:00:00Z"),
+        },
+      ]);
+      expect(result.skipped).toEqual([{ line: 3, reason: "Missing CFPR number" }]);
+    });
+
+    it("should skip rows that come before the header", () => {
+      // Act
+      const result = parseRegistryCsv("Bureau of Animal Industry\nCFPR NUMBER,PRODUCT NAME\nA-1234,Feed X");
+
+      // Assert
+      expect(result.rows).toHaveLength(1);
+      expect(result.skipped).toEqual([{ line: 1, reason: "Row before header" }]);
+    });
+  });
+
+  describe("parseRegistryPdfText", () => {
+    it("should split layout text on wide column gaps", () => {
+      // Arrange
+      const text = [
+        "PRODUCT CLASSIFICATION   SUB CLASSIFICATION   CFPR NUMBER   BRAND NAME   NAME OF THE PRODUCT   COMPANY NAME   VALID UNTIL",
+        "Commercial Feeds   Gamecock Feeds   CFPR-2019-5678   Thunderbird   Thunderbird Conditioning Pellets   Thunderbird Feeds Inc.   30-JUN-2024",
+        "Page 1 of 200",
+      ].join("\n");
+
+      // Act
+      const result = parseRegistryPdfText(text);
+
+      // Assert
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0]).toEqual(
+        expect.objectContaining({
+          CFPRNumber: "CFPR-2019-5678",
+          productName: "Thunderbird Conditioning Pellets",
+          validUntil: new Date("2024-06-30T00:00:00Z"),
+        })
+      );
+      expect(result.skipped).toEqual([{ line: 3, reason: "Not a registry row" }]);
+    });
+  });
+});
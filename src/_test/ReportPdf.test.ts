@@ -0,0 +1,117 @@
+const queryBuilder = {
+  leftJoin: jest.fn().mockReturnThis(),
+  addSelect: jest.fn().mockReturnThis(),
+  leftJoinAndSelect: jest.fn().mockReturnThis(),
+  andWhere: jest.fn().mockReturnThis(),
+  orderBy: jest.fn().mockReturnThis(),
+  addOrderBy: jest.fn().mockReturnThis(),
+  select: jest.fn().mockReturnThis(),
+  groupBy: jest.fn().mockReturnThis(),
+  addGroupBy: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  getManyAndCount: jest.fn(),
+  getRawMany: jest.fn(),
+};
+
+jest.mock("../typeorm/data-source", () => ({
+  ComplianceReportRepo: {
+    findOne: jest.fn(),
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  },
+}));
+
+import QRCode from "qrcode";
+import { ComplianceReportRepo } from "../typeorm/data-source";
+import { ReportPdfService, fieldLabel } from "../services/reportPdfService";
+import CustomError from "../utils/CustomError";
+
+const IMAGE_URL =
+  "https://firebasestorage.googleapis.com/v0/b/rcv-flutter.firebasestorage.app/o/scans%2Ffront.png?alt=media";
+
+describe("Report PDFs", () => {
+  const report = {
+    _id: "1b2c3d4e-5f60-4718-9a0b-1c2d3e4f5a6b",
+    agentId: "agent-uuid",
+    agent: { firstName: "Juan", lastName: "Dela Cruz", badgeId: "BAI-0042" },
+    status: "FRAUDULENT",
+    nonComplianceReason: "COUNTERFEIT",
+    scannedData: { productName: "Fake Feeds", CFPRNumber: "FR-4000-1234" },
+    productSearchResult: null,
+    product: null,
+    additionalNotes: "Seal was tampered",
+    frontImageUrl: IMAGE_URL,
+    backImageUrl: "https://example.com/back.png",
+    location: { latitude: 14.6760, longitude: 121.0437, address: "Quezon City" },
+    capturedAt: null,
+    caseId: null,
+    createdAt: new Date("2026-10-01T02:00:00Z"),
+  };
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("should render the inspection report and only download images from our bucket", async () => {
+    // Arrange
+    (ComplianceReportRepo.findOne as jest.Mock).mockResolvedValue(report);
+    const png = await QRCode.toBuffer("front label");
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      arrayBuffer: async () => png.buffer.slice(png.byteOffset, png.byteOffset + png.byteLength),
+    }) as unknown as typeof fetch;
+
+    // Act
+    const pdf = await ReportPdfService.inspectionReport(report._id);
+
+    // Assert
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(pdf.toString("latin1")).toContain("Fraudulent");
+    expect(pdf.toString("latin1")).toContain("Juan Dela Cruz");
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(IMAGE_URL);
+  });
+
+  it("should throw 404 for an unknown report", async () => {
+    // Arrange
+    (ComplianceReportRepo.findOne as jest.Mock).mockResolvedValue(null);
+
+    // Act & Assert
+    await expect(ReportPdfService.inspectionReport(report._id)).rejects.toMatchObject(
+      new CustomError(404, "Compliance report not found")
+    );
+  });
+
+  it("should total every matching report in the summary, not only the listed rows", async () => {
+    // Arrange
+    queryBuilder.getManyAndCount.mockResolvedValue([[report], 12]);
+    queryBuilder.getRawMany.mockResolvedValue([
+      { status: "COMPLIANT", reason: null, count: "9" },
+      { status: "FRAUDULENT", reason: "COUNTERFEIT", count: "3" },
+    ]);
+
+    // Act
+    const pdf = await ReportPdfService.summaryReport({
+      from: new Date("2026-10-01T00:00:00+08:00"),
+      to: new Date("2026-10-31T23:59:59+08:00"),
+      sort: "reportedAt",
+      order: "desc",
+    });
+
+    // Assert
+    const text = pdf.toString("latin1");
+    expect(text).toContain("2026-10-01 to 2026-10-31");
+    expect(text).toContain("Showing the first 1 of 12 reports");
+    expect(queryBuilder.groupBy).toHaveBeenCalledWith("report.status");
+  });
+
+  it("should label camelCase scanned fields for print", () => {
+    // Act & Assert
+    expect(fieldLabel("expirationDate")).toBe("Expiration date");
+    expect(fieldLabel("CFPRNumber")).toBe("CFPR number");
+  });
+});
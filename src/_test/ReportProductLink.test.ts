@@ -0,0 +1,64 @@
+jest.mock("../typeorm/data-source");
+
+import { buildProductIndex, matchReportProduct } from "../services/complianceReportService";
+
+describe("Compliance Report Product Links", () => {
+  const product = (overrides: Record<string, any>) => ({
+    _id: "product-a",
+    CFPRNumber: "CFPR-2021-1234",
+    LTONumber: "LTO-3000-0001",
+    lotNumber: "L2301",
+    companyId: "company-1",
+    brandNameId: "brand-1",
+    ...overrides,
+  });
+
+  const index = buildProductIndex([
+    product({}),
+    product({ _id: "product-b", lotNumber: "L2302" }),
+    product({ _id: "product-c", CFPRNumber: "FR-4000-5555", LTONumber: "LTO-3000-0009", brandNameId: null }),
+    product({ _id: "product-d", CFPRNumber: "FR-4000-7777", LTONumber: "LTO-3000-0010", lotNumber: "A1" }),
+    product({ _id: "product-e", CFPRNumber: "FR-4000-7777", LTONumber: "LTO-3000-0010", lotNumber: "A2", companyId: "company-2" }),
+  ]);
+
+  it("should prefer the product the agent picked", () => {
+    // Act
+    const link = matchReportProduct(
+      { scannedData: { CFPRNumber: "FR-4000-5555" }, productSearchResult: { productId: "product-b" } },
+      index
+    );
+
+    // Assert
+    expect(link).toEqual({ productId: "product-b", companyId: "company-1", brandNameId: "brand-1" });
+  });
+
+  it("should match the label's CFPR number despite OCR noise and fall back to the LTO number", () => {
+    // Act & Assert
+    expect(matchReportProduct({ scannedData: { CFPRNumber: "cfpr fr 4000 5555" } }, index)).toMatchObject({
+      productId: "product-c",
+      brandNameId: null,
+    });
+    expect(matchReportProduct({ scannedData: { LTONumber: "LTO-3000-0009" } }, index)).toMatchObject({
+      productId: "product-c",
+    });
+  });
+
+  it("should use the lot number to choose between lots, or link only the shared company", () => {
+    // Act & Assert
+    expect(
+      matchReportProduct({ scannedData: { CFPRNumber: "CFPR-2021-1234", lotNumber: "l2302" } }, index)
+    ).toMatchObject({ productId: "product-b" });
+    expect(matchReportProduct({ scannedData: { CFPRNumber: "CFPR-2021-1234" } }, index)).toEqual({
+      productId: null,
+      companyId: "company-1",
+      brandNameId: "brand-1",
+    });
+  });
+
+  it("should not link lots registered to different companies or unknown codes", () => {
+    // Act & Assert
+    expect(matchReportProduct({ scannedData: { CFPRNumber: "FR-4000-7777" } }, index)).toBeNull();
+    expect(matchReportProduct({ scannedData: { CFPRNumber: "FR-9999-0000" } }, index)).toBeNull();
+    expect(matchReportProduct({ scannedData: { CFPRNumber: "12" } }, index)).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  extractLabelFields,
+  correctRegistrationCode,
+  parseLabelDate,
+  crossCheckFields,
+} from "../services/ruleBasedExtractor";
+
+const sampleLabel = `CHAMPION FEEDS
+Product Name: Champion Grower Mash
+Net Wt. 25 kg
+LTO No.: LTO-R4A-2O21-0045
+CFPR No. 1234-5678 Net Wt 25kg
+Manufactured by: Champion Agri Corp., Batangas City
+Exp. Date: 31-DEC-2025`;
+
+describe("Rule-based Label Extractor", () => {
+  describe("correctRegistrationCode", () => {
+    it("should correct O/I/S confusions in numeric groups", () => {
+      // Act
+      const result = correctRegistrationCode("2O2I-OO45 S678");
+
+      // Assert
+      expect(result).toEqual({ value: "2021-0045-5678", corrected: true });
+    });
+
+    it("should keep letters in region prefixes", () => {
+      // Act
+      const result = correctRegistrationCode("lto-r4a-2021");
+
+      // Assert
+      expect(result).toEqual({ value: "LTO-R4A-2021", corrected: false });
+    });
+  });
+
+  describe("parseLabelDate", () => {
+    it.each([
+      ["2025-12-31", "2025-12-31"],
+      ["12/31/2025", "2025-12-31"],
+      ["31/12/2025", "2025-12-31"],
+      ["31-DEC-2025", "2025-12-31"],
+      ["December 31, 2025", "2025-12-31"],
+      ["DEC 2025", "2025-12-31"],
+      ["3O/O6/2O26", "2026-06-30"],
+    ])("should parse %s", (raw, expected) => {
+      // Act
+      const result = parseLabelDate(raw);
+
+      // Assert
+      expect(result?.value).toBe(expected);
+    });
+
+    it("should flag dates that could be day-first or month-first", () => {
+      // Act
+      const result = parseLabelDate("05/06/2026");
+
+      // Assert
+      expect(result).toEqual({ value: "2026-05-06", ambiguous: true });
+    });
+
+    it("should return null for text without a date", () => {
+      expect(parseLabelDate("see bottom of bag")).toBeNull();
+    });
+  });
+
+  describe("extractLabelFields", () => {
+    it("should extract every field from a readable label", () => {
+      // Act
+      const fields = extractLabelFields(sampleLabel);
+
+      // Assert
+      expect(fields.productName.value).toBe("Champion Grower Mash");
+      expect(fields.LTONum.value).toBe("LTO-R4A-2021-0045");
+      expect(fields.LTONum.confidence).toBeLessThan(0.9); // O was corrected to 0
+      expect(fields.CFPRNum).toEqual({ value: "1234-5678", confidence: 0.9, source: "rules" });
+      expect(fields.ManufacturedBy.value).toBe("Champion Agri Corp., Batangas City");
+      expect(fields.ExpiryDate.value).toBe("2025-12-31");
+    });
+
+    it("should read the manufacturer from the next line when the label line is empty", () => {
+      // Act
+      const fields = extractLabelFields("Mfg. by:\nGolden Feeds Inc.\n");
+
+      // Assert
+      expect(fields.ManufacturedBy.value).toBe("Golden Feeds Inc.");
+    });
+
+    it("should read the lot number", () => {
+      // Act
+      const fields = extractLabelFields("Lot No.: l2301-a7\nNet Wt. 25 kg");
+
+      // Assert
+      expect(fields.LotNum.value).toBe("L2301-A7");
+    });
+
+    it("should return empty fields for unreadable text", () => {
+      // Act
+      const fields = extractLabelFields("@@ ## !!");
+
+      // Assert
+      Object.values(fields).forEach(field => {
+        expect(field).toEqual({ value: null, confidence: 0, source: null });
+      });
+    });
+  });
+
+  describe("crossCheckFields", () => {
+    it("should use rule-based fields only when the AI is unavailable", () => {
+      // Arrange
+      const rules = extractLabelFields(sampleLabel);
+
+      // Act
+      const merged = crossCheckFields(null, rules);
+
+      // Assert
+      expect(merged).toEqual(rules);
+    });
+
+    it("should boost confidence when both extractors agree", () => {
+      // Arrange
+      const rules = extractLabelFields(sampleLabel);
+
+      // Act
+      const merged = crossCheckFields({ CFPRNum: "1234 5678", ExpiryDate: "2025-12-31" }, rules);
+
+      // Assert
+      expect(merged.CFPRNum.source).toBe("ai+rules");
+      expect(merged.CFPRNum.confidence).toBeGreaterThan(0.9);
+      expect(merged.ExpiryDate.source).toBe("ai+rules");
+    });
+
+    it("should record the other value when the extractors disagree", () => {
+      // Arrange
+      const rules = extractLabelFields(sampleLabel);
+
+      // Act
+      const merged = crossCheckFields({ CFPRNum: "9999-0000" }, rules);
+
+      // Assert
+      expect(merged.CFPRNum.value).toBe("1234-5678");
+      expect(merged.CFPRNum.conflict).toBe("9999-0000");
+      expect(merged.CFPRNum.confidence).toBeLessThan(0.9);
+    });
+
+    it("should treat 'Unknown' from the AI as missing", () => {
+      // Act
+      const merged = crossCheckFields(
+        { productName: "Unknown", LTONum: "LTO-1234" },
+        extractLabelFields("")
+      );
+
+      // Assert
+      expect(merged.productName.value).toBeNull();
+      expect(merged.LTONum).toEqual({ value: "LTO-1234", confidence: 0.8, source: "ai" });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+jest.mock("../typeorm/data-source", () => ({
+  ScanRepo: {
+    create: jest.fn((data) => data),
+    save: jest.fn(),
+    findOne: jest.fn(),
+  },
+}));
+jest.mock("../services/aiProcess");
+
+import { ScanRepo } from "../typeorm/data-source";
+import { ExtractLabel } from "../services/aiProcess";
+import { ScanHistoryService } from "../services/scanHistoryService";
+import { ScanVerdict } from "../services/scanVerdictService";
+import { ScanResult } from "../types/enums";
+
+describe("Scan History", () => {
+  const agent = { _id: "agent-uuid-123" } as any;
+  const frontImageUrl =
+    "https://firebasestorage.googleapis.com/v0/b/rcv-flutter.firebasestorage.app/o/scans/front.jpg?alt=media";
+  const field = (value: string | null) => ({ value, source: "rules" });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ScanRepo.save as jest.Mock).mockImplementation(async (data) => ({
+      _id: "scan-uuid",
+      createdAt: new Date("2026-03-01T00:31:00Z"),
+      ...data,
+    }));
+    (ExtractLabel as jest.Mock).mockResolvedValue({
+      product: {
+        productName: "Champion Grower Mash",
+        LTONum: "LTO-3000-123",
+        CFPRNum: "CFPR-2021-1234",
+        ExpiryDate: "Unknown",
+        ManufacturedBy: "Champion Agri Corp.",
+      },
+      fields: {
+        productName: field("Champion Grower Mash"),
+        LTONum: field("LTO-3000-123"),
+        CFPRNum: field("CFPR-2021-1234"),
+        ExpiryDate: field(null),
+        ManufacturedBy: field("Champion Agri Corp."),
+        LotNum: field("L-0423"),
+      },
+      aiAvailable: false,
+    });
+  });
+
+  it("should save the scan with its agent, location, device time and what was read", async () => {
+    // Arrange
+    const scannedAt = new Date("2026-03-01T00:30:00Z");
+
+    // Act
+    const { scan, extractedInfo } = await ScanHistoryService.processScan({
+      agent,
+      blockOfText: "CHAMPION GROWER MASH CFPR-2021-1234",
+      frontImageUrl,
+      location: { latitude: 14.5995, longitude: 120.9842 },
+      scannedAt,
+    });
+
+    // Assert
+    expect(ScanRepo.save).toHaveBeenCalledTimes(1);
+    expect(scan).toMatchObject({
+      _id: "scan-uuid",
+      scannedBy: agent,
+      userId: "agent-uuid-123",
+      scannedAt,
+      ocrText: "CHAMPION GROWER MASH CFPR-2021-1234",
+      frontImageUrl,
+      backImageUrl: undefined,
+      lat: "14.5995",
+      long: "120.9842",
+    });
+    expect(scan.createdAt).toBeInstanceOf(Date);
+    expect(scan.extractedInfo).toBe(extractedInfo);
+    expect(extractedInfo).toMatchObject({
+      productName: "Champion Grower Mash",
+      CFPRNumber: "CFPR-2021-1234",
+      expirationDate: null,
+      lotNumber: "L-0423",
+    });
+  });
+
+  it("should link the matched product and store the verdict on the agent's scan", async () => {
+    // Arrange
+    const stored = { _id: "scan-uuid", userId: "agent-uuid-123", extractedInfo: { productName: "Champion" } };
+    (ScanRepo.findOne as jest.Mock).mockResolvedValue(stored);
+    const verdict = {
+      scanResult: ScanResult.Expired,
+      reasons: [{ code: "EXPIRED", message: "Product expired on 2026-01-01" }],
+    } as unknown as ScanVerdict;
+
+    // Act
+    const scan = await ScanHistoryService.recordVerdict("scan-uuid", "agent-uuid-123", verdict, "product-uuid");
+
+    // Assert
+    expect(ScanRepo.findOne).toHaveBeenCalledWith({ where: { _id: "scan-uuid", userId: "agent-uuid-123" } });
+    expect(scan).toMatchObject({
+      productId: "product-uuid",
+      scanResult: ScanResult.Expired,
+      remarks: "Product expired on 2026-01-01",
+      extractedInfo: { productName: "Champion", verdict },
+    });
+  });
+
+  it("should reject a scan without OCR text and save nothing", async () => {
+    // Act & Assert
+    await expect(ScanHistoryService.processScan({ agent })).rejects.toMatchObject({ statusCode: 400 });
+    expect(ScanRepo.save).not.toHaveBeenCalled();
+  });
+});
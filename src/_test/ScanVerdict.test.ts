@@ -0,0 +1,107 @@
+import { evaluateScan } from "../services/scanVerdictService";
+import { Product } from "../typeorm/entities/product.entity";
+import { ComplianceStatus, NonComplianceReason, ScanResult } from "../types/enums";
+
+describe("Scan Verdict", () => {
+  const today = new Date("2026-03-01T04:00:00Z");
+  const product: Product = Object.assign(new Product(), {
+    _id: "6f1c2d3e-4b5a-4c6d-8e7f-9a0b1c2d3e4f",
+    productName: "Champion Grower Mash",
+    CFPRNumber: "CFPR-2021-1234",
+    LTONumber: "LTO-3000-123",
+    lotNumber: "L2301",
+    expirationDate: new Date("2027-01-31T00:00:00Z"),
+    isActive: true,
+    validityStatus: "VALID",
+  });
+  const label = {
+    CFPRNumber: "CFPR 2O21-1234",
+    LTONumber: "LTO-3000-123",
+    lotNumber: "L2301",
+    expirationDate: "31/01/2027",
+  };
+
+  it("should mark a label matching its registration as authentic", () => {
+    // Act
+    const verdict = evaluateScan(label, { product }, today);
+
+    // Assert
+    expect(verdict.scanResult).toBe(ScanResult.Authentic);
+    expect(verdict.verdict).toBe("Authentic");
+    expect(verdict.reasons).toEqual([]);
+    expect(verdict.suggestedStatus).toBe(ComplianceStatus.COMPLIANT);
+    expect(verdict.suggestedReason).toBeNull();
+  });
+
+  it("should mark a product past its expiry date as expired", () => {
+    // Act
+    const verdict = evaluateScan({ ...label, expirationDate: "2026-02-28" }, { product }, today);
+
+    // Assert
+    expect(verdict.scanResult).toBe(ScanResult.Expired);
+    expect(verdict.suggestedReason).toBe(NonComplianceReason.EXPIRED_PRODUCT);
+  });
+
+  it("should mark a label whose CFPR number differs as tampered", () => {
+    // Act
+    const verdict = evaluateScan({ ...label, CFPRNumber: "CFPR-2021-9999" }, { product }, today);
+
+    // Assert
+    expect(verdict.scanResult).toBe(ScanResult.Tampered);
+    expect(verdict.reasons[0]).toMatchObject({ code: "CFPR_MISMATCH", expected: "CFPR-2021-1234" });
+    expect(verdict.suggestedStatus).toBe(ComplianceStatus.FRAUDULENT);
+    expect(verdict.suggestedReason).toBe(NonComplianceReason.COUNTERFEIT);
+  });
+
+  it("should flag a one-character OCR misread of the CFPR number for review instead of as counterfeit", () => {
+    // Act
+    const verdict = evaluateScan({ ...label, CFPRNumber: "CFPR-2021-1284" }, { product }, today);
+
+    // Assert
+    expect(verdict.reasons).toEqual([
+      expect.objectContaining({ code: "CFPR_POSSIBLE_MISREAD", expected: "CFPR-2021-1234", actual: "CFPR-2021-1284" }),
+    ]);
+    expect(verdict.suggestedStatus).toBe(ComplianceStatus.NON_COMPLIANT);
+    expect(verdict.suggestedReason).toBe(NonComplianceReason.MISLABELED);
+  });
+
+  it("should report the most severe finding first", () => {
+    // Act
+    const verdict = evaluateScan(
+      { ...label, lotNumber: "X9999", expirationDate: "2025-01-01" },
+      { product: Object.assign(new Product(), product, { isActive: false }) },
+      today
+    );
+
+    // Assert
+    expect(verdict.scanResult).toBe(ScanResult.Unregistered);
+    expect(verdict.reasons.map(reason => reason.code)).toEqual([
+      "PRODUCT_INACTIVE",
+      "LOT_MISMATCH",
+      "EXPIRED",
+    ]);
+  });
+
+  it("should check registry matches against the registration validity", () => {
+    // Act
+    const verdict = evaluateScan(
+      { CFPRNumber: "CFPR-2021-1234", LTONumber: "LTO-3000-123" },
+      { registryEntry: { CFPRNumber: "CFPR-2021-1234", validUntil: "2025-12-31" } },
+      today
+    );
+
+    // Assert
+    expect(verdict.scanResult).toBe(ScanResult.Expired);
+    expect(verdict.reasons[0].code).toBe("REGISTRATION_EXPIRED");
+  });
+
+  it("should suggest a missing CFPR number for an unmatched label without one", () => {
+    // Act
+    const verdict = evaluateScan({ LTONumber: "LTO-3000-123" }, {}, today);
+
+    // Assert
+    expect(verdict.scanResult).toBe(ScanResult.Unregistered);
+    expect(verdict.suggestedStatus).toBe(ComplianceStatus.NON_COMPLIANT);
+    expect(verdict.suggestedReason).toBe(NonComplianceReason.NO_CFPR_NUMBER);
+  });
+});
@@ -0,0 +1,200 @@
+jest.mock("../typeorm/data-source", () => ({
+  ActivityFlagRepo: { find: jest.fn(), save: jest.fn(), create: jest.fn((flag) => flag), createQueryBuilder: jest.fn() },
+  AuditLogRepo: { createQueryBuilder: jest.fn() },
+  ComplianceReportRepo: { createQueryBuilder: jest.fn() },
+  UserRepo: { find: jest.fn() },
+}));
+jest.mock("../services/auditLogService");
+jest.mock("../services/regionService");
+
+import { ActivityFlagRepo, AuditLogRepo, ComplianceReportRepo, UserRepo } from "../typeorm/data-source";
+import { AuditLogService } from "../services/auditLogService";
+import { RegionService } from "../services/regionService";
+import {
+  ActivityReport,
+  detectDuplicateImages,
+  detectImpossibleTravel,
+  detectOutOfArea,
+  detectScanBursts,
+  resolveAssignedAreas,
+  SuspiciousActivityService,
+} from "../services/suspiciousActivityService";
+import { ActivityFlagType } from "../types/enums";
+
+const MINUTE_MS = 60 * 1000;
+
+describe("Suspicious Agent Activity", () => {
+  const start = new Date("2026-10-19T01:00:00Z");
+  let sequence = 0;
+
+  const report = (overrides: Partial<ActivityReport> & { minutes?: number } = {}): ActivityReport => {
+    const { minutes = 0, ...rest } = overrides;
+    sequence++;
+    return {
+      _id: `report-${sequence}`,
+      agentId: "agent-1",
+      reportedAt: new Date(start.getTime() + minutes * MINUTE_MS),
+      lat: 14.5995,
+      lng: 120.9842,
+      frontImageUrl: `https://storage.example.com/front-${sequence}.jpg`,
+      backImageUrl: `https://storage.example.com/back-${sequence}.jpg`,
+      scannedData: { productName: `Feed ${sequence}` },
+      ...rest,
+    };
+  };
+
+  // Square around Quezon City, about 11 km across
+  const quezonCity = {
+    type: "Polygon" as const,
+    coordinates: [[[121.0, 14.6], [121.1, 14.6], [121.1, 14.7], [121.0, 14.7], [121.0, 14.6]]],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sequence = 0;
+  });
+
+  it("should flag moves between reports and location updates faster than travel allows", () => {
+    // Arrange: Manila to Cebu (about 570 km) in 30 minutes, then a short drive within Cebu
+    const manila = report({ minutes: 0 });
+    const cebu = report({ minutes: 30, lat: 10.3157, lng: 123.8854 });
+    const pings = [
+      { _id: "ping-1", agentId: "agent-1", at: new Date(start.getTime() + 90 * MINUTE_MS), lat: 10.33, lng: 123.9 },
+      // GPS noise at the same moment is ignored
+      { _id: "ping-2", agentId: "agent-1", at: new Date(start.getTime() + 90 * MINUTE_MS), lat: 10.331, lng: 123.9 },
+    ];
+
+    // Act
+    const flags = detectImpossibleTravel([manila, cebu], pings);
+
+    // Assert
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({
+      type: ActivityFlagType.IMPOSSIBLE_TRAVEL,
+      severity: "HIGH",
+      reportIds: [manila._id, cebu._id],
+      evidence: { minutes: 30, from: { id: manila._id }, to: { id: cebu._id } },
+    });
+    expect(flags[0].evidence.distanceKm).toBeGreaterThan(500);
+    expect(flags[0].evidence.speedKmh).toBeGreaterThan(1000);
+  });
+
+  it("should flag reused images and bursts of identical scanned data", () => {
+    // Arrange
+    const original = report({ minutes: 0, agentId: "agent-2" });
+    const reused = report({ minutes: 60, backImageUrl: original.frontImageUrl });
+    const sameData = { productName: "Layer Pellets", lotNumber: "L-01" };
+    const burst = [10, 20, 35].map((minutes) => report({ minutes, scannedData: { ...sameData } }));
+    // Same data with keys in another order still counts, but not this long after the burst
+    const later = report({ minutes: 200, scannedData: { lotNumber: "L-01", productName: "Layer Pellets" } });
+
+    // Act
+    const imageFlags = detectDuplicateImages([original, reused, ...burst, later]);
+    const burstFlags = detectScanBursts([original, reused, ...burst, later]);
+
+    // Assert
+    expect(imageFlags).toHaveLength(1);
+    expect(imageFlags[0]).toMatchObject({
+      agentId: "agent-1",
+      reportIds: [original._id, reused._id],
+      evidence: { imageUrl: original.frontImageUrl, agentIds: ["agent-2", "agent-1"] },
+    });
+    expect(imageFlags[0].evidence.reports.map((use: { side: string }) => use.side)).toEqual(["front", "back"]);
+
+    expect(burstFlags).toHaveLength(1);
+    expect(burstFlags[0]).toMatchObject({
+      type: ActivityFlagType.DUPLICATE_SCAN_BURST,
+      reportIds: burst.map((item) => item._id),
+      evidence: { count: 3, spanMinutes: 25 },
+    });
+  });
+
+  it("should flag reports filed far from the agent's assigned boundary or coordinates", () => {
+    // Arrange
+    const { areas, unresolved } = resolveAssignedAreas(
+      [
+        { _id: "agent-1", location: "quezon city" },
+        { _id: "agent-2", location: "14.5995, 120.9842" },
+        { _id: "agent-3", location: "Somewhere" },
+      ],
+      [
+        { _id: "municipality-qc", name: "Quezon City", level: "MUNICIPALITY", geometry: quezonCity },
+        { _id: "province-qc", name: "Quezon City", level: "PROVINCE", geometry: quezonCity },
+      ]
+    );
+    const inside = report({ lat: 14.65, lng: 121.05 });
+    const nearby = report({ lat: 14.65, lng: 121.15 }); // about 5 km east of the boundary
+    const farAway = report({ lat: 10.3157, lng: 123.8854 });
+    const byCoordinates = report({ agentId: "agent-2", lat: 14.9, lng: 120.9842 }); // about 33 km north
+
+    // Act
+    const flags = detectOutOfArea([inside, nearby, farAway, byCoordinates], areas);
+
+    // Assert
+    expect(areas.get("agent-1")).toMatchObject({ regionId: "province-qc" });
+    expect(unresolved).toEqual([{ agentId: "agent-3", location: "Somewhere" }]);
+    expect(flags.map((flag) => flag.reportIds[0])).toEqual([farAway._id, byCoordinates._id]);
+    expect(flags[0]).toMatchObject({ severity: "MEDIUM", evidence: { assignedLocation: "quezon city", toleranceKm: 10 } });
+    expect(flags[1]).toMatchObject({ severity: "LOW", agentId: "agent-2", evidence: { toleranceKm: 25 } });
+  });
+
+  it("should queue only flags not raised by an earlier run", async () => {
+    // Arrange
+    const original = report({ minutes: 0 });
+    const reused = report({ minutes: 30, frontImageUrl: original.frontImageUrl });
+    const burst = [40, 45, 50].map((minutes) => report({ minutes, scannedData: { productName: "Grower Mash" } }));
+
+    const reportQb: Record<string, jest.Mock> = {};
+    ["select", "addSelect", "where", "andWhere"].forEach((method) => (reportQb[method] = jest.fn(() => reportQb)));
+    reportQb.getRawMany = jest
+      .fn()
+      .mockResolvedValueOnce([reused, ...burst].map((item) => ({ ...item, lat: String(item.lat), lng: String(item.lng) })))
+      .mockResolvedValueOnce([original]);
+    (ComplianceReportRepo.createQueryBuilder as jest.Mock).mockReturnValue(reportQb);
+
+    const pingQb: Record<string, jest.Mock> = {};
+    ["select", "addSelect", "where", "andWhere"].forEach((method) => (pingQb[method] = jest.fn(() => pingQb)));
+    pingQb.getRawMany = jest.fn().mockResolvedValue([]);
+    (AuditLogRepo.createQueryBuilder as jest.Mock).mockReturnValue(pingQb);
+
+    (UserRepo.find as jest.Mock).mockResolvedValue([{ _id: "agent-1", location: "Quezon City" }]);
+    (RegionService.findByNames as jest.Mock).mockResolvedValue([]);
+    const insert: Record<string, jest.Mock> = {};
+    ["insert", "orIgnore", "returning"].forEach((method) => (insert[method] = jest.fn(() => insert)));
+    insert.values = jest.fn((flags) => {
+      // The burst was already flagged by an earlier run, so only the image reuse is inserted
+      const [burstFlag] = detectScanBursts(burst);
+      insert.execute = jest.fn().mockResolvedValue({
+        raw: flags.filter((flag: { fingerprint: string }) => flag.fingerprint !== burstFlag.fingerprint),
+      });
+      return insert;
+    });
+    (ActivityFlagRepo.createQueryBuilder as jest.Mock).mockReturnValue(insert);
+
+    // Act
+    const summary = await SuspiciousActivityService.run({}, new Date("2026-10-19T03:00:00Z"), "admin-uuid");
+
+    // Assert
+    expect(summary).toMatchObject({
+      detected: 2,
+      created: 1,
+      byType: { DUPLICATE_IMAGE: 1, DUPLICATE_SCAN_BURST: 0, IMPOSSIBLE_TRAVEL: 0, OUT_OF_AREA: 0 },
+      unresolvedAgents: [{ agentId: "agent-1", location: "Quezon City" }],
+    });
+    expect(insert.values).toHaveBeenCalledTimes(1);
+    expect(insert.values.mock.calls[0][0]).toHaveLength(2);
+    expect(insert.orIgnore).toHaveBeenCalled();
+    expect(insert.returning).toHaveBeenCalledWith(["fingerprint"]);
+    expect(AuditLogService.createLog).toHaveBeenCalledWith(
+      expect.objectContaining({ actionType: "ACTIVITY_CHECK", userId: "admin-uuid" })
+    );
+  });
+
+  it("should cap a run given only a start at now", async () => {
+    // Act & Assert
+    await expect(
+      SuspiciousActivityService.detect({ from: new Date("2026-01-01T00:00:00Z") }, new Date("2026-10-19T03:00:00Z"))
+    ).rejects.toMatchObject({ statusCode: 400, message: "A run can cover at most 90 days" });
+    expect(ComplianceReportRepo.createQueryBuilder).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+jest.mock("../typeorm/data-source", () => ({
+  SyncItemRepo: {
+    findOne: jest.fn(),
+    create: jest.fn((data) => data),
+    save: jest.fn(),
+    update: jest.fn(),
+  },
+}));
+jest.mock("../services/complianceReportService");
+jest.mock("../services/scanHistoryService");
+jest.mock("../services/auditLogService");
+
+import { SyncItemRepo } from "../typeorm/data-source";
+import { SyncService } from "../services/syncService";
+import { ComplianceReportService } from "../services/complianceReportService";
+import { ScanHistoryService } from "../services/scanHistoryService";
+import { AuditLogService } from "../services/auditLogService";
+import { SyncItem } from "../typeorm/entities/syncItem.entity";
+import CustomError from "../utils/CustomError";
+
+describe("Offline Sync", () => {
+  const agent = { _id: "agent-uuid-123" } as any;
+  const capturedAt = "2026-03-01T08:30:00+08:00";
+  const reportItem = {
+    idempotencyKey: "report-0001",
+    type: "compliance_report",
+    capturedAt,
+    payload: { status: "COMPLIANT" },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    (SyncItemRepo.save as jest.Mock).mockImplementation(async (data) => ({ _id: "sync-1", ...data }));
+    (SyncItemRepo.update as jest.Mock).mockResolvedValue({ affected: 1 });
+  });
+
+  it("should create new items and keep the device time", async () => {
+    // Arrange
+    (SyncItemRepo.findOne as jest.Mock).mockResolvedValue(null);
+    (ComplianceReportService.createReport as jest.Mock).mockResolvedValue({ _id: "report-uuid" });
+    (ScanHistoryService.processScan as jest.Mock).mockResolvedValue({ scan: { _id: "scan-uuid" } });
+
+    // Act
+    const results = await SyncService.syncBatch(agent, [
+      reportItem,
+      { idempotencyKey: "scan-0001", type: "scan", capturedAt, payload: { blockOfText: "LTO No. 1234" } },
+    ]);
+
+    // Assert
+    expect(results).toEqual([
+      { idempotencyKey: "report-0001", type: "compliance_report", status: "created", resultId: "report-uuid" },
+      { idempotencyKey: "scan-0001", type: "scan", status: "created", resultId: "scan-uuid" },
+    ]);
+    expect(ComplianceReportService.createReport).toHaveBeenCalledWith(
+      agent._id,
+      expect.objectContaining({ capturedAt: new Date(capturedAt) }),
+      expect.anything(),
+      expect.any(Function)
+    );
+    expect(ScanHistoryService.processScan).toHaveBeenCalledWith(
+      expect.objectContaining({ scannedAt: new Date(capturedAt), onSaved: expect.any(Function) })
+    );
+  });
+
+  it("should mark scans and audit events created in the transaction that saves them", async () => {
+    // Arrange
+    (SyncItemRepo.findOne as jest.Mock).mockResolvedValue(null);
+    const manager = { update: jest.fn().mockResolvedValue({ affected: 1 }) };
+    (ScanHistoryService.processScan as jest.Mock).mockImplementation(async ({ onSaved }) => {
+      await onSaved({ _id: "scan-uuid" }, manager);
+      return { scan: { _id: "scan-uuid" } };
+    });
+    (AuditLogService.createLog as jest.Mock).mockImplementation(async ({ onSaved }) => {
+      await onSaved({ _id: "log-uuid" }, manager);
+      return { _id: "log-uuid" };
+    });
+
+    // Act
+    await SyncService.syncBatch(agent, [
+      { idempotencyKey: "scan-0001", type: "scan", capturedAt, payload: { blockOfText: "LTO No. 1234" } },
+      { idempotencyKey: "event-0001", type: "audit_event", capturedAt, payload: { action: "App closed", actionType: "APP_CLOSED" } },
+    ]);
+
+    // Assert
+    expect(manager.update).toHaveBeenCalledWith(SyncItem, "sync-1", { status: "created", resultId: "scan-uuid", error: null });
+    expect(manager.update).toHaveBeenCalledWith(SyncItem, "sync-1", { status: "created", resultId: "log-uuid", error: null });
+    expect(SyncItemRepo.update).not.toHaveBeenCalled();
+  });
+
+  it("should report replayed items as duplicates without creating them again", async () => {
+    // Arrange
+    (SyncItemRepo.findOne as jest.Mock).mockResolvedValue({
+      _id: "sync-1",
+      type: "compliance_report",
+      status: "created",
+      resultId: "report-uuid",
+    });
+
+    // Act
+    const results = await SyncService.syncBatch(agent, [reportItem]);
+
+    // Assert
+    expect(results[0]).toEqual({
+      idempotencyKey: "report-0001",
+      type: "compliance_report",
+      status: "duplicate",
+      resultId: "report-uuid",
+    });
+    expect(ComplianceReportService.createReport).not.toHaveBeenCalled();
+  });
+
+  it("should record failures so the item can be retried", async () => {
+    // Arrange
+    (SyncItemRepo.findOne as jest.Mock).mockResolvedValue(null);
+    (ComplianceReportService.createReport as jest.Mock).mockRejectedValue(
+      new CustomError(400, "Invalid front image URL")
+    );
+
+    // Act
+    const results = await SyncService.syncBatch(agent, [reportItem]);
+
+    // Assert
+    expect(results[0]).toMatchObject({ status: "failed", error: "Invalid front image URL" });
+    expect(SyncItemRepo.update).toHaveBeenCalledWith(
+      { _id: "sync-1", status: "processing" },
+      { status: "failed", error: "Invalid front image URL" }
+    );
+  });
+
+  it("should not create a report twice when a step after saving it fails", async () => {
+    // Arrange: sync items kept in memory
+    const rows = new Map<string, any>();
+    (SyncItemRepo.findOne as jest.Mock).mockImplementation(async ({ where }) =>
+      Array.from(rows.values()).find(row => Object.keys(where).every(key => row[key] === where[key])) ?? null
+    );
+    (SyncItemRepo.save as jest.Mock).mockImplementation(async (data) => {
+      const row = { _id: "sync-1", ...data };
+      rows.set(row._id, row);
+      return row;
+    });
+    const update = async (criteria: any, changes: object) => {
+      const row = rows.get(typeof criteria === "string" ? criteria : criteria._id);
+      if (!row || (criteria.status && row.status !== criteria.status)) return { affected: 0 };
+      Object.assign(row, changes);
+      return { affected: 1 };
+    };
+    (SyncItemRepo.update as jest.Mock).mockImplementation(update);
+    const manager = { update: jest.fn((_entity, id, changes) => update(id, changes)) };
+    (ComplianceReportService.createReport as jest.Mock).mockImplementation(
+      async (_agentId, _body, _context, onSaved) => {
+        await onSaved({ _id: "report-uuid" }, manager);
+        throw new Error("Audit log unavailable");
+      }
+    );
+
+    // Act
+    const [first] = await SyncService.syncBatch(agent, [reportItem]);
+    const [retry] = await SyncService.syncBatch(agent, [reportItem]);
+
+    // Assert
+    expect(first).toEqual({
+      idempotencyKey: "report-0001",
+      type: "compliance_report",
+      status: "created",
+      resultId: "report-uuid",
+    });
+    expect(retry).toMatchObject({ status: "duplicate", resultId: "report-uuid" });
+    expect(ComplianceReportService.createReport).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject items without an idempotency key", async () => {
+    // Act
+    const results = await SyncService.syncBatch(agent, [{ type: "scan", capturedAt, payload: {} }]);
+
+    // Assert
+    expect(results[0]).toMatchObject({ idempotencyKey: null, type: "scan", status: "failed" });
+    expect(SyncItemRepo.findOne).not.toHaveBeenCalled();
+  });
+});
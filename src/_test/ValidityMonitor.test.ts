@@ -0,0 +1,122 @@
+jest.mock("../typeorm/data-source", () => ({
+  ProductRepo: { find: jest.fn(), update: jest.fn() },
+  RegistryEntryRepo: { find: jest.fn() },
+  RegistryImportRepo: { findOne: jest.fn() },
+  UserRepo: { find: jest.fn() },
+}));
+jest.mock("../utils/nodemailer", () => ({
+  sendMail: jest.fn(),
+  escapeHtml: jest.requireActual("../utils/nodemailer").escapeHtml,
+}));
+jest.mock("../services/auditLogService");
+
+import { ProductRepo, RegistryEntryRepo, RegistryImportRepo, UserRepo } from "../typeorm/data-source";
+import { sendMail } from "../utils/nodemailer";
+import { AuditLogService } from "../services/auditLogService";
+import {
+  classifyValidity,
+  parseAlertWindows,
+  ValidityMonitorService,
+} from "../services/validityMonitorService";
+
+describe("Validity Monitor", () => {
+  const windows = [90, 30, 7];
+
+  describe("classifyValidity", () => {
+    it("should place a date in the smallest window it has entered", () => {
+      expect(classifyValidity("2026-12-01", "2026-10-19", windows)).toEqual({
+        status: "EXPIRING",
+        windowDays: 90,
+        daysLeft: 43,
+      });
+      expect(classifyValidity("2026-10-26", "2026-10-19", windows)).toEqual({
+        status: "EXPIRING",
+        windowDays: 7,
+        daysLeft: 7,
+      });
+    });
+
+    it("should report lapsed and far-off dates", () => {
+      expect(classifyValidity("2026-10-18", "2026-10-19", windows)).toEqual({
+        status: "LAPSED",
+        windowDays: null,
+        daysLeft: -1,
+      });
+      expect(classifyValidity("2027-06-01", "2026-10-19", windows).status).toBe("VALID");
+      expect(classifyValidity(null, "2026-10-19", windows).status).toBe("VALID");
+    });
+  });
+
+  it("should read alert windows from configuration, largest first", () => {
+    expect(parseAlertWindows("7, 60,x,30")).toEqual([60, 30, 7]);
+    expect(parseAlertWindows(undefined)).toEqual([90, 30, 7]);
+  });
+
+  describe("run", () => {
+    const now = new Date("2026-10-19T01:00:00Z");
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (RegistryImportRepo.findOne as jest.Mock).mockResolvedValue({ _id: "import-uuid", version: 2 });
+      (RegistryEntryRepo.find as jest.Mock).mockResolvedValue([
+        // Listed twice; the latest date counts
+        { normalizedCFPR: "20211234", validUntil: "2026-11-10" },
+        { normalizedCFPR: "20211234", validUntil: "2026-10-01" },
+      ]);
+      (UserRepo.find as jest.Mock).mockResolvedValue([{ _id: "admin-uuid", email: "admin@example.com" }]);
+      (ProductRepo.find as jest.Mock)
+        .mockResolvedValueOnce([
+          {
+            // Registry validity ends before the product expires
+            _id: "product-1",
+            productName: "Grower Mash <Pro>",
+            CFPRNumber: "CFPR-2021-1234",
+            companyId: "company-uuid",
+            expirationDate: new Date("2027-03-01T00:00:00Z"),
+            validityStatus: "EXPIRING",
+            validityWindowDays: 90,
+            validUntil: "2026-11-10",
+            validUntilSource: "registry",
+          },
+          {
+            // Already reported as lapsed
+            _id: "product-2",
+            productName: "Layer Pellets",
+            CFPRNumber: "CFPR-2019-0001",
+            companyId: "company-uuid",
+            expirationDate: new Date("2026-09-30T00:00:00Z"),
+            validityStatus: "LAPSED",
+            validityWindowDays: null,
+            validUntil: "2026-09-30",
+            validUntilSource: "expirationDate",
+          },
+        ])
+        .mockResolvedValueOnce([]);
+    });
+
+    it("should mark products, alert only on new windows and log the run", async () => {
+      // Act
+      const summary = await ValidityMonitorService.run(now);
+
+      // Assert
+      expect(summary).toMatchObject({ checkedOn: "2026-10-19", checked: 2, expiring: 1, lapsed: 1, changed: 1 });
+      expect(summary.alerts).toEqual([
+        expect.objectContaining({ productId: "product-1", windowDays: 30, daysLeft: 22, validUntilSource: "registry" }),
+      ]);
+      expect(ProductRepo.update).toHaveBeenCalledWith("product-1", {
+        validityStatus: "EXPIRING",
+        validityWindowDays: 30,
+        validUntil: "2026-11-10",
+        validUntilSource: "registry",
+      });
+      expect(sendMail).toHaveBeenCalledTimes(1);
+      expect(sendMail).toHaveBeenCalledWith("admin@example.com", expect.any(String), expect.stringContaining("Grower Mash &lt;Pro&gt;"));
+      expect(AuditLogService.createLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actionType: "VALIDITY_CHECK",
+          metadata: expect.objectContaining({ checked: 2, alerts: 1, notifiedAdmins: 1 }),
+        })
+      );
+    });
+  });
+});
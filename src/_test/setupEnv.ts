@@ -0,0 +1,5 @@
+// Run every suite against the offline stub AI provider (no API key or network needed)
+process.env.AI_PROVIDER = process.env.AI_PROVIDER || 'stub';
+process.env.QR_SIGNING_SECRET = process.env.QR_SIGNING_SECRET || 'test-qr-signing-secret';
+process.env.LEDGER_SIGNING_KEY =
+  process.env.LEDGER_SIGNING_KEY || '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AgentPerformanceService, AgentPerformanceValidation } from '../../services/agentPerformanceService';
+import CustomError from '../../utils/CustomError';
+
+/**
+ * Scans, reports, active days, scan-to-report time and coverage of every agent and the team
+ * GET /api/v1/analytics/agents?from=&to=&cellSizeKm=1
+ */
+export const getTeamPerformance = async (req: Request, res: Response, next: NextFunction) => {
+  const filter = AgentPerformanceValidation.safeParse(req.query);
+  if (!filter.success) {
+    return next(new CustomError(400, 'Invalid performance filters', { errors: filter.error.issues }));
+  }
+
+  try {
+    const performance = await AgentPerformanceService.team(filter.data);
+    res.status(200).json({ success: true, data: performance, filters: filter.data });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+    console.error('Error building team performance:', error);
+    return next(new CustomError(500, 'Failed to build team performance'));
+  }
+};
+
+/**
+ * Performance and coverage of one agent, with the convex hull of the area covered
+ * GET /api/v1/analytics/agents/:id?from=&to=&cellSizeKm=1
+ */
+export const getAgentPerformance = async (req: Request, res: Response, next: NextFunction) => {
+  if (!z.string().uuid().safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Agent ID'));
+  }
+  const filter = AgentPerformanceValidation.safeParse(req.query);
+  if (!filter.success) {
+    return next(new CustomError(400, 'Invalid performance filters', { errors: filter.error.issues }));
+  }
+
+  try {
+    const performance = await AgentPerformanceService.agent(req.params.id, filter.data);
+    res.status(200).json({ success: true, data: performance, filters: filter.data });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+    console.error('Error building agent performance:', error);
+    return next(new CustomError(500, 'Failed to build agent performance'));
+  }
+};
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { GeospatialAnalyticsService, HeatmapFilterValidation } from '../../services/analyticService';
+import CustomError from '../../utils/CustomError';
+
+/**
+ * Report counts per square or hexagonal map cell, as a GeoJSON FeatureCollection
+ * GET /api/v1/analytics/heatmap?shape=square|hex&cellSizeKm=1
+ */
+export const getComplianceHeatmap = async (req: Request, res: Response, next: NextFunction) => {
+  const filter = HeatmapFilterValidation.safeParse(req.query);
+  if (!filter.success) {
+    return next(new CustomError(400, 'Invalid heatmap filters', { errors: filter.error.issues }));
+  }
+
+  try {
+    const heatmap = await GeospatialAnalyticsService.heatmap(filter.data);
+
+    res.status(200).json({
+      success: true,
+      data: heatmap,
+      filters: filter.data,
+    });
+  } catch (error: any) {
+    if (error instanceof CustomError) return next(error);
+    console.error('Error building compliance heatmap:', error);
+    return next(new CustomError(500, 'Failed to build compliance heatmap'));
+  }
+};
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { HotspotOptionsValidation, HotspotService } from '../../services/hotspotService';
+import CustomError from '../../utils/CustomError';
+
+/**
+ * Clusters of non-compliant and fraudulent reports compared across consecutive time windows
+ * GET /api/v1/analytics/hotspots?windowDays=7&windows=4&epsKm=1&minPoints=3&to=
+ */
+export const getEmergingHotspots = async (req: Request, res: Response, next: NextFunction) => {
+  const options = HotspotOptionsValidation.safeParse(req.query);
+  if (!options.success) {
+    return next(new CustomError(400, 'Invalid hotspot options', { errors: options.error.issues }));
+  }
+
+  try {
+    const analysis = await HotspotService.detect(options.data);
+
+    res.status(200).json({
+      success: true,
+      data: analysis,
+    });
+  } catch (error) {
+    console.error('Error detecting hotspots:', error);
+    return next(new CustomError(500, 'Failed to detect hotspots'));
+  }
+};
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { ComplianceTrendService, TrendFilterValidation } from '../../services/complianceTrendService';
+import CustomError from '../../utils/CustomError';
+
+/**
+ * Report counts over time by status and reason, compared with the previous period
+ * GET /api/v1/analytics/trends?interval=day|week|month&from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+export const getComplianceTrends = async (req: Request, res: Response, next: NextFunction) => {
+  const filter = TrendFilterValidation.safeParse(req.query);
+  if (!filter.success) {
+    return next(new CustomError(400, 'Invalid trend filters', { errors: filter.error.issues }));
+  }
+
+  try {
+    const trends = await ComplianceTrendService.trends(filter.data);
+
+    res.status(200).json({
+      success: true,
+      data: trends,
+      filters: filter.data,
+    });
+  } catch (error: any) {
+    if (error instanceof CustomError) return next(error);
+    console.error('Error building compliance trends:', error);
+    return next(new CustomError(500, 'Failed to build compliance trends'));
+  }
+};
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import { BrandNameValidation } from "../../typeorm/entities/brandName.entity";
-import { BrandNameRepo, ProductRepo } from "../../typeorm/data-source";
+import { BrandNameRepo, DB, ProductRepo } from "../../typeorm/data-source";
 import CustomError from "../../utils/CustomError";
 import {
   parsePageParams,
@@ -8,6 +8,8 @@ import {
   buildLinks,
 } from "../../utils/pagination";
 import { AuditLogService } from "../../services/auditLogService";
+import { ComplianceReportService } from "../../services/complianceReportService";
+import { ProductLedgerService } from "../../services/productLedgerService";
 import { In } from "typeorm";
 
 // Get all brand names with pagination
@@ -84,14 +86,14 @@ export const getBrandNameById = async (
       return next(new CustomError(404, "Brand name not found"));
     }
 
-    // Get product count
-    const productCount = await ProductRepo.count({
-      where: { brandNameId: id },
-    });
+    const [productCount, complianceHistory] = await Promise.all([
+      ProductRepo.count({ where: { brandNameId: id } }),
+      ComplianceReportService.getHistory("brandNameId", id),
+    ]);
 
     res.status(200).json({
       success: true,
-      data: { ...brandName, productCount },
+      data: { ...brandName, productCount, complianceHistory },
     });
   } catch (error) {
     console.error("Error fetching brand name:", error);
@@ -317,10 +319,14 @@ export const deleteBrandName = async (
         });
       }
 
-      // Re-route products to new brand name
-      await ProductRepo.update(
-        { brandNameId: id },
-        { brandNameId: newBrandNameId, brandName: newBrandName.name }
+      // Re-route products to new brand name, recording each in the ledger
+      await DB.transaction((manager) =>
+        ProductLedgerService.updateProducts(
+          manager,
+          products.map((p) => p._id),
+          { brandNameId: newBrandNameId, brandName: newBrandName.name },
+          currentUser._id
+        )
       );
     }
 
@@ -2,7 +2,7 @@ import CustomError from "../../utils/CustomError";
 import { Request, Response, NextFunction } from "express";
 import { CompanyValidation } from "../../typeorm/entities/company.entity";
 import { uuidv4 } from "zod";
-import { CompanyRepo } from "../../typeorm/data-source";
+import { CompanyRepo, ProductRepo } from "../../typeorm/data-source";
 import {
   parsePageParams,
   buildPaginationMeta,
@@ -10,6 +10,15 @@ import {
 } from "../../utils/pagination";
 import { AuditLogService } from "../../services/auditLogService";
 import { redisService } from "../../services/redisService";
+import { ValidityMonitorService } from "../../services/validityMonitorService";
+import { ComplianceReportService } from "../../services/complianceReportService";
+import { CompanyRiskService } from "../../services/companyRiskService";
+
+// Risk fields are calculated by CompanyRiskService, never set by clients
+const withoutRiskFields = (body: Record<string, any>) => {
+  const { riskScore, riskLevel, riskBreakdown, riskScoredAt, ...changes } = body ?? {};
+  return changes;
+};
 
 export const getAllCompanies = async (
   req: Request,
@@ -21,9 +30,21 @@ export const getAllCompanies = async (
     const search =
       typeof req.query.search === "string" ? req.query.search.trim() : "";
 
+    // ?sort=name|riskScore&order=asc|desc; the riskiest companies come first by default
+    const sort = req.query.sort === undefined ? "name" : req.query.sort;
+    if (sort !== "name" && sort !== "riskScore") {
+      return next(new CustomError(400, "Invalid sort", { data: "Use sort=name or sort=riskScore" }));
+    }
+    const defaultOrder = sort === "riskScore" ? "DESC" : "ASC";
+    const order = typeof req.query.order === "string" ? req.query.order.toUpperCase() : defaultOrder;
+    if (order !== "ASC" && order !== "DESC") {
+      return next(new CustomError(400, "Invalid order", { data: "Use order=asc or order=desc" }));
+    }
+    const sortKey = sort === "name" && order === "ASC" ? undefined : `${sort}_${order}`;
+
     // Try to get cached data
     try {
-      const cachedData = await redisService.getCachedCompanies(page, limit, search);
+      const cachedData = await redisService.getCachedCompanies(page, limit, search, sortKey);
       if (cachedData) {
         return res.status(200).json(cachedData);
       }
@@ -46,7 +67,8 @@ export const getAllCompanies = async (
         .orWhere("LOWER(company.licenseNumber) LIKE LOWER(:q)", {
           q: `%${search}%`,
         })
-        .orderBy("company.name", "ASC")
+        .orderBy(`company.${sort}`, order)
+        .addOrderBy("company.name", "ASC")
         .skip(skip)
         .take(limit);
       [companies, total] = await qb.getManyAndCount();
@@ -54,13 +76,10 @@ export const getAllCompanies = async (
       [companies, total] = await CompanyRepo.findAndCount({
         skip,
         take: limit,
-        order: { name: "ASC" },
+        order: sort === "name" ? { name: order } : { riskScore: order, name: "ASC" },
       });
     }
 
-    // Get ProductRepo
-    const { ProductRepo } = require("../../typeorm/data-source");
-
     // For each company, count products with matching companyId
     const mappedCompanies = await Promise.all(
       companies.map(async (company) => {
@@ -82,7 +101,7 @@ export const getAllCompanies = async (
 
     // Cache the result for 5 minutes
     try {
-      await redisService.setCachedCompanies(page, limit, responseData, search, 300);
+      await redisService.setCachedCompanies(page, limit, responseData, search, sortKey, 300);
     } catch (redisError) {
       console.warn("Failed to cache companies:", redisError instanceof Error ? redisError.message : 'Unknown error');
     }
@@ -99,20 +118,28 @@ export const getCompanyById = async (
   res: Response,
   next: NextFunction
 ) => {
-  if (!CompanyValidation.parse({ id: req.params.id })) {
-    return new CustomError(400, "Invalid Company ID");
+  if (!CompanyValidation.shape.id.safeParse(req.params.id).success) {
+    return next(new CustomError(400, "Invalid Company ID"));
   }
   try {
-    // Logic to get a company by ID
-    res
-      .status(200)
-      .json({
-        message: `Company with ID ${req.params.id} retrieved successfully`,
-      });
+    const company = await CompanyRepo.findOne({ where: { _id: req.params.id } });
+    if (!company) {
+      return next(new CustomError(404, "Company not found"));
+    }
+
+    const [productCount, complianceHistory] = await Promise.all([
+      ProductRepo.count({ where: { companyId: company._id } }),
+      ComplianceReportService.getHistory("companyId", company._id),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: { ...company, productCount, complianceHistory },
+    });
   } catch (error) {
-    return new CustomError(500, "Failed to retrieve company");
+    console.error("Error fetching company:", error);
+    return next(new CustomError(500, "Failed to retrieve company"));
   }
-  return CustomError.security(400, "Invalid user data");
 };
 
 export const createCompany = async (
@@ -199,8 +226,10 @@ export const updateCompany = async (
     if (!company) {
       return new CustomError(404, "Company not found");
     }
-    CompanyRepo.merge(company, req.body);
+    CompanyRepo.merge(company, withoutRiskFields(req.body));
     await CompanyRepo.save(company);
+    // The license status and expiry are part of the risk score
+    await CompanyRiskService.recalculateQuietly(company._id);
     res.status(200).json({ company });
   } catch (error) {
     return new CustomError(500, "Failed to update company");
@@ -220,8 +249,10 @@ export const partialUpdateCompany = async (
     if (!company) {
       return new CustomError(404, "Company not found");
     }
-    CompanyRepo.merge(company, req.body);
+    CompanyRepo.merge(company, withoutRiskFields(req.body));
     await CompanyRepo.save(company);
+    // The license status and expiry are part of the risk score
+    await CompanyRiskService.recalculateQuietly(company._id);
     res.status(200).json({ company });
   } catch (error) {
     return new CustomError(500, "Failed to partially update company");
@@ -246,3 +277,50 @@ export const deleteCompany = async (
     return new CustomError(500, "Failed to delete company");
   }
 };
+
+/**
+ * Products of a company whose registration is expiring or has lapsed, soonest first
+ * GET /api/v1/company/companies/:id/validity?status=EXPIRING|LAPSED
+ */
+export const getCompanyProductValidity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!CompanyValidation.shape.id.safeParse(req.params.id).success) {
+    return next(new CustomError(400, "Invalid Company ID"));
+  }
+
+  const { status } = req.query;
+  if (status !== undefined && status !== "EXPIRING" && status !== "LAPSED") {
+    return next(new CustomError(400, "Invalid status", { data: "Use status=EXPIRING or status=LAPSED" }));
+  }
+
+  try {
+    const company = await CompanyRepo.findOneBy({ _id: req.params.id });
+    if (!company) {
+      return next(new CustomError(404, "Company not found"));
+    }
+
+    const { page, limit, skip } = parsePageParams(req, 10);
+    const [products, total] = await ValidityMonitorService.getCompanyProducts(
+      company._id,
+      status ? [status] : ["EXPIRING", "LAPSED"],
+      skip,
+      limit
+    );
+    const meta = buildPaginationMeta(page, limit, total);
+    const links = buildLinks(req, page, limit, meta.total_pages);
+
+    res.status(200).json({
+      success: true,
+      company: { _id: company._id, name: company.name },
+      data: products,
+      pagination: meta,
+      links,
+    });
+  } catch (error) {
+    console.error("Error fetching company product validity:", error);
+    return next(new CustomError(500, "Failed to retrieve product validity"));
+  }
+};
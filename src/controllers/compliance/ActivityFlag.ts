@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import CustomError from '../../utils/CustomError';
+import { ActivityFlagReviewValidation } from '../../typeorm/entities/activityFlag.entity';
+import { ActivityFlagStatus, ActivityFlagType } from '../../types/enums';
+import {
+  ActivityFlagFilter,
+  ActivityScanValidation,
+  SuspiciousActivityService,
+} from '../../services/suspiciousActivityService';
+import {
+  parsePageParams,
+  buildPaginationMeta,
+  buildLinks,
+} from '../../utils/pagination';
+
+const FlagIdValidation = z.string().uuid();
+
+const commaList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const FlagListQueryValidation = z.object({
+  status: z.string().transform(commaList).pipe(z.array(z.nativeEnum(ActivityFlagStatus))).optional(),
+  type: z.string().transform(commaList).pipe(z.array(z.nativeEnum(ActivityFlagType))).optional(),
+  agentId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/**
+ * Pass service errors on to the error handler, reporting anything else as a 500
+ */
+const handleFlagError = (error: unknown, next: NextFunction, message: string) => {
+  if (error instanceof CustomError) {
+    return next(error);
+  }
+  console.error(`${message}:`, error);
+  return next(new CustomError(500, message));
+};
+
+/**
+ * Review queue of suspicious agent activity, newest first
+ * GET /api/v1/activity-flags?status=OPEN&type=IMPOSSIBLE_TRAVEL,OUT_OF_AREA&agentId=&from=&to=
+ */
+export const getActivityFlags = async (req: Request, res: Response, next: NextFunction) => {
+  const query = FlagListQueryValidation.safeParse(req.query);
+  if (!query.success) {
+    return next(new CustomError(400, 'Invalid flag filters', { errors: query.error.issues }));
+  }
+
+  const { status, type, agentId, from, to } = query.data;
+  const filter: ActivityFlagFilter = { statuses: status, types: type, agentId, from, to };
+
+  try {
+    const { page, limit, skip } = parsePageParams(req, 10);
+    const [flags, total] = await SuspiciousActivityService.list(filter, skip, limit);
+    const meta = buildPaginationMeta(page, limit, total);
+    const links = buildLinks(req, page, limit, meta.total_pages);
+    res.status(200).json({ success: true, data: flags, pagination: meta, links });
+  } catch (error) {
+    return handleFlagError(error, next, 'Failed to retrieve flags');
+  }
+};
+
+/**
+ * A flag with its evidence and the reports it is about
+ * GET /api/v1/activity-flags/:id
+ */
+export const getActivityFlagById = async (req: Request, res: Response, next: NextFunction) => {
+  if (!FlagIdValidation.safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Flag ID'));
+  }
+
+  try {
+    const flag = await SuspiciousActivityService.getById(req.params.id);
+    res.status(200).json({ success: true, data: flag });
+  } catch (error) {
+    return handleFlagError(error, next, 'Failed to retrieve flag');
+  }
+};
+
+/**
+ * Look for suspicious activity now and queue what is new
+ * POST /api/v1/activity-flags/run { from?, to?, agentId? }
+ */
+export const runActivityCheck = async (req: Request, res: Response, next: NextFunction) => {
+  const validatedData = ActivityScanValidation.safeParse(req.body ?? {});
+  if (!validatedData.success) {
+    return next(new CustomError(400, 'Invalid check range', { errors: validatedData.error.issues }));
+  }
+
+  try {
+    const summary = await SuspiciousActivityService.run(validatedData.data, new Date(), req.user?._id);
+    res.status(200).json({
+      success: true,
+      message: `${summary.created} new flag(s) queued for review`,
+      data: summary,
+    });
+  } catch (error) {
+    return handleFlagError(error, next, 'Failed to check agent activity');
+  }
+};
+
+/**
+ * Confirm or dismiss a flag
+ * PATCH /api/v1/activity-flags/:id/review { status: CONFIRMED | DISMISSED, note? }
+ */
+export const reviewActivityFlag = async (req: Request, res: Response, next: NextFunction) => {
+  const currentUser = req.user;
+  if (!currentUser) {
+    return next(new CustomError(401, 'User not authenticated'));
+  }
+  if (!FlagIdValidation.safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Flag ID'));
+  }
+
+  const validatedData = ActivityFlagReviewValidation.safeParse(req.body);
+  if (!validatedData.success) {
+    return next(new CustomError(400, 'Invalid review', { errors: validatedData.error.issues }));
+  }
+
+  try {
+    const flag = await SuspiciousActivityService.review(req.params.id, validatedData.data, currentUser._id, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+    res.status(200).json({ success: true, message: `Flag marked as ${flag.status}`, data: flag });
+  } catch (error) {
+    return handleFlagError(error, next, 'Failed to review flag');
+  }
+};
@@ -0,0 +1,262 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import CustomError from '../../utils/CustomError';
+import {
+  CaseAssignmentValidation,
+  CaseCommentValidation,
+  CaseReportsValidation,
+  CaseTransitionValidation,
+  OpenCaseValidation,
+} from '../../typeorm/entities/complianceCase.entity';
+import { CaseStatus } from '../../types/enums';
+import { CaseListFilter, ComplianceCaseService } from '../../services/complianceCaseService';
+import {
+  parsePageParams,
+  buildPaginationMeta,
+  buildLinks,
+} from '../../utils/pagination';
+
+const CaseIdValidation = z.string().uuid();
+
+const CaseListQueryValidation = z.object({
+  status: z
+    .string()
+    .transform(value => value.split(',').map(status => status.trim()).filter(Boolean))
+    .pipe(z.array(z.nativeEnum(CaseStatus)))
+    .optional(),
+  assignedTo: z.union([z.literal('me'), z.literal('unassigned'), z.string().uuid()]).optional(),
+  search: z.string().trim().max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const requestContext = (req: Request) => ({
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+/**
+ * Pass service errors on to the error handler, reporting anything else as a 500
+ */
+const handleCaseError = (error: unknown, next: NextFunction, message: string) => {
+  if (error instanceof CustomError) {
+    return next(error);
+  }
+  console.error(`${message}:`, error);
+  return next(new CustomError(500, message));
+};
+
+/**
+ * List cases, most recently updated first
+ * GET /api/v1/cases?status=OPEN,ESCALATED&assignedTo=me|unassigned|<userId>&search=&from=&to=
+ */
+export const getCases = async (req: Request, res: Response, next: NextFunction) => {
+  const query = CaseListQueryValidation.safeParse(req.query);
+  if (!query.success) {
+    return next(new CustomError(400, 'Invalid case filters', { errors: query.error.issues }));
+  }
+
+  const { status, assignedTo, search, from, to } = query.data;
+  const filter: CaseListFilter = {
+    statuses: status,
+    assignedToId: assignedTo === 'unassigned' ? null : assignedTo === 'me' ? req.user?._id : assignedTo,
+    search,
+    from,
+    to,
+  };
+
+  try {
+    const { page, limit, skip } = parsePageParams(req, 10);
+    const [cases, total] = await ComplianceCaseService.list(filter, skip, limit);
+    const meta = buildPaginationMeta(page, limit, total);
+    const links = buildLinks(req, page, limit, meta.total_pages);
+    res.status(200).json({ success: true, data: cases, pagination: meta, links });
+  } catch (error) {
+    return handleCaseError(error, next, 'Failed to retrieve cases');
+  }
+};
+
+/**
+ * A case with its reports, comments and timeline
+ * GET /api/v1/cases/:id
+ */
+export const getCaseById = async (req: Request, res: Response, next: NextFunction) => {
+  if (!CaseIdValidation.safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Case ID'));
+  }
+
+  try {
+    const complianceCase = await ComplianceCaseService.getCase(req.params.id);
+    res.status(200).json({ success: true, data: complianceCase });
+  } catch (error) {
+    return handleCaseError(error, next, 'Failed to retrieve case');
+  }
+};
+
+/**
+ * Open a case for one or more compliance reports
+ * POST /api/v1/cases
+ */
+export const openCase = async (req: Request, res: Response, next: NextFunction) => {
+  const currentUser = req.user;
+  if (!currentUser) {
+    return next(new CustomError(401, 'User not authenticated'));
+  }
+
+  const validatedData = OpenCaseValidation.safeParse(req.body);
+  if (!validatedData.success) {
+    return next(new CustomError(400, 'Invalid case data', { errors: validatedData.error.issues }));
+  }
+
+  try {
+    const complianceCase = await ComplianceCaseService.open(
+      validatedData.data,
+      currentUser._id,
+      requestContext(req)
+    );
+    res.status(201).json({
+      success: true,
+      message: 'Case opened successfully',
+      data: complianceCase,
+    });
+  } catch (error) {
+    return handleCaseError(error, next, 'Failed to open case');
+  }
+};
+
+/**
+ * Move a case through the workflow
+ * PATCH /api/v1/cases/:id/status
+ */
+export const updateCaseStatus = async (req: Request, res: Response, next: NextFunction) => {
+  const currentUser = req.user;
+  if (!currentUser) {
+    return next(new CustomError(401, 'User not authenticated'));
+  }
+  if (!CaseIdValidation.safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Case ID'));
+  }
+
+  const validatedData = CaseTransitionValidation.safeParse(req.body);
+  if (!validatedData.success) {
+    return next(new CustomError(400, 'Invalid case status', { errors: validatedData.error.issues }));
+  }
+
+  try {
+    const complianceCase = await ComplianceCaseService.transition(
+      req.params.id,
+      validatedData.data.status,
+      currentUser._id,
+      validatedData.data.note,
+      requestContext(req)
+    );
+    res.status(200).json({
+      success: true,
+      message: `Case moved to ${complianceCase.status}`,
+      data: complianceCase,
+    });
+  } catch (error) {
+    return handleCaseError(error, next, 'Failed to update case status');
+  }
+};
+
+/**
+ * Assign a case to an admin (null to unassign)
+ * PATCH /api/v1/cases/:id/assignee
+ */
+export const assignCase = async (req: Request, res: Response, next: NextFunction) => {
+  const currentUser = req.user;
+  if (!currentUser) {
+    return next(new CustomError(401, 'User not authenticated'));
+  }
+  if (!CaseIdValidation.safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Case ID'));
+  }
+
+  const validatedData = CaseAssignmentValidation.safeParse(req.body);
+  if (!validatedData.success) {
+    return next(new CustomError(400, 'Invalid assignee', { errors: validatedData.error.issues }));
+  }
+
+  try {
+    const complianceCase = await ComplianceCaseService.assign(
+      req.params.id,
+      validatedData.data.assignedToId,
+      currentUser._id,
+      requestContext(req)
+    );
+    res.status(200).json({
+      success: true,
+      message: complianceCase.assignedToId ? 'Case assigned' : 'Case unassigned',
+      data: complianceCase,
+    });
+  } catch (error) {
+    return handleCaseError(error, next, 'Failed to assign case');
+  }
+};
+
+/**
+ * Link more compliance reports to a case
+ * POST /api/v1/cases/:id/reports
+ */
+export const linkCaseReports = async (req: Request, res: Response, next: NextFunction) => {
+  const currentUser = req.user;
+  if (!currentUser) {
+    return next(new CustomError(401, 'User not authenticated'));
+  }
+  if (!CaseIdValidation.safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Case ID'));
+  }
+
+  const validatedData = CaseReportsValidation.safeParse(req.body);
+  if (!validatedData.success) {
+    return next(new CustomError(400, 'Invalid report list', { errors: validatedData.error.issues }));
+  }
+
+  try {
+    const complianceCase = await ComplianceCaseService.linkReports(
+      req.params.id,
+      validatedData.data.reportIds,
+      currentUser._id,
+      requestContext(req)
+    );
+    res.status(200).json({
+      success: true,
+      message: 'Reports linked to case',
+      data: complianceCase,
+    });
+  } catch (error) {
+    return handleCaseError(error, next, 'Failed to link reports');
+  }
+};
+
+/**
+ * Comment on a case, or reply to a comment with parentId
+ * POST /api/v1/cases/:id/comments
+ */
+export const addCaseComment = async (req: Request, res: Response, next: NextFunction) => {
+  const currentUser = req.user;
+  if (!currentUser) {
+    return next(new CustomError(401, 'User not authenticated'));
+  }
+  if (!CaseIdValidation.safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Case ID'));
+  }
+
+  const validatedData = CaseCommentValidation.safeParse(req.body);
+  if (!validatedData.success) {
+    return next(new CustomError(400, 'Invalid comment', { errors: validatedData.error.issues }));
+  }
+
+  try {
+    const comment = await ComplianceCaseService.addComment(
+      req.params.id,
+      validatedData.data.body,
+      currentUser._id,
+      validatedData.data.parentId
+    );
+    res.status(201).json({ success: true, data: comment });
+  } catch (error) {
+    return handleCaseError(error, next, 'Failed to add comment');
+  }
+};
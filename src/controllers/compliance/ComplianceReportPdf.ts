@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import CustomError from '../../utils/CustomError';
+import { manilaDate } from '../../utils/dates';
+import { ReportSearchValidation } from '../../services/complianceReportService';
+import { ReportPdfService } from '../../services/reportPdfService';
+
+// Longest period a summary may cover
+const MAX_SUMMARY_DAYS = 366;
+
+const sendPdf = (res: Response, pdf: Buffer, filename: string) => {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+  res.status(200).send(pdf);
+};
+
+/**
+ * Printable inspection report for one compliance report
+ * GET /api/v1/compliance-reports/:id/pdf
+ */
+export const getComplianceReportPdf = async (req: Request, res: Response, next: NextFunction) => {
+  if (!z.string().uuid().safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Report ID'));
+  }
+
+  try {
+    const pdf = await ReportPdfService.inspectionReport(req.params.id);
+    sendPdf(res, pdf, `inspection-report-${req.params.id}.pdf`);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+    console.error('Error generating inspection report PDF:', error);
+    return next(new CustomError(500, 'Failed to generate inspection report'));
+  }
+};
+
+/**
+ * Summary PDF of the reports in a date range, accepting the same filters as the report search
+ * GET /api/v1/compliance-reports/summary/pdf?from=&to=&status=&agentId=&companyId=...
+ */
+export const getComplianceSummaryPdf = async (req: Request, res: Response, next: NextFunction) => {
+  const filter = ReportSearchValidation.safeParse(req.query);
+  if (!filter.success) {
+    return next(new CustomError(400, 'Invalid report filters', { errors: filter.error.issues }));
+  }
+
+  const { from, to } = filter.data;
+  if (!from || !to) {
+    return next(new CustomError(400, "'from' and 'to' are required for a summary"));
+  }
+  if (to.getTime() - from.getTime() > MAX_SUMMARY_DAYS * 24 * 60 * 60 * 1000) {
+    return next(new CustomError(400, `A summary can cover at most ${MAX_SUMMARY_DAYS} days`));
+  }
+
+  try {
+    const pdf = await ReportPdfService.summaryReport({ ...filter.data, from, to });
+    sendPdf(res, pdf, `compliance-summary-${manilaDate(from)}-to-${manilaDate(to)}.pdf`);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+    console.error('Error generating compliance summary PDF:', error);
+    return next(new CustomError(500, 'Failed to generate compliance summary'));
+  }
+};
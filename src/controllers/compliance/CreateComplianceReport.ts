@@ -1,9 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import { DB } from '../../typeorm/data-source';
-import { ComplianceReport, ComplianceReportValidation } from '../../typeorm/entities/complianceReport.entity';
 import CustomError from '../../utils/CustomError';
-import { AuditLogService } from '../../services/auditLogService';
-import { FirebaseStorageValidator } from '../../utils/FirebaseStorageValidator';
+import { ComplianceReportService } from '../../services/complianceReportService';
 
 /**
  * Create a new compliance report
@@ -17,64 +14,14 @@ export const createComplianceReport = async (
   try {
     // Extract user from middleware
     const user = (req as any).user;
-    
+
     if (!user || !user._id) {
       return next(new CustomError(401, 'User not authenticated'));
     }
 
-    const userId = user._id;
-
-    const reportData = {
-      ...req.body,
-      agentId: userId,
-    };
-
-    // Validate request body
-    const validatedData = ComplianceReportValidation.parse(reportData);
-
-    // Validate image URLs (both required)
-    if (!validatedData.frontImageUrl || !validatedData.backImageUrl) {
-      return next(new CustomError(400, 'Both front and back image URLs are required'));
-    }
-
-    const frontValidation = await FirebaseStorageValidator.validateScanUrls(
-      validatedData.frontImageUrl,
-      undefined
-    );
-    if (!frontValidation.valid) {
-      return next(new CustomError(400, frontValidation.error || 'Invalid front image URL'));
-    }
-
-    const backValidation = await FirebaseStorageValidator.validateScanUrls(
-      undefined,
-      validatedData.backImageUrl
-    );
-    if (!backValidation.valid) {
-      return next(new CustomError(400, backValidation.error || 'Invalid back image URL'));
-    }
-
-    // Create compliance report
-    const complianceRepo = DB.getRepository(ComplianceReport);
-    const newReport = complianceRepo.create(validatedData);
-    const savedReport = await complianceRepo.save(newReport);
-
-    // Create audit log
-    await AuditLogService.createLog({
-      userId,
-      action: `Agent submitted compliance report: ${validatedData.status}`,
-      actionType: 'COMPLIANCE_REPORT',
-      platform: 'MOBILE',
-      metadata: {
-        reportId: savedReport._id,
-        status: validatedData.status,
-        nonComplianceReason: validatedData.nonComplianceReason,
-        productName: validatedData.scannedData?.productName,
-        ...(validatedData.frontImageUrl && { frontImageUrl: validatedData.frontImageUrl }),
-        ...(validatedData.backImageUrl && { backImageUrl: validatedData.backImageUrl }),
-      },
+    const savedReport = await ComplianceReportService.createReport(user._id, req.body, {
       ipAddress: req.ip,
       userAgent: req.get('user-agent'),
-      location: validatedData.location || undefined,
     });
 
     res.status(201).json({
@@ -84,11 +31,15 @@ export const createComplianceReport = async (
     });
   } catch (error: any) {
     console.error('Error creating compliance report:', error);
-    
+
     if (error.name === 'ZodError') {
       return next(new CustomError(400, 'Validation error: ' + JSON.stringify(error.errors)));
     }
-    
+
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+
     return next(new CustomError(500, 'Failed to create compliance report'));
   }
 };
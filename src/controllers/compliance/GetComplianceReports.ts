@@ -3,6 +3,7 @@ import { DB } from '../../typeorm/data-source';
 import { ComplianceReport } from '../../typeorm/entities/complianceReport.entity';
 import CustomError from '../../utils/CustomError';
 import { parsePageParams, buildPaginationMeta, buildLinks } from '../../utils/pagination';
+import { ComplianceReportService, ReportSearchValidation } from '../../services/complianceReportService';
 
 /**
  * Get compliance reports for the authenticated user
@@ -90,3 +91,39 @@ export const getComplianceReportById = async (
     return next(new CustomError(500, error.message || 'Failed to fetch compliance report'));
   }
 };
+
+/**
+ * Search all compliance reports (admin)
+ * GET /api/v1/compliance-reports?status=&nonComplianceReason=&agentId=&companyId=&from=&to=
+ *   &bbox=minLng,minLat,maxLng,maxLat&near=lat,lng&radiusKm=&productName=&CFPRNumber=
+ *   &sort=reportedAt|createdAt|status|nonComplianceReason|productName&order=asc|desc
+ */
+export const searchComplianceReports = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const filter = ReportSearchValidation.safeParse(req.query);
+  if (!filter.success) {
+    return next(new CustomError(400, 'Invalid report filters', { errors: filter.error.issues }));
+  }
+
+  try {
+    const { page, limit, skip } = parsePageParams(req, 10);
+    const [reports, total] = await ComplianceReportService.search(filter.data, skip, limit);
+
+    const meta = buildPaginationMeta(page, limit, total);
+    const links = buildLinks(req, page, limit, meta.total_pages);
+
+    res.status(200).json({
+      success: true,
+      data: reports,
+      filters: filter.data,
+      pagination: meta,
+      links
+    });
+  } catch (error: any) {
+    console.error('Error searching compliance reports:', error);
+    return next(new CustomError(500, 'Failed to search compliance reports'));
+  }
+};
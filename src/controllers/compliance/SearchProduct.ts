@@ -1,11 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import CustomError from '../../utils/CustomError';
-import { ProductRepo } from '../../typeorm/data-source';
-import { ILike } from 'typeorm';
-import { searchProductWithGrounding } from '../../services/groundedSearchService';
+import { RegistryService } from '../../services/registryService';
+import { ProductMatchingService } from '../../services/productMatchingService';
+import { evaluateScan } from '../../services/scanVerdictService';
+import { compareLabel } from '../../utils/labelComparison';
+import { RecallService } from '../../services/recallService';
 
 /**
- * Search for product in database first, then use grounded search if not found
+ * Search for product in database first, then in the imported BAI registry if not found
  * POST /api/v1/mobile/compliance/search-product
  */
 export const searchProduct = async (
@@ -14,7 +16,16 @@ export const searchProduct = async (
   next: NextFunction
 ) => {
   try {
-    const { productName, LTONumber, CFPRNumber, brandName, manufacturer } = req.body;
+    const { productName, LTONumber, CFPRNumber, brandName, manufacturer, lotNumber, expirationDate } = req.body;
+    const label = {
+      productName,
+      brandName,
+      manufacturer,
+      CFPRNumber,
+      LTONumber,
+      lotNumber,
+      expirationDate,
+    };
 
     console.log('🔍 Step 1: Searching for product in OUR database with criteria:', {
       productName,
@@ -24,111 +35,87 @@ export const searchProduct = async (
       manufacturer
     });
 
-    // Build search criteria for database query
-    const searchCriteria: any = {};
-    if (productName) {
-      searchCriteria.productName = ILike(`%${productName}%`);
-    }
-    if (LTONumber) {
-      searchCriteria.LTONumber = LTONumber;
-    }
-    if (CFPRNumber) {
-      searchCriteria.CFPRNumber = CFPRNumber;
-    }
-
-    // STEP 1: Try to find in OUR database first
-    const products = await ProductRepo.find({
-      where: searchCriteria,
-      relations: ['company', 'registeredBy'],
-      take: 5, // Limit results
-      order: { dateOfRegistration: 'DESC' },
+    // STEP 1: Rank products in OUR database, tolerating OCR mistakes in every field
+    const { matches, total } = await ProductMatchingService.rankProducts({
+      productName,
+      LTONumber,
+      CFPRNumber,
+      brandName,
+      manufacturer,
     });
 
     // If product found in OUR database, return it immediately
-    if (products && products.length > 0) {
-      console.log('✅ Product found in OUR database:', products.length, 'results');
+    if (matches.length > 0) {
+      console.log('✅ Product found in OUR database:', matches.length, 'results');
+
+      const bestMatch = ProductMatchingService.toResult(matches[0]);
 
       return res.status(200).json({
         success: true,
         found: true,
         message: 'Product found in database',
         source: 'internal_database',
-        product: products[0], // Return first match for compatibility
-        data: products[0],
-        totalMatches: products.length,
+        product: bestMatch, // Return best match for compatibility
+        data: bestMatch,
+        matchScore: matches[0].matchScore,
+        comparison: compareLabel(label, matches[0].product),
+        verdict: evaluateScan(label, { product: matches[0].product }),
+        recall: await RecallService.checkScannedLot({
+          productId: matches[0].product._id,
+          CFPRNumbers: [CFPRNumber, matches[0].product.CFPRNumber],
+          lotNumber,
+        }),
+        candidates: matches.slice(0, 5).map(ProductMatchingService.toResult),
+        totalMatches: total,
       });
     }
 
-    // STEP 2: Product NOT found in our database - use GROUNDED SEARCH
+    // STEP 2: Product NOT found in our database - check the imported BAI registry
     console.log('⚠️ Product NOT found in our database');
-    console.log('🌐 Step 2: Performing grounded search with PDF registry...');
-
-    try {
-      const groundedResult = await searchProductWithGrounding(
-        productName,
-        LTONumber,
-        CFPRNumber,
-        brandName,
-        manufacturer
-      );
-
-      if (!groundedResult) {
-        console.log('❌ No match found in PDF registry either');
-        return res.status(200).json({
-          success: true,
-          found: false,
-          message: 'No products found in database or official registry',
-          source: 'not_found',
-          product: null,
-          data: null,
-        });
-      }
-
-      // Format grounded result to match expected structure
-      const groundedProduct = {
-        _id: `grounded-${Date.now()}`,
-        productName: groundedResult.productName,
-        brandName: groundedResult.brandName,
-        CFPRNumber: groundedResult.CFPRNumber,
-        productClassification: groundedResult.productClassification,
-        productSubClassification: groundedResult.subClassification,
-        expirationDate: groundedResult.validUntil, // Map VALID UNTIL to expirationDate
-        company: {
-          name: groundedResult.companyName,
-          address: 'Philippines',
-        },
-        isActive: true,
-        confidence: groundedResult.confidence,
-        sourceUrl: groundedResult.source,
-      };
+    console.log('📄 Step 2: Searching the BAI product registry...');
 
-      console.log('✅ Product found via grounded search from PDF registry');
-
-      return res.status(200).json({
-        success: true,
-        found: true,
-        message: 'Product found in official PDF registry',
-        source: 'grounded_search_pdf',
-        product: groundedProduct,
-        data: groundedProduct,
-        confidence: groundedResult.confidence,
-      });
-
-    } catch (groundingError: any) {
-      console.error('❌ Error during grounded search:', groundingError);
+    const registryMatch = await RegistryService.lookup({
+      productName,
+      LTONumber,
+      CFPRNumber,
+      brandName,
+      manufacturer,
+    });
 
-      // Fallback: Return not found if grounding fails
+    if (!registryMatch) {
+      console.log('❌ No match found in the BAI registry either');
       return res.status(200).json({
         success: true,
         found: false,
-        message: 'Product not found (grounding search unavailable)',
-        source: 'search_failed',
+        message: 'No products found in database or official registry',
+        source: 'not_found',
         product: null,
         data: null,
-        error: groundingError.message,
+        verdict: evaluateScan(label, {}),
+        recall: await RecallService.checkScannedLot({ CFPRNumbers: [CFPRNumber], lotNumber }),
       });
     }
 
+    const registryProduct = RegistryService.toProductView(registryMatch);
+
+    console.log('✅ Product found in the BAI registry');
+
+    return res.status(200).json({
+      success: true,
+      found: true,
+      message: 'Product found in official BAI registry',
+      source: 'bai_registry',
+      product: registryProduct,
+      data: registryProduct,
+      confidence: registryMatch.confidence,
+      comparison: compareLabel(label, RegistryService.toRegisteredProduct(registryMatch.entry)),
+      verdict: evaluateScan(label, { registryEntry: registryMatch.entry }),
+      recall: await RecallService.checkScannedLot({
+        CFPRNumbers: [CFPRNumber, registryMatch.entry.CFPRNumber],
+        lotNumber,
+      }),
+    });
+
   } catch (error: any) {
     console.error('Error searching product:', error);
     return next(new CustomError(500, 'Failed to search product'));
@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from "express";
+import CustomError from "../../utils/CustomError";
+import { manilaDate } from "../../utils/dates";
+import { AuditLogService } from "../../services/auditLogService";
+import {
+  DatasetExport,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  ExportDataset,
+  ExportFormat,
+  ExportService,
+} from "../../services/exportService";
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Download a dataset as CSV or XLSX, filtered like its list view
+ * GET /api/v1/exports/:dataset?format=csv|xlsx&<filters>
+ * Datasets: compliance-reports, scans, products, companies, audit-logs
+ */
+export const exportData = async (req: Request, res: Response, next: NextFunction) => {
+  const currentUser = req.user;
+  if (!currentUser) {
+    return next(new CustomError(401, "User not authenticated"));
+  }
+
+  const dataset = req.params.dataset as ExportDataset;
+  if (!EXPORT_DATASETS.includes(dataset)) {
+    return next(new CustomError(404, "Unknown export", { data: `Available exports: ${EXPORT_DATASETS.join(", ")}` }));
+  }
+
+  const { format = "csv", ...filterQuery } = req.query;
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return next(new CustomError(400, "Invalid format", { data: "Use format=csv or format=xlsx" }));
+  }
+
+  let prepared: DatasetExport;
+  try {
+    prepared = ExportService.prepare(dataset, filterQuery);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+    console.error("Error preparing export:", error);
+    return next(new CustomError(500, "Failed to export data"));
+  }
+
+  res.setHeader("Content-Type", CONTENT_TYPES[format as ExportFormat]);
+  res.setHeader("Content-Disposition", `attachment; filename="${dataset}-${manilaDate(new Date())}.${format}"`);
+  res.status(200);
+
+  let rowCount = 0;
+  let completed = false;
+  try {
+    rowCount = await ExportService.write(prepared, format as ExportFormat, res);
+    completed = true;
+  } catch (error) {
+    console.error(`Error exporting ${dataset}:`, error);
+    // Rows may already be on their way, so the response can only be cut short
+    if (!res.headersSent) {
+      return next(new CustomError(500, "Failed to export data"));
+    }
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+
+  try {
+    await AuditLogService.createLog({
+      action: completed
+        ? `Exported ${rowCount} ${dataset} as ${String(format).toUpperCase()}`
+        : `Export of ${dataset} as ${String(format).toUpperCase()} failed`,
+      actionType: "EXPORT_DATA",
+      userId: currentUser._id,
+      platform: "WEB",
+      metadata: { dataset, format, filters: prepared.filters, rowCount, completed },
+      req,
+    });
+  } catch (error) {
+    console.error("Failed to record export in the audit log:", error);
+  }
+};
@@ -0,0 +1,73 @@
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import CustomError from "../../utils/CustomError";
+import { ProductRepo } from "../../typeorm/data-source";
+import {
+  canonicalJson,
+  ProductLedgerService,
+  productSnapshot,
+} from "../../services/productLedgerService";
+
+/**
+ * Walk the whole product ledger and report any break in the chain
+ * GET /api/v1/ledger/verify
+ */
+export const verifyLedger = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const verification = await ProductLedgerService.verifyChain();
+    res.status(200).json({ success: true, ...verification });
+  } catch (error) {
+    console.error("Error verifying product ledger:", error);
+    return next(new CustomError(500, "Failed to verify product ledger"));
+  }
+};
+
+/**
+ * Ledger history of a product, and whether the product still matches its latest block
+ * GET /api/v1/ledger/products/:productId
+ */
+export const getProductLedgerHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { productId } = req.params;
+  if (!z.string().uuid().safeParse(productId).success) {
+    return next(new CustomError(400, "Invalid Product ID"));
+  }
+
+  try {
+    const [history, product] = await Promise.all([
+      ProductLedgerService.getProductHistory(productId),
+      ProductRepo.findOneBy({ _id: productId }),
+    ]);
+
+    if (history.length === 0 && !product) {
+      return next(new CustomError(404, "Product not found in the ledger"));
+    }
+
+    // A product edited without going through the API no longer matches its latest block.
+    // Deactivated products keep their row; products deleted before that have none.
+    const latest = history[history.length - 1];
+    const matchesLedger = product
+      ? !!latest &&
+        product.isActive === (latest.action !== "DEACTIVATE") &&
+        canonicalJson(productSnapshot(product)) === canonicalJson(latest.data)
+      : !latest || latest.action === "DEACTIVATE";
+
+    res.status(200).json({
+      success: true,
+      productId,
+      exists: !!product,
+      matchesLedger,
+      data: history,
+    });
+  } catch (error) {
+    console.error("Error fetching product ledger history:", error);
+    return next(new CustomError(500, "Failed to retrieve product ledger history"));
+  }
+};
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from "express";
-import { ProductValidation } from "../../typeorm/entities/product.entity";
-import { ProductRepo } from "../../typeorm/data-source";
+import { Brackets } from "typeorm";
+import { Product, ProductValidation } from "../../typeorm/entities/product.entity";
+import { ProductLedgerAction } from "../../typeorm/entities/productLedgerBlock.entity";
+import { DB, ProductRepo } from "../../typeorm/data-source";
 import CustomError from "../../utils/CustomError";
 import { getCompanyById } from "../company/Company";
 import {
@@ -10,6 +12,22 @@ import {
 } from "../../utils/pagination";
 import { AuditLogService } from "../../services/auditLogService";
 import { redisService } from "../../services/redisService";
+import { ProductQRService } from "../../services/productQRService";
+import { ComplianceReportService } from "../../services/complianceReportService";
+import { ProductLedgerService } from "../../services/productLedgerService";
+import { RecallService } from "../../services/recallService";
+
+/**
+ * Save a product and record it in the ledger in one transaction. The ledger gets
+ * the row as read back after the save, so it holds exactly what was stored.
+ */
+const saveWithLedger = (product: Partial<Product>, action: ProductLedgerAction, actorId?: string) =>
+  DB.transaction(async manager => {
+    const { _id } = await manager.save(Product, product);
+    const saved = await manager.findOneByOrFail(Product, { _id });
+    await ProductLedgerService.append(manager, saved, action, actorId);
+    return saved;
+  });
 
 export const getAllProducts = async (
   req: Request,
@@ -38,24 +56,31 @@ export const getAllProducts = async (
       const qb = ProductRepo.createQueryBuilder("product")
         .leftJoinAndSelect("product.company", "company")
         .leftJoinAndSelect("product.registeredBy", "registeredBy")
-        .where("LOWER(product.productName) LIKE LOWER(:q)", {
-          q: `%${search}%`,
-        })
-        .orWhere("LOWER(product.brandName) LIKE LOWER(:q)", {
-          q: `%${search}%`,
-        })
-        .orWhere("LOWER(product.lotNumber) LIKE LOWER(:q)", {
-          q: `%${search}%`,
-        })
-        .orWhere("LOWER(company.name) LIKE LOWER(:q)", {
-          q: `%${search}%`,
-        })
+        .where("product.isActive = :isActive", { isActive: true })
+        .andWhere(
+          new Brackets(match => {
+            match
+              .where("LOWER(product.productName) LIKE LOWER(:q)", {
+                q: `%${search}%`,
+              })
+              .orWhere("LOWER(product.brandName) LIKE LOWER(:q)", {
+                q: `%${search}%`,
+              })
+              .orWhere("LOWER(product.lotNumber) LIKE LOWER(:q)", {
+                q: `%${search}%`,
+              })
+              .orWhere("LOWER(company.name) LIKE LOWER(:q)", {
+                q: `%${search}%`,
+              });
+          })
+        )
         .orderBy("product.dateOfRegistration", "DESC")
         .skip(skip)
         .take(limit);
       [products, total] = await qb.getManyAndCount();
     } else {
       [products, total] = await ProductRepo.findAndCount({
+        where: { isActive: true },
         skip,
         take: limit,
         order: { dateOfRegistration: "DESC" },
@@ -81,23 +106,45 @@ export const getAllProducts = async (
   }
 };
 
+/**
+ * Product detail, with every recall that covers it
+ * GET /api/v1/product/products/:id
+ */
 export const getProductById = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  if (!ProductValidation.parse({ id: req.params.id })) {
-    return new CustomError(400, "Invalid Product ID");
+  if (!ProductValidation.shape._id.safeParse(req.params.id).success) {
+    return next(new CustomError(400, "Invalid Product ID"));
   }
   try {
-    // Logic to get a product by ID (placeholder)
+    const product = await ProductRepo.findOne({
+      where: { _id: req.params.id },
+      relations: ["company", "registeredBy"],
+    });
+    if (!product) {
+      return next(new CustomError(404, "Product not found"));
+    }
+
+    const [recalls, complianceHistory] = await Promise.all([
+      RecallService.getForProduct(product),
+      ComplianceReportService.getHistory("productId", product._id),
+    ]);
+
     res.status(200).json({
-      message: `Product with ID ${req.params.id} retrieved successfully`,
+      success: true,
+      data: {
+        ...product,
+        recalls,
+        hasActiveRecall: recalls.some(recall => recall.status === "ACTIVE"),
+        complianceHistory,
+      },
     });
   } catch (error) {
-    return new CustomError(500, "Failed to retrieve product");
+    console.error("Error fetching product:", error);
+    return next(new CustomError(500, "Failed to retrieve product"));
   }
-  return CustomError.security(400, "Invalid user data");
 };
 
 export const createProduct = async (
@@ -162,8 +209,8 @@ export const createProduct = async (
       );
     }
 
-    // Save product
-    const savedProduct = await ProductRepo.save(validatedProduct.data);
+    // Save product and record it in the ledger
+    const savedProduct = await saveWithLedger(validatedProduct.data, "CREATE", currentUser._id);
 
     // Clear products cache when new product is created
     try {
@@ -222,8 +269,8 @@ export const updateProduct = async (
       return new CustomError(404, "Product not found");
     }
     ProductRepo.merge(product, req.body);
-    await ProductRepo.save(product);
-    res.status(200).json({ product });
+    const savedProduct = await saveWithLedger(product, "UPDATE", req.user?._id);
+    res.status(200).json({ product: savedProduct });
   } catch (error) {
     return new CustomError(500, "Failed to update product");
   }
@@ -243,8 +290,8 @@ export const partialUpdateProduct = async (
       return new CustomError(404, "Product not found");
     }
     ProductRepo.merge(product, req.body);
-    await ProductRepo.save(product);
-    res.status(200).json({ product });
+    const savedProduct = await saveWithLedger(product, "UPDATE", req.user?._id);
+    res.status(200).json({ product: savedProduct });
   } catch (error) {
     return new CustomError(500, "Failed to partially update product");
   }
@@ -259,11 +306,21 @@ export const deleteProduct = async (
     return new CustomError(400, "Invalid Product ID");
   }
   try {
-    const result = await ProductRepo.delete(req.params.id);
-    if (result.affected === 0) {
+    const product = await ProductRepo.findOneBy({ _id: req.params.id });
+    if (!product) {
       return new CustomError(404, "Product not found");
     }
-    res.status(200).json({ message: "Product deleted successfully" });
+    // Deactivated products are kept so scans can still report them and the ledger stays whole
+    product.isActive = false;
+    await saveWithLedger(product, "DEACTIVATE", req.user?._id);
+
+    try {
+      await redisService.invalidateProductsCache();
+    } catch (redisError) {
+      console.warn("Failed to clear products cache:", redisError instanceof Error ? redisError.message : 'Unknown error');
+    }
+
+    res.status(200).json({ message: "Product deactivated successfully" });
   } catch (error) {
     return new CustomError(500, "Failed to delete product");
   }
@@ -282,11 +339,17 @@ export const searchProduct = async (
     const { page, limit, skip } = parsePageParams(req, 10);
     const qb = ProductRepo.createQueryBuilder("product")
       .leftJoinAndSelect("product.companyId", "company")
-      .where("product.LTONumber LIKE :query", { query: `%${query}%` })
-      .orWhere("product.CFPRNumber LIKE :query", { query: `%${query}%` })
-      .orWhere("product.lotNumber LIKE :query", { query: `%${query}%` })
-      .orWhere("product.brandName LIKE :query", { query: `%${query}%` })
-      .orWhere("product.productName LIKE :query", { query: `%${query}%` });
+      .where("product.isActive = :isActive", { isActive: true })
+      .andWhere(
+        new Brackets(match => {
+          match
+            .where("product.LTONumber LIKE :query", { query: `%${query}%` })
+            .orWhere("product.CFPRNumber LIKE :query", { query: `%${query}%` })
+            .orWhere("product.lotNumber LIKE :query", { query: `%${query}%` })
+            .orWhere("product.brandName LIKE :query", { query: `%${query}%` })
+            .orWhere("product.productName LIKE :query", { query: `%${query}%` });
+        })
+      );
 
     const [products, total] = await qb.skip(skip).take(limit).getManyAndCount();
     const meta = buildPaginationMeta(page, limit, total);
@@ -295,4 +358,42 @@ export const searchProduct = async (
   } catch (error) {
     return new CustomError(500, "Failed to search products");
   }
-};
\ No newline at end of file
+};
+/**
+ * Signed QR code for a product, as a PNG (default) or SVG image
+ * GET /api/v1/product/products/:id/qr?format=png|svg
+ */
+export const getProductQRCode = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!ProductValidation.shape._id.safeParse(req.params.id).success) {
+    return next(new CustomError(400, "Invalid Product ID"));
+  }
+
+  const format = req.query.format === undefined ? "png" : req.query.format;
+  if (format !== "png" && format !== "svg") {
+    return next(new CustomError(400, "Invalid format", { data: "Use format=png or format=svg" }));
+  }
+
+  try {
+    const product = await ProductRepo.findOne({ where: { _id: req.params.id } });
+    if (!product) {
+      return next(new CustomError(404, "Product not found"));
+    }
+
+    const { payload, image } = await ProductQRService.generate(product, format);
+
+    res.setHeader("Content-Type", format === "svg" ? "image/svg+xml" : "image/png");
+    res.setHeader("Content-Disposition", `inline; filename="product-${product._id}.${format}"`);
+    res.setHeader("X-QR-Payload", payload);
+    res.status(200).send(image);
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+    console.error("Error generating product QR code:", error);
+    return next(new CustomError(500, "Failed to generate QR code"));
+  }
+};
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import { ProductClassificationValidation } from "../../typeorm/entities/productClassification.entity";
-import { ProductClassificationRepo, ProductRepo } from "../../typeorm/data-source";
+import { DB, ProductClassificationRepo, ProductRepo } from "../../typeorm/data-source";
 import CustomError from "../../utils/CustomError";
 import {
   parsePageParams,
@@ -8,6 +8,7 @@ import {
   buildLinks,
 } from "../../utils/pagination";
 import { AuditLogService } from "../../services/auditLogService";
+import { ProductLedgerService } from "../../services/productLedgerService";
 import { IsNull } from "typeorm";
 
 // Get all classifications (parent classifications only by default)
@@ -458,24 +459,24 @@ export const deleteClassification = async (
         });
       }
 
-      // Re-route products to new classification
-      if (isSubClassification) {
-        await ProductRepo.update(
-          { subClassificationId: id },
-          {
+      // Re-route products to new classification, recording each in the ledger
+      const changes = isSubClassification
+        ? {
             subClassificationId: newClassificationId,
             productSubClassification: newClassification.name,
           }
-        );
-      } else {
-        await ProductRepo.update(
-          { classificationId: id },
-          {
+        : {
             classificationId: newClassificationId,
             productClassification: newClassification.name,
-          }
-        );
-      }
+          };
+      await DB.transaction((manager) =>
+        ProductLedgerService.updateProducts(
+          manager,
+          products.map((p) => p._id),
+          changes,
+          currentUser._id
+        )
+      );
     }
 
     // Soft delete
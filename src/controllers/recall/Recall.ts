@@ -0,0 +1,189 @@
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import CustomError from "../../utils/CustomError";
+import { RecallRepo } from "../../typeorm/data-source";
+import { CloseRecallValidation, RecallValidation } from "../../typeorm/entities/recall.entity";
+import { RecallService } from "../../services/recallService";
+import { AuditLogService } from "../../services/auditLogService";
+import { CompanyRiskService } from "../../services/companyRiskService";
+import {
+  parsePageParams,
+  buildPaginationMeta,
+  buildLinks,
+} from "../../utils/pagination";
+
+const RecallIdValidation = z.string().uuid();
+
+/**
+ * List recalls, newest first
+ * GET /api/v1/recall/recalls?status=ACTIVE|CLOSED&productId=
+ */
+export const getRecalls = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { status, productId } = req.query;
+  if (status !== undefined && status !== "ACTIVE" && status !== "CLOSED") {
+    return next(new CustomError(400, "Invalid status", { data: "Use status=ACTIVE or status=CLOSED" }));
+  }
+  if (productId !== undefined && !RecallIdValidation.safeParse(productId).success) {
+    return next(new CustomError(400, "Invalid Product ID"));
+  }
+
+  try {
+    const { page, limit, skip } = parsePageParams(req, 10);
+    const [recalls, total] = await RecallService.list(
+      { status, productId: productId as string | undefined },
+      skip,
+      limit
+    );
+    const meta = buildPaginationMeta(page, limit, total);
+    const links = buildLinks(req, page, limit, meta.total_pages);
+    res.status(200).json({ success: true, data: recalls, pagination: meta, links });
+  } catch (error) {
+    console.error("Error fetching recalls:", error);
+    return next(new CustomError(500, "Failed to retrieve recalls"));
+  }
+};
+
+/**
+ * GET /api/v1/recall/recalls/:id
+ */
+export const getRecallById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!RecallIdValidation.safeParse(req.params.id).success) {
+    return next(new CustomError(400, "Invalid Recall ID"));
+  }
+
+  try {
+    const recall = await RecallRepo.findOne({ where: { _id: req.params.id }, relations: ["product"] });
+    if (!recall) {
+      return next(new CustomError(404, "Recall not found"));
+    }
+    res.status(200).json({ success: true, data: recall });
+  } catch (error) {
+    console.error("Error fetching recall:", error);
+    return next(new CustomError(500, "Failed to retrieve recall"));
+  }
+};
+
+/**
+ * Recall lots of a product or CFPR number
+ * POST /api/v1/recall/recalls
+ */
+export const createRecall = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const currentUser = req.user;
+  if (!currentUser) {
+    return next(new CustomError(401, "User not authenticated"));
+  }
+
+  const validatedData = RecallValidation.safeParse(req.body);
+  if (!validatedData.success) {
+    return next(
+      new CustomError(400, "Invalid recall data", {
+        errors: validatedData.error.issues,
+      })
+    );
+  }
+
+  try {
+    const recall = await RecallService.create(validatedData.data, currentUser._id);
+
+    await AuditLogService.createLog({
+      action: `Recalled lot(s) ${recall.lotNumbers.join(", ")} of ${recall.CFPRNumber || recall.productId}`,
+      actionType: "CREATE_RECALL",
+      userId: currentUser._id,
+      targetProductId: recall.productId || undefined,
+      platform: "WEB",
+      metadata: {
+        recallId: recall._id,
+        CFPRNumber: recall.CFPRNumber,
+        lotNumbers: recall.lotNumbers,
+        effectiveDate: recall.effectiveDate,
+        reason: recall.reason,
+      },
+      req,
+    });
+
+    await CompanyRiskService.recalculateForRecall(recall);
+
+    res.status(201).json({
+      success: true,
+      message: "Recall created successfully",
+      data: recall,
+    });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+    console.error("Error creating recall:", error);
+    return next(new CustomError(500, "Failed to create recall"));
+  }
+};
+
+/**
+ * Close a recall; scans of its lots are no longer flagged
+ * PATCH /api/v1/recall/recalls/:id/close
+ */
+export const closeRecall = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const currentUser = req.user;
+  if (!currentUser) {
+    return next(new CustomError(401, "User not authenticated"));
+  }
+
+  if (!RecallIdValidation.safeParse(req.params.id).success) {
+    return next(new CustomError(400, "Invalid Recall ID"));
+  }
+
+  const validatedData = CloseRecallValidation.safeParse(req.body ?? {});
+  if (!validatedData.success) {
+    return next(
+      new CustomError(400, "Invalid recall data", {
+        errors: validatedData.error.issues,
+      })
+    );
+  }
+
+  try {
+    const recall = await RecallService.close(req.params.id, currentUser._id, validatedData.data.closureNote);
+
+    await AuditLogService.createLog({
+      action: `Closed recall of lot(s) ${recall.lotNumbers.join(", ")} of ${recall.CFPRNumber || recall.productId}`,
+      actionType: "CLOSE_RECALL",
+      userId: currentUser._id,
+      targetProductId: recall.productId || undefined,
+      platform: "WEB",
+      metadata: {
+        recallId: recall._id,
+        closureNote: recall.closureNote,
+      },
+      req,
+    });
+
+    await CompanyRiskService.recalculateForRecall(recall);
+
+    res.status(200).json({
+      success: true,
+      message: "Recall closed successfully",
+      data: recall,
+    });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+    console.error("Error closing recall:", error);
+    return next(new CustomError(500, "Failed to close recall"));
+  }
+};
@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import CustomError from '../../utils/CustomError';
+import { REGION_LEVELS, RegionUploadValidation } from '../../typeorm/entities/region.entity';
+import { RegionRollupValidation, RegionService } from '../../services/regionService';
+import { AuditLogService } from '../../services/auditLogService';
+
+const RegionListValidation = z.object({
+  level: z.enum(REGION_LEVELS).optional(),
+  parentId: z.string().uuid().optional(),
+});
+
+/**
+ * List uploaded boundaries without their geometry
+ * GET /api/v1/regions?level=REGION|PROVINCE|MUNICIPALITY&parentId=
+ */
+export const getRegions = async (req: Request, res: Response, next: NextFunction) => {
+  const filter = RegionListValidation.safeParse(req.query);
+  if (!filter.success) {
+    return next(new CustomError(400, 'Invalid region filters', { errors: filter.error.issues }));
+  }
+
+  try {
+    const regions = await RegionService.list(filter.data.level, filter.data.parentId);
+    res.status(200).json({ success: true, data: regions });
+  } catch (error) {
+    console.error('Error fetching regions:', error);
+    return next(new CustomError(500, 'Failed to retrieve regions'));
+  }
+};
+
+/**
+ * One boundary with its geometry
+ * GET /api/v1/regions/:id
+ */
+export const getRegionById = async (req: Request, res: Response, next: NextFunction) => {
+  if (!z.string().uuid().safeParse(req.params.id).success) {
+    return next(new CustomError(400, 'Invalid Region ID'));
+  }
+
+  try {
+    const region = await RegionService.getById(req.params.id);
+    if (!region) {
+      return next(new CustomError(404, 'Region not found'));
+    }
+    res.status(200).json({ success: true, data: region });
+  } catch (error) {
+    console.error('Error fetching region:', error);
+    return next(new CustomError(500, 'Failed to retrieve region'));
+  }
+};
+
+/**
+ * Upload boundaries of one level as a GeoJSON FeatureCollection
+ * POST /api/v1/regions/upload?level=PROVINCE&nameProperty=name&codeProperty=code&parentCodeProperty=
+ * Large files should be sent as application/geo+json.
+ */
+export const uploadRegions = async (req: Request, res: Response, next: NextFunction) => {
+  const options = RegionUploadValidation.safeParse(req.query);
+  if (!options.success) {
+    return next(new CustomError(400, 'Invalid upload options', { errors: options.error.issues }));
+  }
+
+  try {
+    const result = await RegionService.upload(req.body, options.data);
+
+    await AuditLogService.createLog({
+      action: `Uploaded ${result.created + result.updated} ${options.data.level.toLowerCase()} boundaries`,
+      actionType: 'IMPORT_REGIONS',
+      userId: req.user?._id,
+      platform: 'WEB',
+      metadata: { ...options.data, ...result, unmatchedParents: result.unmatchedParents.length },
+      req,
+    });
+
+    res.status(201).json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      return next(error);
+    }
+    console.error('Error uploading regions:', error);
+    return next(new CustomError(500, 'Failed to upload regions'));
+  }
+};
+
+/**
+ * Report counts and non-compliance rate per boundary of a level
+ * GET /api/v1/regions/rollup?level=PROVINCE&parentId=&from=&to=
+ */
+export const getRegionRollup = async (req: Request, res: Response, next: NextFunction) => {
+  const filter = RegionRollupValidation.safeParse(req.query);
+  if (!filter.success) {
+    return next(new CustomError(400, 'Invalid rollup filters', { errors: filter.error.issues }));
+  }
+
+  try {
+    const rollup = await RegionService.rollup(filter.data);
+    res.status(200).json({ success: true, data: rollup, filters: filter.data });
+  } catch (error) {
+    console.error('Error building region rollup:', error);
+    return next(new CustomError(500, 'Failed to build region rollup'));
+  }
+};
@@ -0,0 +1,124 @@
+import type { NextFunction, Request, Response } from "express";
+import CustomError from "../../utils/CustomError";
+import { RegistryImportRepo } from "../../typeorm/data-source";
+import { RegistryImport } from "../../typeorm/entities/registryImport.entity";
+import { RegistryService } from "../../services/registryService";
+import {
+  parsePageParams,
+  buildPaginationMeta,
+  buildLinks,
+} from "../../utils/pagination";
+
+/**
+ * Resolve the two editions to compare from ?from=&to= version numbers.
+ * Defaults to the latest import compared with the one before it.
+ */
+const resolveImportPair = async (
+  req: Request
+): Promise<{ from: RegistryImport; to: RegistryImport } | CustomError> => {
+  const to = req.query.to
+    ? await RegistryService.getImportByVersion(Number(req.query.to))
+    : await RegistryService.getCurrentImport();
+  if (!to) {
+    return new CustomError(404, "Registry import not found", { version: req.query.to ?? "latest" });
+  }
+
+  const fromVersion = req.query.from ? Number(req.query.from) : to.version - 1;
+  if (fromVersion >= to.version) {
+    return new CustomError(400, "'from' must be an earlier import than 'to'");
+  }
+
+  const from = await RegistryService.getImportByVersion(fromVersion);
+  if (!from) {
+    return new CustomError(404, "Registry import not found", { version: fromVersion });
+  }
+
+  return { from, to };
+};
+
+/**
+ * List imported editions of the BAI registry
+ * GET /api/v1/registry/imports
+ */
+export const getRegistryImports = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page, limit, skip } = parsePageParams(req, 10);
+    const [imports, total] = await RegistryImportRepo.findAndCount({
+      order: { version: "DESC" },
+      skip,
+      take: limit,
+    });
+    const meta = buildPaginationMeta(page, limit, total);
+    const links = buildLinks(req, page, limit, meta.total_pages);
+    res.status(200).json({ success: true, data: imports, pagination: meta, links });
+  } catch (error) {
+    console.error("Error fetching registry imports:", error);
+    return next(new CustomError(500, "Failed to retrieve registry imports"));
+  }
+};
+
+/**
+ * What changed between two registry imports
+ * GET /api/v1/registry/imports/diff?from=1&to=2
+ */
+export const getRegistryImportDiff = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const pair = await resolveImportPair(req);
+    if (pair instanceof CustomError) return next(pair);
+
+    const diff = await RegistryService.diffImports(pair.from, pair.to);
+
+    res.status(200).json({
+      success: true,
+      from: pair.from,
+      to: pair.to,
+      summary: {
+        added: diff.added.length,
+        removed: diff.removed.length,
+        changed: diff.changed.length,
+        duplicates: diff.duplicates.length,
+      },
+      data: diff,
+    });
+  } catch (error) {
+    console.error("Error comparing registry imports:", error);
+    return next(new CustomError(500, "Failed to compare registry imports"));
+  }
+};
+
+/**
+ * Products whose CFPR number was removed or changed between two registry imports
+ * GET /api/v1/registry/imports/affected-products?from=1&to=2
+ */
+export const getAffectedProducts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const pair = await resolveImportPair(req);
+    if (pair instanceof CustomError) return next(pair);
+
+    const diff = await RegistryService.diffImports(pair.from, pair.to);
+    const affected = await RegistryService.findAffectedProducts(diff);
+
+    res.status(200).json({
+      success: true,
+      from: pair.from.version,
+      to: pair.to.version,
+      total: affected.length,
+      data: affected,
+    });
+  } catch (error) {
+    console.error("Error finding affected products:", error);
+    return next(new CustomError(500, "Failed to find affected products"));
+  }
+};
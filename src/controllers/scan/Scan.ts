@@ -1,21 +1,19 @@
 import type { NextFunction, Request, Response } from "express";
 import CustomError from "../../utils/CustomError";
-import { Product } from "../../typeorm/entities/product.entity";
-import { Company } from "../../typeorm/entities/company.entity";
 import {
   ScanHistoryValidation,
 } from "../../typeorm/entities/scanHistory";
-import { ProductRepo, ScanRepo, CompanyRepo } from "../../typeorm/data-source";
 import {
   parsePageParams,
   buildPaginationMeta,
   buildLinks,
 } from "../../utils/pagination";
-import { OCRBlock } from "../../types/types";
-import { ProcessText } from "../../services/aiProcess";
-import { FirebaseStorageValidator } from "../../utils/FirebaseStorageValidator";
-import { searchProductWithGrounding } from "../../services/groundedSearchService";
-import { ILike } from "typeorm";
+import { RegistryService } from "../../services/registryService";
+import { ScanHistoryService } from "../../services/scanHistoryService";
+import { MIN_MATCH_SCORE, ProductMatchingService } from "../../services/productMatchingService";
+import { evaluateScan, ScanVerdict } from "../../services/scanVerdictService";
+import { compareLabel, ScannedLabel } from "../../utils/labelComparison";
+import { RecallService } from "../../services/recallService";
 
 export const scanProduct = async (
   req: Request,
@@ -23,58 +21,30 @@ export const scanProduct = async (
   next: NextFunction
 ) => {
   try {
-    // Extract OCR text and image URLs from request body
-    const { blockOfText, frontImageUrl, backImageUrl } = req.body;
-
-    // Validate input
-    if (!blockOfText) {
-      return next(
-        new CustomError(400, "OCR text is required", {
-          data: "Missing blockOfText in request body",
-        })
-      );
-    }
-
-    // Validate image URLs if provided
-    if (frontImageUrl && !FirebaseStorageValidator.isValidScanUrl(frontImageUrl)) {
-      return next(
-        new CustomError(400, "Invalid front image URL", {
-          data: "Front image must be from Firebase Storage scans/ folder",
-        })
-      );
-    }
-
-    if (backImageUrl && !FirebaseStorageValidator.isValidScanUrl(backImageUrl)) {
-      return next(
-        new CustomError(400, "Invalid back image URL", {
-          data: "Back image must be from Firebase Storage scans/ folder",
-        })
-      );
+    const agent = req.user;
+    if (!agent) {
+      return next(new CustomError(401, "User not authenticated"));
     }
 
-    console.log("Received OCR text length:", blockOfText.length);
-    if (frontImageUrl) console.log("Front image URL:", frontImageUrl);
-    if (backImageUrl) console.log("Back image URL:", backImageUrl);
-    console.log("Processing OCR text with AI...");
-
-    // Process the OCR text with AI to extract product information
-    const processedOCRText = await ProcessText(blockOfText);
+    // Extract OCR text, image URLs and scan location from request body
+    const { blockOfText, frontImageUrl, backImageUrl, location } = req.body;
 
-    console.log("Extracted product information:", processedOCRText);
+    const { scan, extractedInfo } = await ScanHistoryService.processScan({
+      agent,
+      blockOfText,
+      frontImageUrl,
+      backImageUrl,
+      location,
+    });
 
     // Return the extracted information WITHOUT querying the database
     // User will decide whether to search the database or not
-    // Include image URLs in response for audit logging
+    // Include scanId so the matched product can be linked to this scan later
     res.status(200).json({
       success: true,
       message: "OCR text processed successfully",
-      extractedInfo: {
-        productName: processedOCRText.productName || "Unknown",
-        LTONumber: processedOCRText.LTONum || null,
-        CFPRNumber: processedOCRText.CFPRNum || null,
-        expirationDate: processedOCRText.ExpiryDate || null,
-        manufacturer: processedOCRText.ManufacturedBy || null,
-      },
+      scanId: scan._id,
+      extractedInfo,
       rawOCRText: blockOfText,
       frontImageUrl: frontImageUrl || null,
       backImageUrl: backImageUrl || null,
@@ -92,7 +62,16 @@ export const searchScannedProduct = async (
   next: NextFunction
 ) => {
   try {
-    const { productName, LTONumber, CFPRNumber, brandName, manufacturer } = req.body;
+    const {
+      productName,
+      LTONumber,
+      CFPRNumber,
+      brandName,
+      manufacturer,
+      lotNumber,
+      expirationDate,
+      scanId,
+    } = req.body;
 
     // Validate input - at least one search criteria is required
     if (!productName && !LTONumber && !CFPRNumber) {
@@ -112,32 +91,49 @@ export const searchScannedProduct = async (
     });
 
     const { page, limit, skip } = parsePageParams(req, 10);
-    
-    // Build search criteria for database
-    const searchCriteria: any = {};
-    if (productName) {
-      searchCriteria.productName = ILike(`%${productName}%`);
-    }
-    if (LTONumber) {
-      searchCriteria.LTONumber = LTONumber;
-    }
-    if (CFPRNumber) {
-      searchCriteria.CFPRNumber = CFPRNumber;
-    }
 
-    // STEP 1: Try to find in OUR database first
-    const [products, total] = await ProductRepo.findAndCount({
-      where: searchCriteria,
-      skip,
-      take: limit,
-      order: { dateOfRegistration: "DESC" },
-      relations: ["company", "registeredBy"],
-    });
+    // The verdict and comparison use the values sent by the agent, falling back to what was read from the scan
+    const scan = scanId && req.user && ScanHistoryValidation.pick({ id: true }).safeParse({ id: scanId }).success
+      ? await ScanHistoryService.getAgentScanById(scanId, req.user._id)
+      : null;
+    const label: ScannedLabel = {
+      productName: productName ?? scan?.extractedInfo?.productName,
+      brandName: brandName ?? scan?.extractedInfo?.brandName,
+      manufacturer: manufacturer ?? scan?.extractedInfo?.manufacturer,
+      CFPRNumber: CFPRNumber ?? scan?.extractedInfo?.CFPRNumber,
+      LTONumber: LTONumber ?? scan?.extractedInfo?.LTONumber,
+      lotNumber: lotNumber ?? scan?.extractedInfo?.lotNumber,
+      expirationDate: expirationDate ?? scan?.extractedInfo?.expirationDate,
+    };
+    const saveVerdict = async (verdict: ScanVerdict, productId?: string) => {
+      if (scan && req.user) {
+        await ScanHistoryService.recordVerdict(scan._id, req.user._id, verdict, productId);
+      }
+    };
+
+    // STEP 1: Rank products in OUR database, tolerating OCR mistakes in every field.
+    // Enough matches are loaded to fill the requested page; `total` counts all of them.
+    const { matches, total } = await ProductMatchingService.rankProducts(
+      { productName, LTONumber, CFPRNumber, brandName, manufacturer },
+      MIN_MATCH_SCORE,
+      skip + limit
+    );
 
     // If product found in OUR database, return it immediately
-    if (products && products.length > 0) {
-      console.log("✅ Product found in OUR database:", products.length, "results");
+    if (matches.length > 0) {
+      console.log("✅ Product found in OUR database:", total, "results");
+
+      // Link the best match and its verdict to the scan it came from
+      const verdict = evaluateScan(label, { product: matches[0].product });
+      await saveVerdict(verdict, matches[0].product._id);
+      const comparison = compareLabel(label, matches[0].product);
+      const recall = await RecallService.checkScannedLot({
+        productId: matches[0].product._id,
+        CFPRNumbers: [label.CFPRNumber, matches[0].product.CFPRNumber],
+        lotNumber: label.lotNumber,
+      });
 
+      const products = matches.slice(skip, skip + limit).map(ProductMatchingService.toResult);
       const meta = buildPaginationMeta(page, limit, total);
       const links = buildLinks(req, page, limit, meta.total_pages);
 
@@ -147,80 +143,78 @@ export const searchScannedProduct = async (
         message: "Product found in database",
         source: "internal_database",
         data: products,
+        productSearchResult: {
+          matchScore: matches[0].matchScore,
+          productId: matches[0].product._id,
+          matchBreakdown: matches[0].matchBreakdown,
+          comparison,
+        },
+        comparison,
+        verdict,
+        recall,
         pagination: meta,
         links,
         Product: products, // Keep this for compatibility with Flutter app
       });
     }
 
-    // STEP 2: Product NOT found in our database - use GROUNDED SEARCH
+    // STEP 2: Product NOT found in our database - check the imported BAI registry
     console.log("⚠️ Product NOT found in our database");
-    console.log("🌐 Step 2: Performing grounded search with PDF registry...");
-
-    try {
-      const groundedResult = await searchProductWithGrounding(
-        productName,
-        LTONumber,
-        CFPRNumber,
-        brandName,
-        manufacturer
-      );
+    console.log("📄 Step 2: Searching the BAI product registry...");
 
-      if (!groundedResult) {
-        console.log("❌ No match found in PDF registry either");
-        return res.status(200).json({
-          success: true,
-          found: false,
-          message: "Product not found in database or official registry",
-          source: "not_found",
-          data: null,
-        });
-      }
-
-      // Format grounded result to match Product structure
-      const groundedProduct = {
-        _id: `grounded-${Date.now()}`,
-        productName: groundedResult.productName,
-        brandName: groundedResult.brandName,
-        CFPRNumber: groundedResult.CFPRNumber,
-        productClassification: groundedResult.productClassification,
-        productSubClassification: groundedResult.subClassification,
-        expirationDate: groundedResult.validUntil, // Map VALID UNTIL to expirationDate
-        company: {
-          name: groundedResult.companyName,
-          address: 'Philippines',
-        },
-        isActive: true,
-        confidence: groundedResult.confidence,
-        sourceUrl: groundedResult.source,
-      };
+    const registryMatch = await RegistryService.lookup({
+      productName,
+      LTONumber,
+      CFPRNumber,
+      brandName,
+      manufacturer,
+    });
 
-      console.log("✅ Product found via grounded search from PDF registry");
+    if (!registryMatch) {
+      console.log("❌ No match found in the BAI registry either");
 
-      return res.status(200).json({
-        success: true,
-        found: true,
-        message: "Product found in official PDF registry (not in our database)",
-        source: "grounded_search_pdf",
-        data: [groundedProduct],
-        confidence: groundedResult.confidence,
-        Product: [groundedProduct], // Keep this for compatibility with Flutter app
+      const verdict = evaluateScan(label, {});
+      await saveVerdict(verdict);
+      const recall = await RecallService.checkScannedLot({
+        CFPRNumbers: [label.CFPRNumber],
+        lotNumber: label.lotNumber,
       });
 
-    } catch (groundingError: any) {
-      console.error("❌ Error during grounded search:", groundingError);
-      
-      // Fallback: Return not found if grounding fails
       return res.status(200).json({
         success: true,
         found: false,
-        message: "Product not found (database search failed, grounding search unavailable)",
-        source: "search_failed",
+        message: "Product not found in database or official registry",
+        source: "not_found",
         data: null,
-        error: groundingError.message,
+        verdict,
+        recall,
       });
     }
 
+    const registryProduct = RegistryService.toProductView(registryMatch);
+    const verdict = evaluateScan(label, { registryEntry: registryMatch.entry });
+    await saveVerdict(verdict);
+    const comparison = compareLabel(label, RegistryService.toRegisteredProduct(registryMatch.entry));
+    const recall = await RecallService.checkScannedLot({
+      CFPRNumbers: [label.CFPRNumber, registryMatch.entry.CFPRNumber],
+      lotNumber: label.lotNumber,
+    });
+
+    console.log("✅ Product found in the BAI registry");
+
+    return res.status(200).json({
+      success: true,
+      found: true,
+      message: "Product found in official BAI registry (not in our database)",
+      source: "bai_registry",
+      data: [registryProduct],
+      confidence: registryMatch.confidence,
+      comparison,
+      verdict,
+      recall,
+      Product: [registryProduct], // Keep this for compatibility with Flutter app
+    });
+
   } catch (error) {
     console.error("Error in searchScannedProduct:", error);
     next(error);
@@ -233,18 +227,19 @@ export const getScans = async (
   next: NextFunction
 ) => {
   try {
+    const agent = req.user;
+    if (!agent) {
+      return next(new CustomError(401, "User not authenticated"));
+    }
+
     const { page, limit, skip } = parsePageParams(req, 10);
-    const [scans, total] = await ScanRepo.findAndCount({
-      skip,
-      take: limit,
-      order: { scannedAt: "DESC" },
-    });
+    const [scans, total] = await ScanHistoryService.getAgentScans(agent._id, skip, limit);
     const meta = buildPaginationMeta(page, limit, total);
     const links = buildLinks(req, page, limit, meta.total_pages);
     res.status(200).json({ data: scans, pagination: meta, links });
   } catch (error) {
-    next(error);
-    return new CustomError(500, "Failed to retrieve scans");
+    console.error("Error fetching scans:", error);
+    return next(new CustomError(500, "Failed to retrieve scans"));
   }
 };
 
@@ -253,18 +248,23 @@ export const getScansByID = async (
   res: Response,
   next: NextFunction
 ) => {
-  if (!ScanHistoryValidation.parse({ id: req.params.id })) {
-    return new CustomError(400, "Invalid Scan ID");
+  const agent = req.user;
+  if (!agent) {
+    return next(new CustomError(401, "User not authenticated"));
+  }
+
+  if (!ScanHistoryValidation.pick({ id: true }).safeParse({ id: req.params.id }).success) {
+    return next(new CustomError(400, "Invalid Scan ID"));
   }
 
   try {
-    const scan = await ScanRepo.findOneBy({ _id: req.params.id });
+    const scan = await ScanHistoryService.getAgentScanById(req.params.id, agent._id);
     if (!scan) {
-      return new CustomError(404, "Scan not found");
+      return next(new CustomError(404, "Scan not found"));
     }
     res.status(200).json({ scan });
   } catch (error) {
-    next(error);
-    return new CustomError(500, "Failed to retrieve scan");
+    console.error("Error fetching scan:", error);
+    return next(new CustomError(500, "Failed to retrieve scan"));
   }
 };
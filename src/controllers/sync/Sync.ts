@@ -0,0 +1,52 @@
+import type { NextFunction, Request, Response } from "express";
+import CustomError from "../../utils/CustomError";
+import { SyncBatchValidation } from "../../typeorm/entities/syncItem.entity";
+import { SyncService, SyncResultStatus } from "../../services/syncService";
+
+/**
+ * Upload scans, compliance reports and audit events queued offline
+ * POST /api/v1/mobile/sync
+ */
+export const syncBatch = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const agent = req.user;
+    if (!agent) {
+      return next(new CustomError(401, "User not authenticated"));
+    }
+
+    const parsed = SyncBatchValidation.safeParse(req.body);
+    if (!parsed.success) {
+      return next(
+        new CustomError(400, "Invalid sync batch", {
+          data: parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`),
+        })
+      );
+    }
+
+    const { deviceId, items } = parsed.data;
+    const results = await SyncService.syncBatch(agent, items, {
+      deviceId,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+
+    const summary = results.reduce(
+      (counts, result) => ({ ...counts, [result.status]: counts[result.status] + 1 }),
+      { created: 0, duplicate: 0, failed: 0, in_progress: 0 } as Record<SyncResultStatus, number>
+    );
+
+    res.status(200).json({
+      success: true,
+      receivedAt: new Date(),
+      summary,
+      results,
+    });
+  } catch (error) {
+    console.error("Error syncing batch:", error);
+    return next(new CustomError(500, "Failed to sync batch"));
+  }
+};
@@ -1,24 +1,52 @@
 import type { NextFunction, Request, Response } from 'express';
-// import { generateReport } from '../../utils/reportGeneration';
-import customErrorHandler from '../../middleware/customErrorHandler';
-import { TReportData } from '../../types/types';
+import CustomError from '../../utils/CustomError';
+import { ProductQRService } from '../../services/productQRService';
+import { AuditLogService } from '../../services/auditLogService';
 
+/**
+ * Verify a product QR code scanned by an agent
+ * POST /api/v1/mobile/scan/qr
+ */
 export const scanQR = async (req: Request, res: Response, next: NextFunction) => {
-    // const qrCode = req.body.qrCode;
-    // if (!validateQRCode(qrCode)) {
-    //     return res.status(400).json({ error: 'Invalid QR code format' });
-    // }
+    const agent = req.user;
+    if (!agent) {
+        return next(new CustomError(401, 'User not authenticated'));
+    }
 
-    // try {
-    //     const report = generateReport(req);
-    //     res.status(200).json({ report });
-    // } catch (error) {
-    //     customErrorHandler(error, req, res, next);
-    // }
+    const qrCode = req.body.qrCode;
+    if (!validateQRCode(qrCode)) {
+        return next(new CustomError(400, 'Invalid QR code format'));
+    }
+
+    try {
+        const verification = await ProductQRService.verify(qrCode);
+
+        await AuditLogService.createLog({
+            action: `Agent scanned product QR code: ${verification.status}`,
+            actionType: 'SCAN_PRODUCT',
+            userId: agent._id,
+            targetProductId: verification.product?._id,
+            platform: 'MOBILE',
+            metadata: {
+                qrStatus: verification.status,
+                likelyCounterfeit: verification.likelyCounterfeit,
+                ...(verification.payload && { productId: verification.payload.pid }),
+            },
+            req,
+        });
+
+        res.status(200).json({ success: true, ...verification });
+    } catch (error) {
+        if (error instanceof CustomError) {
+            return next(error);
+        }
+        console.error('Error verifying QR code:', error);
+        return next(new CustomError(500, 'Failed to verify QR code'));
+    }
 }
 
 const validateQRCode = (code: string): boolean => {
     // Simple validation: check if the code is a non-empty string
     if (!code) return false;
     return typeof code === 'string' && code.trim().length > 0;
-}
\ No newline at end of file
+}
@@ -1,6 +1,9 @@
 import dotenv from 'dotenv';
 import setUpApp from './setUpApp';
 import { redisService } from './services/redisService';
+import { ValidityMonitorService } from './services/validityMonitorService';
+import { HotspotService } from './services/hotspotService';
+import { SuspiciousActivityService } from './services/suspiciousActivityService';
 
 dotenv.config();
 const { PORT } = process.env;
@@ -11,6 +14,13 @@ const initializeApp = async () => {
   // Initialize Redis connection
   // await redisService.connect();
 
+  // Daily check of product expiration and registration validity
+  ValidityMonitorService.start();
+
+  // Daily check for new hotspots of non-compliant reports
+  HotspotService.start();
+  SuspiciousActivityService.start();
+
   app.listen(PORT || 3000, () =>
     console.log('Server is running on port: ', PORT)    
   );
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import * as ActivityFlagController from '../../controllers/compliance/ActivityFlag';
+import { verifyAdmin } from '../../middleware/verifyAdmin';
+
+const ActivityFlagRouter = Router();
+
+// The review queue is for admins only
+ActivityFlagRouter.use(verifyAdmin);
+
+// List flags (?status=&type=&agentId=&from=&to=)
+ActivityFlagRouter.get('/', ActivityFlagController.getActivityFlags);
+
+// Run the detector over a period and queue new flags
+ActivityFlagRouter.post('/run', ActivityFlagController.runActivityCheck);
+
+// Get a flag with its evidence and reports
+ActivityFlagRouter.get('/:id', ActivityFlagController.getActivityFlagById);
+
+// Confirm or dismiss a flag
+ActivityFlagRouter.patch('/:id/review', ActivityFlagController.reviewActivityFlag);
+
+export default ActivityFlagRouter;
@@ -1,6 +1,11 @@
 import { Router } from 'express';
 import * as AnalyticsController from '../../controllers/analytics/Analytics';
+import { getComplianceTrends } from '../../controllers/analytics/Trends';
+import { getComplianceHeatmap } from '../../controllers/analytics/Heatmap';
+import { getEmergingHotspots } from '../../controllers/analytics/Hotspots';
+import { getAgentPerformance, getTeamPerformance } from '../../controllers/analytics/AgentPerformance';
 import { verifyUser } from '../../middleware/verifyUser';
+import { verifyAdmin } from '../../middleware/verifyAdmin';
 
 const AnalyticsRouter = Router();
 
@@ -10,4 +15,17 @@ AnalyticsRouter.get('/health', AnalyticsController.healthCheck);
 // Main analytics endpoint
 AnalyticsRouter.get('/analyze', AnalyticsController.analyzeCompliance);
 
+// Report counts over time compared with the previous period
+AnalyticsRouter.get('/trends', getComplianceTrends);
+
+// Report counts per map cell as GeoJSON
+AnalyticsRouter.get('/heatmap', getComplianceHeatmap);
+
+// New, intensifying, persistent and fading hotspots across time windows
+AnalyticsRouter.get('/hotspots', getEmergingHotspots);
+
+// Agent performance and field coverage, for supervisors
+AnalyticsRouter.get('/agents', verifyAdmin, getTeamPerformance);
+AnalyticsRouter.get('/agents/:id', verifyAdmin, getAgentPerformance);
+
 export default AnalyticsRouter;
\ No newline at end of file
@@ -4,6 +4,7 @@ import * as CompanyController from "../../controllers/company/Company";
 const CompanyRouter = Router();
 CompanyRouter.get('/companies', CompanyController.getAllCompanies);
 CompanyRouter.get('/companies/:id', CompanyController.getCompanyById);
+CompanyRouter.get('/companies/:id/validity', CompanyController.getCompanyProductValidity);
 CompanyRouter.post('/companies', CompanyController.createCompany);
 CompanyRouter.put('/companies/:id', CompanyController.updateCompany);
 CompanyRouter.patch('/companies/:id', CompanyController.partialUpdateCompany);
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import * as ComplianceCaseController from '../../controllers/compliance/ComplianceCase';
+import { verifyAdmin } from '../../middleware/verifyAdmin';
+
+const ComplianceCaseRouter = Router();
+
+// Case management is for admins only
+ComplianceCaseRouter.use(verifyAdmin);
+
+// List cases (?status=&assignedTo=me|unassigned|<userId>&search=&from=&to=)
+ComplianceCaseRouter.get('/', ComplianceCaseController.getCases);
+
+// Get a case with its reports, comments and timeline
+ComplianceCaseRouter.get('/:id', ComplianceCaseController.getCaseById);
+
+// Open a case for one or more reports
+ComplianceCaseRouter.post('/', ComplianceCaseController.openCase);
+
+// Move a case through the workflow
+ComplianceCaseRouter.patch('/:id/status', ComplianceCaseController.updateCaseStatus);
+
+// Assign or unassign a case
+ComplianceCaseRouter.patch('/:id/assignee', ComplianceCaseController.assignCase);
+
+// Link more reports to a case
+ComplianceCaseRouter.post('/:id/reports', ComplianceCaseController.linkCaseReports);
+
+// Comment on a case
+ComplianceCaseRouter.post('/:id/comments', ComplianceCaseController.addCaseComment);
+
+export default ComplianceCaseRouter;
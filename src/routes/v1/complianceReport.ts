@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { searchComplianceReports } from '../../controllers/compliance/GetComplianceReports';
+import {
+  getComplianceReportPdf,
+  getComplianceSummaryPdf,
+} from '../../controllers/compliance/ComplianceReportPdf';
+import { verifyAdmin } from '../../middleware/verifyAdmin';
+
+const ComplianceReportRouter = Router();
+
+// Web admin access to every agent's compliance reports
+ComplianceReportRouter.use(verifyAdmin);
+
+// Search reports with filters, pagination and sorting
+ComplianceReportRouter.get('/', searchComplianceReports);
+
+// Summary PDF for a date range (same filters as the search)
+ComplianceReportRouter.get('/summary/pdf', getComplianceSummaryPdf);
+
+// Printable inspection report
+ComplianceReportRouter.get('/:id/pdf', getComplianceReportPdf);
+
+export default ComplianceReportRouter;
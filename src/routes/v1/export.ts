@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { exportData } from "../../controllers/export/Export";
+import { verifyAdmin } from "../../middleware/verifyAdmin";
+
+const ExportRouter = Router();
+
+// Exports are for admins only
+ExportRouter.use(verifyAdmin);
+
+// Download a dataset (?format=csv|xlsx plus the filters of its list view)
+ExportRouter.get('/:dataset', exportData);
+
+export default ExportRouter;
@@ -0,0 +1,13 @@
+import { Router } from "express";
+import * as LedgerController from "../../controllers/ledger/Ledger";
+import { verifyAdmin } from "../../middleware/verifyAdmin";
+
+const LedgerRouter = Router();
+
+// Walk the whole chain and report any break
+LedgerRouter.get('/verify', verifyAdmin, LedgerController.verifyLedger);
+
+// Full ledger history of one product
+LedgerRouter.get('/products/:productId', LedgerController.getProductLedgerHistory);
+
+export default LedgerRouter;
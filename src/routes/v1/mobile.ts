@@ -22,6 +22,9 @@ import {
   getScansByID 
 } from '../../controllers/scan/Scan';
 
+// Import QR verification controller
+import { scanQR } from '../../controllers/user/Agent';
+
 // Import audit log controllers
 import * as AuditLogController from '../../controllers/auditLog/AuditLog';
 
@@ -30,6 +33,9 @@ import { createComplianceReport } from '../../controllers/compliance/CreateCompl
 import { searchProduct } from '../../controllers/compliance/SearchProduct';
 import { getComplianceReports, getComplianceReportById } from '../../controllers/compliance/GetComplianceReports';
 
+// Import sync controllers
+import { syncBatch } from '../../controllers/sync/Sync';
+
 const MobileRouter = Router();
 
 // ============================================
@@ -60,6 +66,7 @@ MobileRouter.post('/scan', verifyMobileUser, scanProduct);
 MobileRouter.post('/scan/search', verifyMobileUser, searchScannedProduct);
 MobileRouter.get('/scan/history', verifyMobileUser, getScans);
 MobileRouter.get('/scan/history/:id', verifyMobileUser, getScansByID);
+MobileRouter.post('/scan/qr', verifyMobileUser, scanQR);
 
 // ============================================
 // MOBILE AUDIT LOG ROUTES
@@ -78,6 +85,12 @@ MobileRouter.post('/compliance/report', verifyMobileUser, createComplianceReport
 MobileRouter.get('/compliance/reports', verifyMobileUser, getComplianceReports);
 MobileRouter.get('/compliance/reports/:id', verifyMobileUser, getComplianceReportById);
 
+// ============================================
+// MOBILE OFFLINE SYNC ROUTES
+// Batches of items queued while the agent was offline
+// ============================================
+MobileRouter.post('/sync', verifyMobileUser, syncBatch);
+
 // ============================================
 // FUTURE MOBILE ROUTES
 // Add mobile-specific routes here as needed
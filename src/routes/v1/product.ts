@@ -1,9 +1,11 @@
 import { Router } from "express";
 import * as ProductController from "../../controllers/product/Product";
+import { verifyAdmin } from "../../middleware/verifyAdmin";
 
 const ProductRouter = Router();
 ProductRouter.get('/products', ProductController.getAllProducts);
 ProductRouter.get('/products/:id', ProductController.getProductById);
+ProductRouter.get('/products/:id/qr', verifyAdmin, ProductController.getProductQRCode);
 ProductRouter.post('/products', ProductController.createProduct);
 ProductRouter.put('/products/:id', ProductController.updateProduct);
 ProductRouter.patch('/products/:id', ProductController.partialUpdateProduct);
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import * as RecallController from "../../controllers/recall/Recall";
+import { verifyAdmin } from "../../middleware/verifyAdmin";
+
+const RecallRouter = Router();
+
+// List recalls (?status=ACTIVE|CLOSED&productId=)
+RecallRouter.get('/recalls', RecallController.getRecalls);
+
+// Get recall by ID
+RecallRouter.get('/recalls/:id', RecallController.getRecallById);
+
+// Recall lots of a product or CFPR number
+RecallRouter.post('/recalls', verifyAdmin, RecallController.createRecall);
+
+// Close a recall
+RecallRouter.patch('/recalls/:id/close', verifyAdmin, RecallController.closeRecall);
+
+export default RecallRouter;
@@ -0,0 +1,25 @@
+import express, { Router } from "express";
+import * as RegionController from "../../controllers/region/Region";
+import { verifyAdmin } from "../../middleware/verifyAdmin";
+
+const RegionRouter = Router();
+
+// Boundaries and rollups are for admins only
+RegionRouter.use(verifyAdmin);
+
+// List uploaded boundaries (?level=&parentId=)
+RegionRouter.get('/', RegionController.getRegions);
+
+// Report counts and rates per boundary (?level=&parentId=&from=&to=)
+RegionRouter.get('/rollup', RegionController.getRegionRollup);
+
+// Boundary files are larger than the default JSON body limit
+RegionRouter.post(
+  '/upload',
+  express.json({ type: 'application/geo+json', limit: '50mb' }),
+  RegionController.uploadRegions
+);
+
+RegionRouter.get('/:id', RegionController.getRegionById);
+
+export default RegionRouter;
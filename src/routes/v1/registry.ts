@@ -0,0 +1,16 @@
+import { Router } from "express";
+import * as RegistryController from "../../controllers/registry/Registry";
+import { verifyAdmin } from "../../middleware/verifyAdmin";
+
+const RegistryRouter = Router();
+
+// List imported editions of the BAI registry
+RegistryRouter.get('/imports', verifyAdmin, RegistryController.getRegistryImports);
+
+// Compare two imports (?from=&to= versions, defaults to the latest two)
+RegistryRouter.get('/imports/diff', verifyAdmin, RegistryController.getRegistryImportDiff);
+
+// Products affected by registry changes between two imports
+RegistryRouter.get('/imports/affected-products', verifyAdmin, RegistryController.getAffectedProducts);
+
+export default RegistryRouter;
@@ -21,7 +21,19 @@ async function addEnumValues() {
       'DELETE_CLASSIFICATION',
       'CREATE_COMPANY',
       'UPDATE_COMPANY',
-      'DELETE_COMPANY'
+      'DELETE_COMPANY',
+      'CREATE_RECALL',
+      'CLOSE_RECALL',
+      'VALIDITY_CHECK',
+      'OPEN_CASE',
+      'UPDATE_CASE_STATUS',
+      'ASSIGN_CASE',
+      'LINK_CASE_REPORTS',
+      'EXPORT_DATA',
+      'IMPORT_REGIONS',
+      'HOTSPOT_CHECK',
+      'ACTIVITY_CHECK',
+      'REVIEW_ACTIVITY_FLAG'
     ];
 
     for (const value of enumValues) {
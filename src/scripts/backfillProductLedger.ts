@@ -0,0 +1,41 @@
+/**
+ * Record products registered before the product ledger existed.
+ * Adds a CREATE block for every product that has no ledger history yet;
+ * safe to run more than once.
+ *
+ * Usage: npx ts-node src/scripts/backfillProductLedger.ts
+ */
+
+import { DB, ProductLedgerRepo, ProductRepo } from '../typeorm/data-source';
+import { ProductLedgerService } from '../services/productLedgerService';
+
+async function backfillProductLedger() {
+  try {
+    await DB.initialize();
+    console.log('Database connected');
+
+    const recorded = await ProductLedgerRepo.createQueryBuilder('block')
+      .select('DISTINCT block.productId', 'productId')
+      .getRawMany();
+    const recordedIds = new Set(recorded.map(row => row.productId));
+
+    const products = await ProductRepo.find({ order: { registeredAt: 'ASC' } });
+    const missing = products.filter(product => !recordedIds.has(product._id));
+    console.log(`${missing.length} of ${products.length} products have no ledger history`);
+
+    for (const product of missing) {
+      await DB.transaction(manager =>
+        ProductLedgerService.append(manager, product, 'CREATE', product.registeredById)
+      );
+    }
+
+    console.log(`Added ${missing.length} ledger blocks`);
+    await DB.destroy();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error backfilling product ledger:', error);
+    process.exit(1);
+  }
+}
+
+backfillProductLedger();
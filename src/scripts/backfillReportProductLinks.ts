@@ -0,0 +1,36 @@
+/**
+ * Link compliance reports saved before reports referenced products.
+ * Matches each unlinked report by the product the agent picked or the label's
+ * CFPR/LTO number; safe to run more than once.
+ *
+ * Usage: npx ts-node src/scripts/backfillReportProductLinks.ts
+ */
+
+import { DB } from '../typeorm/data-source';
+import { ComplianceReportService } from '../services/complianceReportService';
+import { CompanyRiskService } from '../services/companyRiskService';
+
+async function backfillReportProductLinks() {
+  try {
+    await DB.initialize();
+    console.log('Database connected');
+
+    const result = await ComplianceReportService.backfillProductLinks();
+    console.log(
+      `Checked ${result.scanned} unlinked reports: ${result.linked} linked to a product, ` +
+        `${result.companyOnly} to a company only, ${result.unmatched} without a match`
+    );
+
+    // Newly linked reports count towards their companies' risk scores
+    const scored = await CompanyRiskService.recalculateAll();
+    console.log(`Rescored ${scored} companies`);
+
+    await DB.destroy();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error backfilling report product links:', error);
+    process.exit(1);
+  }
+}
+
+backfillReportProductLinks();
@@ -0,0 +1,70 @@
+/**
+ * Import the official BAI registry of feed products into the registry_entries table.
+ * Each run is stored as the next numbered import; lookups use the latest one.
+ *
+ * Accepts a CSV or XLSX export, or text extracted from the registry PDF
+ * (e.g. `pdftotext -layout registry.pdf registry.txt`).
+ *
+ * Usage: npx ts-node src/scripts/importRegistry.ts <registry.csv|registry.xlsx|registry.txt>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DB } from '../typeorm/data-source';
+import { RegistryService } from '../services/registryService';
+import {
+  parseRegistryCsv,
+  parseRegistryPdfText,
+  parseRegistryXlsx,
+  RegistryParseResult,
+} from '../utils/registryParser';
+
+async function parseFile(filePath: string): Promise<RegistryParseResult> {
+  const extension = path.extname(filePath).toLowerCase();
+  switch (extension) {
+    case '.csv':
+      return parseRegistryCsv(fs.readFileSync(filePath, 'utf-8'));
+    case '.xlsx':
+      return parseRegistryXlsx(fs.readFileSync(filePath));
+    case '.txt':
+      return parseRegistryPdfText(fs.readFileSync(filePath, 'utf-8'));
+    default:
+      throw new Error(`Unsupported registry file type: ${extension} (use .csv, .xlsx or .txt)`);
+  }
+}
+
+async function importRegistry() {
+  const filePath = process.argv[2];
+  if (!filePath) {
+    console.error('Usage: npx ts-node src/scripts/importRegistry.ts <registry.csv|registry.xlsx|registry.txt>');
+    process.exit(1);
+  }
+
+  try {
+    const { rows, skipped } = await parseFile(filePath);
+    console.log(`Parsed ${rows.length} registry rows (${skipped.length} skipped)`);
+    skipped.slice(0, 20).forEach(({ line, reason }) => console.log(`  line ${line}: ${reason}`));
+
+    if (rows.length === 0) {
+      throw new Error('No registry rows found - refusing to import an empty registry');
+    }
+
+    await DB.initialize();
+    console.log('Database connected');
+
+    const registryImport = await RegistryService.importRows(rows, path.basename(filePath));
+    console.log(
+      `Imported registry version ${registryImport.version}: ${registryImport.totalEntries} entries ` +
+        `(${registryImport.addedCount} added, ${registryImport.removedCount} removed, ${registryImport.changedCount} changed, ` +
+        `${registryImport.duplicateCount} duplicate CFPR numbers)`
+    );
+
+    await DB.destroy();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error importing registry:', error);
+    process.exit(1);
+  }
+}
+
+importRegistry();
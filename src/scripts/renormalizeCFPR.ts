@@ -0,0 +1,54 @@
+/**
+ * Recompute the stored normalized CFPR numbers of registry entries and recalls
+ * with normalizeCode, e.g. after the normalization rules change; safe to run
+ * more than once.
+ *
+ * Usage: npx ts-node src/scripts/renormalizeCFPR.ts
+ */
+
+import { DB, RecallRepo, RegistryEntryRepo } from '../typeorm/data-source';
+import { normalizeCode } from '../utils/fuzzyMatch';
+
+const BATCH_SIZE = 1000;
+
+async function renormalizeCFPR() {
+  try {
+    await DB.initialize();
+    console.log('Database connected');
+
+    let entries = 0;
+    for (let skip = 0; ; skip += BATCH_SIZE) {
+      const batch = await RegistryEntryRepo.find({
+        select: ['_id', 'CFPRNumber', 'normalizedCFPR'],
+        order: { _id: 'ASC' },
+        skip,
+        take: BATCH_SIZE,
+      });
+      if (batch.length === 0) break;
+
+      const changed = batch.filter(entry => entry.normalizedCFPR !== normalizeCode(entry.CFPRNumber));
+      for (const entry of changed) {
+        await RegistryEntryRepo.update(entry._id, { normalizedCFPR: normalizeCode(entry.CFPRNumber) });
+      }
+      entries += changed.length;
+    }
+    console.log(`Updated ${entries} registry entries`);
+
+    const recalls = await RecallRepo.find({ select: ['_id', 'CFPRNumber', 'normalizedCFPR'] });
+    const changedRecalls = recalls.filter(
+      recall => recall.CFPRNumber && recall.normalizedCFPR !== normalizeCode(recall.CFPRNumber)
+    );
+    for (const recall of changedRecalls) {
+      await RecallRepo.update(recall._id, { normalizedCFPR: normalizeCode(recall.CFPRNumber!) });
+    }
+    console.log(`Updated ${changedRecalls.length} recalls`);
+
+    await DB.destroy();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error renormalizing CFPR numbers:', error);
+    process.exit(1);
+  }
+}
+
+renormalizeCFPR();
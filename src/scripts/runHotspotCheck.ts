@@ -0,0 +1,27 @@
+/**
+ * Run the emerging hotspot check now instead of waiting for the daily schedule.
+ *
+ * Usage: npx ts-node src/scripts/runHotspotCheck.ts
+ */
+
+import { DB } from '../typeorm/data-source';
+import { HotspotService } from '../services/hotspotService';
+
+async function runHotspotCheck() {
+  try {
+    await DB.initialize();
+    console.log('Database connected');
+
+    const summary = await HotspotService.run();
+    console.log(`Found ${summary.hotspots} hotspot(s), ${summary.newHotspots.length} new`);
+    console.log(`Notified ${summary.notifiedAdmins} admin(s) about ${summary.notifiedHotspots.length} hotspot(s)`);
+
+    await DB.destroy();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running hotspot check:', error);
+    process.exit(1);
+  }
+}
+
+runHotspotCheck();
@@ -0,0 +1,28 @@
+/**
+ * Run the registration validity check now instead of waiting for the daily schedule.
+ *
+ * Usage: npx ts-node src/scripts/runValidityCheck.ts
+ */
+
+import { DB } from '../typeorm/data-source';
+import { ValidityMonitorService } from '../services/validityMonitorService';
+
+async function runValidityCheck() {
+  try {
+    await DB.initialize();
+    console.log('Database connected');
+
+    const summary = await ValidityMonitorService.run();
+    console.log(`Checked ${summary.checked} products on ${summary.checkedOn}`);
+    console.log(`${summary.expiring} expiring, ${summary.lapsed} lapsed, ${summary.alerts.length} new alert(s)`);
+    console.log(`Notified ${summary.notifiedAdmins} admin(s)`);
+
+    await DB.destroy();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running validity check:', error);
+    process.exit(1);
+  }
+}
+
+runValidityCheck();
@@ -0,0 +1,333 @@
+import * as turf from '@turf/turf';
+import { Polygon } from 'geojson';
+import { z } from 'zod';
+import { AuditLogRepo, ComplianceReportRepo, ScanRepo, UserRepo } from '../typeorm/data-source';
+import { User } from '../typeorm/entities/user.entity';
+import { ComplianceStatus, NonComplianceReason } from '../types/enums';
+import CustomError from '../utils/CustomError';
+import { manilaDate } from '../utils/dates';
+import { addReportCount, emptyReportCounts, ReportCounts } from '../utils/reportCounts';
+import { LATITUDE, LONGITUDE, REPORTED_AT } from './complianceReportService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Period shown when no range is given, and the longest one allowed
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+// A report is paired with the agent's latest scan at most this long before it
+const MAX_SCAN_TO_REPORT_MINUTES = 120;
+
+// Reports this close together are taken to be at the same outlet
+const OUTLET_RADIUS_KM = 0.05;
+
+/**
+ * Date range and coverage grid size accepted by the agent performance endpoints
+ */
+export const AgentPerformanceValidation = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    cellSizeKm: z.coerce.number().min(0.1).max(50).default(1),
+  })
+  .refine(filter => !filter.from || !filter.to || filter.from <= filter.to, {
+    message: "'from' must not be after 'to'",
+    path: ['from'],
+  })
+  .refine(
+    filter => !filter.from || !filter.to || filter.to.getTime() - filter.from.getTime() <= MAX_RANGE_DAYS * DAY_MS,
+    { message: `The range can cover at most ${MAX_RANGE_DAYS} days`, path: ['from'] }
+  );
+
+export type AgentPerformanceFilter = z.infer<typeof AgentPerformanceValidation>;
+
+interface Located {
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface AgentActivity {
+  scans: Date[];
+  reports: (Located & { status: ComplianceStatus; reason: NonComplianceReason | null; reportedAt: Date })[];
+  // LOCATION_UPDATE audit logs
+  pings: (Located & { at: Date })[];
+}
+
+export interface AgentCoverage {
+  points: number;
+  convexHullKm2: number;
+  hull: Polygon | null;
+  cellSizeKm: number;
+  gridCells: number;
+  gridAreaKm2: number;
+}
+
+export interface AgentPerformance {
+  scans: number;
+  reports: ReportCounts;
+  activeDays: number;
+  medianScanToReportMinutes: number | null;
+  pairedReports: number;
+  outletsVisited: number;
+  coverage: AgentCoverage;
+}
+
+type AgentSummary = Pick<User, '_id' | 'firstName' | 'lastName' | 'email' | 'badgeId'>;
+
+export interface AgentPerformanceRow extends Omit<AgentPerformance, 'coverage'> {
+  agent: AgentSummary;
+  coverage: Omit<AgentCoverage, 'hull'>;
+}
+
+export interface TeamPerformance {
+  period: { from: Date; to: Date };
+  team: AgentPerformance & { agents: number };
+  agents: AgentPerformanceRow[];
+}
+
+const emptyActivity = (): AgentActivity => ({ scans: [], reports: [], pings: [] });
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const hasLocation = <T extends Located>(point: T): point is T & { lat: number; lng: number } =>
+  point.lat !== null && point.lng !== null && isFinite(point.lat) && isFinite(point.lng);
+
+/**
+ * Minutes from each report back to the agent's latest scan before it, for reports with one
+ */
+export const scanToReportMinutes = (scans: Date[], reportTimes: Date[]): number[] => {
+  const sortedScans = scans.map(scan => scan.getTime()).sort((a, b) => a - b);
+  return reportTimes
+    .map(reportedAt => {
+      const time = reportedAt.getTime();
+      // Binary search for the last scan at or before the report
+      let low = 0;
+      let high = sortedScans.length - 1;
+      let found = -1;
+      while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (sortedScans[middle] <= time) {
+          found = middle;
+          low = middle + 1;
+        } else {
+          high = middle - 1;
+        }
+      }
+      return found === -1 ? null : (time - sortedScans[found]) / 60000;
+    })
+    .filter((minutes): minutes is number => minutes !== null && minutes <= MAX_SCAN_TO_REPORT_MINUTES);
+};
+
+/**
+ * Number of distinct places among report locations, taking nearby reports as the same outlet
+ */
+export const countOutlets = (points: { lat: number; lng: number }[]): number => {
+  const outlets: [number, number][] = [];
+  points.forEach(point => {
+    const known = outlets.some(
+      outlet => turf.distance(outlet, [point.lng, point.lat], { units: 'kilometers' }) <= OUTLET_RADIUS_KM
+    );
+    if (!known) outlets.push([point.lng, point.lat]);
+  });
+  return outlets.length;
+};
+
+/**
+ * Area covered by a set of positions: their convex hull, and the grid cells they fall in
+ */
+export const coverage = (points: { lat: number; lng: number }[], cellSizeKm: number): AgentCoverage => {
+  const hull =
+    points.length >= 3
+      ? turf.convex(turf.featureCollection(points.map(point => turf.point([point.lng, point.lat]))))
+      : null;
+
+  // Rows of equal height; cells in a row are as wide as they are tall at the row's latitude
+  const latStep = turf.lengthToDegrees(cellSizeKm, 'kilometers');
+  const cells = new Set<string>();
+  points.forEach(point => {
+    const row = Math.floor(point.lat / latStep);
+    const rowLat = (row + 0.5) * latStep;
+    const lngStep = latStep / Math.max(0.01, Math.cos(rowLat * (Math.PI / 180)));
+    cells.add(`${row}:${Math.floor(point.lng / lngStep)}`);
+  });
+
+  return {
+    points: points.length,
+    convexHullKm2: hull ? round(turf.area(hull) / 1e6, 3) : 0,
+    hull: hull ? (hull.geometry as Polygon) : null,
+    cellSizeKm,
+    gridCells: cells.size,
+    gridAreaKm2: round(cells.size * cellSizeKm * cellSizeKm, 3),
+  };
+};
+
+/**
+ * Scans, reports, active days, scan-to-report time, outlets and coverage from an agent's activity
+ */
+export const summarizeActivity = (activity: AgentActivity, cellSizeKm: number): AgentPerformance => {
+  const reports = emptyReportCounts();
+  activity.reports.forEach(report => addReportCount(reports, report.status, report.reason));
+
+  const activeDays = new Set(
+    activity.scans.concat(activity.reports.map(report => report.reportedAt)).map(date => manilaDate(date))
+  );
+
+  const minutes = scanToReportMinutes(activity.scans, activity.reports.map(report => report.reportedAt));
+  const medianMinutes = median(minutes);
+  const reportLocations = activity.reports.filter(hasLocation);
+
+  return {
+    scans: activity.scans.length,
+    reports,
+    activeDays: activeDays.size,
+    medianScanToReportMinutes: medianMinutes === null ? null : round(medianMinutes),
+    pairedReports: minutes.length,
+    outletsVisited: countOutlets(reportLocations),
+    coverage: coverage([...reportLocations, ...activity.pings.filter(hasLocation)], cellSizeKm),
+  };
+};
+
+// The range of the filter, with a missing end taken as now; capped like a range given in full
+const period = (filter: AgentPerformanceFilter, now: Date) => {
+  const to = filter.to ?? now;
+  const from = filter.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (from > to) {
+    throw new CustomError(400, "'from' must not be after 'to'");
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new CustomError(400, `The range can cover at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from, to };
+};
+
+const agentSummary = (agent: User): AgentSummary => ({
+  _id: agent._id,
+  firstName: agent.firstName,
+  lastName: agent.lastName,
+  email: agent.email,
+  badgeId: agent.badgeId,
+});
+
+export class AgentPerformanceService {
+  /**
+   * Performance and coverage of one agent
+   */
+  static async agent(agentId: string, filter: AgentPerformanceFilter, now: Date = new Date()) {
+    const agent = await UserRepo.findOne({ where: { _id: agentId } });
+    if (!agent) {
+      throw new CustomError(404, 'Agent not found');
+    }
+
+    const range = period(filter, now);
+    const activity = (await this.activity(range, agentId)).get(agentId) ?? emptyActivity();
+    return {
+      period: range,
+      agent: agentSummary(agent),
+      ...summarizeActivity(activity, filter.cellSizeKm),
+    };
+  }
+
+  /**
+   * Performance of every agent, and of the team as a whole
+   */
+  static async team(filter: AgentPerformanceFilter, now: Date = new Date()): Promise<TeamPerformance> {
+    const range = period(filter, now);
+    const [activityByAgent, agents] = await Promise.all([
+      this.activity(range),
+      UserRepo.find({ select: ['_id', 'firstName', 'lastName', 'email', 'badgeId', 'role'] }),
+    ]);
+
+    // Agents, and anyone else with activity in the period
+    const rows = agents
+      .filter(agent => agent.role === 'AGENT' || activityByAgent.has(agent._id))
+      .map(agent => {
+        const { coverage: { hull, ...agentCoverage }, ...performance } = summarizeActivity(
+          activityByAgent.get(agent._id) ?? emptyActivity(),
+          filter.cellSizeKm
+        );
+        return { agent: agentSummary(agent), ...performance, coverage: agentCoverage };
+      })
+      .sort((a, b) => b.reports.total - a.reports.total || b.scans - a.scans);
+
+    const all = emptyActivity();
+    activityByAgent.forEach(activity => {
+      all.scans.push(...activity.scans);
+      all.reports.push(...activity.reports);
+      all.pings.push(...activity.pings);
+    });
+
+    return {
+      period: range,
+      team: { agents: rows.length, ...summarizeActivity(all, filter.cellSizeKm) },
+      agents: rows,
+    };
+  }
+
+  // Scans, reports and location updates in a period, by agent
+  private static async activity(range: { from: Date; to: Date }, agentId?: string): Promise<Map<string, AgentActivity>> {
+    const SCANNED_AT = 'COALESCE(scan.scannedAt, scan.createdAt)';
+    const LOGGED_AT = 'COALESCE(log.capturedAt, log.createdAt)';
+
+    const scans = ScanRepo.createQueryBuilder('scan')
+      .select('scan.userId', 'agentId')
+      .addSelect(SCANNED_AT, 'at')
+      .where('scan.userId IS NOT NULL')
+      .andWhere(`${SCANNED_AT} BETWEEN :from AND :to`, range);
+    const reports = ComplianceReportRepo.createQueryBuilder('report')
+      .select('report.agentId', 'agentId')
+      .addSelect('report.status', 'status')
+      .addSelect('report.nonComplianceReason', 'reason')
+      .addSelect(REPORTED_AT, 'at')
+      .addSelect(LATITUDE, 'lat')
+      .addSelect(LONGITUDE, 'lng')
+      .where(`${REPORTED_AT} BETWEEN :from AND :to`, range);
+    const pings = AuditLogRepo.createQueryBuilder('log')
+      .select('log.userId', 'agentId')
+      .addSelect(LOGGED_AT, 'at')
+      .addSelect(`(log.location->>'latitude')::float`, 'lat')
+      .addSelect(`(log.location->>'longitude')::float`, 'lng')
+      .where("log.actionType = 'LOCATION_UPDATE'")
+      .andWhere('log.userId IS NOT NULL')
+      .andWhere(`${LOGGED_AT} BETWEEN :from AND :to`, range);
+    if (agentId) {
+      scans.andWhere('scan.userId = :agentId', { agentId });
+      reports.andWhere('report.agentId = :agentId', { agentId });
+      pings.andWhere('log.userId = :agentId', { agentId });
+    }
+
+    const [scanRows, reportRows, pingRows] = await Promise.all([
+      scans.getRawMany(),
+      reports.getRawMany(),
+      pings.getRawMany(),
+    ]);
+
+    const byAgent = new Map<string, AgentActivity>();
+    const of = (id: string) => {
+      if (!byAgent.has(id)) byAgent.set(id, emptyActivity());
+      return byAgent.get(id)!;
+    };
+    const coordinate = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+    scanRows.forEach(row => of(row.agentId).scans.push(new Date(row.at)));
+    reportRows.forEach(row =>
+      of(row.agentId).reports.push({
+        status: row.status,
+        reason: row.reason,
+        reportedAt: new Date(row.at),
+        lat: coordinate(row.lat),
+        lng: coordinate(row.lng),
+      })
+    );
+    pingRows.forEach(row =>
+      of(row.agentId).pings.push({ at: new Date(row.at), lat: coordinate(row.lat), lng: coordinate(row.lng) })
+    );
+    return byAgent;
+  }
+}
@@ -1,118 +1,62 @@
-import OpenAI from 'openai';
-import * as dotenv from 'dotenv';
-dotenv.config();
+import { crossCheckFields, extractLabelFields, LabelFields } from './ruleBasedExtractor';
+import { getLabelExtractionProvider, ProductJSON } from './aiProviders';
 
-interface ProductJSON {
-    productName: string;
-    LTONum: string;
-    CFPRNum: string;
-    ManufacturedBy: string;
-    ExpiryDate: string;
-}
-
-const openai = new OpenAI({
-    baseURL: 'https://generativelanguage.googleapis.com/v1beta/openai/',
-    apiKey: process.env.AI_API_KEY || ''
-});
+export type { ProductJSON };
 
 export async function ProcessText(blockofText: string): Promise<ProductJSON> {
-    const completion = await openai.chat.completions.create({
-        model: "gemini-2.5-flash",
-        messages: [
-            {
-                role: "system",
-                content: `
-                You are an OCR text extraction specialist for Philippine animal feed products. Your task is to extract structured product information from scanned front and back labels of animal feed packaging.
-                CONTEXT:
-                - Labels may contain mixed English, Tagalog, and other Philippine languages
-                - Text may have OCR errors: missing characters, merged words, or incorrect spacing
-                - Field names may appear in various formats or abbreviations
-
-                EXTRACTION RULES:
-
-                1. PRODUCT NAME:
-                - Look for product brand and type (e.g., "Champion Feeds Grower Mash")
-                - May appear as "Product Name:", "Produkto:", or prominently displayed text
-                - Clean up merged words and spacing issues
-
-                2. LTO NUMBER (License to Operate / BAI Register Number):
-                - Look for: "LTO", "LTO No.", "LTO#", "BAI Register Number", "License to Operate"
-                - Format: Usually alphanumeric, may contain hyphens or spaces
-                - Common patterns: "LTO-R4A-XXXX-XXXX" or similar regional variations
-                - Fix common OCR errors: O/0, I/1, S/5
-
-                3. CFPR NUMBER (Certificate of Feed Product Registration):
-                - Look for: "CFPR", "CFPR No.", "CFPR#", "Certificate of Feed Product Registration"
-                - Format: Alphanumeric with possible hyphens (e.g., "CFPR-XXXX-XXXX-XXXX")
-                - May appear as "CPR", "CFPR Number", "Reg. No."
-                - Validate: Must be alphanumeric (letters and numbers only, hyphens allowed)
-
-                4. MANUFACTURED BY:
-                - Look for: "Manufactured by:", "Mfg. by:", "Manufacturer:", "Gawa ng:"
-                - Extract company name and location if available
-                - Handle merged company names
+    const parsed: any = await getLabelExtractionProvider().extractLabel(blockofText);
 
-                5. EXPIRY DATE:
-                - Look for: "Expiry Date:", "Expiration Date:", "Best Before:", "Use Before:", "Exp. Date:", "Petsa ng Pag-expire:"
-                - Common formats in Philippines: 
-                    * MM/DD/YYYY or DD/MM/YYYY
-                    * "Month DD, YYYY" (e.g., "December 31, 2025")
-                    * DD-MMM-YYYY (e.g., "31-DEC-2025")
-                - Extract only the date, ignore any additional text
-                - Standardize to: "YYYY-MM-DD" format in output
+    // Validate the structure
+    if (!parsed || typeof parsed !== 'object') {
+        throw new Error('Invalid response structure: expected a JSON object');
+    }
 
-                ERROR CORRECTION:
-                - Fix common OCR mistakes: 0↔O, 1↔I↔l, 5↔S, 8↔B, 2↔Z
-                - Separate merged words using context clues
-                - Add missing spaces in field labels
-                - Complete incomplete words based on standard Philippine feed label terminology
+    // A field the AI could not read is reported as "Unknown" instead of failing the scan
+    const product: ProductJSON = {
+        productName: asField(parsed.productName),
+        LTONum: asField(parsed.LTONum),
+        CFPRNum: asField(parsed.CFPRNum),
+        ManufacturedBy: asField(parsed.ManufacturedBy),
+        ExpiryDate: asField(parsed.ExpiryDate),
+    };
+
+    console.log('Extracted product:', product);
+    return product;
+}
 
-                OUTPUT FORMAT:
-                Return ONLY valid JSON with no additional text or explanation:
-                {
-                    "productName": "extracted product name",
-                    "LTONum": "extracted LTO/BAI number",
-                    "CFPRNum": "extracted CFPR number",
-                    "ManufacturedBy": "extracted manufacturer name and location",
-                    "ExpiryDate": "YYYY-MM-DD format"
-                }
+const asField = (value: unknown): string =>
+    typeof value === 'string' && value.trim().length > 0 ? value.trim() : 'Unknown';
 
-                IMPORTANT:
-                - If a field cannot be determined with confidence, use "Unknown"
-                - Do not invent or guess information
-                - Preserve original alphanumeric codes as accurately as possible after OCR correction
-                - Do not include explanations, only return the JSON object`
-            },
-            {
-                role: "user",
-                content: blockofText
-            }
-        ],
-        response_format: { type: "json_object" }
-    })
+export interface LabelExtractionResult {
+    product: ProductJSON; // Best value per field, "Unknown" when neither extractor found it
+    fields: LabelFields; // Per-field confidence and the extractor that produced it
+    aiAvailable: boolean;
+}
 
-    const content = completion.choices[0].message.content;
-    if (!content) {
-        throw new Error('No response from AI');
+/**
+ * Extract label fields with the AI and the rule-based extractor.
+ *
+ * The rule-based result is used on its own when the AI call fails, so a
+ * network error never fails the scan.
+ */
+export async function ExtractLabel(blockofText: string): Promise<LabelExtractionResult> {
+    const rules = extractLabelFields(blockofText);
+
+    let ai: ProductJSON | null = null;
+    try {
+        ai = await ProcessText(blockofText);
+    } catch (error: any) {
+        console.error('AI extraction unavailable, using rule-based extractor:', error?.message);
     }
 
-    // Parse and validate
-    const parsed = JSON.parse(content) as ProductJSON;
-
-    // Validate the structure
-    if (!parsed.productName ||
-        !parsed.CFPRNum ||
-        !parsed.LTONum ||
-        !parsed.ManufacturedBy ||
-        !parsed.ExpiryDate ||
-        typeof parsed.productName !== 'string' ||
-        typeof parsed.CFPRNum !== 'string' ||
-        typeof parsed.LTONum !== 'string' ||
-        typeof parsed.ManufacturedBy !== 'string' ||
-        typeof parsed.ExpiryDate !== 'string') {
-        throw new Error('Invalid response structure: missing or invalid productName');
-    }
+    const fields = crossCheckFields(ai, rules);
+    const product: ProductJSON = {
+        productName: fields.productName.value || 'Unknown',
+        LTONum: fields.LTONum.value || 'Unknown',
+        CFPRNum: fields.CFPRNum.value || 'Unknown',
+        ManufacturedBy: fields.ManufacturedBy.value || 'Unknown',
+        ExpiryDate: fields.ExpiryDate.value || 'Unknown',
+    };
 
-    console.log('Extracted product:', parsed);
-    return parsed;
+    return { product, fields, aiAvailable: ai !== null };
 }
@@ -0,0 +1,109 @@
+import OpenAI from 'openai';
+import { LabelExtractionProvider, ProductJSON } from './types';
+
+const GEMINI_OPENAI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/openai/';
+
+const LABEL_EXTRACTION_PROMPT = `
+                You are an OCR text extraction specialist for Philippine animal feed products. Your task is to extract structured product information from scanned front and back labels of animal feed packaging.
+                CONTEXT:
+                - Labels may contain mixed English, Tagalog, and other Philippine languages
+                - Text may have OCR errors: missing characters, merged words, or incorrect spacing
+                - Field names may appear in various formats or abbreviations
+
+                EXTRACTION RULES:
+
+                1. PRODUCT NAME:
+                - Look for product brand and type (e.g., "Champion Feeds Grower Mash")
+                - May appear as "Product Name:", "Produkto:", or prominently displayed text
+                - Clean up merged words and spacing issues
+
+                2. LTO NUMBER (License to Operate / BAI Register Number):
+                - Look for: "LTO", "LTO No.", "LTO#", "BAI Register Number", "License to Operate"
+                - Format: Usually alphanumeric, may contain hyphens or spaces
+                - Common patterns: "LTO-R4A-XXXX-XXXX" or similar regional variations
+                - Fix common OCR errors: O/0, I/1, S/5
+
+                3. CFPR NUMBER (Certificate of Feed Product Registration):
+                - Look for: "CFPR", "CFPR No.", "CFPR#", "Certificate of Feed Product Registration"
+                - Format: Alphanumeric with possible hyphens (e.g., "CFPR-XXXX-XXXX-XXXX")
+                - May appear as "CPR", "CFPR Number", "Reg. No."
+                - Validate: Must be alphanumeric (letters and numbers only, hyphens allowed)
+
+                4. MANUFACTURED BY:
+                - Look for: "Manufactured by:", "Mfg. by:", "Manufacturer:", "Gawa ng:"
+                - Extract company name and location if available
+                - Handle merged company names
+
+                5. EXPIRY DATE:
+                - Look for: "Expiry Date:", "Expiration Date:", "Best Before:", "Use Before:", "Exp. Date:", "Petsa ng Pag-expire:"
+                - Common formats in Philippines: 
+                    * MM/DD/YYYY or DD/MM/YYYY
+                    * "Month DD, YYYY" (e.g., "December 31, 2025")
+                    * DD-MMM-YYYY (e.g., "31-DEC-2025")
+                - Extract only the date, ignore any additional text
+                - Standardize to: "YYYY-MM-DD" format in output
+
+                ERROR CORRECTION:
+                - Fix common OCR mistakes: 0↔O, 1↔I↔l, 5↔S, 8↔B, 2↔Z
+                - Separate merged words using context clues
+                - Add missing spaces in field labels
+                - Complete incomplete words based on standard Philippine feed label terminology
+
+                OUTPUT FORMAT:
+                Return ONLY valid JSON with no additional text or explanation:
+                {
+                    "productName": "extracted product name",
+                    "LTONum": "extracted LTO/BAI number",
+                    "CFPRNum": "extracted CFPR number",
+                    "ManufacturedBy": "extracted manufacturer name and location",
+                    "ExpiryDate": "YYYY-MM-DD format"
+                }
+
+                IMPORTANT:
+                - If a field cannot be determined with confidence, use "Unknown"
+                - Do not invent or guess information
+                - Preserve original alphanumeric codes as accurately as possible after OCR correction
+                - Do not include explanations, only return the JSON object`;
+
+interface GeminiProviderOptions {
+  apiKey: string;
+  labelModel: string;
+}
+
+/**
+ * Google Gemini provider
+ *
+ * Label extraction goes through Gemini's OpenAI-compatible endpoint. The
+ * client is created on first use.
+ */
+export class GeminiProvider implements LabelExtractionProvider {
+  readonly name = 'gemini';
+  private openai?: OpenAI;
+
+  constructor(private readonly options: GeminiProviderOptions) {}
+
+  async extractLabel(ocrText: string): Promise<ProductJSON> {
+    if (!this.openai) {
+      this.openai = new OpenAI({
+        baseURL: GEMINI_OPENAI_BASE_URL,
+        apiKey: this.options.apiKey,
+      });
+    }
+
+    const completion = await this.openai.chat.completions.create({
+      model: this.options.labelModel,
+      messages: [
+        { role: 'system', content: LABEL_EXTRACTION_PROMPT },
+        { role: 'user', content: ocrText },
+      ],
+      response_format: { type: 'json_object' },
+    });
+
+    const content = completion.choices[0].message.content;
+    if (!content) {
+      throw new Error('No response from AI');
+    }
+
+    return JSON.parse(content);
+  }
+}
@@ -0,0 +1,44 @@
+import * as dotenv from 'dotenv';
+import { GeminiProvider } from './gemini';
+import { StubProvider } from './stub';
+import { AIProviderName, LabelExtractionProvider } from './types';
+dotenv.config();
+
+export * from './types';
+
+type AIProvider = LabelExtractionProvider;
+
+let provider: AIProvider | null = null;
+
+const createProvider = (name: AIProviderName): AIProvider => {
+  switch (name) {
+    case 'stub':
+      return new StubProvider(process.env.AI_STUB_FIXTURES);
+    case 'gemini':
+      return new GeminiProvider({
+        apiKey: process.env.AI_API_KEY || '',
+        labelModel: process.env.AI_LABEL_MODEL || 'gemini-2.5-flash',
+      });
+    default:
+      throw new Error(`Unknown AI provider: ${name}`);
+  }
+};
+
+/**
+ * Get the configured AI provider (AI_PROVIDER=gemini|stub, defaults to gemini)
+ */
+const getProvider = (): AIProvider => {
+  if (!provider) {
+    provider = createProvider((process.env.AI_PROVIDER || 'gemini') as AIProviderName);
+  }
+  return provider;
+};
+
+export const getLabelExtractionProvider = (): LabelExtractionProvider => getProvider();
+
+/**
+ * Replace the active provider (tests) or pass null to re-read AI_PROVIDER
+ */
+export const setAIProvider = (override: AIProvider | null) => {
+  provider = override;
+};
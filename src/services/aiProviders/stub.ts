@@ -0,0 +1,41 @@
+import * as fs from 'fs';
+import { extractLabelFields } from '../ruleBasedExtractor';
+import { defaultStubFixtures, StubFixtures } from './stubFixtures';
+import { LabelExtractionProvider, ProductJSON } from './types';
+
+/**
+ * Deterministic, offline AI provider
+ *
+ * Answers from fixtures so the scan and compliance flows (and the Jest
+ * suites) run without an API key or network access. Labels without a
+ * matching fixture fall back to the rule-based extractor.
+ */
+export class StubProvider implements LabelExtractionProvider {
+  readonly name = 'stub';
+  private readonly fixtures: StubFixtures;
+
+  constructor(fixturesPath?: string) {
+    this.fixtures = fixturesPath
+      ? JSON.parse(fs.readFileSync(fixturesPath, 'utf-8'))
+      : defaultStubFixtures;
+  }
+
+  async extractLabel(ocrText: string): Promise<ProductJSON> {
+    const text = ocrText.toLowerCase();
+    const fixture = this.fixtures.labels.find(label =>
+      label.match.every(term => text.includes(term.toLowerCase()))
+    );
+    if (fixture) {
+      return { ...fixture.result };
+    }
+
+    const fields = extractLabelFields(ocrText);
+    return {
+      productName: fields.productName.value || 'Unknown',
+      LTONum: fields.LTONum.value || 'Unknown',
+      CFPRNum: fields.CFPRNum.value || 'Unknown',
+      ManufacturedBy: fields.ManufacturedBy.value || 'Unknown',
+      ExpiryDate: fields.ExpiryDate.value || 'Unknown',
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { ProductJSON } from './types';
+
+/**
+ * Default fixtures for the stub AI provider.
+ *
+ * A label fixture is returned when all of its `match` strings appear in the
+ * OCR text (case-insensitive). Override them with a JSON file of the same
+ * shape through AI_STUB_FIXTURES.
+ */
+
+export interface LabelFixture {
+  match: string[];
+  result: ProductJSON;
+}
+
+export interface StubFixtures {
+  labels: LabelFixture[];
+}
+
+export const defaultStubFixtures: StubFixtures = {
+  labels: [
+    {
+      match: ['champion', 'grower'],
+      result: {
+        productName: 'Champion Grower Mash',
+        LTONum: 'LTO-R4A-2021-0045',
+        CFPRNum: 'CFPR-2021-1234',
+        ManufacturedBy: 'Champion Agri Corp., Batangas City',
+        ExpiryDate: '2026-12-31',
+      },
+    },
+    {
+      match: ['thunderbird', 'gamecock'],
+      result: {
+        productName: 'Thunderbird Gamecock Conditioning Pellets',
+        LTONum: 'LTO-NCR-2019-0112',
+        CFPRNum: 'CFPR-2019-5678',
+        ManufacturedBy: 'Thunderbird Feeds Inc., Quezon City',
+        ExpiryDate: '2024-06-30',
+      },
+    },
+  ],
+};
@@ -0,0 +1,29 @@
+/**
+ * Contracts implemented by every AI provider (Gemini, local stub, ...)
+ */
+
+export interface ProductJSON {
+  productName: string;
+  LTONum: string;
+  CFPRNum: string;
+  ManufacturedBy: string;
+  ExpiryDate: string;
+}
+
+export interface RegistryQuery {
+  productName?: string;
+  LTONumber?: string;
+  CFPRNumber?: string;
+  brandName?: string;
+  manufacturer?: string;
+}
+
+/**
+ * Extracts structured product fields from label OCR text
+ */
+export interface LabelExtractionProvider {
+  readonly name: string;
+  extractLabel(ocrText: string): Promise<ProductJSON>;
+}
+
+export type AIProviderName = 'gemini' | 'stub';
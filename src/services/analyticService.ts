@@ -1,6 +1,18 @@
 import * as turf from '@turf/turf';
-import { FeatureCollection, Point } from 'geojson';
-import { ComplianceStatus } from '../types/enums';
+import { BBox, FeatureCollection, Point, Polygon } from 'geojson';
+import { z } from 'zod';
+import { ComplianceReportRepo } from '../typeorm/data-source';
+import { ComplianceStatus, NonComplianceReason } from '../types/enums';
+import CustomError from '../utils/CustomError';
+import { addReportCount, emptyReportCounts, ReportCounts } from '../utils/reportCounts';
+import {
+  applyReportArea,
+  enumList,
+  LATITUDE,
+  LONGITUDE,
+  REPORTED_AT,
+  ReportAreaFields,
+} from './complianceReportService';
 import { 
   AnalyticsComplianceReport, 
   ClusterPoint, 
@@ -8,7 +20,135 @@ import {
   AnalyticsResults 
 } from '../types/types';
 
+export const HEATMAP_SHAPES = ['square', 'hex'] as const;
+export type HeatmapShape = typeof HEATMAP_SHAPES[number];
+
+// Rough number of cells a heatmap may span, to keep responses small
+export const MAX_HEATMAP_CELLS = 10000;
+
+/**
+ * Filters and cell options accepted by the heatmap endpoint
+ */
+export const HeatmapFilterValidation = z
+  .object({
+    shape: z.enum(HEATMAP_SHAPES).default('hex'),
+    // Side of a square, or of a hexagon, in km
+    cellSizeKm: z.coerce.number().min(0.1).max(100).default(1),
+    status: enumList(ComplianceStatus).optional(),
+    nonComplianceReason: enumList(NonComplianceReason).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    ...ReportAreaFields,
+  })
+  .refine(filter => !filter.near || filter.radiusKm !== undefined, {
+    message: 'radiusKm is required with near',
+    path: ['radiusKm'],
+  })
+  .refine(filter => !filter.from || !filter.to || filter.from <= filter.to, {
+    message: "'from' must not be after 'to'",
+    path: ['from'],
+  });
+
+export type HeatmapFilter = z.infer<typeof HeatmapFilterValidation>;
+
+export interface HeatmapPoint {
+  lat: number;
+  lng: number;
+  status: ComplianceStatus;
+  reason: NonComplianceReason | null;
+}
+
+export type HeatmapCell = ReportCounts;
+
+/**
+ * Count points per square or hexagonal cell. Only cells with reports are returned,
+ * so exact report positions are never exposed.
+ */
+export const aggregateCells = (
+  points: HeatmapPoint[],
+  shape: HeatmapShape,
+  cellSizeKm: number
+): FeatureCollection<Polygon, HeatmapCell> => {
+  if (points.length === 0) return turf.featureCollection([]);
+
+  const pointCollection = turf.featureCollection(
+    points.map((point, index) => turf.point([point.lng, point.lat], { index }))
+  );
+
+  // Pad by a cell on every side so the grid covers points on the edges, or a single point
+  const [minLng, minLat, maxLng, maxLat] = turf.bbox(pointCollection);
+  const padLat = turf.lengthToDegrees(cellSizeKm, 'kilometers');
+  const padLng = padLat / Math.max(0.01, Math.cos(((minLat + maxLat) / 2) * (Math.PI / 180)));
+  const bbox: BBox = [minLng - padLng, minLat - padLat, maxLng + padLng, maxLat + padLat];
+
+  const widthKm = turf.distance([bbox[0], bbox[1]], [bbox[2], bbox[1]], { units: 'kilometers' });
+  const heightKm = turf.distance([bbox[0], bbox[1]], [bbox[0], bbox[3]], { units: 'kilometers' });
+  const estimatedCells = Math.ceil(widthKm / cellSizeKm) * Math.ceil(heightKm / cellSizeKm);
+  if (estimatedCells > MAX_HEATMAP_CELLS) {
+    throw new CustomError(400, 'Cell size is too small for the area covered; use larger cells or a smaller area', {
+      estimatedCells,
+      maxCells: MAX_HEATMAP_CELLS,
+    });
+  }
+
+  const grid =
+    shape === 'hex'
+      ? turf.hexGrid(bbox, cellSizeKm, { units: 'kilometers' })
+      : turf.squareGrid(bbox, cellSizeKm, { units: 'kilometers' });
+  const collected = turf.collect(grid, pointCollection, 'index', 'indexes');
+
+  // A point on a shared edge falls in two cells; count it in the first only
+  const counted = new Set<number>();
+  const cells = collected.features
+    .map(cell => {
+      const properties = emptyReportCounts();
+      (cell.properties?.indexes as number[]).forEach(index => {
+        if (counted.has(index)) return;
+        counted.add(index);
+        addReportCount(properties, points[index].status, points[index].reason);
+      });
+      return turf.polygon(cell.geometry.coordinates, properties);
+    })
+    .filter(cell => cell.properties.total > 0);
+
+  return turf.featureCollection(cells);
+};
+
 export class GeospatialAnalyticsService {
+  /**
+   * Reports matching the filters counted per map cell, as GeoJSON
+   */
+  static async heatmap(filter: HeatmapFilter): Promise<FeatureCollection<Polygon, HeatmapCell>> {
+    const qb = ComplianceReportRepo.createQueryBuilder('report')
+      .select(LATITUDE, 'lat')
+      .addSelect(LONGITUDE, 'lng')
+      .addSelect('report.status', 'status')
+      .addSelect('report.nonComplianceReason', 'reason')
+      .where("report.location->>'latitude' IS NOT NULL")
+      .andWhere("report.location->>'longitude' IS NOT NULL");
+
+    if (filter.status) {
+      qb.andWhere('report.status IN (:...statuses)', { statuses: filter.status });
+    }
+    if (filter.nonComplianceReason) {
+      qb.andWhere('report.nonComplianceReason IN (:...reasons)', { reasons: filter.nonComplianceReason });
+    }
+    if (filter.from) {
+      qb.andWhere(`${REPORTED_AT} >= :from`, { from: filter.from });
+    }
+    if (filter.to) {
+      qb.andWhere(`${REPORTED_AT} <= :to`, { to: filter.to });
+    }
+    applyReportArea(qb, filter);
+
+    // Coordinates may come back as strings
+    const rows = await qb.getRawMany<Omit<HeatmapPoint, 'lat' | 'lng'> & { lat: number | string; lng: number | string }>();
+    const points = rows
+      .map(row => ({ ...row, lat: Number(row.lat), lng: Number(row.lng) }))
+      .filter(point => isFinite(point.lat) && isFinite(point.lng));
+
+    return aggregateCells(points, filter.shape, filter.cellSizeKm);
+  }
 
   static async analyzeComplianceReports(
     reports: AnalyticsComplianceReport[],
@@ -1,5 +1,6 @@
 import { Request } from "express";
-import { AuditLogRepo } from "../typeorm/data-source";
+import { EntityManager } from "typeorm";
+import { AuditLogRepo, DB } from "../typeorm/data-source";
 import { AuditLog } from "../typeorm/entities/auditLog.entity";
 
 interface CreateAuditLogParams {
@@ -31,7 +32,19 @@ interface CreateAuditLogParams {
     | 'CREATE_CLASSIFICATION'
     | 'CREATE_COMPANY'
     | 'UPDATE_COMPANY'
-    | 'DELETE_COMPANY';
+    | 'DELETE_COMPANY'
+    | 'CREATE_RECALL'
+    | 'CLOSE_RECALL'
+    | 'VALIDITY_CHECK'
+    | 'OPEN_CASE'
+    | 'UPDATE_CASE_STATUS'
+    | 'ASSIGN_CASE'
+    | 'LINK_CASE_REPORTS'
+    | 'EXPORT_DATA'
+    | 'IMPORT_REGIONS'
+    | 'HOTSPOT_CHECK'
+    | 'ACTIVITY_CHECK'
+    | 'REVIEW_ACTIVITY_FLAG';
   userId?: string;
   targetUserId?: string;
   targetProductId?: string;
@@ -42,14 +55,17 @@ interface CreateAuditLogParams {
     address?: string;
   };
   metadata?: Record<string, any>;
+  capturedAt?: Date;
   req?: Request;
   ipAddress?: string;
   userAgent?: string;
+  onSaved?: (auditLog: AuditLog, manager: EntityManager) => Promise<unknown>;
 }
 
 export class AuditLogService {
   /**
-   * Create an audit log entry
+   * Create an audit log entry. onSaved runs in the transaction that inserts
+   * the entry, so whatever it records is committed with it.
    */
   static async createLog(params: CreateAuditLogParams): Promise<AuditLog> {
     const {
@@ -61,7 +77,9 @@ export class AuditLogService {
       platform = 'WEB',
       location,
       metadata,
+      capturedAt,
       req,
+      onSaved,
     } = params;
 
     const auditLog = AuditLogRepo.create({
@@ -70,14 +88,22 @@ export class AuditLogService {
       userId: userId || null,
       targetUserId: targetUserId || null,
       targetProductId: targetProductId || null,
-      ipAddress: req ? this.getIpAddress(req) : null,
-      userAgent: req?.headers['user-agent'] || null,
+      ipAddress: req ? this.getIpAddress(req) : params.ipAddress || null,
+      userAgent: req?.headers['user-agent'] || params.userAgent || null,
       platform,
       location: location || null,
       metadata: metadata || null,
+      capturedAt: capturedAt || null,
     });
 
-    return await AuditLogRepo.save(auditLog);
+    if (!onSaved) {
+      return await AuditLogRepo.save(auditLog);
+    }
+    return await DB.transaction(async manager => {
+      const saved = await manager.save(auditLog);
+      await onSaved(saved, manager);
+      return saved;
+    });
   }
 
   /**
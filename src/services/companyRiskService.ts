@@ -0,0 +1,278 @@
+import { Brackets, MoreThan } from "typeorm";
+import { CompanyRepo, ComplianceReportRepo, ProductRepo, RecallRepo } from "../typeorm/data-source";
+import { Company, CompanyRiskBreakdown, LicenseStatus, RiskLevel } from "../typeorm/entities/company.entity";
+import { Recall } from "../typeorm/entities/recall.entity";
+import { ComplianceStatus } from "../types/enums";
+import { daysBetween, manilaDate, toDateOnly } from "../utils/dates";
+import { normalizeCode, normalizedCodeSql } from "../utils/fuzzyMatch";
+import { redisService } from "./redisService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How much each factor can add to the 0-100 score, and what drives it
+ */
+export const RISK_WEIGHTS = {
+  reports: {
+    max: 50,
+    // A report counts half as much after this many days
+    halfLifeDays: 90,
+    // Older reports no longer count
+    lookbackDays: 730,
+    points: {
+      [ComplianceStatus.COMPLIANT]: -1,
+      [ComplianceStatus.NON_COMPLIANT]: 5,
+      [ComplianceStatus.FRAUDULENT]: 15,
+    } as Record<ComplianceStatus, number>,
+  },
+  registrations: { max: 20, lapsed: 4, expiring: 1 },
+  recalls: { max: 20, active: 8, recentlyClosed: 3, recentDays: 365 },
+  license: {
+    max: 10,
+    expiringDays: 30,
+    points: { ACTIVE: 0, EXPIRED: 10, SUSPENDED: 10, REVOKED: 10 } as Record<LicenseStatus, number>,
+    expiring: 3,
+  },
+};
+
+const RISK_LEVELS: [number, RiskLevel][] = [
+  [75, "CRITICAL"],
+  [50, "HIGH"],
+  [25, "MEDIUM"],
+  [0, "LOW"],
+];
+
+export interface CompanyRiskInputs {
+  reports: { status: ComplianceStatus; reportedAt: Date }[];
+  lapsedRegistrations: number;
+  expiringRegistrations: number;
+  activeRecalls: number;
+  recentlyClosedRecalls: number;
+  licenseStatus: LicenseStatus;
+  licenseExpiresAt: string | null; // YYYY-MM-DD
+}
+
+export interface CompanyRisk {
+  score: number;
+  level: RiskLevel;
+  breakdown: CompanyRiskBreakdown;
+}
+
+const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+
+// Scores are shown as whole numbers; one decimal keeps the breakdown readable
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const riskLevel = (score: number): RiskLevel =>
+  RISK_LEVELS.find(([threshold]) => score >= threshold)![1];
+
+/**
+ * Score a company from its findings, registrations, recalls and license.
+ * Each factor is capped, so no single one can push a company past its share.
+ */
+export const scoreCompanyRisk = (inputs: CompanyRiskInputs, now: Date): CompanyRisk => {
+  const { reports: reportWeights, registrations, recalls, license } = RISK_WEIGHTS;
+
+  const counts = { compliant: 0, nonCompliant: 0, fraudulent: 0 };
+  const reportPoints = inputs.reports.reduce((sum, report) => {
+    if (report.status === ComplianceStatus.COMPLIANT) counts.compliant++;
+    if (report.status === ComplianceStatus.NON_COMPLIANT) counts.nonCompliant++;
+    if (report.status === ComplianceStatus.FRAUDULENT) counts.fraudulent++;
+    const ageDays = Math.max(0, (now.getTime() - new Date(report.reportedAt).getTime()) / DAY_MS);
+    const recency = Math.pow(0.5, ageDays / reportWeights.halfLifeDays);
+    return sum + (reportWeights.points[report.status] ?? 0) * recency;
+  }, 0);
+
+  const registrationPoints =
+    inputs.lapsedRegistrations * registrations.lapsed + inputs.expiringRegistrations * registrations.expiring;
+  const recallPoints = inputs.activeRecalls * recalls.active + inputs.recentlyClosedRecalls * recalls.recentlyClosed;
+
+  // A license past its expiry date counts as expired whatever its recorded status
+  const daysLeft = inputs.licenseExpiresAt ? daysBetween(manilaDate(now), inputs.licenseExpiresAt) : null;
+  const licenseStatus: LicenseStatus =
+    inputs.licenseStatus === "ACTIVE" && daysLeft !== null && daysLeft < 0 ? "EXPIRED" : inputs.licenseStatus;
+  const licensePoints =
+    license.points[licenseStatus] ||
+    (daysLeft !== null && daysLeft <= license.expiringDays ? license.expiring : 0);
+
+  const breakdown: CompanyRiskBreakdown = {
+    reports: {
+      points: round(clamp(reportPoints, reportWeights.max)),
+      max: reportWeights.max,
+      ...counts,
+      halfLifeDays: reportWeights.halfLifeDays,
+    },
+    registrations: {
+      points: round(clamp(registrationPoints, registrations.max)),
+      max: registrations.max,
+      lapsed: inputs.lapsedRegistrations,
+      expiring: inputs.expiringRegistrations,
+    },
+    recalls: {
+      points: round(clamp(recallPoints, recalls.max)),
+      max: recalls.max,
+      active: inputs.activeRecalls,
+      recentlyClosed: inputs.recentlyClosedRecalls,
+    },
+    license: {
+      points: clamp(licensePoints, license.max),
+      max: license.max,
+      status: licenseStatus,
+      expiresAt: inputs.licenseExpiresAt,
+      daysLeft,
+    },
+  };
+
+  const score = Math.round(
+    breakdown.reports.points + breakdown.registrations.points + breakdown.recalls.points + breakdown.license.points
+  );
+  return { score, level: riskLevel(score), breakdown };
+};
+
+export class CompanyRiskService {
+  /**
+   * Recalculate and store the risk score of one company
+   */
+  static async recalculate(companyId: string, now: Date = new Date()): Promise<CompanyRisk | null> {
+    const company = await CompanyRepo.findOne({ where: { _id: companyId } });
+    if (!company) return null;
+
+    const risk = await this.score(company, now);
+    await this.invalidateCache();
+    return risk;
+  }
+
+  /**
+   * Recalculate after a change that may affect a company, without failing the change itself
+   */
+  static async recalculateQuietly(companyId?: string | null): Promise<void> {
+    if (!companyId) return;
+    try {
+      await this.recalculate(companyId);
+    } catch (error) {
+      console.error(`Failed to recalculate risk of company ${companyId}:`, error);
+    }
+  }
+
+  /**
+   * Rescore the companies whose products a recall covers, without failing the recall itself
+   */
+  static async recalculateForRecall(recall: Pick<Recall, "productId" | "normalizedCFPR">): Promise<void> {
+    try {
+      const companyIds = await this.companyIdsForRecall(recall);
+      for (const companyId of companyIds) {
+        await this.recalculateQuietly(companyId);
+      }
+    } catch (error) {
+      console.error("Failed to recalculate risk after a recall:", error);
+    }
+  }
+
+  /**
+   * Rescore every company, e.g. daily so older reports weigh less over time
+   */
+  static async recalculateAll(now: Date = new Date(), batchSize = 200): Promise<number> {
+    let scored = 0;
+    let lastId: string | undefined;
+    for (;;) {
+      const companies = await CompanyRepo.find({
+        where: lastId ? { _id: MoreThan(lastId) } : {},
+        order: { _id: "ASC" },
+        take: batchSize,
+      });
+      if (companies.length === 0) break;
+      lastId = companies[companies.length - 1]._id;
+
+      for (const company of companies) {
+        await this.score(company, now);
+        scored++;
+      }
+    }
+
+    await this.invalidateCache();
+    return scored;
+  }
+
+  /**
+   * Linked reports, product registrations, recalls and license of a company
+   */
+  static async gatherInputs(company: Company, now: Date): Promise<CompanyRiskInputs> {
+    const since = new Date(now.getTime() - RISK_WEIGHTS.reports.lookbackDays * DAY_MS);
+    const [reports, products] = await Promise.all([
+      ComplianceReportRepo.createQueryBuilder("report")
+        .select("report.status", "status")
+        .addSelect("COALESCE(report.capturedAt, report.createdAt)", "reportedAt")
+        .where("report.companyId = :companyId", { companyId: company._id })
+        .andWhere("COALESCE(report.capturedAt, report.createdAt) >= :since", { since })
+        .getRawMany<{ status: ComplianceStatus; reportedAt: Date }>(),
+      ProductRepo.find({
+        select: ["_id", "CFPRNumber", "validityStatus"],
+        where: { companyId: company._id },
+      }),
+    ]);
+
+    const productIds = products.map(product => product._id);
+    const cfprs = Array.from(new Set(products.map(product => normalizeCode(product.CFPRNumber || "")).filter(Boolean)));
+    const recalls =
+      productIds.length === 0
+        ? []
+        : await RecallRepo.createQueryBuilder("recall")
+            .select(["recall._id", "recall.status", "recall.closedAt"])
+            .where(
+              new Brackets(qb => {
+                qb.where("recall.productId IN (:...productIds)", { productIds });
+                if (cfprs.length) qb.orWhere("recall.normalizedCFPR IN (:...cfprs)", { cfprs });
+              })
+            )
+            .getMany();
+
+    const recentSince = now.getTime() - RISK_WEIGHTS.recalls.recentDays * DAY_MS;
+    return {
+      reports,
+      lapsedRegistrations: products.filter(product => product.validityStatus === "LAPSED").length,
+      expiringRegistrations: products.filter(product => product.validityStatus === "EXPIRING").length,
+      activeRecalls: recalls.filter(recall => recall.status === "ACTIVE").length,
+      recentlyClosedRecalls: recalls.filter(
+        recall => recall.status === "CLOSED" && recall.closedAt && new Date(recall.closedAt).getTime() >= recentSince
+      ).length,
+      licenseStatus: company.licenseStatus ?? "ACTIVE",
+      licenseExpiresAt: toDateOnly(company.licenseExpiresAt ?? null),
+    };
+  }
+
+  /**
+   * Companies whose products a recall covers, by product or CFPR number
+   */
+  static async companyIdsForRecall(recall: Pick<Recall, "productId" | "normalizedCFPR">): Promise<string[]> {
+    const conditions: string[] = [];
+    if (recall.productId) conditions.push("product._id = :productId");
+    if (recall.normalizedCFPR) conditions.push(`${normalizedCodeSql("product.CFPRNumber")} = :cfpr`);
+    if (conditions.length === 0) return [];
+
+    const rows = await ProductRepo.createQueryBuilder("product")
+      .select("DISTINCT product.companyId", "companyId")
+      .where(`(${conditions.join(" OR ")})`, { productId: recall.productId, cfpr: recall.normalizedCFPR })
+      .getRawMany<{ companyId: string | null }>();
+    return rows.map(row => row.companyId).filter((companyId): companyId is string => !!companyId);
+  }
+
+  private static async score(company: Company, now: Date): Promise<CompanyRisk> {
+    const risk = scoreCompanyRisk(await this.gatherInputs(company, now), now);
+    await CompanyRepo.update(company._id, {
+      riskScore: risk.score,
+      riskLevel: risk.level,
+      riskBreakdown: risk.breakdown,
+      riskScoredAt: now,
+    });
+    return risk;
+  }
+
+  // Company lists are cached and can be sorted by risk
+  private static async invalidateCache(): Promise<void> {
+    try {
+      await redisService.invalidateCompaniesCache();
+    } catch (error) {
+      console.warn("Failed to invalidate companies cache:", error instanceof Error ? error.message : error);
+    }
+  }
+}
@@ -0,0 +1,443 @@
+import { EntityManager, In } from "typeorm";
+import {
+  ComplianceCaseCommentRepo,
+  ComplianceCaseEventRepo,
+  ComplianceCaseRepo,
+  ComplianceReportRepo,
+  DB,
+  UserRepo,
+} from "../typeorm/data-source";
+import { ComplianceCase, OpenCaseInput } from "../typeorm/entities/complianceCase.entity";
+import { ComplianceCaseComment } from "../typeorm/entities/complianceCaseComment.entity";
+import { ComplianceCaseEvent } from "../typeorm/entities/complianceCaseEvent.entity";
+import { ComplianceReport } from "../typeorm/entities/complianceReport.entity";
+import { CaseStatus, ComplianceStatus } from "../types/enums";
+import CustomError from "../utils/CustomError";
+import { AuditLogService } from "./auditLogService";
+
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface CaseListFilter {
+  statuses?: CaseStatus[];
+  assignedToId?: string | null; // null for unassigned cases
+  search?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export type ThreadedComment = ComplianceCaseComment & { replies: ThreadedComment[] };
+
+/**
+ * Statuses a case can move to from each status. A closed case can only be reopened.
+ */
+export const CASE_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  [CaseStatus.OPEN]: [CaseStatus.UNDER_REVIEW, CaseStatus.ESCALATED, CaseStatus.CLOSED],
+  [CaseStatus.UNDER_REVIEW]: [CaseStatus.ESCALATED, CaseStatus.ACTION_TAKEN, CaseStatus.CLOSED],
+  [CaseStatus.ESCALATED]: [CaseStatus.UNDER_REVIEW, CaseStatus.ACTION_TAKEN, CaseStatus.CLOSED],
+  [CaseStatus.ACTION_TAKEN]: [CaseStatus.UNDER_REVIEW, CaseStatus.CLOSED],
+  [CaseStatus.CLOSED]: [CaseStatus.OPEN],
+};
+
+export const canTransition = (from: CaseStatus, to: CaseStatus): boolean =>
+  CASE_TRANSITIONS[from].includes(to);
+
+// User columns returned with cases and comments
+const USER_FIELDS = ["_id", "firstName", "lastName", "email"];
+
+const caseTitle = (reports: ComplianceReport[]): string => {
+  const [first] = reports;
+  const productName = first.scannedData?.productName || "Unknown product";
+  const more = reports.length > 1 ? ` and ${reports.length - 1} more` : "";
+  return `${first.status}: ${productName}${more}`.slice(0, 255);
+};
+
+/**
+ * Nest replies under the comment they answer, oldest first
+ */
+export const threadComments = (comments: ComplianceCaseComment[]): ThreadedComment[] => {
+  const byId = new Map<string, ThreadedComment>();
+  comments.forEach(comment => byId.set(comment._id, { ...comment, replies: [] }));
+
+  const roots: ThreadedComment[] = [];
+  byId.forEach(comment => {
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    if (parent) parent.replies.push(comment);
+    else roots.push(comment);
+  });
+  return roots;
+};
+
+export class ComplianceCaseService {
+  /**
+   * Open a case for one or more reports
+   */
+  static async open(
+    input: OpenCaseInput,
+    actorId: string,
+    context: RequestContext = {}
+  ): Promise<ComplianceCase> {
+    const reports = await this.findLinkableReports(input.reportIds);
+    if (input.assignedToId) await this.findAssignee(input.assignedToId);
+
+    const complianceCase = await DB.transaction(async manager => {
+      const saved = await manager.save(
+        manager.create(ComplianceCase, {
+          title: input.title || caseTitle(reports),
+          description: input.description || null,
+          status: CaseStatus.OPEN,
+          assignedToId: input.assignedToId || null,
+          openedById: actorId,
+        })
+      );
+      await this.attachReports(manager, saved, reports);
+      await this.addEvent(manager, saved._id, {
+        type: "OPENED",
+        toStatus: CaseStatus.OPEN,
+        actorId,
+        metadata: { reportIds: reports.map(report => report._id) },
+      });
+      if (saved.assignedToId) {
+        await this.addEvent(manager, saved._id, {
+          type: "ASSIGNED",
+          actorId,
+          metadata: { from: null, to: saved.assignedToId },
+        });
+      }
+      return saved;
+    });
+
+    await AuditLogService.createLog({
+      action: `Opened compliance case: ${complianceCase.title}`,
+      actionType: "OPEN_CASE",
+      userId: actorId,
+      platform: "WEB",
+      metadata: {
+        caseId: complianceCase._id,
+        reportIds: reports.map(report => report._id),
+        assignedToId: complianceCase.assignedToId,
+      },
+      ...context,
+    });
+
+    return complianceCase;
+  }
+
+  /**
+   * Open a case for a report submitted as non-compliant or fraudulent.
+   * Compliant reports do not open cases.
+   */
+  static async openForReport(
+    report: ComplianceReport,
+    context: RequestContext = {}
+  ): Promise<ComplianceCase | null> {
+    if (report.status === ComplianceStatus.COMPLIANT) return null;
+
+    const complianceCase = await DB.transaction(async manager => {
+      const saved = await manager.save(
+        manager.create(ComplianceCase, {
+          title: caseTitle([report]),
+          description: report.additionalNotes || null,
+          status: CaseStatus.OPEN,
+          openedById: report.agentId,
+        })
+      );
+      await manager.update(ComplianceReport, report._id, { caseId: saved._id });
+      await this.addEvent(manager, saved._id, {
+        type: "OPENED",
+        toStatus: CaseStatus.OPEN,
+        actorId: report.agentId,
+        note: "Opened from a compliance report",
+        metadata: { reportIds: [report._id] },
+      });
+      return saved;
+    });
+
+    await AuditLogService.createLog({
+      action: `Opened compliance case from ${report.status} report: ${complianceCase.title}`,
+      actionType: "OPEN_CASE",
+      userId: report.agentId,
+      platform: "MOBILE",
+      metadata: { caseId: complianceCase._id, reportIds: [report._id] },
+      ...context,
+    });
+
+    return complianceCase;
+  }
+
+  /**
+   * Move a case to another status of the workflow
+   */
+  static async transition(
+    caseId: string,
+    status: CaseStatus,
+    actorId: string,
+    note?: string,
+    context: RequestContext = {}
+  ): Promise<ComplianceCase> {
+    const complianceCase = await this.findCase(caseId);
+    const from = complianceCase.status;
+    if (!canTransition(from, status)) {
+      throw new CustomError(400, `A case cannot move from ${from} to ${status}`, {
+        allowed: CASE_TRANSITIONS[from],
+      });
+    }
+
+    complianceCase.status = status;
+    complianceCase.closedAt = status === CaseStatus.CLOSED ? new Date() : null;
+
+    const saved = await DB.transaction(async manager => {
+      const updated = await manager.save(complianceCase);
+      await this.addEvent(manager, caseId, {
+        type: "STATUS_CHANGED",
+        fromStatus: from,
+        toStatus: status,
+        actorId,
+        note: note || null,
+      });
+      return updated;
+    });
+
+    await AuditLogService.createLog({
+      action: `Moved compliance case "${saved.title}" from ${from} to ${status}`,
+      actionType: "UPDATE_CASE_STATUS",
+      userId: actorId,
+      platform: "WEB",
+      metadata: { caseId, from, to: status, note },
+      ...context,
+    });
+
+    return saved;
+  }
+
+  /**
+   * Assign a case to an admin, or unassign it with null
+   */
+  static async assign(
+    caseId: string,
+    assignedToId: string | null,
+    actorId: string,
+    context: RequestContext = {}
+  ): Promise<ComplianceCase> {
+    const complianceCase = await this.findCase(caseId);
+    if (assignedToId) await this.findAssignee(assignedToId);
+
+    const previous = complianceCase.assignedToId ?? null;
+    if (previous === assignedToId) return complianceCase;
+
+    complianceCase.assignedToId = assignedToId;
+
+    const saved = await DB.transaction(async manager => {
+      const updated = await manager.save(complianceCase);
+      await this.addEvent(manager, caseId, {
+        type: "ASSIGNED",
+        actorId,
+        metadata: { from: previous, to: assignedToId },
+      });
+      return updated;
+    });
+
+    await AuditLogService.createLog({
+      action: assignedToId
+        ? `Assigned compliance case "${saved.title}"`
+        : `Unassigned compliance case "${saved.title}"`,
+      actionType: "ASSIGN_CASE",
+      userId: actorId,
+      targetUserId: assignedToId || undefined,
+      platform: "WEB",
+      metadata: { caseId, from: previous, to: assignedToId },
+      ...context,
+    });
+
+    return saved;
+  }
+
+  /**
+   * Add more reports to a case that is not closed
+   */
+  static async linkReports(
+    caseId: string,
+    reportIds: string[],
+    actorId: string,
+    context: RequestContext = {}
+  ): Promise<ComplianceCase> {
+    const complianceCase = await this.findCase(caseId);
+    if (complianceCase.status === CaseStatus.CLOSED) {
+      throw new CustomError(400, "Reports cannot be added to a closed case");
+    }
+
+    const reports = await this.findLinkableReports(reportIds, caseId);
+
+    await DB.transaction(async manager => {
+      await this.attachReports(manager, complianceCase, reports);
+      await this.addEvent(manager, caseId, {
+        type: "REPORTS_LINKED",
+        actorId,
+        metadata: { reportIds: reports.map(report => report._id) },
+      });
+      await manager.save(complianceCase); // Bumps updatedAt
+    });
+
+    await AuditLogService.createLog({
+      action: `Linked ${reports.length} report(s) to compliance case "${complianceCase.title}"`,
+      actionType: "LINK_CASE_REPORTS",
+      userId: actorId,
+      platform: "WEB",
+      metadata: { caseId, reportIds: reports.map(report => report._id) },
+      ...context,
+    });
+
+    return complianceCase;
+  }
+
+  static async addComment(
+    caseId: string,
+    body: string,
+    authorId: string,
+    parentId?: string | null
+  ): Promise<ComplianceCaseComment> {
+    await this.findCase(caseId);
+
+    if (parentId) {
+      const parent = await ComplianceCaseCommentRepo.findOne({ where: { _id: parentId } });
+      if (!parent || parent.caseId !== caseId) {
+        throw new CustomError(400, "The comment being replied to is not on this case");
+      }
+    }
+
+    return await ComplianceCaseCommentRepo.save(
+      ComplianceCaseCommentRepo.create({ caseId, body, authorId, parentId: parentId || null })
+    );
+  }
+
+  /**
+   * A case with its reports, threaded comments and timeline
+   */
+  static async getCase(caseId: string) {
+    const complianceCase = await ComplianceCaseRepo.createQueryBuilder("complianceCase")
+      .leftJoin("complianceCase.assignedTo", "assignedTo")
+      .addSelect(USER_FIELDS.map(field => `assignedTo.${field}`))
+      .where("complianceCase._id = :caseId", { caseId })
+      .getOne();
+    if (!complianceCase) {
+      throw new CustomError(404, "Case not found");
+    }
+
+    const [reports, comments, timeline] = await Promise.all([
+      ComplianceReportRepo.find({ where: { caseId }, order: { createdAt: "ASC" } }),
+      ComplianceCaseCommentRepo.createQueryBuilder("comment")
+        .leftJoin("comment.author", "author")
+        .addSelect(USER_FIELDS.map(field => `author.${field}`))
+        .where("comment.caseId = :caseId", { caseId })
+        .orderBy("comment.createdAt", "ASC")
+        .getMany(),
+      ComplianceCaseEventRepo.find({ where: { caseId }, order: { createdAt: "ASC" } }),
+    ]);
+
+    return {
+      ...complianceCase,
+      reports,
+      comments: threadComments(comments),
+      timeline,
+      allowedTransitions: CASE_TRANSITIONS[complianceCase.status],
+    };
+  }
+
+  /**
+   * Cases matching the filter, most recently updated first, with their report counts
+   */
+  static async list(filter: CaseListFilter, skip: number, take: number) {
+    const qb = ComplianceCaseRepo.createQueryBuilder("complianceCase")
+      .leftJoin("complianceCase.assignedTo", "assignedTo")
+      .addSelect(USER_FIELDS.map(field => `assignedTo.${field}`))
+      .loadRelationCountAndMap("complianceCase.reportCount", "complianceCase.reports");
+
+    if (filter.statuses?.length) {
+      qb.andWhere("complianceCase.status IN (:...statuses)", { statuses: filter.statuses });
+    }
+    if (filter.assignedToId === null) {
+      qb.andWhere("complianceCase.assignedToId IS NULL");
+    } else if (filter.assignedToId) {
+      qb.andWhere("complianceCase.assignedToId = :assignedToId", { assignedToId: filter.assignedToId });
+    }
+    if (filter.search) {
+      qb.andWhere("LOWER(complianceCase.title) LIKE LOWER(:q)", { q: `%${filter.search}%` });
+    }
+    if (filter.from) {
+      qb.andWhere("complianceCase.createdAt >= :from", { from: filter.from });
+    }
+    if (filter.to) {
+      qb.andWhere("complianceCase.createdAt <= :to", { to: filter.to });
+    }
+
+    return await qb.orderBy("complianceCase.updatedAt", "DESC").skip(skip).take(take).getManyAndCount();
+  }
+
+  private static async findCase(caseId: string): Promise<ComplianceCase> {
+    const complianceCase = await ComplianceCaseRepo.findOne({ where: { _id: caseId } });
+    if (!complianceCase) {
+      throw new CustomError(404, "Case not found");
+    }
+    return complianceCase;
+  }
+
+  private static async findAssignee(userId: string) {
+    const user = await UserRepo.findOne({ where: { _id: userId } });
+    if (!user || user.role !== "ADMIN" || user.status !== "Active") {
+      throw new CustomError(400, "Cases can only be assigned to active admins", { assignedToId: userId });
+    }
+    return user;
+  }
+
+  /**
+   * Reports that exist and are not already followed up in another case that is still open
+   */
+  private static async findLinkableReports(reportIds: string[], caseId?: string): Promise<ComplianceReport[]> {
+    const ids = Array.from(new Set(reportIds));
+    const reports = await ComplianceReportRepo.find({
+      where: { _id: In(ids) },
+      relations: ["case"],
+      order: { createdAt: "ASC" },
+    });
+
+    const found = new Set(reports.map(report => report._id));
+    const missing = ids.filter(id => !found.has(id));
+    if (missing.length) {
+      throw new CustomError(404, "Compliance report not found", { reportIds: missing });
+    }
+
+    const linked = reports.filter(report =>
+      report.caseId && report.caseId !== caseId && report.case?.status !== CaseStatus.CLOSED
+    );
+    if (linked.length) {
+      throw new CustomError(409, "Some reports are already part of another open case", {
+        reports: linked.map(report => ({ reportId: report._id, caseId: report.caseId })),
+      });
+    }
+
+    return reports.filter(report => report.caseId !== caseId);
+  }
+
+  private static async attachReports(
+    manager: EntityManager,
+    complianceCase: ComplianceCase,
+    reports: ComplianceReport[]
+  ) {
+    if (reports.length === 0) return;
+    await manager.update(
+      ComplianceReport,
+      { _id: In(reports.map(report => report._id)) },
+      { caseId: complianceCase._id }
+    );
+  }
+
+  private static async addEvent(
+    manager: EntityManager,
+    caseId: string,
+    event: Partial<ComplianceCaseEvent>
+  ) {
+    await manager.save(manager.create(ComplianceCaseEvent, { ...event, caseId }));
+  }
+}
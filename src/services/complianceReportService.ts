@@ -0,0 +1,467 @@
+import { z } from 'zod';
+import { EntityManager, IsNull, MoreThan, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { ComplianceReportRepo, DB, ProductRepo } from '../typeorm/data-source';
+import { ComplianceReport, ComplianceReportValidation } from '../typeorm/entities/complianceReport.entity';
+import { Product } from '../typeorm/entities/product.entity';
+import { ComplianceStatus, NonComplianceReason } from '../types/enums';
+import CustomError from '../utils/CustomError';
+import { FirebaseStorageValidator } from '../utils/FirebaseStorageValidator';
+import { compareLabel } from '../utils/labelComparison';
+import { normalizeCode } from '../utils/fuzzyMatch';
+import { AuditLogService } from './auditLogService';
+import { ComplianceCaseService } from './complianceCaseService';
+import { CompanyRiskService } from './companyRiskService';
+import { RegionService } from './regionService';
+
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Comma-separated list of enum values, e.g. ?status=NON_COMPLIANT,FRAUDULENT
+export const enumList = <T extends Record<string, string>>(values: T) =>
+  z
+    .string()
+    .transform(value => value.split(',').map(item => item.trim()).filter(Boolean))
+    .pipe(z.array(z.nativeEnum(values)).min(1));
+
+// Comma-separated list of numbers, e.g. ?bbox=120.9,14.5,121.1,14.7
+const numberList = (length: number) =>
+  z
+    .string()
+    .transform(value => value.split(',').map(item => Number(item.trim())))
+    .pipe(z.array(z.number().finite()).length(length));
+
+/**
+ * Area filters shared by the report search and report analytics
+ */
+export const ReportAreaFields = {
+  // minLongitude,minLatitude,maxLongitude,maxLatitude
+  bbox: numberList(4).optional(),
+  // latitude,longitude with radiusKm
+  near: numberList(2).optional(),
+  radiusKm: z.coerce.number().positive().max(500).optional(),
+};
+
+export interface ReportArea {
+  bbox?: number[];
+  near?: number[];
+  radiusKm?: number;
+}
+
+/**
+ * Filters accepted by the admin compliance report search
+ */
+export const ReportSearchValidation = z
+  .object({
+    status: enumList(ComplianceStatus).optional(),
+    nonComplianceReason: enumList(NonComplianceReason).optional(),
+    agentId: z.string().uuid().optional(),
+    productId: z.string().uuid().optional(),
+    companyId: z.string().uuid().optional(),
+    brandNameId: z.string().uuid().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    ...ReportAreaFields,
+    productName: z.string().trim().min(1).max(100).optional(),
+    CFPRNumber: z.string().trim().min(1).max(100).optional(),
+    sort: z.enum(['reportedAt', 'createdAt', 'status', 'nonComplianceReason', 'productName']).default('reportedAt'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+  })
+  .refine(filter => !filter.near || filter.radiusKm !== undefined, {
+    message: 'radiusKm is required with near',
+    path: ['radiusKm'],
+  })
+  .refine(filter => !filter.from || !filter.to || filter.from <= filter.to, {
+    message: "'from' must not be after 'to'",
+    path: ['from'],
+  });
+
+export type ReportSearchFilter = z.infer<typeof ReportSearchValidation>;
+
+// When the report was made: device time for reports synced later, otherwise when it was received
+export const REPORTED_AT = 'COALESCE(report.capturedAt, report.createdAt)';
+export const LATITUDE = `(report.location->>'latitude')::float`;
+export const LONGITUDE = `(report.location->>'longitude')::float`;
+
+/**
+ * Keep only reports made inside a bounding box or within a radius of a point
+ */
+export const applyReportArea = <T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  area: ReportArea
+): SelectQueryBuilder<T> => {
+  if (area.bbox) {
+    const [minLng, minLat, maxLng, maxLat] = area.bbox;
+    qb.andWhere(`${LONGITUDE} BETWEEN :minLng AND :maxLng`, { minLng, maxLng })
+      .andWhere(`${LATITUDE} BETWEEN :minLat AND :maxLat`, { minLat, maxLat });
+  }
+  if (area.near && area.radiusKm !== undefined) {
+    const [lat, lng] = area.near;
+    // Haversine distance in km
+    qb.andWhere(
+      `6371 * 2 * ASIN(SQRT(
+        POWER(SIN(RADIANS(${LATITUDE} - :lat) / 2), 2) +
+        COS(RADIANS(:lat)) * COS(RADIANS(${LATITUDE})) * POWER(SIN(RADIANS(${LONGITUDE} - :lng) / 2), 2)
+      )) <= :radiusKm`,
+      { lat, lng, radiusKm: area.radiusKm }
+    );
+  }
+  return qb;
+};
+
+const SORT_EXPRESSIONS: Record<ReportSearchFilter['sort'], string> = {
+  reportedAt: REPORTED_AT,
+  createdAt: 'report.createdAt',
+  status: 'report.status',
+  nonComplianceReason: 'report.nonComplianceReason',
+  productName: `LOWER(report.scannedData->>'productName')`,
+};
+
+export interface ReportProductLink {
+  productId: string | null;
+  companyId: string | null;
+  brandNameId: string | null;
+}
+
+type LinkableProduct = Pick<Product, '_id' | 'CFPRNumber' | 'LTONumber' | 'lotNumber' | 'companyId' | 'brandNameId'>;
+
+/**
+ * Registered products looked up by id and by normalized CFPR and LTO numbers
+ */
+export interface ProductIndex {
+  byId: Map<string, LinkableProduct>;
+  byCFPR: Map<string, LinkableProduct[]>;
+  byLTO: Map<string, LinkableProduct[]>;
+}
+
+// Shorter codes are OCR fragments rather than registration numbers
+const MIN_CODE_LENGTH = 4;
+
+const codeKey = (value: unknown) => {
+  const code = typeof value === 'string' ? normalizeCode(value) : '';
+  return code.length >= MIN_CODE_LENGTH ? code : null;
+};
+
+export const productLink = (product: Pick<Product, '_id' | 'companyId' | 'brandNameId'>): ReportProductLink => ({
+  productId: product._id,
+  companyId: product.companyId ?? null,
+  brandNameId: product.brandNameId ?? null,
+});
+
+export const buildProductIndex = (products: LinkableProduct[]): ProductIndex => {
+  const index: ProductIndex = { byId: new Map(), byCFPR: new Map(), byLTO: new Map() };
+  const add = (map: Map<string, LinkableProduct[]>, key: string | null, product: LinkableProduct) => {
+    if (key) map.set(key, [...(map.get(key) ?? []), product]);
+  };
+  products.forEach(product => {
+    index.byId.set(product._id, product);
+    add(index.byCFPR, codeKey(product.CFPRNumber), product);
+    add(index.byLTO, codeKey(product.LTONumber), product);
+  });
+  return index;
+};
+
+/**
+ * Product an existing report is about: the product the agent picked, otherwise the
+ * one registered under the label's CFPR (or LTO) number, using the lot number to
+ * choose between lots. When the lots can't be told apart but share a company,
+ * only the company (and brand, if shared) is linked.
+ */
+export const matchReportProduct = (
+  report: Pick<ComplianceReport, 'scannedData' | 'productSearchResult'>,
+  index: ProductIndex
+): ReportProductLink | null => {
+  const picked = index.byId.get(report.productSearchResult?.productId);
+  if (picked) return productLink(picked);
+
+  const cfpr = codeKey(report.scannedData?.CFPRNumber);
+  const lto = codeKey(report.scannedData?.LTONumber);
+  let candidates = (cfpr && index.byCFPR.get(cfpr)) || (lto && index.byLTO.get(lto)) || [];
+  if (candidates.length > 1) {
+    const lot = codeKey(report.scannedData?.lotNumber);
+    const sameLot = candidates.filter(product => lot && codeKey(product.lotNumber) === lot);
+    if (sameLot.length > 0) candidates = sameLot;
+  }
+
+  if (candidates.length === 0) return null;
+  if (candidates.length === 1) return productLink(candidates[0]);
+
+  const companyIds = new Set(candidates.map(product => product.companyId));
+  if (companyIds.size > 1) return null;
+  const brandNameIds = new Set(candidates.map(product => product.brandNameId ?? null));
+  return {
+    productId: null,
+    companyId: candidates[0].companyId,
+    brandNameId: brandNameIds.size === 1 ? candidates[0].brandNameId ?? null : null,
+  };
+};
+
+export interface ComplianceHistory {
+  total: number;
+  byStatus: Record<ComplianceStatus, number>;
+  lastReportedAt: Date | null;
+  recent: ComplianceReport[];
+}
+
+// Reports listed in a detail view; the full list is the report search filtered by id
+const RECENT_HISTORY_SIZE = 10;
+
+export class ComplianceReportService {
+  /**
+   * Query for the reports matching an admin search, with the agent and matched product joined
+   */
+  static buildSearchQuery(filter: ReportSearchFilter): SelectQueryBuilder<ComplianceReport> {
+    const qb = ComplianceReportRepo.createQueryBuilder('report')
+      .leftJoin('report.agent', 'agent')
+      .addSelect(['agent._id', 'agent.firstName', 'agent.lastName', 'agent.email', 'agent.badgeId'])
+      .leftJoinAndSelect('report.product', 'product');
+
+    if (filter.status) {
+      qb.andWhere('report.status IN (:...statuses)', { statuses: filter.status });
+    }
+    if (filter.nonComplianceReason) {
+      qb.andWhere('report.nonComplianceReason IN (:...reasons)', { reasons: filter.nonComplianceReason });
+    }
+    if (filter.agentId) {
+      qb.andWhere('report.agentId = :agentId', { agentId: filter.agentId });
+    }
+    if (filter.productId) {
+      qb.andWhere('report.productId = :productId', { productId: filter.productId });
+    }
+    if (filter.companyId) {
+      qb.andWhere('report.companyId = :companyId', { companyId: filter.companyId });
+    }
+    if (filter.brandNameId) {
+      qb.andWhere('report.brandNameId = :brandNameId', { brandNameId: filter.brandNameId });
+    }
+    if (filter.from) {
+      qb.andWhere(`${REPORTED_AT} >= :from`, { from: filter.from });
+    }
+    if (filter.to) {
+      qb.andWhere(`${REPORTED_AT} <= :to`, { to: filter.to });
+    }
+    applyReportArea(qb, filter);
+    if (filter.productName) {
+      qb.andWhere(
+        `(report.scannedData->>'productName' ILIKE :productName OR report.scannedData->>'brandName' ILIKE :productName)`,
+        { productName: `%${filter.productName}%` }
+      );
+    }
+    if (filter.CFPRNumber) {
+      // Separators and case are ignored
+      qb.andWhere(
+        `regexp_replace(UPPER(report.scannedData->>'CFPRNumber'), '[^A-Z0-9]', '', 'g') LIKE :cfpr`,
+        { cfpr: `%${filter.CFPRNumber.toUpperCase().replace(/[^A-Z0-9]/g, '')}%` }
+      );
+    }
+
+    const direction = filter.order === 'asc' ? 'ASC' : 'DESC';
+    return qb
+      .orderBy(SORT_EXPRESSIONS[filter.sort], direction, direction === 'ASC' ? 'NULLS LAST' : 'NULLS FIRST')
+      .addOrderBy('report._id', direction);
+  }
+
+  /**
+   * One page of the reports matching an admin search
+   */
+  static async search(filter: ReportSearchFilter, skip: number, take: number): Promise<[ComplianceReport[], number]> {
+    // Joins are many-to-one, so offset/limit page over reports directly
+    return await this.buildSearchQuery(filter).offset(skip).limit(take).getManyAndCount();
+  }
+
+  /**
+   * Validate and save a compliance report submitted by an agent, and log it.
+   * Throws a ZodError for an invalid body and a CustomError for invalid images.
+   *
+   * onSaved runs in the transaction that inserts the report, so whatever it
+   * records is committed together with the report.
+   */
+  static async createReport(
+    agentId: string,
+    body: Record<string, any>,
+    context: RequestContext = {},
+    onSaved?: (report: ComplianceReport, manager: EntityManager) => Promise<unknown>
+  ): Promise<ComplianceReport> {
+    const validatedData = ComplianceReportValidation.parse({ ...body, agentId });
+
+    // Validate image URLs (both required)
+    if (!validatedData.frontImageUrl || !validatedData.backImageUrl) {
+      throw new CustomError(400, 'Both front and back image URLs are required');
+    }
+
+    const frontValidation = await FirebaseStorageValidator.validateScanUrls(
+      validatedData.frontImageUrl,
+      undefined
+    );
+    if (!frontValidation.valid) {
+      throw new CustomError(400, frontValidation.error || 'Invalid front image URL');
+    }
+
+    const backValidation = await FirebaseStorageValidator.validateScanUrls(
+      undefined,
+      validatedData.backImageUrl
+    );
+    if (!backValidation.valid) {
+      throw new CustomError(400, backValidation.error || 'Invalid back image URL');
+    }
+
+    // Link the product the agent picked, and store how the scanned label compares
+    // with it so reviewers can see what differs
+    const productId = validatedData.productId ?? validatedData.productSearchResult?.productId;
+    validatedData.productId = undefined;
+    if (typeof productId === 'string' && z.string().uuid().safeParse(productId).success) {
+      const product = await ProductRepo.findOne({ where: { _id: productId }, relations: ['company'] });
+      if (product) {
+        Object.assign(validatedData, productLink(product));
+        validatedData.productSearchResult = {
+          ...validatedData.productSearchResult,
+          productId: product._id,
+          comparison: compareLabel(validatedData.scannedData, product),
+        };
+      } else if (body.productId) {
+        throw new CustomError(404, 'Product not found');
+      }
+    }
+
+    // Create compliance report
+    const complianceRepo = DB.getRepository(ComplianceReport);
+    const newReport = complianceRepo.create(validatedData);
+
+    // Boundaries are only used for reporting, so a failed lookup leaves the report unassigned
+    try {
+      Object.assign(newReport, await RegionService.locate(validatedData.location));
+    } catch (error) {
+      console.error('Failed to find the regions of compliance report:', error);
+    }
+
+    const savedReport = await DB.transaction(async manager => {
+      const report = await manager.save(newReport);
+      await onSaved?.(report, manager);
+      return report;
+    });
+
+    // Create audit log
+    await AuditLogService.createLog({
+      userId: agentId,
+      action: `Agent submitted compliance report: ${validatedData.status}`,
+      actionType: 'COMPLIANCE_REPORT',
+      platform: 'MOBILE',
+      metadata: {
+        reportId: savedReport._id,
+        status: validatedData.status,
+        nonComplianceReason: validatedData.nonComplianceReason,
+        productName: validatedData.scannedData?.productName,
+        ...(validatedData.frontImageUrl && { frontImageUrl: validatedData.frontImageUrl }),
+        ...(validatedData.backImageUrl && { backImageUrl: validatedData.backImageUrl }),
+      },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      location: validatedData.location || undefined,
+      capturedAt: validatedData.capturedAt || undefined,
+    });
+
+    await CompanyRiskService.recalculateQuietly(savedReport.companyId);
+
+    // Non-compliant and fraudulent reports open a case for the admins to follow up.
+    // The report is already saved, so a failure here is logged rather than rejected.
+    try {
+      const complianceCase = await ComplianceCaseService.openForReport(savedReport, context);
+      if (complianceCase) savedReport.caseId = complianceCase._id;
+    } catch (error) {
+      console.error('Failed to open a case for compliance report:', error);
+    }
+
+    return savedReport;
+  }
+
+  /**
+   * Reports, counts by verdict and the latest findings for a product, company or brand
+   */
+  static async getHistory(
+    column: keyof ReportProductLink,
+    id: string,
+    recentSize = RECENT_HISTORY_SIZE
+  ): Promise<ComplianceHistory> {
+    const where = `report.${column} = :id`;
+
+    const [counts, recent] = await Promise.all([
+      ComplianceReportRepo.createQueryBuilder('report')
+        .select('report.status', 'status')
+        .addSelect('COUNT(*)', 'count')
+        .addSelect(`MAX(${REPORTED_AT})`, 'lastReportedAt')
+        .where(where, { id })
+        .groupBy('report.status')
+        .getRawMany<{ status: ComplianceStatus; count: string; lastReportedAt: Date | null }>(),
+      ComplianceReportRepo.createQueryBuilder('report')
+        .leftJoin('report.agent', 'agent')
+        .addSelect(['agent._id', 'agent.firstName', 'agent.lastName', 'agent.badgeId'])
+        .where(where, { id })
+        .orderBy(REPORTED_AT, 'DESC')
+        .addOrderBy('report._id', 'DESC')
+        .limit(recentSize)
+        .getMany(),
+    ]);
+
+    const byStatus = Object.values(ComplianceStatus).reduce(
+      (totals, status) => ({ ...totals, [status]: 0 }),
+      {} as Record<ComplianceStatus, number>
+    );
+    let lastReportedAt: Date | null = null;
+    counts.forEach(row => {
+      byStatus[row.status] = Number(row.count);
+      if (row.lastReportedAt && (!lastReportedAt || new Date(row.lastReportedAt) > lastReportedAt)) {
+        lastReportedAt = new Date(row.lastReportedAt);
+      }
+    });
+
+    return {
+      total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+      byStatus,
+      lastReportedAt,
+      recent,
+    };
+  }
+
+  /**
+   * Link reports saved before reports referenced products, matching them by the
+   * picked product or the label's CFPR/LTO number. Safe to run more than once.
+   */
+  static async backfillProductLinks(batchSize = 500) {
+    const products = await ProductRepo.find({
+      select: ['_id', 'CFPRNumber', 'LTONumber', 'lotNumber', 'companyId', 'brandNameId'],
+    });
+    const index = buildProductIndex(products);
+    const result = { scanned: 0, linked: 0, companyOnly: 0, unmatched: 0 };
+
+    let lastId: string | undefined;
+    for (;;) {
+      const reports = await ComplianceReportRepo.find({
+        select: ['_id', 'scannedData', 'productSearchResult', 'companyId'],
+        where: { productId: IsNull(), ...(lastId && { _id: MoreThan(lastId) }) },
+        order: { _id: 'ASC' },
+        take: batchSize,
+      });
+      if (reports.length === 0) break;
+      lastId = reports[reports.length - 1]._id;
+
+      for (const report of reports) {
+        result.scanned++;
+        const link = matchReportProduct(report, index);
+        if (!link) {
+          result.unmatched++;
+          continue;
+        }
+        if (link.productId) {
+          result.linked++;
+        } else {
+          result.companyOnly++;
+          if (report.companyId === link.companyId) continue;
+        }
+        await ComplianceReportRepo.update(report._id, link);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,271 @@
+import { z } from 'zod';
+import { SelectQueryBuilder } from 'typeorm';
+import { ComplianceReportRepo } from '../typeorm/data-source';
+import { ComplianceReport } from '../typeorm/entities/complianceReport.entity';
+import { ComplianceStatus, NonComplianceReason } from '../types/enums';
+import CustomError from '../utils/CustomError';
+import { APP_TIME_ZONE, manilaDate } from '../utils/dates';
+import { addReportCount, emptyReportCounts, nonComplianceRate, ReportCounts } from '../utils/reportCounts';
+import { applyReportArea, REPORTED_AT, ReportAreaFields } from './complianceReportService';
+
+export const TREND_INTERVALS = ['day', 'week', 'month'] as const;
+export type TrendInterval = typeof TREND_INTERVALS[number];
+
+// Buckets shown when no range is given, ending today
+const DEFAULT_BUCKETS: Record<TrendInterval, number> = { day: 30, week: 12, month: 12 };
+export const MAX_TREND_BUCKETS = 366;
+
+// Change in the non-compliance rate, in percentage points, still treated as no change
+const STABLE_RATE_POINTS = 2;
+
+// Timestamps are stored in UTC; buckets follow Philippine calendar days
+const LOCAL_REPORTED_AT = `(${REPORTED_AT} AT TIME ZONE 'UTC') AT TIME ZONE '${APP_TIME_ZONE}'`;
+
+const parseDay = (day: string) => new Date(`${day}T00:00:00Z`);
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const calendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date')
+  .refine(day => !isNaN(parseDay(day).getTime()) && formatDay(parseDay(day)) === day, 'Invalid date');
+
+/**
+ * Filters accepted by the compliance trends endpoint; dates are Philippine calendar days
+ */
+export const TrendFilterValidation = z
+  .object({
+    interval: z.enum(TREND_INTERVALS).default('day'),
+    from: calendarDate.optional(),
+    to: calendarDate.optional(),
+    agentId: z.string().uuid().optional(),
+    companyId: z.string().uuid().optional(),
+    brandNameId: z.string().uuid().optional(),
+    classificationId: z.string().uuid().optional(),
+    // Region as a bounding box or a radius around a point
+    ...ReportAreaFields,
+  })
+  .refine(filter => !filter.near || filter.radiusKm !== undefined, {
+    message: 'radiusKm is required with near',
+    path: ['radiusKm'],
+  })
+  .refine(filter => !filter.from || !filter.to || filter.from <= filter.to, {
+    message: "'from' must not be after 'to'",
+    path: ['from'],
+  });
+
+export type TrendFilter = z.infer<typeof TrendFilterValidation>;
+
+/**
+ * First day of the bucket a date falls in; weeks start on Monday
+ */
+export const bucketStart = (day: string, interval: TrendInterval): string => {
+  const date = parseDay(day);
+  if (interval === 'week') date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  if (interval === 'month') date.setUTCDate(1);
+  return formatDay(date);
+};
+
+/**
+ * Start of the bucket a number of buckets away from a bucket start
+ */
+export const addBuckets = (start: string, interval: TrendInterval, count: number): string => {
+  const date = parseDay(start);
+  if (interval === 'day') date.setUTCDate(date.getUTCDate() + count);
+  if (interval === 'week') date.setUTCDate(date.getUTCDate() + count * 7);
+  if (interval === 'month') date.setUTCMonth(date.getUTCMonth() + count);
+  return formatDay(date);
+};
+
+export interface TrendPeriod {
+  from: string; // first day
+  to: string; // last day
+  buckets: string[];
+}
+
+export type TrendCounts = ReportCounts;
+
+export interface TrendBucket extends TrendCounts {
+  start: string;
+}
+
+export interface TrendChange {
+  current: number;
+  previous: number;
+  change: number;
+  percentChange: number | null;
+}
+
+export interface TrendComparison {
+  total: TrendChange;
+  byStatus: Record<ComplianceStatus, TrendChange>;
+  byReason: Record<NonComplianceReason, TrendChange>;
+  // Share of reports that were non-compliant or fraudulent, in percent
+  nonComplianceRate: { current: number | null; previous: number | null; change: number | null };
+  direction: 'IMPROVING' | 'WORSENING' | 'STABLE' | 'INSUFFICIENT_DATA';
+}
+
+export interface ComplianceTrends {
+  interval: TrendInterval;
+  timeZone: string;
+  period: TrendPeriod;
+  previousPeriod: TrendPeriod;
+  buckets: TrendBucket[];
+  totals: { current: TrendCounts; previous: TrendCounts };
+  comparison: TrendComparison;
+}
+
+interface TrendRow {
+  bucket?: string;
+  status: ComplianceStatus;
+  reason: NonComplianceReason | null;
+  count: string;
+}
+
+const tally = (counts: TrendCounts, row: TrendRow): void =>
+  addReportCount(counts, row.status, row.reason, Number(row.count));
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const change = (current: number, previous: number): TrendChange => ({
+  current,
+  previous,
+  change: current - previous,
+  percentChange: previous === 0 ? null : round(((current - previous) / previous) * 100),
+});
+
+/**
+ * Compare two periods; fewer non-compliant findings per report means improving
+ */
+export const compareTrendCounts = (current: TrendCounts, previous: TrendCounts): TrendComparison => {
+  const currentRate = nonComplianceRate(current);
+  const previousRate = nonComplianceRate(previous);
+  const rateChange = currentRate === null || previousRate === null ? null : round(currentRate - previousRate);
+
+  const byStatus = {} as Record<ComplianceStatus, TrendChange>;
+  Object.values(ComplianceStatus).forEach(status => {
+    byStatus[status] = change(current.byStatus[status], previous.byStatus[status]);
+  });
+  const byReason = {} as Record<NonComplianceReason, TrendChange>;
+  Object.values(NonComplianceReason).forEach(reason => {
+    byReason[reason] = change(current.byReason[reason], previous.byReason[reason]);
+  });
+
+  return {
+    total: change(current.total, previous.total),
+    byStatus,
+    byReason,
+    nonComplianceRate: { current: currentRate, previous: previousRate, change: rateChange },
+    direction:
+      rateChange === null
+        ? 'INSUFFICIENT_DATA'
+        : Math.abs(rateChange) < STABLE_RATE_POINTS
+          ? 'STABLE'
+          : rateChange < 0
+            ? 'IMPROVING'
+            : 'WORSENING',
+  };
+};
+
+/**
+ * Whole buckets covering a date range, and the same number of buckets just before it
+ */
+export const trendPeriods = (
+  filter: Pick<TrendFilter, 'interval' | 'from' | 'to'>,
+  now: Date
+): { period: TrendPeriod; previousPeriod: TrendPeriod } => {
+  const { interval } = filter;
+  const last = bucketStart(filter.to ?? manilaDate(now), interval);
+  const first = filter.from ? bucketStart(filter.from, interval) : addBuckets(last, interval, 1 - DEFAULT_BUCKETS[interval]);
+
+  if (first > last) {
+    throw new CustomError(400, "'from' must not be after 'to'");
+  }
+
+  const buckets: string[] = [];
+  for (let start = first; start <= last; start = addBuckets(start, interval, 1)) {
+    buckets.push(start);
+    if (buckets.length > MAX_TREND_BUCKETS) {
+      throw new CustomError(400, `A trend can cover at most ${MAX_TREND_BUCKETS} ${interval}s`);
+    }
+  }
+
+  const previousBuckets = buckets.map((_, index) => addBuckets(first, interval, index - buckets.length));
+  const lastDay = (start: string) => addBuckets(addBuckets(start, interval, 1), 'day', -1);
+
+  return {
+    period: { from: first, to: lastDay(last), buckets },
+    previousPeriod: {
+      from: previousBuckets[0],
+      to: lastDay(previousBuckets[previousBuckets.length - 1]),
+      buckets: previousBuckets,
+    },
+  };
+};
+
+export class ComplianceTrendService {
+  /**
+   * Report counts per day, week or month by status and reason, compared with the period before
+   */
+  static async trends(filter: TrendFilter, now: Date = new Date()): Promise<ComplianceTrends> {
+    const { interval } = filter;
+    const { period, previousPeriod } = trendPeriods(filter, now);
+    // The interval is one of TREND_INTERVALS, so it is safe to inline
+    const bucket = `to_char(date_trunc('${interval}', ${LOCAL_REPORTED_AT}), 'YYYY-MM-DD')`;
+
+    const [currentRows, previousRows] = await Promise.all([
+      this.countQuery(filter, period)
+        .addSelect(bucket, 'bucket')
+        .addGroupBy('bucket')
+        .getRawMany<TrendRow>(),
+      this.countQuery(filter, previousPeriod).getRawMany<TrendRow>(),
+    ]);
+
+    const byBucket: Record<string, TrendBucket> = {};
+    const buckets = period.buckets.map(start => (byBucket[start] = { start, ...emptyReportCounts() }));
+    const current = emptyReportCounts();
+    currentRows.forEach(row => {
+      tally(current, row);
+      if (row.bucket && byBucket[row.bucket]) tally(byBucket[row.bucket], row);
+    });
+    const previous = emptyReportCounts();
+    previousRows.forEach(row => tally(previous, row));
+
+    return {
+      interval,
+      timeZone: APP_TIME_ZONE,
+      period,
+      previousPeriod,
+      buckets,
+      totals: { current, previous },
+      comparison: compareTrendCounts(current, previous),
+    };
+  }
+
+  // Reports counted by status and reason within a period
+  private static countQuery(filter: TrendFilter, period: TrendPeriod): SelectQueryBuilder<ComplianceReport> {
+    const qb = ComplianceReportRepo.createQueryBuilder('report')
+      .select('report.status', 'status')
+      .addSelect('report.nonComplianceReason', 'reason')
+      .addSelect('COUNT(*)', 'count')
+      .where(`${LOCAL_REPORTED_AT} >= :start`, { start: period.from })
+      .andWhere(`${LOCAL_REPORTED_AT} < :end`, { end: addBuckets(period.to, 'day', 1) })
+      .groupBy('report.status')
+      .addGroupBy('report.nonComplianceReason');
+
+    if (filter.agentId) {
+      qb.andWhere('report.agentId = :agentId', { agentId: filter.agentId });
+    }
+    if (filter.companyId) {
+      qb.andWhere('report.companyId = :companyId', { companyId: filter.companyId });
+    }
+    if (filter.brandNameId) {
+      qb.andWhere('report.brandNameId = :brandNameId', { brandNameId: filter.brandNameId });
+    }
+    if (filter.classificationId) {
+      qb.innerJoin('report.product', 'product').andWhere('product.classificationId = :classificationId', {
+        classificationId: filter.classificationId,
+      });
+    }
+    return applyReportArea(qb, filter);
+  }
+}
@@ -0,0 +1,403 @@
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { z } from 'zod';
+import { AuditLogRepo, CompanyRepo, ProductRepo, ScanRepo } from '../typeorm/data-source';
+import { ComplianceReport } from '../typeorm/entities/complianceReport.entity';
+import { ScanHistory } from '../typeorm/entities/scanHistory';
+import { Product } from '../typeorm/entities/product.entity';
+import { Company } from '../typeorm/entities/company.entity';
+import { AuditLog } from '../typeorm/entities/auditLog.entity';
+import { ScanResult } from '../types/enums';
+import CustomError from '../utils/CustomError';
+import { ComplianceReportService, ReportSearchValidation } from './complianceReportService';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_DATASETS = ['compliance-reports', 'scans', 'products', 'companies', 'audit-logs'] as const;
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+export interface ExportColumn<T> {
+  header: string;
+  // A method, so the columns of any entity's export can be passed to write
+  value(row: T): unknown;
+}
+
+type ExportEntity = ObjectLiteral & { _id: string };
+
+// Timestamp columns of an entity
+type DateKey<T> = { [K in keyof T]-?: T[K] extends Date ? K : never }[keyof T] & string;
+
+/**
+ * A validated export, ready to be written
+ */
+export interface PreparedExport<T extends ExportEntity> {
+  dataset: ExportDataset;
+  filters: Record<string, unknown>;
+  query: SelectQueryBuilder<T>;
+  columns: ExportColumn<T>[];
+  // Rows are written newest first by this timestamp, then by _id
+  pageBy: DateKey<T>;
+  // Loads values the query can't select, one batch of rows at a time
+  enrich?(rows: T[]): Promise<void>;
+}
+
+export type DatasetExport =
+  | PreparedExport<ComplianceReport>
+  | PreparedExport<ScanHistory>
+  | PreparedExport<Product>
+  | PreparedExport<Company>
+  | PreparedExport<AuditLog>;
+
+// Rows fetched per query while streaming
+export const EXPORT_BATCH_SIZE = 1000;
+
+const ScanExportValidation = z.object({
+  agentId: z.string().uuid().optional(),
+  productId: z.string().uuid().optional(),
+  scanResult: z.enum(['Authentic', 'Tampered', 'Expired', 'Unregistered']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const ProductExportValidation = z.object({
+  search: z.string().trim().max(100).optional(),
+  companyId: z.string().uuid().optional(),
+  validityStatus: z.enum(['VALID', 'EXPIRING', 'LAPSED']).optional(),
+});
+
+const CompanyExportValidation = z.object({
+  search: z.string().trim().max(100).optional(),
+});
+
+const AuditLogExportValidation = z.object({
+  actionType: z.string().trim().max(50).optional(),
+  userId: z.string().uuid().optional(),
+  platform: z.enum(['WEB', 'MOBILE']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const userName = (user?: { firstName?: string; lastName?: string } | null) =>
+  user ? `${user.firstName ?? ''} ${user.lastName ?? ''}`.trim() : null;
+
+const complianceReportColumns: ExportColumn<ComplianceReport>[] = [
+  { header: 'Report ID', value: report => report._id },
+  { header: 'Reported At', value: report => report.capturedAt ?? report.createdAt },
+  { header: 'Received At', value: report => report.createdAt },
+  { header: 'Status', value: report => report.status },
+  { header: 'Non-compliance Reason', value: report => report.nonComplianceReason },
+  { header: 'Product Name', value: report => report.scannedData?.productName },
+  { header: 'Brand Name', value: report => report.scannedData?.brandName },
+  { header: 'CFPR Number', value: report => report.scannedData?.CFPRNumber },
+  { header: 'Lot Number', value: report => report.scannedData?.lotNumber },
+  { header: 'Agent', value: report => userName(report.agent) },
+  { header: 'Agent Badge ID', value: report => report.agent?.badgeId },
+  { header: 'Address', value: report => report.location?.address },
+  { header: 'Latitude', value: report => report.location?.latitude },
+  { header: 'Longitude', value: report => report.location?.longitude },
+  { header: 'Case ID', value: report => report.caseId },
+  { header: 'Notes', value: report => report.additionalNotes },
+];
+
+const scanColumns: ExportColumn<ScanHistory>[] = [
+  { header: 'Scan ID', value: scan => scan._id },
+  { header: 'Scanned At', value: scan => scan.scannedAt ?? scan.createdAt },
+  { header: 'Result', value: scan => (typeof scan.scanResult === 'number' ? ScanResult[scan.scanResult] : scan.scanResult) },
+  { header: 'Agent', value: scan => userName(scan.scannedBy) },
+  { header: 'Agent ID', value: scan => scan.userId },
+  { header: 'Product', value: scan => scan.product?.productName },
+  { header: 'CFPR Number', value: scan => scan.product?.CFPRNumber },
+  { header: 'Latitude', value: scan => scan.lat },
+  { header: 'Longitude', value: scan => scan.long },
+  { header: 'Remarks', value: scan => scan.remarks },
+];
+
+const productColumns: ExportColumn<Product>[] = [
+  { header: 'Product ID', value: product => product._id },
+  { header: 'Product Name', value: product => product.productName },
+  { header: 'Brand Name', value: product => product.brandName },
+  { header: 'CFPR Number', value: product => product.CFPRNumber },
+  { header: 'LTO Number', value: product => product.LTONumber },
+  { header: 'Lot Number', value: product => product.lotNumber },
+  { header: 'Classification', value: product => product.productClassification },
+  { header: 'Sub-classification', value: product => product.productSubClassification },
+  { header: 'Company', value: product => product.company?.name },
+  { header: 'Expiration Date', value: product => product.expirationDate },
+  { header: 'Date of Registration', value: product => product.dateOfRegistration },
+  { header: 'Validity Status', value: product => product.validityStatus },
+  { header: 'Valid Until', value: product => product.validUntil },
+];
+
+const companyColumns: ExportColumn<Company>[] = [
+  { header: 'Company ID', value: company => company._id },
+  { header: 'Name', value: company => company.name },
+  { header: 'Address', value: company => company.address },
+  { header: 'License Number', value: company => company.licenseNumber },
+  { header: 'Business Type', value: company => company.businessType },
+  { header: 'Phone', value: company => company.phone },
+  { header: 'Email', value: company => company.email },
+  { header: 'Website', value: company => company.website },
+  { header: 'Registration Date', value: company => company.registrationDate },
+  { header: 'Products', value: company => (company as CompanyRow).productCount ?? 0 },
+  { header: 'License Status', value: company => company.licenseStatus },
+  { header: 'License Expires', value: company => company.licenseExpiresAt },
+  { header: 'Risk Score', value: company => company.riskScore },
+  { header: 'Risk Level', value: company => company.riskLevel },
+  { header: 'Created At', value: company => company.createdAt },
+];
+
+type CompanyRow = Company & { productCount?: number };
+
+/**
+ * Product counts for a batch of companies
+ */
+const addProductCounts = async (companies: CompanyRow[]) => {
+  if (companies.length === 0) return;
+  const counts = await ProductRepo.createQueryBuilder('product')
+    .select('product.companyId', 'companyId')
+    .addSelect('COUNT(*)', 'count')
+    .where('product.companyId IN (:...ids)', { ids: companies.map(company => company._id) })
+    .groupBy('product.companyId')
+    .getRawMany<{ companyId: string; count: string }>();
+  const byCompany = new Map(counts.map(row => [row.companyId, Number(row.count)]));
+  companies.forEach(company => {
+    company.productCount = byCompany.get(company._id) ?? 0;
+  });
+};
+
+const auditLogColumns: ExportColumn<AuditLog>[] = [
+  { header: 'Log ID', value: log => log._id },
+  { header: 'Date', value: log => log.createdAt },
+  { header: 'Action Type', value: log => log.actionType },
+  { header: 'Action', value: log => log.action },
+  { header: 'User', value: log => userName(log.user) },
+  { header: 'User Email', value: log => log.user?.email },
+  { header: 'Target User', value: log => userName(log.targetUser) },
+  { header: 'Target Product ID', value: log => log.targetProductId },
+  { header: 'Platform', value: log => log.platform },
+  { header: 'IP Address', value: log => log.ipAddress },
+  { header: 'Metadata', value: log => log.metadata },
+];
+
+/**
+ * Apply the optional from/to range on a timestamp expression
+ */
+const withinRange = <T extends ObjectLiteral>(qb: SelectQueryBuilder<T>, column: string, from?: Date, to?: Date) => {
+  if (from) qb.andWhere(`${column} >= :from`, { from });
+  if (to) qb.andWhere(`${column} <= :to`, { to });
+  return qb;
+};
+
+const parseFilters = <T>(schema: z.ZodType<T>, query: unknown): T => {
+  const result = schema.safeParse(query);
+  if (!result.success) {
+    throw new CustomError(400, 'Invalid export filters', { errors: result.error.issues });
+  }
+  return result.data;
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Text for one CSV cell: dates as ISO timestamps, objects as JSON
+ */
+export const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const xlsxCell = (value: unknown) => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+interface RowWriter {
+  write(values: unknown[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+const writeChunk = (out: Writable, chunk: string) =>
+  new Promise<void>((resolve, reject) => {
+    // Wait for the client to catch up before writing more
+    if (out.write(chunk)) {
+      resolve();
+      return;
+    }
+    const settle = (error?: Error) => {
+      out.off('drain', onDrain);
+      out.off('error', onError);
+      out.off('close', onClose);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onDrain = () => settle();
+    const onError = (error: Error) => settle(error);
+    // The client went away, so the stream will never drain
+    const onClose = () => settle(new Error('Export stream closed before it was finished'));
+    out.on('drain', onDrain);
+    out.on('error', onError);
+    out.on('close', onClose);
+  });
+
+const csvWriter = async (out: Writable, headers: string[]): Promise<RowWriter> => {
+  // BOM so Excel opens the file as UTF-8
+  await writeChunk(out, `\uFEFF${headers.map(csvCell).join(',')}\r\n`);
+  return {
+    write: values => writeChunk(out, `${values.map(csvCell).join(',')}\r\n`),
+    end: () => new Promise<void>(resolve => out.end(resolve)),
+  };
+};
+
+const xlsxWriter = async (out: Writable, headers: string[], sheetName: string): Promise<RowWriter> => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: true, useSharedStrings: false });
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.columns = headers.map(header => ({ header, width: Math.max(12, header.length + 2) }));
+  return {
+    write: async values => sheet.addRow(values.map(xlsxCell)).commit(),
+    end: async () => {
+      sheet.commit();
+      await workbook.commit();
+    },
+  };
+};
+
+export class ExportService {
+  /**
+   * Validate the filters of an export and build its query. Uses the same filters as the list views.
+   */
+  static prepare(dataset: ExportDataset, query: Record<string, unknown>): DatasetExport {
+    switch (dataset) {
+      case 'compliance-reports': {
+        const filters = parseFilters(ReportSearchValidation, query);
+        return {
+          dataset,
+          filters,
+          query: ComplianceReportService.buildSearchQuery(filters),
+          columns: complianceReportColumns,
+          pageBy: 'createdAt',
+        };
+      }
+
+      case 'scans': {
+        const filters = parseFilters(ScanExportValidation, query);
+        const qb = ScanRepo.createQueryBuilder('scan')
+          .leftJoin('scan.scannedBy', 'scannedBy')
+          .addSelect(['scannedBy._id', 'scannedBy.firstName', 'scannedBy.lastName'])
+          .leftJoinAndSelect('scan.product', 'product');
+        if (filters.agentId) qb.andWhere('scan.userId = :agentId', { agentId: filters.agentId });
+        if (filters.productId) qb.andWhere('scan.productId = :productId', { productId: filters.productId });
+        if (filters.scanResult) {
+          qb.andWhere('scan.scanResult = :scanResult', { scanResult: ScanResult[filters.scanResult] });
+        }
+        withinRange(qb, 'scan.createdAt', filters.from, filters.to);
+        return { dataset, filters, query: qb, columns: scanColumns, pageBy: 'createdAt' };
+      }
+
+      case 'products': {
+        const filters = parseFilters(ProductExportValidation, query);
+        const qb = ProductRepo.createQueryBuilder('product').leftJoinAndSelect('product.company', 'company');
+        if (filters.search) {
+          // Same fields as the product list search
+          qb.andWhere(
+            `(LOWER(product.productName) LIKE LOWER(:q) OR LOWER(product.brandName) LIKE LOWER(:q)
+              OR LOWER(product.lotNumber) LIKE LOWER(:q) OR LOWER(company.name) LIKE LOWER(:q))`,
+            { q: `%${filters.search}%` }
+          );
+        }
+        if (filters.companyId) qb.andWhere('product.companyId = :companyId', { companyId: filters.companyId });
+        if (filters.validityStatus) {
+          qb.andWhere('product.validityStatus = :validityStatus', { validityStatus: filters.validityStatus });
+        }
+        return { dataset, filters, query: qb, columns: productColumns, pageBy: 'dateOfRegistration' };
+      }
+
+      case 'companies': {
+        const filters = parseFilters(CompanyExportValidation, query);
+        const qb = CompanyRepo.createQueryBuilder('company');
+        if (filters.search) {
+          // Same fields as the company list search
+          qb.andWhere(
+            `(LOWER(company.name) LIKE LOWER(:q) OR LOWER(company.address) LIKE LOWER(:q)
+              OR LOWER(company.licenseNumber) LIKE LOWER(:q))`,
+            { q: `%${filters.search}%` }
+          );
+        }
+        return {
+          dataset,
+          filters,
+          query: qb,
+          columns: companyColumns,
+          pageBy: 'createdAt',
+          enrich: addProductCounts,
+        };
+      }
+
+      case 'audit-logs': {
+        const filters = parseFilters(AuditLogExportValidation, query);
+        const qb = AuditLogRepo.createQueryBuilder('log')
+          .leftJoinAndSelect('log.user', 'user')
+          .leftJoinAndSelect('log.targetUser', 'targetUser');
+        if (filters.actionType) qb.andWhere('log.actionType = :actionType', { actionType: filters.actionType });
+        if (filters.userId) qb.andWhere('log.userId = :userId', { userId: filters.userId });
+        if (filters.platform) qb.andWhere('log.platform = :platform', { platform: filters.platform });
+        withinRange(qb, 'log.createdAt', filters.from, filters.to);
+        return { dataset, filters, query: qb, columns: auditLogColumns, pageBy: 'createdAt' };
+      }
+    }
+  }
+
+  /**
+   * Stream an export to `out` batch by batch, so only one batch is held in memory.
+   * Ends the stream and returns the number of rows written.
+   */
+  static async write(prepared: PreparedExport<ExportEntity>, format: ExportFormat, out: Writable): Promise<number> {
+    const headers = prepared.columns.map(column => column.header);
+    const writer =
+      format === 'xlsx' ? await xlsxWriter(out, headers, prepared.dataset) : await csvWriter(out, headers);
+
+    // Keyset paging: each batch starts after the last row written. Dates come back with
+    // millisecond precision, so rows are ordered at that precision too.
+    const { alias } = prepared.query;
+    const sortKey = `date_trunc('milliseconds', ${alias}.${prepared.pageBy})`;
+    let last: ExportEntity | null = null;
+
+    let rowCount = 0;
+    for (;;) {
+      // Every export joins many-to-one relations only, so the limit applies to the main rows
+      const qb = prepared.query.clone().orderBy(sortKey, 'DESC').addOrderBy(`${alias}._id`, 'DESC');
+      if (last) {
+        qb.andWhere(`(${sortKey}, ${alias}._id) < (:lastKey, :lastId)`, {
+          lastKey: last[prepared.pageBy],
+          lastId: last._id,
+        });
+      }
+      const rows = await qb.limit(EXPORT_BATCH_SIZE).getMany();
+      await prepared.enrich?.(rows);
+      for (const row of rows) {
+        await writer.write(prepared.columns.map(column => column.value(row)));
+      }
+      rowCount += rows.length;
+      if (rows.length < EXPORT_BATCH_SIZE) break;
+      last = rows[rows.length - 1];
+    }
+
+    await writer.end();
+    return rowCount;
+  }
+}
@@ -0,0 +1,396 @@
+import * as turf from '@turf/turf';
+import { MoreThan } from 'typeorm';
+import { z } from 'zod';
+import { AuditLogRepo, ComplianceReportRepo, UserRepo } from '../typeorm/data-source';
+import { ComplianceStatus } from '../types/enums';
+import { createDailyJob } from '../utils/dailyJob';
+import { APP_TIME_ZONE, manilaDateTime } from '../utils/dates';
+import { sendMail } from '../utils/nodemailer';
+import { AuditLogService } from './auditLogService';
+import { LATITUDE, LONGITUDE, REPORTED_AT } from './complianceReportService';
+
+export const HOTSPOT_LABELS = ['NEW', 'INTENSIFYING', 'PERSISTENT', 'FADING'] as const;
+export type HotspotLabel = typeof HOTSPOT_LABELS[number];
+
+// Change in findings between windows, as a share of the earlier count, that counts as growing or fading
+const CHANGE_RATIO = 0.25;
+
+// Hour of the day (Philippine time) the scheduled check runs
+const DEFAULT_CHECK_HOUR = 7;
+
+// Held while the scheduled check runs, so only one server runs it
+const HOTSPOT_JOB_LOCK_ID = 71150304;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options of the emerging hotspot analysis; only non-compliant and fraudulent reports are clustered
+ */
+export const HotspotOptionsValidation = z.object({
+  // Length of each time window, and how many consecutive windows to compare
+  windowDays: z.coerce.number().int().min(1).max(90).default(7),
+  windows: z.coerce.number().int().min(2).max(12).default(4),
+  // DBSCAN neighbourhood and minimum cluster size
+  epsKm: z.coerce.number().min(0.1).max(50).default(1),
+  minPoints: z.coerce.number().int().min(2).max(50).default(3),
+  // End of the latest window; defaults to now
+  to: z.coerce.date().optional(),
+});
+
+export type HotspotOptions = z.infer<typeof HotspotOptionsValidation>;
+
+export interface HotspotPoint {
+  lat: number;
+  lng: number;
+  status: ComplianceStatus;
+  reportedAt: Date;
+}
+
+export interface HotspotCounts {
+  total: number;
+  nonCompliant: number;
+  fraudulent: number;
+}
+
+export interface HotspotCluster {
+  centroid: { latitude: number; longitude: number };
+  radiusKm: number;
+  counts: HotspotCounts;
+}
+
+export interface Hotspot {
+  label: HotspotLabel;
+  centroid: { latitude: number; longitude: number };
+  radiusKm: number;
+  current: HotspotCounts;
+  previous: HotspotCounts;
+  change: HotspotCounts;
+  // Consecutive windows, counting back from the latest, the hotspot was found in
+  windowsPresent: number;
+}
+
+export interface HotspotWindow {
+  from: Date;
+  to: Date;
+  reports: number;
+  clusters: number;
+}
+
+export interface HotspotAnalysis {
+  parameters: Omit<HotspotOptions, 'to'> & { to: Date };
+  windows: HotspotWindow[]; // Latest first
+  hotspots: Hotspot[];
+}
+
+export interface HotspotRunSummary {
+  checkedAt: Date;
+  hotspots: number;
+  newHotspots: Hotspot[];
+  notifiedHotspots: Hotspot[]; // New hotspots not already reported in an earlier run
+  notifiedAdmins: number;
+}
+
+const emptyCounts = (): HotspotCounts => ({ total: 0, nonCompliant: 0, fraudulent: 0 });
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * DBSCAN clusters of one window with their centroid, radius and findings
+ */
+export const clusterWindow = (points: HotspotPoint[], epsKm: number, minPoints: number): HotspotCluster[] => {
+  if (points.length === 0) return [];
+
+  const clustered = turf.clustersDbscan(
+    turf.featureCollection(points.map((point, index) => turf.point([point.lng, point.lat], { index }))),
+    epsKm,
+    { minPoints, units: 'kilometers' }
+  );
+
+  const members = new Map<number, HotspotPoint[]>();
+  clustered.features.forEach(feature => {
+    const cluster = feature.properties.cluster;
+    if (feature.properties.dbscan === 'noise' || cluster === undefined) return;
+    if (!members.has(cluster)) members.set(cluster, []);
+    members.get(cluster)!.push(points[feature.properties.index]);
+  });
+
+  return Array.from(members.values()).map(clusterPoints => {
+    const latitude = clusterPoints.reduce((sum, point) => sum + point.lat, 0) / clusterPoints.length;
+    const longitude = clusterPoints.reduce((sum, point) => sum + point.lng, 0) / clusterPoints.length;
+    const radiusKm = Math.max(
+      ...clusterPoints.map(point => turf.distance([longitude, latitude], [point.lng, point.lat], { units: 'kilometers' }))
+    );
+    const counts = emptyCounts();
+    clusterPoints.forEach(point => {
+      counts.total++;
+      if (point.status === ComplianceStatus.NON_COMPLIANT) counts.nonCompliant++;
+      if (point.status === ComplianceStatus.FRAUDULENT) counts.fraudulent++;
+    });
+    return { centroid: { latitude, longitude }, radiusKm, counts };
+  });
+};
+
+type HotspotArea = Pick<HotspotCluster, 'centroid' | 'radiusKm'>;
+
+const distanceKm = (a: HotspotArea, b: HotspotArea) =>
+  turf.distance(
+    [a.centroid.longitude, a.centroid.latitude],
+    [b.centroid.longitude, b.centroid.latitude],
+    { units: 'kilometers' }
+  );
+
+/**
+ * Closest cluster of another window that overlaps a cluster, if any
+ */
+const match = <T extends HotspotArea>(cluster: HotspotArea, candidates: T[], epsKm: number): T | undefined =>
+  candidates
+    .filter(candidate => distanceKm(cluster, candidate) <= cluster.radiusKm + candidate.radiusKm + epsKm)
+    .sort((a, b) => distanceKm(cluster, a) - distanceKm(cluster, b))[0];
+
+const label = (current: HotspotCounts, previous?: HotspotCounts): HotspotLabel => {
+  if (!previous) return 'NEW';
+  if (current.total >= previous.total * (1 + CHANGE_RATIO)) return 'INTENSIFYING';
+  if (current.total <= previous.total * (1 - CHANGE_RATIO)) return 'FADING';
+  return 'PERSISTENT';
+};
+
+const hotspot = (
+  cluster: HotspotCluster,
+  hotspotLabel: HotspotLabel,
+  current: HotspotCounts,
+  previous: HotspotCounts,
+  windowsPresent: number
+): Hotspot => ({
+  label: hotspotLabel,
+  centroid: { latitude: round(cluster.centroid.latitude, 6), longitude: round(cluster.centroid.longitude, 6) },
+  radiusKm: round(cluster.radiusKm, 3),
+  current,
+  previous,
+  change: {
+    total: current.total - previous.total,
+    nonCompliant: current.nonCompliant - previous.nonCompliant,
+    fraudulent: current.fraudulent - previous.fraudulent,
+  },
+  windowsPresent,
+});
+
+/**
+ * Label the clusters of the latest window against those of the window before it.
+ * Clusters of the earlier window with nothing left nearby are reported as fading.
+ * `windowClusters` is ordered latest first.
+ */
+export const compareWindows = (windowClusters: HotspotCluster[][], epsKm: number): Hotspot[] => {
+  const [latest, previous = []] = windowClusters;
+
+  const windowsPresent = (cluster: HotspotCluster): number => {
+    let present = 1;
+    let current = cluster;
+    for (const earlier of windowClusters.slice(1)) {
+      const found = match(current, earlier, epsKm);
+      if (!found) break;
+      present++;
+      current = found;
+    }
+    return present;
+  };
+
+  const matched = new Set<HotspotCluster>();
+  const hotspots = latest.map(cluster => {
+    const before = match(cluster, previous, epsKm);
+    if (before) matched.add(before);
+    return hotspot(
+      cluster,
+      label(cluster.counts, before?.counts),
+      cluster.counts,
+      before?.counts ?? emptyCounts(),
+      windowsPresent(cluster)
+    );
+  });
+
+  previous
+    .filter(cluster => !matched.has(cluster))
+    .forEach(cluster => hotspots.push(hotspot(cluster, 'FADING', emptyCounts(), cluster.counts, 0)));
+
+  return hotspots.sort(
+    (a, b) =>
+      HOTSPOT_LABELS.indexOf(a.label) - HOTSPOT_LABELS.indexOf(b.label) ||
+      b.current.fraudulent - a.current.fraudulent ||
+      b.current.total - a.current.total
+  );
+};
+
+/**
+ * Split reports into consecutive windows ending at `to`, cluster each window and compare them
+ */
+export const detectHotspots = (points: HotspotPoint[], options: HotspotOptions, to: Date): HotspotAnalysis => {
+  const windowMs = options.windowDays * DAY_MS;
+  const windows: HotspotWindow[] = [];
+  const windowClusters: HotspotCluster[][] = [];
+
+  for (let index = 0; index < options.windows; index++) {
+    const end = new Date(to.getTime() - index * windowMs);
+    const start = new Date(end.getTime() - windowMs);
+    const windowPoints = points.filter(point => point.reportedAt >= start && point.reportedAt < end);
+    const clusters = clusterWindow(windowPoints, options.epsKm, options.minPoints);
+    windows.push({ from: start, to: end, reports: windowPoints.length, clusters: clusters.length });
+    windowClusters.push(clusters);
+  }
+
+  return {
+    parameters: { ...options, to },
+    windows,
+    hotspots: compareWindows(windowClusters, options.epsKm),
+  };
+};
+
+const mapLink = (hotspot: Hotspot) =>
+  `https://www.google.com/maps?q=${hotspot.centroid.latitude},${hotspot.centroid.longitude}`;
+
+const alertEmail = (hotspots: Hotspot[], analysis: HotspotAnalysis): string => {
+  const rows = hotspots
+    .map(hotspot => `
+      <tr>
+        <td><a href="${mapLink(hotspot)}">${hotspot.centroid.latitude}, ${hotspot.centroid.longitude}</a></td>
+        <td>${hotspot.radiusKm} km</td>
+        <td>${hotspot.current.nonCompliant}</td>
+        <td>${hotspot.current.fraudulent}</td>
+      </tr>`)
+    .join('');
+
+  const [latest] = analysis.windows;
+  return `
+    <h2>New compliance hotspots</h2>
+    <p>${hotspots.length} new cluster(s) of non-compliant or fraudulent reports appeared between
+    ${manilaDateTime(latest.from)} and ${manilaDateTime(latest.to)} (${APP_TIME_ZONE}).</p>
+    <table border="1" cellpadding="6" cellspacing="0">
+      <tr><th>Location</th><th>Radius</th><th>Non-compliant</th><th>Fraudulent</th></tr>
+      ${rows}
+    </table>
+  `;
+};
+
+export class HotspotService {
+  private static readonly job = createDailyJob({
+    name: 'Hotspot monitor',
+    hourEnv: 'HOTSPOT_CHECK_HOUR',
+    enabledEnv: 'HOTSPOT_MONITOR_ENABLED',
+    defaultHour: DEFAULT_CHECK_HOUR,
+    lockId: HOTSPOT_JOB_LOCK_ID,
+    run: async () => {
+      const summary = await HotspotService.run();
+      console.log(`Hotspot check done: ${summary.hotspots} hotspot(s), ${summary.notifiedHotspots.length} notified`);
+    },
+  });
+
+  /**
+   * Emerging hotspot analysis over the non-compliant and fraudulent reports
+   */
+  static async detect(options: HotspotOptions, now: Date = new Date()): Promise<HotspotAnalysis> {
+    const to = options.to ?? now;
+    const from = new Date(to.getTime() - options.windows * options.windowDays * DAY_MS);
+
+    const rows = await ComplianceReportRepo.createQueryBuilder('report')
+      .select(LATITUDE, 'lat')
+      .addSelect(LONGITUDE, 'lng')
+      .addSelect('report.status', 'status')
+      .addSelect(REPORTED_AT, 'reportedAt')
+      .where('report.status IN (:...statuses)', {
+        statuses: [ComplianceStatus.NON_COMPLIANT, ComplianceStatus.FRAUDULENT],
+      })
+      .andWhere("report.location->>'latitude' IS NOT NULL")
+      .andWhere("report.location->>'longitude' IS NOT NULL")
+      .andWhere(`${REPORTED_AT} >= :from`, { from })
+      .andWhere(`${REPORTED_AT} < :to`, { to })
+      .getRawMany<{ lat: number | string; lng: number | string; status: ComplianceStatus; reportedAt: Date }>();
+
+    const points = rows
+      .map(row => ({ ...row, lat: Number(row.lat), lng: Number(row.lng), reportedAt: new Date(row.reportedAt) }))
+      .filter(point => isFinite(point.lat) && isFinite(point.lng));
+
+    return detectHotspots(points, options, to);
+  }
+
+  /**
+   * Look for hotspots with the default options, email admins about new ones
+   * not reported by an earlier run, and record the run in the audit log
+   */
+  static async run(now: Date = new Date()): Promise<HotspotRunSummary> {
+    const options = HotspotOptionsValidation.parse({});
+    const analysis = await this.detect(options, now);
+    const newHotspots = analysis.hotspots.filter(hotspot => hotspot.label === 'NEW');
+
+    // A hotspot stays new for a whole window, so skip the ones already sent within it
+    const since = new Date(now.getTime() - options.windowDays * DAY_MS);
+    const earlierRuns = await AuditLogRepo.find({
+      where: { actionType: 'HOTSPOT_CHECK', createdAt: MoreThan(since) },
+    });
+    const alreadyNotified = earlierRuns.reduce(
+      (hotspots, run) => hotspots.concat(run.metadata?.notifiedHotspots ?? []),
+      [] as HotspotArea[]
+    );
+    const notifiedHotspots = newHotspots.filter(hotspot => !match(hotspot, alreadyNotified, options.epsKm));
+
+    const summary: HotspotRunSummary = {
+      checkedAt: now,
+      hotspots: analysis.hotspots.length,
+      newHotspots,
+      notifiedHotspots,
+      notifiedAdmins: await this.notifyAdmins(notifiedHotspots, analysis),
+    };
+
+    await AuditLogService.createLog({
+      action: `Hotspot check: ${analysis.hotspots.length} hotspot(s), ${newHotspots.length} new, ${notifiedHotspots.length} notified`,
+      actionType: 'HOTSPOT_CHECK',
+      platform: 'WEB',
+      metadata: {
+        parameters: analysis.parameters,
+        labels: HOTSPOT_LABELS.reduce(
+          (counts, hotspotLabel) => ({
+            ...counts,
+            [hotspotLabel]: analysis.hotspots.filter(hotspot => hotspot.label === hotspotLabel).length,
+          }),
+          {} as Record<HotspotLabel, number>
+        ),
+        notifiedHotspots: notifiedHotspots.map(({ centroid, radiusKm }) => ({ centroid, radiusKm })),
+        notifiedAdmins: summary.notifiedAdmins,
+      },
+      userAgent: 'hotspot-monitor',
+    });
+
+    return summary;
+  }
+
+  /**
+   * Run the check every day at HOTSPOT_CHECK_HOUR (Philippine time)
+   */
+  static start(): void {
+    this.job.start();
+  }
+
+  static stop(): void {
+    this.job.stop();
+  }
+
+  /**
+   * Email active admins about new hotspots
+   */
+  private static async notifyAdmins(hotspots: Hotspot[], analysis: HotspotAnalysis): Promise<number> {
+    if (hotspots.length === 0) return 0;
+
+    const admins = await UserRepo.find({
+      select: ['_id', 'email'],
+      where: { role: 'ADMIN', status: 'Active' },
+    });
+
+    let notified = 0;
+    for (const admin of admins) {
+      try {
+        await sendMail(admin.email, `RCV: ${hotspots.length} new compliance hotspot(s)`, alertEmail(hotspots, analysis));
+        notified++;
+      } catch (error) {
+        console.error(`Failed to send hotspot alert to ${admin.email}:`, error);
+      }
+    }
+    return notified;
+  }
+}
@@ -0,0 +1,234 @@
+import { EntityManager } from "typeorm";
+import { keccak256, toUtf8Bytes, verifyMessage, Wallet } from "ethers";
+import { ProductLedgerRepo } from "../typeorm/data-source";
+import { ProductLedgerAction, ProductLedgerBlock } from "../typeorm/entities/productLedgerBlock.entity";
+import { Product } from "../typeorm/entities/product.entity";
+import CustomError from "../utils/CustomError";
+
+export interface LedgerBreak {
+  index: number;
+  blockId: string | null;
+  reason: string;
+}
+
+export interface LedgerVerification {
+  valid: boolean;
+  blocksChecked: number;
+  headHash: string | null;
+  breaks: LedgerBreak[];
+}
+
+type BlockContent = Pick<
+  ProductLedgerBlock,
+  "index" | "productId" | "action" | "data" | "actorId" | "previousHash" | "createdAt"
+>;
+
+// previousHash of the first block
+export const GENESIS_HASH = "0x" + "0".repeat(64);
+
+// Columns recorded in each snapshot; relations are left out
+const SNAPSHOT_FIELDS: (keyof Product)[] = [
+  "_id",
+  "LTONumber",
+  "CFPRNumber",
+  "lotNumber",
+  "brandName",
+  "productName",
+  "productClassification",
+  "productSubClassification",
+  "expirationDate",
+  "dateOfRegistration",
+  "registeredById",
+  "registeredAt",
+  "companyId",
+  "brandNameId",
+  "classificationId",
+  "subClassificationId",
+  "productImageFront",
+  "productImageBack",
+];
+
+// Blocks loaded per query while verifying the chain
+const VERIFY_BATCH_SIZE = 500;
+
+// Serializes appends so two blocks never claim the same position
+const LEDGER_LOCK_ID = 71150301;
+
+/**
+ * JSON with object keys sorted, so equal content always hashes the same
+ * (jsonb does not preserve key order)
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (value === undefined || value === null) return "null";
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object") {
+    const entries = Object.keys(value as object)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const computeBlockHash = (block: BlockContent): string =>
+  keccak256(
+    toUtf8Bytes(
+      canonicalJson({
+        index: block.index,
+        productId: block.productId,
+        action: block.action,
+        data: block.data,
+        actorId: block.actorId ?? null,
+        previousHash: block.previousHash,
+        createdAt: new Date(block.createdAt).toISOString(),
+      })
+    )
+  );
+
+/**
+ * Snapshot of a product as stored in the ledger
+ */
+export const productSnapshot = (product: Partial<Product>): Record<string, any> =>
+  JSON.parse(canonicalJson(SNAPSHOT_FIELDS.reduce(
+    (snapshot, field) => ({ ...snapshot, [field]: product[field] ?? null }),
+    {} as Record<string, unknown>
+  )));
+
+const getSigner = (): Wallet => {
+  const key = process.env.LEDGER_SIGNING_KEY;
+  if (!key) {
+    throw new CustomError(500, "Product ledger signing is not configured");
+  }
+  return new Wallet(key);
+};
+
+export class ProductLedgerService {
+  /**
+   * Append a block recording a change to a product.
+   * Call inside the transaction that saves the change, so neither is kept without the other.
+   */
+  static async append(
+    manager: EntityManager,
+    product: Partial<Product> & { _id: string },
+    action: ProductLedgerAction,
+    actorId?: string
+  ): Promise<ProductLedgerBlock> {
+    const signer = getSigner();
+    await manager.query("SELECT pg_advisory_xact_lock($1)", [LEDGER_LOCK_ID]);
+
+    const [last] = await manager.find(ProductLedgerBlock, { order: { index: "DESC" }, take: 1 });
+    const content: BlockContent = {
+      index: last ? last.index + 1 : 0,
+      productId: product._id,
+      action,
+      data: productSnapshot(product),
+      actorId: actorId || null,
+      previousHash: last ? last.hash : GENESIS_HASH,
+      createdAt: new Date(),
+    };
+    const hash = computeBlockHash(content);
+
+    return await manager.save(
+      manager.create(ProductLedgerBlock, {
+        ...content,
+        hash,
+        signature: signer.signMessageSync(hash),
+        signerAddress: signer.address,
+      })
+    );
+  }
+
+  /**
+   * Apply the same change to several products (e.g. re-routing them to another
+   * brand name), appending an UPDATE block for each as it was stored.
+   * Call inside a transaction, like append.
+   */
+  static async updateProducts(
+    manager: EntityManager,
+    productIds: string[],
+    changes: Partial<Product>,
+    actorId?: string
+  ): Promise<void> {
+    for (const _id of productIds) {
+      await manager.update(Product, _id, changes);
+      const saved = await manager.findOneByOrFail(Product, { _id });
+      await this.append(manager, saved, "UPDATE", actorId);
+    }
+  }
+
+  /**
+   * Check a run of consecutive blocks; `previous` is the block before the first one
+   */
+  static checkBlocks(blocks: ProductLedgerBlock[], previous: ProductLedgerBlock | null): LedgerBreak[] {
+    const breaks: LedgerBreak[] = [];
+    let prior = previous;
+
+    blocks.forEach(block => {
+      const expectedIndex = prior ? prior.index + 1 : 0;
+      const fail = (reason: string) => breaks.push({ index: block.index, blockId: block._id, reason });
+
+      if (block.index !== expectedIndex) {
+        fail(`Expected block ${expectedIndex}; blocks are missing`);
+      }
+      if (block.previousHash !== (prior ? prior.hash : GENESIS_HASH)) {
+        fail("Does not link to the previous block");
+      }
+      if (computeBlockHash(block) !== block.hash) {
+        fail("Contents do not match the block hash");
+      }
+      let signer: string | null = null;
+      try {
+        signer = verifyMessage(block.hash, block.signature);
+      } catch {
+        // Malformed signature, reported below
+      }
+      if (signer !== block.signerAddress) {
+        fail("Signature does not match the block hash");
+      }
+
+      prior = block;
+    });
+
+    return breaks;
+  }
+
+  /**
+   * Walk the whole chain and report every block that breaks it
+   */
+  static async verifyChain(): Promise<LedgerVerification> {
+    const breaks: LedgerBreak[] = [];
+    let previous: ProductLedgerBlock | null = null;
+    let blocksChecked = 0;
+
+    for (;;) {
+      const blocks: ProductLedgerBlock[] = await ProductLedgerRepo.find({
+        order: { index: "ASC" },
+        skip: blocksChecked,
+        take: VERIFY_BATCH_SIZE,
+      });
+      if (blocks.length === 0) break;
+
+      breaks.push(...this.checkBlocks(blocks, previous));
+      blocksChecked += blocks.length;
+      previous = blocks[blocks.length - 1];
+    }
+
+    return {
+      valid: breaks.length === 0,
+      blocksChecked,
+      headHash: previous ? previous.hash : null,
+      breaks,
+    };
+  }
+
+  /**
+   * Ledger history of one product, oldest first
+   */
+  static async getProductHistory(productId: string): Promise<ProductLedgerBlock[]> {
+    return await ProductLedgerRepo.find({
+      where: { productId },
+      order: { index: "ASC" },
+    });
+  }
+}
@@ -0,0 +1,214 @@
+import { In } from "typeorm";
+import { ProductRepo } from "../typeorm/data-source";
+import { Product } from "../typeorm/entities/product.entity";
+import { CODE_MATCH_THRESHOLD, codeSimilarity, normalizeCode, normalizedCodeSql, textSimilarity } from "../utils/fuzzyMatch";
+
+export interface ProductMatchQuery {
+  productName?: string | null;
+  brandName?: string | null;
+  CFPRNumber?: string | null;
+  LTONumber?: string | null;
+  manufacturer?: string | null;
+}
+
+export type MatchField = keyof ProductMatchQuery;
+
+export interface MatchFieldScore {
+  query: string;
+  candidate: string | null;
+  score: number;
+  matched: boolean;
+}
+
+export type MatchBreakdown = Partial<Record<MatchField, MatchFieldScore>>;
+
+export interface MatchCandidate {
+  productName?: string | null;
+  brandName?: string | null;
+  CFPRNumber?: string | null;
+  LTONumber?: string | null;
+  company?: { name?: string | null } | null;
+}
+
+export interface ProductMatch {
+  product: Product;
+  matchScore: number;
+  matchBreakdown: MatchBreakdown;
+}
+
+export interface RankedProducts {
+  // Best matches first, at most maxResults of them
+  matches: ProductMatch[];
+  // Every product scoring at least the minimum, including those past maxResults
+  total: number;
+}
+
+// Relative weight of each signal; registration codes identify a product best
+const FIELD_WEIGHTS: Record<MatchField, number> = {
+  CFPRNumber: 0.35,
+  productName: 0.25,
+  LTONumber: 0.2,
+  brandName: 0.1,
+  manufacturer: 0.1,
+};
+
+// Per-field similarity at which a field counts as matched
+const TEXT_MATCH_THRESHOLD = 0.5;
+
+// Candidates scoring below this are not returned
+export const MIN_MATCH_SCORE = 0.5;
+
+// pg_trgm similarity() a product must reach on some field to be scored at all;
+// looser than the match thresholds so no product that could match is missed
+const CODE_CANDIDATE_SIMILARITY = 0.2;
+const TEXT_CANDIDATE_SIMILARITY = 0.2;
+
+// Upper bound on products scored per search, most similar first
+const MAX_CANDIDATES = 1000;
+
+// Upper bound on ranked matches returned
+const MAX_RESULTS = 50;
+
+const candidateValue = (candidate: MatchCandidate, field: MatchField): string | null => {
+  if (field === "manufacturer") return candidate.company?.name || null;
+  return candidate[field] || null;
+};
+
+/**
+ * Score how well a product matches the fields read from a label.
+ *
+ * Only the fields present in the query count, so a search by CFPR number
+ * alone can still reach a score of 1.
+ */
+export const scoreCandidate = (
+  query: ProductMatchQuery,
+  candidate: MatchCandidate
+): { matchScore: number; matchBreakdown: MatchBreakdown } => {
+  const matchBreakdown: MatchBreakdown = {};
+  let weighted = 0;
+  let totalWeight = 0;
+
+  (Object.keys(FIELD_WEIGHTS) as MatchField[]).forEach(field => {
+    const queryValue = query[field]?.trim();
+    if (!queryValue) return;
+
+    const isCode = field === "CFPRNumber" || field === "LTONumber";
+    const value = candidateValue(candidate, field);
+    const score = value
+      ? isCode
+        ? codeSimilarity(queryValue, value)
+        : textSimilarity(queryValue, value)
+      : 0;
+
+    matchBreakdown[field] = {
+      query: queryValue,
+      candidate: value,
+      score: Math.round(score * 100) / 100,
+      matched: score >= (isCode ? CODE_MATCH_THRESHOLD : TEXT_MATCH_THRESHOLD),
+    };
+    weighted += FIELD_WEIGHTS[field] * score;
+    totalWeight += FIELD_WEIGHTS[field];
+  });
+
+  const matchScore = totalWeight ? Math.round((weighted / totalWeight) * 100) / 100 : 0;
+  return { matchScore, matchBreakdown };
+};
+
+export class ProductMatchingService {
+  /**
+   * Rank products against the fields read from a label, best match first.
+   * Tolerates OCR mistakes and formatting differences in every field.
+   */
+  static async rankProducts(
+    query: ProductMatchQuery,
+    minScore: number = MIN_MATCH_SCORE,
+    maxResults: number = MAX_RESULTS
+  ): Promise<RankedProducts> {
+    // Narrow the candidates in SQL: the same normalized code, or a name, brand,
+    // manufacturer or code that is at least loosely similar
+    const conditions: string[] = [];
+    const relevance: string[] = [];
+    const params: Record<string, string | number> = {
+      codeSimilarity: CODE_CANDIDATE_SIMILARITY,
+      textSimilarity: TEXT_CANDIDATE_SIMILARITY,
+    };
+
+    const codeColumns: [MatchField, string][] = [
+      ["CFPRNumber", "product.CFPRNumber"],
+      ["LTONumber", "product.LTONumber"],
+    ];
+    codeColumns.forEach(([field, column]) => {
+      const code = query[field] ? normalizeCode(query[field]!) : "";
+      if (!code) return;
+      const normalized = normalizedCodeSql(column);
+      params[field] = code;
+      conditions.push(`${normalized} = :${field}`, `similarity(${normalized}, :${field}) >= :codeSimilarity`);
+      relevance.push(`CASE WHEN ${normalized} = :${field} THEN 1 ELSE similarity(${normalized}, :${field}) END`);
+    });
+
+    const textColumns: [MatchField, string][] = [
+      ["productName", "product.productName"],
+      ["brandName", "product.brandName"],
+      ["manufacturer", "company.name"],
+    ];
+    textColumns.forEach(([field, column]) => {
+      const text = query[field]?.trim();
+      if (!text) return;
+      params[field] = text;
+      conditions.push(`similarity(${column}, :${field}) >= :textSimilarity`);
+      relevance.push(`similarity(${column}, :${field})`);
+    });
+    if (conditions.length === 0) return { matches: [], total: 0 };
+
+    // Score on the searchable columns only, then load the full rows for the hits
+    const candidates = await ProductRepo.createQueryBuilder("product")
+      .leftJoin("product.company", "company")
+      .select([
+        "product._id",
+        "product.productName",
+        "product.brandName",
+        "product.CFPRNumber",
+        "product.LTONumber",
+        "company._id",
+        "company.name",
+      ])
+      .addSelect(`GREATEST(${relevance.join(", ")})`, "relevance")
+      .where(`(${conditions.join(" OR ")})`, params)
+      .orderBy("relevance", "DESC")
+      .limit(MAX_CANDIDATES)
+      .getMany();
+
+    const ranked = candidates
+      .map(candidate => ({ _id: candidate._id, ...scoreCandidate(query, candidate) }))
+      .filter(result => result.matchScore >= minScore)
+      .sort((a, b) => b.matchScore - a.matchScore);
+    const scored = ranked.slice(0, maxResults);
+    if (scored.length === 0) return { matches: [], total: 0 };
+
+    const products = await ProductRepo.find({
+      where: { _id: In(scored.map(result => result._id)) },
+      relations: ["company", "registeredBy"],
+    });
+    const byId = new Map(products.map(product => [product._id, product]));
+
+    const matches = scored
+      .filter(result => byId.has(result._id))
+      .map(({ _id, matchScore, matchBreakdown }) => ({
+        product: byId.get(_id)!,
+        matchScore,
+        matchBreakdown,
+      }));
+    return { matches, total: ranked.length - (scored.length - matches.length) };
+  }
+
+  /**
+   * Flatten a match into the product shape returned to clients
+   */
+  static toResult(match: ProductMatch) {
+    return {
+      ...match.product,
+      matchScore: match.matchScore,
+      matchBreakdown: match.matchBreakdown,
+    };
+  }
+}
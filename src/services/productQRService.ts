@@ -0,0 +1,196 @@
+import * as crypto from "crypto";
+import QRCode from "qrcode";
+import { ProductRepo } from "../typeorm/data-source";
+import { Product } from "../typeorm/entities/product.entity";
+import CustomError from "../utils/CustomError";
+import { manilaDate, toDateOnly } from "../utils/dates";
+import { RecallService, RecallWarning } from "./recallService";
+import { RegistryService } from "./registryService";
+
+/**
+ * Contents of a product QR code, signed by the server
+ */
+export interface ProductQRPayload {
+  pid: string; // Product _id
+  cfpr: string;
+  lot: string;
+  iat: number; // Issued at, seconds since epoch
+}
+
+export type QRVerificationStatus =
+  | "VALID"
+  | "DETAILS_CHANGED" // Genuine code, but the product was updated after it was printed
+  | "PRODUCT_NOT_FOUND"
+  | "PRODUCT_INACTIVE" // Genuine code for a product that was deactivated
+  | "INVALID_SIGNATURE"
+  | "INVALID_FORMAT";
+
+export interface QRVerification {
+  status: QRVerificationStatus;
+  valid: boolean;
+  likelyCounterfeit: boolean;
+  message: string;
+  payload?: ProductQRPayload;
+  product?: Product;
+  productStatus?: {
+    isActive: boolean;
+    isExpired: boolean;
+    expirationDate: string | null;
+    listedInRegistry: boolean | null; // null before the BAI registry is imported
+    recall: RecallWarning | null; // Active recall covering the printed lot
+  };
+}
+
+export type QRImageFormat = "png" | "svg";
+
+// Version prefix, so the payload format can change without breaking printed codes
+const PAYLOAD_PREFIX = "RCV1";
+
+const base64url = (value: Buffer | string) =>
+  Buffer.from(value).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64url = (value: string) =>
+  Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+
+const getSigningSecret = (): string => {
+  const secret = process.env.QR_SIGNING_SECRET;
+  if (!secret) {
+    throw new CustomError(500, "QR code signing is not configured");
+  }
+  return secret;
+};
+
+const signature = (encodedPayload: string) =>
+  crypto.createHmac("sha256", getSigningSecret()).update(`${PAYLOAD_PREFIX}.${encodedPayload}`).digest();
+
+export class ProductQRService {
+  /**
+   * Signed QR payload for a product: RCV1.<payload>.<HMAC-SHA256 signature>
+   */
+  static sign(product: Pick<Product, "_id" | "CFPRNumber" | "lotNumber">): string {
+    const payload: ProductQRPayload = {
+      pid: product._id,
+      cfpr: product.CFPRNumber,
+      lot: product.lotNumber,
+      iat: Math.floor(Date.now() / 1000),
+    };
+    const encoded = base64url(JSON.stringify(payload));
+    return `${PAYLOAD_PREFIX}.${encoded}.${base64url(signature(encoded))}`;
+  }
+
+  /**
+   * Render the signed payload of a product as a QR image
+   */
+  static async generate(product: Product, format: QRImageFormat) {
+    const payload = this.sign(product);
+    const options = { errorCorrectionLevel: "M" as const, margin: 2, width: 512 };
+    const image = format === "svg"
+      ? await QRCode.toString(payload, { ...options, type: "svg" })
+      : await QRCode.toBuffer(payload, { ...options, type: "png" });
+    return { payload, image };
+  }
+
+  /**
+   * Check the signature of a scanned payload and report the product's current status.
+   * A payload that was not signed by us is reported as a likely counterfeit.
+   */
+  static async verify(qrCode: string): Promise<QRVerification> {
+    const parts = qrCode.trim().split(".");
+    if (parts.length !== 3 || parts[0] !== PAYLOAD_PREFIX) {
+      return {
+        status: "INVALID_FORMAT",
+        valid: false,
+        likelyCounterfeit: true,
+        message: "This is not a product QR code issued by the registry",
+      };
+    }
+
+    const [, encoded, providedSignature] = parts;
+    const expected = signature(encoded);
+    const provided = fromBase64url(providedSignature);
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      return {
+        status: "INVALID_SIGNATURE",
+        valid: false,
+        likelyCounterfeit: true,
+        message: "The QR code signature is invalid; the code may have been forged or altered",
+      };
+    }
+
+    let payload: ProductQRPayload;
+    try {
+      payload = JSON.parse(fromBase64url(encoded).toString("utf-8"));
+    } catch {
+      return {
+        status: "INVALID_FORMAT",
+        valid: false,
+        likelyCounterfeit: true,
+        message: "The QR code payload could not be read",
+      };
+    }
+
+    const product = await ProductRepo.findOne({
+      where: { _id: payload.pid },
+      relations: ["company"],
+    });
+    if (!product) {
+      return {
+        status: "PRODUCT_NOT_FOUND",
+        valid: false,
+        likelyCounterfeit: false,
+        message: "The QR code is genuine but the product is no longer registered",
+        payload,
+      };
+    }
+
+    const expirationDate = toDateOnly(product.expirationDate);
+    const registryImport = await RegistryService.getCurrentImport();
+    const productStatus = {
+      isActive: product.isActive,
+      isExpired: !!expirationDate && expirationDate < manilaDate(new Date()),
+      expirationDate,
+      listedInRegistry: registryImport
+        ? (await RegistryService.lookup({ CFPRNumber: product.CFPRNumber }))?.matchedOn === "CFPRNumber"
+        : null,
+      recall: await RecallService.checkScannedLot({
+        productId: product._id,
+        CFPRNumbers: [payload.cfpr, product.CFPRNumber],
+        lotNumber: payload.lot,
+      }),
+    };
+
+    if (!product.isActive) {
+      return {
+        status: "PRODUCT_INACTIVE",
+        valid: false,
+        likelyCounterfeit: false,
+        message: "The QR code is genuine but the product has been deactivated and is no longer registered",
+        payload,
+        product,
+        productStatus,
+      };
+    }
+
+    if (payload.cfpr !== product.CFPRNumber || payload.lot !== product.lotNumber) {
+      return {
+        status: "DETAILS_CHANGED",
+        valid: true,
+        likelyCounterfeit: false,
+        message: "The QR code is genuine but the product's CFPR or lot number has changed since it was issued",
+        payload,
+        product,
+        productStatus,
+      };
+    }
+
+    return {
+      status: "VALID",
+      valid: true,
+      likelyCounterfeit: false,
+      message: "The QR code is genuine",
+      payload,
+      product,
+      productStatus,
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { Brackets } from "typeorm";
+import { ProductRepo, RecallRepo } from "../typeorm/data-source";
+import { Recall, RecallInput, RecallStatus } from "../typeorm/entities/recall.entity";
+import CustomError from "../utils/CustomError";
+import { manilaDate, toDateOnly } from "../utils/dates";
+import { normalizeCode } from "../utils/fuzzyMatch";
+
+/**
+ * What a scanned label is checked against for recalls
+ */
+export interface RecallQuery {
+  productId?: string | null;
+  CFPRNumbers?: (string | null | undefined)[]; // e.g. the label's and the matched product's
+  lotNumber?: string | null;
+}
+
+export interface RecallWarning {
+  recalled: true;
+  lotNumber: string;
+  message: string;
+  recalls: Pick<Recall, "_id" | "CFPRNumber" | "lotNumbers" | "reason" | "effectiveDate">[];
+}
+
+export interface RecallListFilter {
+  status?: RecallStatus;
+  productId?: string;
+}
+
+const present = (value?: string | null): value is string =>
+  !!value && value.trim().length > 0 && value.trim().toLowerCase() !== "unknown";
+
+export class RecallService {
+  /**
+   * Record a recall. When only a product is given, its CFPR number is
+   * stored too so the recall still applies if the product is removed.
+   */
+  static async create(input: RecallInput, createdById?: string): Promise<Recall> {
+    let CFPRNumber = input.CFPRNumber || null;
+    if (input.productId) {
+      const product = await ProductRepo.findOne({ where: { _id: input.productId } });
+      if (!product) {
+        throw new CustomError(404, "Product not found", { productId: input.productId });
+      }
+      CFPRNumber = CFPRNumber || product.CFPRNumber;
+    }
+
+    return await RecallRepo.save(
+      RecallRepo.create({
+        productId: input.productId || null,
+        CFPRNumber,
+        normalizedCFPR: CFPRNumber ? normalizeCode(CFPRNumber) : null,
+        lotNumbers: Array.from(new Set(input.lotNumbers.map(lot => lot.toUpperCase()))),
+        reason: input.reason,
+        effectiveDate: input.effectiveDate,
+        status: "ACTIVE",
+        createdById: createdById || null,
+      })
+    );
+  }
+
+  static async close(id: string, closedById?: string, closureNote?: string): Promise<Recall> {
+    const recall = await RecallRepo.findOne({ where: { _id: id } });
+    if (!recall) {
+      throw new CustomError(404, "Recall not found");
+    }
+    if (recall.status === "CLOSED") {
+      throw new CustomError(400, "Recall is already closed");
+    }
+
+    recall.status = "CLOSED";
+    recall.closedAt = new Date();
+    recall.closedById = closedById || null;
+    recall.closureNote = closureNote || null;
+    return await RecallRepo.save(recall);
+  }
+
+  static async list(filter: RecallListFilter, skip: number, take: number): Promise<[Recall[], number]> {
+    return await RecallRepo.findAndCount({
+      where: {
+        ...(filter.status && { status: filter.status }),
+        ...(filter.productId && { productId: filter.productId }),
+      },
+      relations: ["product"],
+      order: { effectiveDate: "DESC", createdAt: "DESC" },
+      skip,
+      take,
+    });
+  }
+
+  /**
+   * Every recall, active or closed, that covers a product by id or CFPR number
+   */
+  static async getForProduct(product: { _id: string; CFPRNumber?: string | null }): Promise<Recall[]> {
+    const qb = RecallRepo.createQueryBuilder("recall").where("recall.productId = :productId", {
+      productId: product._id,
+    });
+    if (present(product.CFPRNumber)) {
+      qb.orWhere("recall.normalizedCFPR = :cfpr", { cfpr: normalizeCode(product.CFPRNumber) });
+    }
+    return await qb.orderBy("recall.effectiveDate", "DESC").getMany();
+  }
+
+  /**
+   * Active recalls in effect today that cover the scanned lot
+   */
+  static async findActiveForLot(query: RecallQuery, today: Date = new Date()): Promise<Recall[]> {
+    if (!present(query.lotNumber)) return [];
+
+    const cfprs = Array.from(
+      new Set((query.CFPRNumbers || []).filter(present).map(value => normalizeCode(value)))
+    );
+    if (!query.productId && cfprs.length === 0) return [];
+
+    const recalls = await RecallRepo.createQueryBuilder("recall")
+      .where("recall.status = :status", { status: "ACTIVE" })
+      .andWhere("recall.effectiveDate <= :today", { today: manilaDate(today) })
+      .andWhere(
+        new Brackets(qb => {
+          qb.where("1 = 0");
+          if (query.productId) qb.orWhere("recall.productId = :productId", { productId: query.productId });
+          if (cfprs.length) qb.orWhere("recall.normalizedCFPR IN (:...cfprs)", { cfprs });
+        })
+      )
+      .getMany();
+
+    const lot = normalizeCode(query.lotNumber);
+    return recalls.filter(recall => recall.lotNumbers.some(recalledLot => normalizeCode(recalledLot) === lot));
+  }
+
+  /**
+   * Warning shown to the agent when the scanned lot is under recall, or null
+   */
+  static async checkScannedLot(query: RecallQuery, today: Date = new Date()): Promise<RecallWarning | null> {
+    const recalls = await this.findActiveForLot(query, today);
+    if (recalls.length === 0) return null;
+
+    return {
+      recalled: true,
+      lotNumber: query.lotNumber!,
+      message: `Lot ${query.lotNumber} is under recall since ${toDateOnly(recalls[0].effectiveDate)}: ${recalls[0].reason}`,
+      recalls: recalls.map(recall => ({
+        _id: recall._id,
+        CFPRNumber: recall.CFPRNumber,
+        lotNumbers: recall.lotNumbers,
+        reason: recall.reason,
+        effectiveDate: recall.effectiveDate,
+      })),
+    };
+  }
+}
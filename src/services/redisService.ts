@@ -126,18 +126,19 @@ class RedisService {
   }
 
   // Company cache methods
-  generateCompanyKey(page: number, limit: number, search?: string): string {
+  generateCompanyKey(page: number, limit: number, search?: string, sort?: string): string {
     const searchKey = search ? `_search_${search}` : '';
-    return `companies_page_${page}_limit_${limit}${searchKey}`;
+    const sortKey = sort ? `_sort_${sort}` : '';
+    return `companies_page_${page}_limit_${limit}${searchKey}${sortKey}`;
   }
 
-  async getCachedCompanies(page: number, limit: number, search?: string) {
-    const key = this.generateCompanyKey(page, limit, search);
+  async getCachedCompanies(page: number, limit: number, search?: string, sort?: string) {
+    const key = this.generateCompanyKey(page, limit, search, sort);
     return await this.get(key);
   }
 
-  async setCachedCompanies(page: number, limit: number, data: any, search?: string, ttl: number = 300) {
-    const key = this.generateCompanyKey(page, limit, search);
+  async setCachedCompanies(page: number, limit: number, data: any, search?: string, sort?: string, ttl: number = 300) {
+    const key = this.generateCompanyKey(page, limit, search, sort);
     return await this.set(key, data, ttl);
   }
 
@@ -0,0 +1,416 @@
+import * as turf from '@turf/turf';
+import { MultiPolygon, Polygon } from 'geojson';
+import { EntityManager, In, Repository } from 'typeorm';
+import { z } from 'zod';
+import { ComplianceReportRepo, DB, RegionRepo } from '../typeorm/data-source';
+import { ComplianceReport } from '../typeorm/entities/complianceReport.entity';
+import {
+  Region,
+  REGION_LEVELS,
+  RegionLevel,
+  RegionUploadOptions,
+} from '../typeorm/entities/region.entity';
+import { ComplianceStatus, NonComplianceReason } from '../types/enums';
+import CustomError from '../utils/CustomError';
+import { addReportCount, emptyReportCounts, nonComplianceRate, ReportCounts } from '../utils/reportCounts';
+
+// Report column holding the boundary of each level
+export const REGION_COLUMNS: Record<RegionLevel, 'regionId' | 'provinceId' | 'municipalityId'> = {
+  REGION: 'regionId',
+  PROVINCE: 'provinceId',
+  MUNICIPALITY: 'municipalityId',
+};
+
+// Same as the report search; defined here because the report service imports this one
+const REPORTED_AT = 'COALESCE(report.capturedAt, report.createdAt)';
+
+export type ReportRegions = Pick<ComplianceReport, 'regionId' | 'provinceId' | 'municipalityId'>;
+
+export const MAX_BOUNDARY_FEATURES = 5000;
+
+// [lng, lat], optionally followed by an altitude
+const PositionValidation = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)], z.number());
+
+// A closed ring: at least four positions, the last one repeating the first
+const RingValidation = z
+  .array(PositionValidation)
+  .min(4, 'A ring needs at least 4 positions')
+  .refine(
+    ring => ring[0].length === ring[ring.length - 1].length && ring[0].every((value, i) => value === ring[ring.length - 1][i]),
+    'A ring must end at its first position'
+  );
+
+const PolygonCoordinatesValidation = z.array(RingValidation).min(1);
+
+/**
+ * Boundary file as uploaded; only polygon features are accepted
+ */
+export const BoundaryCollectionValidation = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z
+    .array(
+      z.object({
+        type: z.literal('Feature'),
+        properties: z.record(z.string(), z.any()).nullable(),
+        geometry: z.discriminatedUnion('type', [
+          z.object({ type: z.literal('Polygon'), coordinates: PolygonCoordinatesValidation }),
+          z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(PolygonCoordinatesValidation).min(1) }),
+        ]),
+      })
+    )
+    .min(1, 'The file has no boundaries')
+    .max(MAX_BOUNDARY_FEATURES),
+});
+
+export const RegionRollupValidation = z
+  .object({
+    level: z.enum(REGION_LEVELS).default('REGION'),
+    parentId: z.string().uuid().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine(filter => !filter.from || !filter.to || filter.from <= filter.to, {
+    message: "'from' must not be after 'to'",
+    path: ['from'],
+  });
+
+export type RegionRollupFilter = z.infer<typeof RegionRollupValidation>;
+
+export interface ParsedBoundary {
+  name: string;
+  code: string;
+  parentCode: string | null;
+  geometry: Polygon | MultiPolygon;
+  bbox: [number, number, number, number];
+}
+
+export type RegionShape = Pick<Region, '_id' | 'level' | 'geometry' | 'minLng' | 'minLat' | 'maxLng' | 'maxLat'>;
+
+export interface RegionRollupRow extends ReportCounts {
+  _id: string;
+  name: string;
+  code: string;
+  parentId: string | null;
+  nonComplianceRate: number | null;
+}
+
+export interface RegionRollup {
+  level: RegionLevel;
+  parentId: string | null;
+  regions: RegionRollupRow[];
+  // Reports outside every uploaded boundary of the level, or without a location
+  unassigned: ReportCounts | null;
+}
+
+const property = (properties: Record<string, any> | null, key: string): string | null => {
+  const value = properties?.[key];
+  return value === undefined || value === null || String(value).trim() === '' ? null : String(value).trim();
+};
+
+/**
+ * Read names, codes and parent codes from boundary features. Throws a
+ * CustomError listing every feature that cannot be used.
+ */
+export const parseBoundaries = (body: unknown, options: RegionUploadOptions): ParsedBoundary[] => {
+  const collection = BoundaryCollectionValidation.safeParse(body);
+  if (!collection.success) {
+    throw new CustomError(400, 'Invalid boundary GeoJSON', { errors: collection.error.issues });
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const boundaries: ParsedBoundary[] = [];
+  collection.data.features.forEach((feature, index) => {
+    const name = property(feature.properties, options.nameProperty);
+    const code = property(feature.properties, options.codeProperty);
+    if (!name || !code) {
+      errors.push(`Feature ${index} has no '${!name ? options.nameProperty : options.codeProperty}' property`);
+      return;
+    }
+    if (seen.has(code)) {
+      errors.push(`Feature ${index} repeats code ${code}`);
+      return;
+    }
+    seen.add(code);
+
+    const geometry = feature.geometry as Polygon | MultiPolygon;
+    boundaries.push({
+      name: name.slice(0, 200),
+      code: code.slice(0, 50),
+      parentCode: options.parentCodeProperty ? property(feature.properties, options.parentCodeProperty) : null,
+      geometry,
+      bbox: turf.bbox(geometry) as [number, number, number, number],
+    });
+  });
+
+  if (errors.length) {
+    throw new CustomError(400, 'Invalid boundary GeoJSON', { errors });
+  }
+  return boundaries;
+};
+
+const containsPoint = (region: RegionShape, lng: number, lat: number): boolean =>
+  lng >= region.minLng &&
+  lng <= region.maxLng &&
+  lat >= region.minLat &&
+  lat <= region.maxLat &&
+  turf.booleanPointInPolygon([lng, lat], region.geometry);
+
+/**
+ * Boundaries of each level a point falls in
+ */
+export const containingRegions = (regions: RegionShape[], lng: number, lat: number): ReportRegions => {
+  const assigned: ReportRegions = { regionId: null, provinceId: null, municipalityId: null };
+  regions.forEach(region => {
+    const column = REGION_COLUMNS[region.level];
+    if (!assigned[column] && containsPoint(region, lng, lat)) assigned[column] = region._id;
+  });
+  return assigned;
+};
+
+// Report coordinates in SQL, e.g. to compare against boundary bounding boxes
+const REPORT_LNG = `(report.location->>'longitude')::float`;
+const REPORT_LAT = `(report.location->>'latitude')::float`;
+
+const coordinates = (location: ComplianceReport['location']): [number, number] | null =>
+  location && typeof location.latitude === 'number' && typeof location.longitude === 'number'
+    ? [location.longitude, location.latitude]
+    : null;
+
+export class RegionService {
+  /**
+   * Boundaries without their geometry, by level and parent
+   */
+  static async list(level?: RegionLevel, parentId?: string): Promise<Region[]> {
+    return await RegionRepo.find({
+      where: { ...(level && { level }), ...(parentId && { parentId }) },
+      order: { level: 'ASC', name: 'ASC' },
+    });
+  }
+
+  static async getById(id: string): Promise<Region | null> {
+    return await RegionRepo.createQueryBuilder('region')
+      .addSelect('region.geometry')
+      .where('region._id = :id', { id })
+      .getOne();
+  }
+
+  /**
+   * Boundaries with their geometry whose name matches one of the given names, ignoring case
+   */
+  static async findByNames(names: string[]): Promise<Region[]> {
+    if (names.length === 0) return [];
+    return await RegionRepo.createQueryBuilder('region')
+      .addSelect('region.geometry')
+      .where('LOWER(region.name) IN (:...names)', { names: names.map(name => name.trim().toLowerCase()) })
+      .getMany();
+  }
+
+  /**
+   * Save uploaded boundaries of one level, replacing those with the same code,
+   * then reassign the reports they can move, in one transaction.
+   * Parents are found by parent code when given, otherwise by containment.
+   */
+  static async upload(body: unknown, options: RegionUploadOptions) {
+    const boundaries = parseBoundaries(body, options);
+    const parentLevel = REGION_LEVELS[REGION_LEVELS.indexOf(options.level) - 1] as RegionLevel | undefined;
+    const parents = parentLevel ? await this.shapes(parentLevel) : [];
+    const parentsByCode = new Map(parents.map(parent => [parent.code, parent._id]));
+
+    const existing = await RegionRepo.find({
+      where: { level: options.level, code: In(boundaries.map(boundary => boundary.code)) },
+    });
+    const existingByCode = new Map(existing.map(region => [region.code, region]));
+
+    const unmatchedParents: string[] = [];
+    const regions = boundaries.map(boundary => {
+      let parentId: string | null = null;
+      if (parentLevel) {
+        if (boundary.parentCode) {
+          parentId = parentsByCode.get(boundary.parentCode) ?? null;
+        } else {
+          const [lng, lat] = turf.pointOnFeature(boundary.geometry).geometry.coordinates;
+          parentId = parents.find(parent => containsPoint(parent, lng, lat))?._id ?? null;
+        }
+        if (!parentId) unmatchedParents.push(boundary.code);
+      }
+
+      const [minLng, minLat, maxLng, maxLat] = boundary.bbox;
+      return RegionRepo.create({
+        ...existingByCode.get(boundary.code),
+        name: boundary.name,
+        code: boundary.code,
+        level: options.level,
+        parentId,
+        geometry: boundary.geometry,
+        minLng,
+        minLat,
+        maxLng,
+        maxLat,
+      });
+    });
+
+    return await DB.transaction(async manager => {
+      // Geometries can be large, so they are written a few at a time
+      const saved = await manager.save(Region, regions, { chunk: 50 });
+      const reports = await this.reassignReports(manager, options.level, saved.map(region => region._id));
+
+      return {
+        level: options.level,
+        created: regions.length - existing.length,
+        updated: existing.length,
+        unmatchedParents,
+        reports,
+      };
+    });
+  }
+
+  /**
+   * Boundaries a report location falls in; none for a report without a location
+   */
+  static async locate(location: ComplianceReport['location']): Promise<ReportRegions> {
+    const point = coordinates(location);
+    if (!point) return { regionId: null, provinceId: null, municipalityId: null };
+
+    const [lng, lat] = point;
+    const candidates = await RegionRepo.createQueryBuilder('region')
+      .select(['region._id', 'region.level', 'region.minLng', 'region.minLat', 'region.maxLng', 'region.maxLat'])
+      .addSelect('region.geometry')
+      .where('region.minLng <= :lng AND region.maxLng >= :lng', { lng })
+      .andWhere('region.minLat <= :lat AND region.maxLat >= :lat', { lat })
+      .getMany();
+    return containingRegions(candidates, lng, lat);
+  }
+
+  /**
+   * Reassign, at one level, the reports that uploading boundaries can move: those
+   * inside the bounding box of an uploaded boundary and those already assigned to one.
+   * Reports are updated in sets, one UPDATE per boundary they move to.
+   */
+  private static async reassignReports(
+    manager: EntityManager,
+    level: RegionLevel,
+    regionIds: string[],
+    batchSize = 500
+  ): Promise<{ scanned: number; changed: number }> {
+    const column = REGION_COLUMNS[level];
+    const regions = await this.shapes(level, manager.getRepository(Region));
+    let scanned = 0;
+    let changed = 0;
+    let lastId: string | undefined;
+
+    const candidates = manager.createQueryBuilder(ComplianceReport, 'report');
+    const insideUploaded = candidates
+      .subQuery()
+      .select('1')
+      .from(Region, 'uploaded')
+      .where('uploaded._id IN (:...regionIds)')
+      .andWhere(`${REPORT_LNG} BETWEEN uploaded.minLng AND uploaded.maxLng`)
+      .andWhere(`${REPORT_LAT} BETWEEN uploaded.minLat AND uploaded.maxLat`)
+      .getQuery();
+    candidates
+      .select(['report._id', 'report.location', `report.${column}`])
+      .where(`(report.${column} IN (:...regionIds) OR EXISTS ${insideUploaded})`, { regionIds })
+      .orderBy('report._id', 'ASC')
+      .limit(batchSize);
+
+    for (;;) {
+      const query = candidates.clone();
+      if (lastId) query.andWhere('report._id > :lastId', { lastId });
+      const reports = await query.getMany();
+      if (reports.length === 0) break;
+      lastId = reports[reports.length - 1]._id;
+      scanned += reports.length;
+
+      const moves = new Map<string | null, string[]>();
+      reports.forEach(report => {
+        const point = coordinates(report.location);
+        const target = point ? containingRegions(regions, point[0], point[1])[column] ?? null : null;
+        if ((report[column] ?? null) !== target) moves.set(target, [...(moves.get(target) ?? []), report._id]);
+      });
+      for (const [target, ids] of Array.from(moves)) {
+        await manager.update(ComplianceReport, { _id: In(ids) }, { [column]: target });
+        changed += ids.length;
+      }
+    }
+
+    return { scanned, changed };
+  }
+
+  /**
+   * Report counts and non-compliance rate per boundary of a level
+   */
+  static async rollup(filter: RegionRollupFilter): Promise<RegionRollup> {
+    const column = REGION_COLUMNS[filter.level];
+    const regions = await this.list(filter.level, filter.parentId);
+
+    const query = ComplianceReportRepo.createQueryBuilder('report')
+      .select(`report.${column}`, 'regionId')
+      .addSelect('report.status', 'status')
+      .addSelect('report.nonComplianceReason', 'reason')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy(`report.${column}`)
+      .addGroupBy('report.status')
+      .addGroupBy('report.nonComplianceReason');
+    if (filter.parentId) {
+      // Only reports in the parent's children; unassigned reports are not part of it
+      if (regions.length === 0) return { level: filter.level, parentId: filter.parentId, regions: [], unassigned: null };
+      query.where(`report.${column} IN (:...regionIds)`, { regionIds: regions.map(region => region._id) });
+    }
+    if (filter.from) {
+      query.andWhere(`${REPORTED_AT} >= :from`, { from: filter.from });
+    }
+    if (filter.to) {
+      query.andWhere(`${REPORTED_AT} <= :to`, { to: filter.to });
+    }
+    const rows = await query.getRawMany<{
+      regionId: string | null;
+      status: ComplianceStatus;
+      reason: NonComplianceReason | null;
+      count: string;
+    }>();
+
+    const counts = new Map<string | null, ReportCounts>();
+    rows.forEach(row => {
+      if (!counts.has(row.regionId)) counts.set(row.regionId, emptyReportCounts());
+      addReportCount(counts.get(row.regionId)!, row.status, row.reason, Number(row.count));
+    });
+
+    return {
+      level: filter.level,
+      parentId: filter.parentId ?? null,
+      regions: regions.map(region => {
+        const regionCounts = counts.get(region._id) ?? emptyReportCounts();
+        return {
+          _id: region._id,
+          name: region.name,
+          code: region.code,
+          parentId: region.parentId ?? null,
+          ...regionCounts,
+          nonComplianceRate: nonComplianceRate(regionCounts),
+        };
+      }),
+      unassigned: filter.parentId ? null : counts.get(null) ?? emptyReportCounts(),
+    };
+  }
+
+  // Boundaries with their geometry, for point-in-polygon tests
+  private static async shapes(
+    level?: RegionLevel,
+    repo: Repository<Region> = RegionRepo
+  ): Promise<(RegionShape & Pick<Region, 'code'>)[]> {
+    const query = repo.createQueryBuilder('region')
+      .select([
+        'region._id',
+        'region.code',
+        'region.level',
+        'region.minLng',
+        'region.minLat',
+        'region.maxLng',
+        'region.maxLat',
+      ])
+      .addSelect('region.geometry');
+    if (level) query.where('region.level = :level', { level });
+    return await query.getMany();
+  }
+}
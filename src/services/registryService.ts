@@ -0,0 +1,223 @@
+import { EntityManager, ILike, IsNull } from "typeorm";
+import { DB, ProductRepo, RegistryEntryRepo, RegistryImportRepo } from "../typeorm/data-source";
+import { RegistryEntry } from "../typeorm/entities/registryEntry.entity";
+import { RegistryImport } from "../typeorm/entities/registryImport.entity";
+import { RegistryRow } from "../utils/registryParser";
+import { diffRegistrySnapshots, RegistryDiff } from "../utils/registryDiff";
+import { RegisteredProduct } from "../utils/labelComparison";
+import { normalizeCode, normalizedCodeSql } from "../utils/fuzzyMatch";
+import { RegistryQuery } from "./aiProviders";
+
+export interface RegistryMatch {
+  entry: RegistryEntry;
+  matchedOn: "CFPRNumber" | "productName";
+  confidence: number;
+  registryImport: RegistryImport | null; // Edition the match was found in
+}
+
+// Rows per INSERT when importing the registry
+const IMPORT_CHUNK_SIZE = 500;
+
+// Serializes imports so two never claim the same version
+const REGISTRY_IMPORT_LOCK_ID = 71150302;
+
+export class RegistryService {
+  /**
+   * Find the best registry entry for the scanned product.
+   *
+   * A CFPR number match is authoritative; otherwise the product name (and
+   * brand, when given) must match a single registry row.
+   */
+  static async lookup(query: RegistryQuery): Promise<RegistryMatch | null> {
+    // Only the latest edition is searched
+    const registryImport = await this.getCurrentImport();
+    const importId = registryImport ? registryImport._id : IsNull();
+
+    if (query.CFPRNumber) {
+      const entry = await RegistryEntryRepo.findOne({
+        where: { importId, normalizedCFPR: normalizeCode(query.CFPRNumber) },
+        // Latest validity first, undated last, as in compareValidUntilDesc
+        order: { validUntil: { direction: "DESC", nulls: "LAST" } },
+      });
+      if (entry) {
+        return { entry, matchedOn: "CFPRNumber", confidence: 1, registryImport };
+      }
+    }
+
+    if (query.productName) {
+      const entries = await RegistryEntryRepo.find({
+        where: {
+          importId,
+          productName: ILike(`%${query.productName.trim()}%`),
+          ...(query.brandName && { brandName: ILike(`%${query.brandName.trim()}%`) }),
+        },
+        // Latest validity first, undated last, as in compareValidUntilDesc
+        order: { validUntil: { direction: "DESC", nulls: "LAST" } },
+        take: 2,
+      });
+      if (entries.length === 1) {
+        return { entry: entries[0], matchedOn: "productName", confidence: 0.7, registryImport };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Latest imported edition of the registry, or null before the first import
+   */
+  static async getCurrentImport(): Promise<RegistryImport | null> {
+    return await RegistryImportRepo.findOne({ where: {}, order: { version: "DESC" } });
+  }
+
+  static async getImportByVersion(version: number): Promise<RegistryImport | null> {
+    return await RegistryImportRepo.findOne({ where: { version } });
+  }
+
+  /**
+   * Store the rows of a new registry edition as the next numbered import,
+   * with counts of what changed since the previous one
+   */
+  static async importRows(
+    rows: RegistryRow[],
+    sourceFile: string,
+    importedById?: string
+  ): Promise<RegistryImport> {
+    const entries = rows.map(row => ({
+      ...row,
+      normalizedCFPR: normalizeCode(row.CFPRNumber),
+      sourceFile,
+    }));
+
+    return await DB.transaction(async manager => {
+      // Imports run one at a time, so each is numbered and diffed against the one before it
+      await manager.query("SELECT pg_advisory_xact_lock($1)", [REGISTRY_IMPORT_LOCK_ID]);
+      const previous = await manager.findOne(RegistryImport, { where: {}, order: { version: "DESC" } });
+      const previousRows = previous ? await this.getSnapshot(previous._id, manager) : [];
+      const diff = diffRegistrySnapshots(previousRows, entries);
+
+      const registryImport = await manager.save(
+        manager.create(RegistryImport, {
+          version: (previous?.version ?? 0) + 1,
+          sourceFile,
+          importedById: importedById || null,
+          totalEntries: entries.length,
+          addedCount: diff.added.length,
+          removedCount: diff.removed.length,
+          changedCount: diff.changed.length,
+          duplicateCount: diff.duplicates.length,
+        })
+      );
+
+      for (let i = 0; i < entries.length; i += IMPORT_CHUNK_SIZE) {
+        const chunk = entries
+          .slice(i, i + IMPORT_CHUNK_SIZE)
+          .map(entry => manager.create(RegistryEntry, { ...entry, importId: registryImport._id }));
+        await manager.save(RegistryEntry, chunk);
+      }
+
+      return registryImport;
+    });
+  }
+
+  static async getSnapshot(importId: string, manager?: EntityManager) {
+    const repo = manager ? manager.getRepository(RegistryEntry) : RegistryEntryRepo;
+    return await repo.find({
+      where: { importId },
+      select: [
+        "normalizedCFPR",
+        "CFPRNumber",
+        "productClassification",
+        "subClassification",
+        "brandName",
+        "productName",
+        "companyName",
+        "validUntil",
+      ],
+    });
+  }
+
+  /**
+   * What changed between two imported editions
+   */
+  static async diffImports(from: RegistryImport, to: RegistryImport): Promise<RegistryDiff> {
+    const [before, after] = await Promise.all([
+      this.getSnapshot(from._id),
+      this.getSnapshot(to._id),
+    ]);
+    return diffRegistrySnapshots(before, after);
+  }
+
+  /**
+   * Products in our database whose CFPR number was removed or changed in the registry
+   */
+  static async findAffectedProducts(diff: RegistryDiff) {
+    const affected = new Map<string, { changeType: "REMOVED" | "CHANGED"; changes?: RegistryDiff["changed"][number]["changes"] }>();
+    diff.removed.forEach(row => affected.set(row.normalizedCFPR, { changeType: "REMOVED" }));
+    diff.changed.forEach(row =>
+      affected.set(row.normalizedCFPR, { changeType: "CHANGED", changes: row.changes })
+    );
+    if (affected.size === 0) return [];
+
+    // Product CFPR numbers are stored as typed, so they are normalized in the query
+    const products = await ProductRepo.createQueryBuilder("product")
+      .select([
+        "product._id",
+        "product.productName",
+        "product.brandName",
+        "product.CFPRNumber",
+        "product.LTONumber",
+        "product.lotNumber",
+        "product.companyId",
+        "product.expirationDate",
+      ])
+      .where(`${normalizedCodeSql("product.CFPRNumber")} IN (:...cfprs)`, { cfprs: Array.from(affected.keys()) })
+      .getMany();
+
+    return products
+      .filter(product => affected.has(normalizeCode(product.CFPRNumber)))
+      .map(product => ({
+        product,
+        ...affected.get(normalizeCode(product.CFPRNumber))!,
+      }));
+  }
+
+  /**
+   * Registered values of an entry, for comparing against a scanned label
+   */
+  static toRegisteredProduct(entry: RegistryEntry): RegisteredProduct {
+    return {
+      productName: entry.productName,
+      brandName: entry.brandName,
+      CFPRNumber: entry.CFPRNumber,
+      company: { name: entry.companyName },
+    };
+  }
+
+  /**
+   * Shape a registry entry like a Product so mobile clients can display it
+   */
+  static toProductView(match: RegistryMatch) {
+    const { entry } = match;
+    return {
+      _id: `registry-${entry._id}`,
+      registryEntryId: entry._id,
+      productName: entry.productName,
+      brandName: entry.brandName,
+      CFPRNumber: entry.CFPRNumber,
+      productClassification: entry.productClassification,
+      productSubClassification: entry.subClassification,
+      expirationDate: entry.validUntil, // Map VALID UNTIL to expirationDate
+      company: {
+        name: entry.companyName,
+        address: "Philippines",
+      },
+      isActive: !entry.validUntil || new Date(entry.validUntil) >= new Date(),
+      confidence: match.confidence,
+      matchedOn: match.matchedOn,
+      registryImport: match.registryImport
+        ? { version: match.registryImport.version, importedAt: match.registryImport.createdAt }
+        : null,
+    };
+  }
+}
@@ -0,0 +1,370 @@
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { ComplianceReportRepo } from '../typeorm/data-source';
+import { ComplianceReport } from '../typeorm/entities/complianceReport.entity';
+import { ComplianceStatus } from '../types/enums';
+import CustomError from '../utils/CustomError';
+import { FirebaseStorageValidator } from '../utils/FirebaseStorageValidator';
+import { manilaDate, manilaDateTime } from '../utils/dates';
+import { ComplianceReportService, ReportSearchFilter } from './complianceReportService';
+
+export interface PdfImage {
+  data: Uint8Array;
+  format: 'PNG' | 'JPEG';
+}
+
+export type SummaryFilter = ReportSearchFilter & { from: Date; to: Date };
+
+// Reports listed row by row in a summary; the totals still cover every matching report
+export const MAX_SUMMARY_REPORTS = 500;
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 5;
+const FOOTER_HEIGHT = 10;
+const IMAGE_TIMEOUT_MS = 10000;
+
+const VERDICT_LABELS: Record<ComplianceStatus, string> = {
+  [ComplianceStatus.COMPLIANT]: 'Compliant',
+  [ComplianceStatus.NON_COMPLIANT]: 'Non-compliant',
+  [ComplianceStatus.FRAUDULENT]: 'Fraudulent',
+};
+
+const ACRONYMS = ['CFPR', 'LTO'];
+
+// NO_CFPR_NUMBER -> "No CFPR number"
+export const humanizeEnum = (value: string) =>
+  value
+    .split('_')
+    .map((word, index) => {
+      if (ACRONYMS.includes(word)) return word;
+      return index === 0 ? word[0] + word.slice(1).toLowerCase() : word.toLowerCase();
+    })
+    .join(' ');
+
+// scannedData keys are camelCase: expirationDate -> "Expiration date", CFPRNumber -> "CFPR number"
+export const fieldLabel = (key: string) =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(' ')
+    .map((word, index) => {
+      if (word.length > 1 && word === word.toUpperCase()) return word;
+      return index === 0 ? word[0].toUpperCase() + word.slice(1) : word.toLowerCase();
+    })
+    .join(' ');
+
+export const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (value instanceof Date) return manilaDateTime(value);
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * PNG or JPEG, from the first bytes of the file
+ */
+export const detectImageFormat = (data: Uint8Array): PdfImage['format'] | null => {
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'PNG';
+  if (data[0] === 0xff && data[1] === 0xd8) return 'JPEG';
+  return null;
+};
+
+const reportedAt = (report: ComplianceReport) => report.capturedAt ?? report.createdAt;
+
+const agentName = (report: ComplianceReport) =>
+  report.agent
+    ? `${report.agent.firstName} ${report.agent.lastName}${report.agent.badgeId ? ` (${report.agent.badgeId})` : ''}`
+    : report.agentId;
+
+const locationText = (location: ComplianceReport['location']) => {
+  if (!location) return '-';
+  const coordinates =
+    location.latitude !== undefined && location.longitude !== undefined
+      ? `${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`
+      : null;
+  return [location.address, coordinates].filter(Boolean).join('\n') || '-';
+};
+
+/**
+ * A4 document that moves to a new page when the next block would not fit
+ */
+class PdfWriter {
+  readonly doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  y = PAGE_MARGIN;
+
+  get pageWidth() {
+    return this.doc.internal.pageSize.getWidth();
+  }
+
+  get contentWidth() {
+    return this.pageWidth - PAGE_MARGIN * 2;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.doc.internal.pageSize.getHeight() - PAGE_MARGIN - FOOTER_HEIGHT) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+    }
+  }
+
+  title(text: string, subtitle?: string) {
+    this.doc.setFont('helvetica', 'bold').setFontSize(16).text(text, PAGE_MARGIN, this.y + 6);
+    this.y += 10;
+    if (subtitle) {
+      this.doc.setFont('helvetica', 'normal').setFontSize(9).text(subtitle, PAGE_MARGIN, this.y + 3);
+      this.y += 6;
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(LINE_HEIGHT * 3);
+    this.y += 3;
+    this.doc.setFont('helvetica', 'bold').setFontSize(11).text(text, PAGE_MARGIN, this.y + 4);
+    this.y += 6;
+    this.doc.setDrawColor(180).line(PAGE_MARGIN, this.y, PAGE_MARGIN + this.contentWidth, this.y);
+    this.y += 2;
+  }
+
+  field(label: string, value: unknown, valueWidth = this.contentWidth - 50) {
+    const lines: string[] = this.doc.setFontSize(9).splitTextToSize(formatValue(value), valueWidth);
+    this.ensureSpace(lines.length * LINE_HEIGHT);
+    this.doc.setFont('helvetica', 'bold').text(label, PAGE_MARGIN, this.y + 4);
+    this.doc.setFont('helvetica', 'normal').text(lines, PAGE_MARGIN + 50, this.y + 4);
+    this.y += lines.length * LINE_HEIGHT;
+  }
+
+  /**
+   * One table row, wrapping each cell to its column
+   */
+  row(cells: string[], widths: number[], bold = false) {
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal').setFontSize(8);
+    const wrapped: string[][] = cells.map((cell, index) => this.doc.splitTextToSize(cell, widths[index] - 2));
+    const height = Math.max(...wrapped.map(lines => lines.length)) * 4 + 2;
+    this.ensureSpace(height);
+    let x = PAGE_MARGIN;
+    wrapped.forEach((lines, index) => {
+      this.doc.text(lines, x + 1, this.y + 4);
+      x += widths[index];
+    });
+    this.y += height;
+    this.doc.setDrawColor(220).line(PAGE_MARGIN, this.y, PAGE_MARGIN + this.contentWidth, this.y);
+  }
+
+  /**
+   * Page numbers on every page, then the finished file
+   */
+  finish(footer: string): Buffer {
+    const pages = this.doc.getNumberOfPages();
+    const footerY = this.doc.internal.pageSize.getHeight() - PAGE_MARGIN / 2;
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(120);
+      this.doc.text(footer, PAGE_MARGIN, footerY);
+      this.doc.text(`Page ${page} of ${pages}`, this.pageWidth - PAGE_MARGIN, footerY, { align: 'right' });
+    }
+    return Buffer.from(this.doc.output('arraybuffer'));
+  }
+}
+
+export class ReportPdfService {
+  /**
+   * Download a scan image for embedding. Only images in our Firebase bucket are fetched.
+   */
+  static async fetchImage(url: string): Promise<PdfImage | null> {
+    if (!FirebaseStorageValidator.isValidUrl(url)) {
+      return null;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), IMAGE_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) {
+        return null;
+      }
+      const data = new Uint8Array(await response.arrayBuffer());
+      const format = detectImageFormat(data);
+      return format ? { data, format } : null;
+    } catch (error) {
+      console.warn('Could not download report image:', error);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Printable inspection report for one compliance report
+   */
+  static async inspectionReport(reportId: string): Promise<Buffer> {
+    const report = await ComplianceReportRepo.findOne({
+      where: { _id: reportId },
+      relations: { agent: true, product: { company: true } },
+    });
+    if (!report) {
+      throw new CustomError(404, 'Compliance report not found');
+    }
+
+    const [qrCode, frontImage, backImage] = await Promise.all([
+      QRCode.toDataURL(report._id, { errorCorrectionLevel: 'M', margin: 1, width: 256 }),
+      this.fetchImage(report.frontImageUrl),
+      this.fetchImage(report.backImageUrl),
+    ]);
+    const product = report.product;
+
+    const pdf = new PdfWriter();
+    const qrSize = 28;
+    pdf.doc.addImage(qrCode, 'PNG', pdf.pageWidth - PAGE_MARGIN - qrSize, PAGE_MARGIN, qrSize, qrSize);
+    pdf.title('Product Inspection Report', `Report ID: ${report._id}`);
+    pdf.y = Math.max(pdf.y, PAGE_MARGIN + qrSize + 2);
+
+    pdf.heading('Inspection');
+    pdf.field('Inspected on', manilaDateTime(reportedAt(report)));
+    pdf.field('Agent', agentName(report));
+    pdf.field('Location', locationText(report.location));
+    if (report.caseId) {
+      pdf.field('Case', report.caseId);
+    }
+
+    pdf.heading('Verdict');
+    pdf.field('Status', VERDICT_LABELS[report.status] ?? report.status);
+    if (report.nonComplianceReason) {
+      pdf.field('Reason', humanizeEnum(report.nonComplianceReason));
+    }
+    pdf.field('Agent notes', report.additionalNotes);
+
+    pdf.heading('Extracted label fields');
+    const fields = Object.entries(report.scannedData ?? {});
+    if (fields.length === 0) {
+      pdf.field('Fields', 'No fields were extracted');
+    }
+    fields.forEach(([key, value]) => pdf.field(fieldLabel(key), value));
+
+    if (product) {
+      pdf.heading('Matched registered product');
+      pdf.field('Product', product.productName);
+      pdf.field('CFPR number', product.CFPRNumber);
+      pdf.field('Lot number', product.lotNumber);
+      pdf.field('Company', product.company?.name);
+      if (report.productSearchResult?.matchScore !== undefined) {
+        pdf.field('Match score', report.productSearchResult.matchScore);
+      }
+    }
+
+    this.drawImages(pdf, [
+      ['Front label', frontImage],
+      ['Back label', backImage],
+    ]);
+
+    return pdf.finish(`Generated ${manilaDateTime(new Date())} - RCV compliance report ${report._id}`);
+  }
+
+  /**
+   * Summary of the reports matching a search over a date range, with totals and one row per report
+   */
+  static async summaryReport(filter: SummaryFilter): Promise<Buffer> {
+    const [[reports, total], breakdown] = await Promise.all([
+      ComplianceReportService.buildSearchQuery(filter).limit(MAX_SUMMARY_REPORTS).getManyAndCount(),
+      ComplianceReportService.buildSearchQuery(filter)
+        .select('report.status', 'status')
+        .addSelect('report.nonComplianceReason', 'reason')
+        .addSelect('COUNT(*)', 'count')
+        .groupBy('report.status')
+        .addGroupBy('report.nonComplianceReason')
+        .orderBy()
+        .getRawMany<{ status: ComplianceStatus; reason: string | null; count: string }>(),
+    ]);
+
+    const byStatus = new Map<ComplianceStatus, number>();
+    const byReason = new Map<string, number>();
+    breakdown.forEach(row => {
+      const count = Number(row.count);
+      byStatus.set(row.status, (byStatus.get(row.status) ?? 0) + count);
+      if (row.reason) {
+        byReason.set(row.reason, (byReason.get(row.reason) ?? 0) + count);
+      }
+    });
+
+    const pdf = new PdfWriter();
+    pdf.title(
+      'Compliance Inspection Summary',
+      `${manilaDate(filter.from)} to ${manilaDate(filter.to)} (Philippine time)`
+    );
+
+    pdf.heading('Totals');
+    pdf.field('Reports', total);
+    Object.values(ComplianceStatus).forEach(status => pdf.field(VERDICT_LABELS[status], byStatus.get(status) ?? 0));
+
+    if (byReason.size > 0) {
+      pdf.heading('Non-compliance reasons');
+      Array.from(byReason.entries())
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([reason, count]) => pdf.field(humanizeEnum(reason), count));
+    }
+
+    pdf.heading('Reports');
+    if (total > reports.length) {
+      pdf.field('Note', `Showing the first ${reports.length} of ${total} reports. Narrow the filters to list the rest.`);
+    }
+    const widths = [26, 44, 28, 36, 24, 22].map(width => (width / 180) * pdf.contentWidth);
+    const header = ['Date', 'Product', 'CFPR number', 'Agent', 'Verdict', 'Report ID'];
+    pdf.row(header, widths, true);
+    reports.forEach(report => {
+      const page = pdf.doc.getNumberOfPages();
+      pdf.ensureSpace(10);
+      if (pdf.doc.getNumberOfPages() !== page) {
+        pdf.row(header, widths, true);
+      }
+      pdf.row(
+        [
+          manilaDateTime(reportedAt(report)),
+          formatValue(report.scannedData?.productName ?? report.scannedData?.brandName),
+          formatValue(report.scannedData?.CFPRNumber),
+          agentName(report),
+          report.nonComplianceReason
+            ? `${VERDICT_LABELS[report.status]}: ${humanizeEnum(report.nonComplianceReason)}`
+            : VERDICT_LABELS[report.status] ?? report.status,
+          report._id.slice(0, 8),
+        ],
+        widths
+      );
+    });
+
+    return pdf.finish(`Generated ${manilaDateTime(new Date())} - RCV compliance summary`);
+  }
+
+  /**
+   * Scan images side by side, scaled to fit, with a placeholder for any that could not be loaded
+   */
+  private static drawImages(pdf: PdfWriter, images: [string, PdfImage | null][]) {
+    const gap = 5;
+    const boxWidth = (pdf.contentWidth - gap * (images.length - 1)) / images.length;
+    const boxHeight = 100;
+
+    pdf.heading('Scanned images');
+    pdf.ensureSpace(boxHeight + LINE_HEIGHT);
+    images.forEach(([label, image], index) => {
+      const x = PAGE_MARGIN + index * (boxWidth + gap);
+      pdf.doc.setFont('helvetica', 'bold').setFontSize(9).text(label, x, pdf.y + 4);
+      const top = pdf.y + LINE_HEIGHT + 1;
+
+      if (!image) {
+        pdf.doc.setDrawColor(180).rect(x, top, boxWidth, boxHeight);
+        pdf.doc.setFont('helvetica', 'normal').text('Image unavailable', x + boxWidth / 2, top + boxHeight / 2, { align: 'center' });
+        return;
+      }
+
+      try {
+        const { width, height } = pdf.doc.getImageProperties(image.data);
+        const scale = Math.min(boxWidth / width, boxHeight / height);
+        pdf.doc.addImage(image.data, image.format, x, top, width * scale, height * scale);
+      } catch (error) {
+        console.warn(`Could not embed ${label.toLowerCase()} image:`, error);
+        pdf.doc.setDrawColor(180).rect(x, top, boxWidth, boxHeight);
+        pdf.doc.setFont('helvetica', 'normal').text('Image unavailable', x + boxWidth / 2, top + boxHeight / 2, { align: 'center' });
+      }
+    });
+    pdf.y += boxHeight + LINE_HEIGHT + 1;
+  }
+}
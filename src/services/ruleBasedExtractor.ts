@@ -0,0 +1,314 @@
+/**
+ * Rule-based label extractor
+ *
+ * Pulls the registration fields out of raw OCR text using label patterns
+ * commonly printed on Philippine animal feed packaging. It needs no network
+ * access, so it is used when the AI is unavailable and as a cross-check of
+ * the AI output when it is.
+ */
+
+import { normalizeCode, OCR_FOLD } from '../utils/fuzzyMatch';
+
+export type ExtractionSource = 'ai' | 'rules' | 'ai+rules';
+
+export interface ExtractedField {
+  value: string | null;
+  confidence: number; // 0.0 - 1.0
+  source: ExtractionSource | null;
+  conflict?: string; // Value the other extractor returned when they disagree
+}
+
+export interface LabelFields {
+  productName: ExtractedField;
+  LTONum: ExtractedField;
+  CFPRNum: ExtractedField;
+  ManufacturedBy: ExtractedField;
+  ExpiryDate: ExtractedField;
+  LotNum: ExtractedField;
+}
+
+const MONTHS: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+const LTO_PATTERN =
+  /(?:\bLTO\b|\bL\.T\.O\.?|BAI\s*REG(?:ISTER|ISTRATION)?\.?|LICEN[SC]E\s+TO\s+OPERATE)\s*(?:NO\.?|NUMBER|#)?\s*[:.#-]?\s*([A-Z0-9|][A-Z0-9|\-\/ ]{3,30})/i;
+
+const CFPR_PATTERN =
+  /(?:\bCFPR\b|\bC\.F\.P\.R\.?|CERTIFICATE\s+OF\s+FEED\s+PRODUCT\s+REGISTRATION|\bCPR\b)\s*(?:NO\.?|NUMBER|#)?\s*[:.#-]?\s*([A-Z0-9|][A-Z0-9|\-\/ ]{3,30})/i;
+
+const EXPIRY_PATTERN =
+  /(?:EXP(?:IRY|IRATION)?\.?\s*DATE|\bEXP\b\.?|BEST\s+BEFORE|USE\s+BEFORE|PETSA\s+NG\s+PAG-?EXPIRE)\s*[:.]?\s*([^\n]{4,40})/i;
+
+const MANUFACTURER_PATTERN =
+  /(?:MANUFACTURED\s+BY|MFG\.?\s+BY|MANUFACTURER|GAWA\s+NG)\s*[:.]?[ \t]*([^\n]*)(?:\n\s*([^\n]+))?/i;
+
+const LOT_PATTERN =
+  /(?:\bLOT\b|\bBATCH\b)\s*(?:NO\.?|NUMBER|CODE|#)?\s*[:.#-]?\s*([A-Z0-9][A-Z0-9\-\/]{2,20})/i;
+
+const PRODUCT_NAME_PATTERN = /(?:PRODUCT\s+NAME|PRODUKTO)\s*[:.]\s*([^\n]{2,100})/i;
+
+const EMPTY_FIELD: ExtractedField = { value: null, confidence: 0, source: null };
+
+/**
+ * Correct OCR letter/digit confusions inside a registration code read from a
+ * label, for display. Only groups that are mostly numeric are corrected, so
+ * region prefixes such as "R4A" or "LTO" keep their letters.
+ *
+ * Codes are compared with normalizeCode, not with this.
+ */
+export const correctRegistrationCode = (raw: string): { value: string; corrected: boolean } => {
+  let corrected = false;
+
+  const groups = raw
+    .toUpperCase()
+    .trim()
+    .split(/[\s\-\/]+/)
+    .filter(Boolean)
+    .map(group => {
+      const digits = (group.match(/[0-9]/g) || []).length;
+      if (digits === 0 || digits < group.length / 2) {
+        return group;
+      }
+      return group
+        .split('')
+        .map(ch => {
+          if (OCR_FOLD[ch]) {
+            corrected = true;
+            return OCR_FOLD[ch];
+          }
+          return ch;
+        })
+        .join('');
+    });
+
+  return { value: groups.join('-'), corrected };
+};
+
+/**
+ * Trim a captured code at the first word that is clearly not part of it
+ * (e.g. "CFPR No. 1234-5678 Net Wt 25kg")
+ */
+const trimCapturedCode = (captured: string): string => {
+  const tokens = captured.trim().split(/\s+/);
+  const kept: string[] = [];
+  for (const token of tokens) {
+    if (kept.length > 0 && !/[0-9]/.test(token)) break;
+    kept.push(token);
+  }
+  return kept.join(' ');
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const lastDayOfMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Parse the date formats found on Philippine labels into YYYY-MM-DD.
+ * Returns null when the text holds no recognizable date.
+ */
+export const parseLabelDate = (raw: string): { value: string; ambiguous: boolean } | null => {
+  // A letter O next to a digit is almost always a misread zero
+  const text = raw
+    .toUpperCase()
+    .replace(/O(?=\d)/g, '0')
+    .replace(/(\d)O/g, (_, digit) => `${digit}0`);
+
+  // 2025-12-31 or 2025/12/31
+  let m = text.match(/\b(\d{4})[\-\/.](\d{1,2})[\-\/.](\d{1,2})\b/);
+  if (m) {
+    const value = toIsoDate(+m[1], +m[2], +m[3]);
+    return value ? { value, ambiguous: false } : null;
+  }
+
+  // 12/31/2025 or 31/12/2025 (month first unless that is impossible)
+  m = text.match(/\b(\d{1,2})[\-\/.](\d{1,2})[\-\/.](\d{2,4})\b/);
+  if (m) {
+    const a = +m[1];
+    const b = +m[2];
+    const year = +m[3];
+    if (a > 12) {
+      const value = toIsoDate(year, b, a);
+      return value ? { value, ambiguous: false } : null;
+    }
+    const value = toIsoDate(year, a, b);
+    return value ? { value, ambiguous: b <= 12 && a !== b } : null;
+  }
+
+  // 31-DEC-2025 or 31 December 2025
+  m = text.match(/\b(\d{1,2})[\s\-.]*([A-Z]{3})[A-Z]*\.?[\s\-.,]*(\d{2,4})\b/);
+  if (m && MONTHS[m[2]]) {
+    const value = toIsoDate(+m[3], MONTHS[m[2]], +m[1]);
+    return value ? { value, ambiguous: false } : null;
+  }
+
+  // December 31, 2025
+  m = text.match(/\b([A-Z]{3})[A-Z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/);
+  if (m && MONTHS[m[1]]) {
+    const value = toIsoDate(+m[3], MONTHS[m[1]], +m[2]);
+    return value ? { value, ambiguous: false } : null;
+  }
+
+  // DEC 2025 or 12/2025 - labels without a day expire at the end of the month
+  m = text.match(/\b([A-Z]{3})[A-Z]*\.?[\s\-\/]*(\d{4})\b/);
+  if (m && MONTHS[m[1]]) {
+    const year = +m[2];
+    const month = MONTHS[m[1]];
+    return { value: toIsoDate(year, month, lastDayOfMonth(year, month))!, ambiguous: true };
+  }
+  m = text.match(/\b(\d{1,2})[\-\/](\d{4})\b/);
+  if (m && +m[1] >= 1 && +m[1] <= 12) {
+    const year = +m[2];
+    const month = +m[1];
+    return { value: toIsoDate(year, month, lastDayOfMonth(year, month))!, ambiguous: true };
+  }
+
+  return null;
+};
+
+const extractCode = (text: string, pattern: RegExp): ExtractedField => {
+  const match = text.match(pattern);
+  if (!match) return { ...EMPTY_FIELD };
+
+  const captured = trimCapturedCode(match[1]);
+  if (!/[0-9]/.test(captured) && !/[OIS]/i.test(captured)) return { ...EMPTY_FIELD };
+
+  const { value, corrected } = correctRegistrationCode(captured);
+  if (value.replace(/-/g, '').length < 4) return { ...EMPTY_FIELD };
+
+  return { value, confidence: corrected ? 0.75 : 0.9, source: 'rules' };
+};
+
+const extractExpiry = (text: string): ExtractedField => {
+  const match = text.match(EXPIRY_PATTERN);
+  if (!match) return { ...EMPTY_FIELD };
+
+  const parsed = parseLabelDate(match[1]);
+  if (!parsed) return { ...EMPTY_FIELD };
+
+  return { value: parsed.value, confidence: parsed.ambiguous ? 0.6 : 0.9, source: 'rules' };
+};
+
+const extractManufacturer = (text: string): ExtractedField => {
+  const match = text.match(MANUFACTURER_PATTERN);
+  if (!match) return { ...EMPTY_FIELD };
+
+  // The company name is sometimes printed on the line after the label
+  const value = (match[1].trim() || (match[2] || '').trim()).replace(/\s{2,}/g, ' ');
+  if (value.length < 2) return { ...EMPTY_FIELD };
+
+  return { value, confidence: match[1].trim() ? 0.8 : 0.6, source: 'rules' };
+};
+
+const extractProductName = (text: string): ExtractedField => {
+  const match = text.match(PRODUCT_NAME_PATTERN);
+  if (!match) return { ...EMPTY_FIELD };
+
+  return { value: match[1].trim(), confidence: 0.7, source: 'rules' };
+};
+
+const extractLotNumber = (text: string): ExtractedField => {
+  const match = text.match(LOT_PATTERN);
+  if (!match || !/[0-9]/.test(match[1])) return { ...EMPTY_FIELD };
+
+  // Lot codes mix letters and digits freely, so OCR confusions are not corrected
+  return { value: match[1].toUpperCase(), confidence: 0.7, source: 'rules' };
+};
+
+/**
+ * Extract all label fields from OCR text using patterns only
+ */
+export const extractLabelFields = (ocrText: string): LabelFields => {
+  const text = ocrText || '';
+  return {
+    productName: extractProductName(text),
+    LTONum: extractCode(text, LTO_PATTERN),
+    CFPRNum: extractCode(text, CFPR_PATTERN),
+    ManufacturedBy: extractManufacturer(text),
+    ExpiryDate: extractExpiry(text),
+    LotNum: extractLotNumber(text),
+  };
+};
+
+// Confidence given to a field the AI returned without a rule-based match
+const AI_ONLY_CONFIDENCE = 0.8;
+
+const isMissing = (value?: string | null) =>
+  !value || value.trim().length === 0 || value.trim().toLowerCase() === 'unknown';
+
+const comparableText = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const sameValue = (field: keyof LabelFields, a: string, b: string): boolean => {
+  switch (field) {
+    case 'LTONum':
+    case 'CFPRNum':
+      return normalizeCode(a) === normalizeCode(b);
+    case 'ExpiryDate':
+      return (parseLabelDate(a)?.value ?? a) === (parseLabelDate(b)?.value ?? b);
+    default: {
+      // Free text: one extractor often keeps more of the line than the other
+      const x = comparableText(a);
+      const y = comparableText(b);
+      return x.length > 0 && y.length > 0 && (x.includes(y) || y.includes(x));
+    }
+  }
+};
+
+/**
+ * Combine the AI output with the rule-based fields.
+ *
+ * Fields both extractors agree on get a boosted confidence; disagreements keep
+ * the more confident value and record the other one in `conflict`.
+ * Pass null for `ai` when the AI is unavailable.
+ */
+export const crossCheckFields = (
+  ai: Partial<Record<keyof LabelFields, string>> | null,
+  rules: LabelFields
+): LabelFields => {
+  const merged = {} as LabelFields;
+
+  (Object.keys(rules) as (keyof LabelFields)[]).forEach(field => {
+    const ruleField = rules[field];
+    const aiValue = ai && !isMissing(ai[field]) ? ai[field]!.trim() : null;
+
+    if (!aiValue) {
+      merged[field] = { ...ruleField };
+      return;
+    }
+
+    if (!ruleField.value) {
+      merged[field] = { value: aiValue, confidence: AI_ONLY_CONFIDENCE, source: 'ai' };
+      return;
+    }
+
+    if (sameValue(field, aiValue, ruleField.value)) {
+      merged[field] = {
+        value: aiValue,
+        confidence: Math.min(0.99, Math.max(AI_ONLY_CONFIDENCE, ruleField.confidence) + 0.1),
+        source: 'ai+rules',
+      };
+      return;
+    }
+
+    merged[field] = ruleField.confidence > AI_ONLY_CONFIDENCE
+      ? { value: ruleField.value, confidence: ruleField.confidence - 0.3, source: 'rules', conflict: aiValue }
+      : { value: aiValue, confidence: AI_ONLY_CONFIDENCE - 0.3, source: 'ai', conflict: ruleField.value };
+  });
+
+  return merged;
+};
@@ -0,0 +1,182 @@
+import { EntityManager } from "typeorm";
+import { DB, ScanRepo } from "../typeorm/data-source";
+import { ScanHistory } from "../typeorm/entities/scanHistory";
+import { User } from "../typeorm/entities/user.entity";
+import CustomError from "../utils/CustomError";
+import { FirebaseStorageValidator } from "../utils/FirebaseStorageValidator";
+import { ExtractLabel } from "./aiProcess";
+import { ScanVerdict } from "./scanVerdictService";
+
+interface ScanLocation {
+  latitude?: number | string;
+  longitude?: number | string;
+}
+
+interface ProcessScanParams {
+  agent: User;
+  blockOfText?: string;
+  frontImageUrl?: string;
+  backImageUrl?: string;
+  location?: ScanLocation | null;
+  scannedAt?: Date; // Device time for scans synced after the fact
+  onSaved?: (scan: ScanHistory, manager: EntityManager) => Promise<unknown>;
+}
+
+interface RecordScanParams {
+  agent: User;
+  ocrText: string;
+  extractedInfo: Record<string, any>;
+  frontImageUrl?: string;
+  backImageUrl?: string;
+  location?: ScanLocation | null;
+  scannedAt?: Date;
+  onSaved?: (scan: ScanHistory, manager: EntityManager) => Promise<unknown>;
+}
+
+// Same cap used by ScanHistoryValidation.ocrText
+const MAX_OCR_TEXT_LENGTH = 5000;
+const MAX_REMARKS_LENGTH = 255;
+
+export class ScanHistoryService {
+  /**
+   * Read the label fields from a scan's OCR text and persist the scan.
+   * Throws a CustomError for missing text or image URLs outside scans/.
+   */
+  static async processScan(params: ProcessScanParams) {
+    const { agent, blockOfText, frontImageUrl, backImageUrl, location, scannedAt, onSaved } = params;
+
+    // Validate input
+    if (!blockOfText) {
+      throw new CustomError(400, "OCR text is required", {
+        data: "Missing blockOfText in request body",
+      });
+    }
+
+    // Validate image URLs if provided
+    if (frontImageUrl && !FirebaseStorageValidator.isValidScanUrl(frontImageUrl)) {
+      throw new CustomError(400, "Invalid front image URL", {
+        data: "Front image must be from Firebase Storage scans/ folder",
+      });
+    }
+
+    if (backImageUrl && !FirebaseStorageValidator.isValidScanUrl(backImageUrl)) {
+      throw new CustomError(400, "Invalid back image URL", {
+        data: "Back image must be from Firebase Storage scans/ folder",
+      });
+    }
+
+    // Extract product information with the AI, cross-checked by the rule-based extractor
+    const { product: processedOCRText, fields, aiAvailable } = await ExtractLabel(blockOfText);
+
+    const known = (value: string) => (value && value !== "Unknown" ? value : null);
+    const extractedInfo = {
+      productName: processedOCRText.productName || "Unknown",
+      LTONumber: known(processedOCRText.LTONum),
+      CFPRNumber: known(processedOCRText.CFPRNum),
+      expirationDate: known(processedOCRText.ExpiryDate),
+      manufacturer: known(processedOCRText.ManufacturedBy),
+      lotNumber: fields.LotNum.value,
+      extraction: {
+        aiAvailable,
+        fields: {
+          productName: fields.productName,
+          LTONumber: fields.LTONum,
+          CFPRNumber: fields.CFPRNum,
+          expirationDate: fields.ExpiryDate,
+          manufacturer: fields.ManufacturedBy,
+          lotNumber: fields.LotNum,
+        },
+      },
+    };
+
+    const scan = await this.recordScan({
+      agent,
+      ocrText: blockOfText,
+      extractedInfo,
+      frontImageUrl,
+      backImageUrl,
+      location,
+      scannedAt,
+      onSaved,
+    });
+
+    return { scan, extractedInfo };
+  }
+
+  /**
+   * Persist a scan performed by an agent. onSaved runs in the transaction
+   * that inserts the scan, so whatever it records is committed with it.
+   */
+  static async recordScan(params: RecordScanParams): Promise<ScanHistory> {
+    const { agent, ocrText, extractedInfo, frontImageUrl, backImageUrl, location, scannedAt, onSaved } = params;
+
+    const scan = ScanRepo.create({
+      scannedBy: agent,
+      userId: agent._id,
+      scannedAt: scannedAt || new Date(),
+      ocrText: ocrText.substring(0, MAX_OCR_TEXT_LENGTH),
+      extractedInfo,
+      frontImageUrl: frontImageUrl || undefined,
+      backImageUrl: backImageUrl || undefined,
+      lat: location?.latitude !== undefined ? String(location.latitude) : undefined,
+      long: location?.longitude !== undefined ? String(location.longitude) : undefined,
+    });
+
+    if (!onSaved) {
+      return await ScanRepo.save(scan);
+    }
+    return await DB.transaction(async manager => {
+      const saved = await manager.save(scan);
+      await onSaved(saved, manager);
+      return saved;
+    });
+  }
+
+  /**
+   * Store the outcome of searching a scanned label: the matched product, if
+   * any, and the verdict. Returns null when the scan does not exist or
+   * belongs to another agent.
+   */
+  static async recordVerdict(
+    scanId: string,
+    agentId: string,
+    verdict: ScanVerdict,
+    productId?: string
+  ): Promise<ScanHistory | null> {
+    const scan = await ScanRepo.findOne({ where: { _id: scanId, userId: agentId } });
+    if (!scan) {
+      return null;
+    }
+
+    if (productId) {
+      scan.productId = productId;
+    }
+    scan.scanResult = verdict.scanResult;
+    scan.remarks = verdict.reasons.map(reason => reason.message).join("; ").substring(0, MAX_REMARKS_LENGTH) || undefined;
+    scan.extractedInfo = { ...scan.extractedInfo, verdict };
+    return await ScanRepo.save(scan);
+  }
+
+  /**
+   * Get the scan history of a single agent
+   */
+  static async getAgentScans(agentId: string, skip: number, take: number) {
+    return await ScanRepo.findAndCount({
+      where: { userId: agentId },
+      relations: ["product"],
+      order: { createdAt: "DESC" },
+      skip,
+      take,
+    });
+  }
+
+  /**
+   * Get a single scan, scoped to the agent that performed it
+   */
+  static async getAgentScanById(scanId: string, agentId: string) {
+    return await ScanRepo.findOne({
+      where: { _id: scanId, userId: agentId },
+      relations: ["product", "product.company"],
+    });
+  }
+}
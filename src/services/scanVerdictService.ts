@@ -0,0 +1,219 @@
+import { Product } from "../typeorm/entities/product.entity";
+import { ComplianceStatus, NonComplianceReason, ScanResult } from "../types/enums";
+import { CODE_MATCH_THRESHOLD, codeSimilarity, normalizeCode } from "../utils/fuzzyMatch";
+import { manilaDate, toDateOnly } from "../utils/dates";
+
+/**
+ * Fields read from the label (or confirmed by the agent) that the verdict is based on
+ */
+export interface VerdictLabel {
+  CFPRNumber?: string | null;
+  LTONumber?: string | null;
+  lotNumber?: string | null;
+  expirationDate?: string | null;
+}
+
+/**
+ * What the label is checked against: the matched product, a registry entry, or neither
+ */
+export interface VerdictReference {
+  product?: Pick<Product, "CFPRNumber" | "LTONumber" | "lotNumber" | "expirationDate" | "isActive"> | null;
+  registryEntry?: {
+    CFPRNumber: string;
+    validUntil?: Date | string | null;
+  } | null;
+}
+
+export type VerdictReasonCode =
+  | "NOT_REGISTERED"
+  | "PRODUCT_INACTIVE"
+  | "CFPR_MISMATCH"
+  | "LTO_MISMATCH"
+  | "LOT_MISMATCH"
+  | "CFPR_POSSIBLE_MISREAD"
+  | "LTO_POSSIBLE_MISREAD"
+  | "MISSING_CFPR"
+  | "MISSING_LTO"
+  | "EXPIRED"
+  | "REGISTRATION_EXPIRED";
+
+export interface VerdictReason {
+  code: VerdictReasonCode;
+  message: string;
+  expected?: string | null; // Value on record
+  actual?: string | null; // Value on the label
+}
+
+export interface ScanVerdict {
+  scanResult: ScanResult;
+  verdict: string; // Name of the ScanResult, e.g. "Expired"
+  reasons: VerdictReason[];
+  suggestedStatus: ComplianceStatus;
+  suggestedReason: NonComplianceReason | null;
+  checkedOn: string; // YYYY-MM-DD in Philippine time
+}
+
+interface ReasonRule {
+  scanResult: ScanResult;
+  status: ComplianceStatus;
+  nonComplianceReason: NonComplianceReason;
+}
+
+// Outcome of each finding; reasons are reported from most to least severe
+const REASON_RULES: Record<VerdictReasonCode, ReasonRule> = {
+  NOT_REGISTERED: { scanResult: ScanResult.Unregistered, status: ComplianceStatus.FRAUDULENT, nonComplianceReason: NonComplianceReason.COUNTERFEIT },
+  PRODUCT_INACTIVE: { scanResult: ScanResult.Unregistered, status: ComplianceStatus.NON_COMPLIANT, nonComplianceReason: NonComplianceReason.OTHERS },
+  CFPR_MISMATCH: { scanResult: ScanResult.Tampered, status: ComplianceStatus.FRAUDULENT, nonComplianceReason: NonComplianceReason.COUNTERFEIT },
+  LTO_MISMATCH: { scanResult: ScanResult.Tampered, status: ComplianceStatus.FRAUDULENT, nonComplianceReason: NonComplianceReason.COUNTERFEIT },
+  MISSING_CFPR: { scanResult: ScanResult.Tampered, status: ComplianceStatus.NON_COMPLIANT, nonComplianceReason: NonComplianceReason.NO_CFPR_NUMBER },
+  MISSING_LTO: { scanResult: ScanResult.Tampered, status: ComplianceStatus.NON_COMPLIANT, nonComplianceReason: NonComplianceReason.NO_LTO_NUMBER },
+  LOT_MISMATCH: { scanResult: ScanResult.Tampered, status: ComplianceStatus.NON_COMPLIANT, nonComplianceReason: NonComplianceReason.MISLABELED },
+  CFPR_POSSIBLE_MISREAD: { scanResult: ScanResult.Tampered, status: ComplianceStatus.NON_COMPLIANT, nonComplianceReason: NonComplianceReason.MISLABELED },
+  LTO_POSSIBLE_MISREAD: { scanResult: ScanResult.Tampered, status: ComplianceStatus.NON_COMPLIANT, nonComplianceReason: NonComplianceReason.MISLABELED },
+  EXPIRED: { scanResult: ScanResult.Expired, status: ComplianceStatus.NON_COMPLIANT, nonComplianceReason: NonComplianceReason.EXPIRED_PRODUCT },
+  REGISTRATION_EXPIRED: { scanResult: ScanResult.Expired, status: ComplianceStatus.NON_COMPLIANT, nonComplianceReason: NonComplianceReason.OTHERS },
+};
+
+const SEVERITY = Object.keys(REASON_RULES) as VerdictReasonCode[];
+
+const present = (value?: string | null): value is string =>
+  !!value && value.trim().length > 0 && value.trim().toLowerCase() !== "unknown";
+
+// Codes are compared with separators and OCR-confusable characters ignored
+const sameCode = (a: string, b: string) => normalizeCode(a) === normalizeCode(b);
+
+// A code within the matcher's threshold may be the registered code misread by OCR
+const possibleMisread = (a: string, b: string) => codeSimilarity(a, b) >= CODE_MATCH_THRESHOLD;
+
+/**
+ * Decide whether a scanned label is authentic by checking it against the
+ * product or registry entry it matched.
+ *
+ * Unregistered outranks Tampered, which outranks Expired; a scan with no
+ * findings is Authentic.
+ */
+export const evaluateScan = (
+  label: VerdictLabel,
+  reference: VerdictReference,
+  today: Date = new Date()
+): ScanVerdict => {
+  const reasons: VerdictReason[] = [];
+  const checkedOn = manilaDate(today);
+  const { product, registryEntry } = reference;
+
+  if (!product && !registryEntry) {
+    reasons.push({
+      code: "NOT_REGISTERED",
+      message: "No registered product or registry entry matches this label",
+      actual: label.CFPRNumber || null,
+    });
+  }
+
+  if (product && !product.isActive) {
+    reasons.push({ code: "PRODUCT_INACTIVE", message: "The matched product has been deactivated" });
+  }
+
+  if (!present(label.CFPRNumber)) {
+    reasons.push({ code: "MISSING_CFPR", message: "No CFPR number could be read from the label" });
+  } else {
+    const expected = product?.CFPRNumber || registryEntry?.CFPRNumber;
+    if (expected && !sameCode(label.CFPRNumber, expected)) {
+      reasons.push(
+        possibleMisread(label.CFPRNumber, expected)
+          ? {
+            code: "CFPR_POSSIBLE_MISREAD",
+            message: "The CFPR number on the label is close to the registration; check it was read correctly",
+            expected,
+            actual: label.CFPRNumber,
+          }
+          : {
+            code: "CFPR_MISMATCH",
+            message: "The CFPR number on the label does not match the registration",
+            expected,
+            actual: label.CFPRNumber,
+          }
+      );
+    }
+  }
+
+  if (!present(label.LTONumber)) {
+    reasons.push({ code: "MISSING_LTO", message: "No LTO number could be read from the label" });
+  } else if (product?.LTONumber && !sameCode(label.LTONumber, product.LTONumber)) {
+    reasons.push(
+      possibleMisread(label.LTONumber, product.LTONumber)
+        ? {
+          code: "LTO_POSSIBLE_MISREAD",
+          message: "The LTO number on the label is close to the registration; check it was read correctly",
+          expected: product.LTONumber,
+          actual: label.LTONumber,
+        }
+        : {
+          code: "LTO_MISMATCH",
+          message: "The LTO number on the label does not match the registration",
+          expected: product.LTONumber,
+          actual: label.LTONumber,
+        }
+    );
+  }
+
+  // The lot number is only checked when it could be read
+  if (present(label.lotNumber) && product?.lotNumber && !sameCode(label.lotNumber, product.lotNumber)) {
+    reasons.push({
+      code: "LOT_MISMATCH",
+      message: "The lot number on the label does not match the registered lot",
+      expected: product.lotNumber,
+      actual: label.lotNumber,
+    });
+  }
+
+  const labelExpiry = toDateOnly(label.expirationDate);
+  const recordExpiry = toDateOnly(product?.expirationDate);
+  const expiry = labelExpiry ?? recordExpiry;
+  if (expiry && expiry < checkedOn) {
+    reasons.push({
+      code: "EXPIRED",
+      message: `The product expired on ${expiry}`,
+      expected: recordExpiry,
+      actual: labelExpiry,
+    });
+  }
+
+  const validUntil = toDateOnly(registryEntry?.validUntil);
+  if (validUntil && validUntil < checkedOn) {
+    reasons.push({
+      code: "REGISTRATION_EXPIRED",
+      message: `The product registration lapsed on ${validUntil}`,
+      expected: validUntil,
+    });
+  }
+
+  reasons.sort((a, b) => SEVERITY.indexOf(a.code) - SEVERITY.indexOf(b.code));
+
+  if (reasons.length === 0) {
+    return {
+      scanResult: ScanResult.Authentic,
+      verdict: ScanResult[ScanResult.Authentic],
+      reasons,
+      suggestedStatus: ComplianceStatus.COMPLIANT,
+      suggestedReason: null,
+      checkedOn,
+    };
+  }
+
+  const worst = REASON_RULES[reasons[0].code];
+
+  // An unmatched label without a CFPR number is reported for the missing number, not as counterfeit
+  const reportable = reasons[0].code === "NOT_REGISTERED" && !present(label.CFPRNumber)
+    ? reasons.slice(1)
+    : reasons;
+  const fraudulent = reportable.some(reason => REASON_RULES[reason.code].status === ComplianceStatus.FRAUDULENT);
+
+  return {
+    scanResult: worst.scanResult,
+    verdict: ScanResult[worst.scanResult],
+    reasons,
+    suggestedStatus: fraudulent ? ComplianceStatus.FRAUDULENT : ComplianceStatus.NON_COMPLIANT,
+    suggestedReason: REASON_RULES[reportable[0].code].nonComplianceReason,
+    checkedOn,
+  };
+};
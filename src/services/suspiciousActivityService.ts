@@ -0,0 +1,617 @@
+import { createHash } from 'crypto';
+import * as turf from '@turf/turf';
+import { MultiPolygon, Polygon } from 'geojson';
+import { In } from 'typeorm';
+import { z } from 'zod';
+import { ActivityFlagRepo, AuditLogRepo, ComplianceReportRepo, UserRepo } from '../typeorm/data-source';
+import { ActivityFlag, ActivityFlagReviewInput } from '../typeorm/entities/activityFlag.entity';
+import { REGION_LEVELS, RegionLevel } from '../typeorm/entities/region.entity';
+import { ActivityFlagStatus, ActivityFlagType } from '../types/enums';
+import CustomError from '../utils/CustomError';
+import { createDailyJob } from '../utils/dailyJob';
+import { AuditLogService } from './auditLogService';
+import { LATITUDE, LONGITUDE, REPORTED_AT } from './complianceReportService';
+import { RegionService } from './regionService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Period checked when no range is given, and the longest one allowed
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 90;
+
+// Faster than this between two positions of the same agent is not possible by road
+const MAX_SPEED_KMH = 150;
+// Moves shorter than this are GPS noise, however little time passed
+const MIN_TRAVEL_KM = 1;
+
+// This many reports with identical scanned data, each within the window of the one before, is a burst
+const BURST_MIN_REPORTS = 3;
+const BURST_WINDOW_MINUTES = 30;
+
+// How far outside the assigned boundary, or from assigned coordinates, a report may be filed
+const OUT_OF_AREA_KM = 10;
+const ASSIGNED_POINT_RADIUS_KM = 25;
+
+// Hour of the day (Philippine time) the scheduled check runs
+const DEFAULT_CHECK_HOUR = 6;
+
+// Held while the scheduled check runs, so only one server runs it
+const ACTIVITY_JOB_LOCK_ID = 71150305;
+
+const FLAG_INSERT_CHUNK = 100;
+
+const USER_FIELDS = ['_id', 'firstName', 'lastName', 'email', 'location'];
+
+/**
+ * Range checked by a detection run; defaults to the last week
+ */
+export const ActivityScanValidation = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    agentId: z.string().uuid().optional(),
+  })
+  .refine(filter => !filter.from || !filter.to || filter.from <= filter.to, {
+    message: "'from' must not be after 'to'",
+    path: ['from'],
+  })
+  .refine(
+    filter => !filter.from || !filter.to || filter.to.getTime() - filter.from.getTime() <= MAX_RANGE_DAYS * DAY_MS,
+    { message: `A run can cover at most ${MAX_RANGE_DAYS} days`, path: ['from'] }
+  );
+
+export type ActivityScan = z.infer<typeof ActivityScanValidation>;
+
+export interface ActivityFlagFilter {
+  statuses?: ActivityFlagStatus[];
+  types?: ActivityFlagType[];
+  agentId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface ActivityReport {
+  _id: string;
+  agentId: string;
+  reportedAt: Date;
+  lat: number | null;
+  lng: number | null;
+  frontImageUrl: string;
+  backImageUrl: string;
+  scannedData: Record<string, any> | null;
+}
+
+// Row selected by reportQuery; Postgres returns numeric columns as strings
+interface ActivityReportRow extends Omit<ActivityReport, 'reportedAt' | 'lat' | 'lng'> {
+  reportedAt: Date | string;
+  lat: number | string | null;
+  lng: number | string | null;
+}
+
+// A LOCATION_UPDATE audit log
+export interface ActivityPing {
+  _id: string;
+  agentId: string;
+  at: Date;
+  lat: number;
+  lng: number;
+}
+
+// Where an agent is assigned: an uploaded boundary matching their location name, or coordinates
+export interface AssignedArea {
+  location: string;
+  regionId?: string;
+  geometry?: Polygon | MultiPolygon;
+  point?: [number, number];
+}
+
+interface TravelPosition {
+  source: 'REPORT' | 'LOCATION_UPDATE';
+  id: string;
+  agentId: string;
+  at: Date;
+  lat: number;
+  lng: number;
+}
+
+export type DetectedFlag = Pick<ActivityFlag, 'type' | 'severity' | 'agentId' | 'reportIds' | 'evidence' | 'fingerprint'>;
+
+export interface ActivityRunSummary {
+  from: Date;
+  to: Date;
+  detected: number;
+  created: number;
+  byType: Record<ActivityFlagType, number>;
+  // Agents whose assigned location matched no boundary, so were not checked for out-of-area reports
+  unresolvedAgents: { agentId: string; location: string }[];
+}
+
+const fingerprint = (type: ActivityFlagType, ...parts: string[]) =>
+  createHash('sha256').update([type, ...parts].join(':')).digest('hex');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const byAgent = <T extends { agentId: string }>(items: T[]): Map<string, T[]> =>
+  items.reduce((groups, item) => {
+    groups.set(item.agentId, (groups.get(item.agentId) ?? []).concat(item));
+    return groups;
+  }, new Map<string, T[]>());
+
+const located = (report: ActivityReport) => report.lat !== null && report.lng !== null;
+
+/**
+ * JSON with object keys sorted, so equal data always gives the same string
+ */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Consecutive positions of an agent, at least one of them a report, too far apart for the time between them
+ */
+export const detectImpossibleTravel = (reports: ActivityReport[], pings: ActivityPing[]): DetectedFlag[] => {
+  const positions = reports
+    .filter(located)
+    .map<TravelPosition>(report => ({
+      source: 'REPORT',
+      id: report._id,
+      agentId: report.agentId,
+      at: report.reportedAt,
+      lat: report.lat as number,
+      lng: report.lng as number,
+    }))
+    .concat(pings.map<TravelPosition>(({ _id, ...ping }) => ({ source: 'LOCATION_UPDATE', id: _id, ...ping })));
+
+  const flags: DetectedFlag[] = [];
+  byAgent(positions).forEach((agentPositions, agentId) => {
+    const sorted = agentPositions.sort((a, b) => a.at.getTime() - b.at.getTime());
+    sorted.slice(1).forEach((current, index) => {
+      const previous = sorted[index];
+      if (previous.source !== 'REPORT' && current.source !== 'REPORT') return;
+
+      const distanceKm = turf.distance([previous.lng, previous.lat], [current.lng, current.lat]);
+      if (distanceKm < MIN_TRAVEL_KM) return;
+
+      const hours = (current.at.getTime() - previous.at.getTime()) / HOUR_MS;
+      const speedKmh = hours > 0 ? distanceKm / hours : Infinity;
+      if (speedKmh <= MAX_SPEED_KMH) return;
+
+      const position = ({ source, id, at, lat, lng }: TravelPosition) => ({ source, id, at, latitude: lat, longitude: lng });
+      flags.push({
+        type: ActivityFlagType.IMPOSSIBLE_TRAVEL,
+        severity: speedKmh > MAX_SPEED_KMH * 3 ? 'HIGH' : 'MEDIUM',
+        agentId,
+        reportIds: [previous, current].filter(item => item.source === 'REPORT').map(item => item.id),
+        evidence: {
+          from: position(previous),
+          to: position(current),
+          distanceKm: round(distanceKm),
+          minutes: round(hours * 60),
+          // null when both positions have the same time
+          speedKmh: isFinite(speedKmh) ? round(speedKmh) : null,
+          maxSpeedKmh: MAX_SPEED_KMH,
+        },
+        fingerprint: fingerprint(ActivityFlagType.IMPOSSIBLE_TRAVEL, previous.id, current.id),
+      });
+    });
+  });
+  return flags;
+};
+
+/**
+ * Image URLs used by more than one report; the flag goes to the agent of the latest one
+ */
+export const detectDuplicateImages = (reports: ActivityReport[]): DetectedFlag[] => {
+  const byUrl = new Map<string, { report: ActivityReport; side: 'front' | 'back' }[]>();
+  reports.forEach(report => {
+    (['front', 'back'] as const).forEach(side => {
+      const url = side === 'front' ? report.frontImageUrl : report.backImageUrl;
+      if (!url) return;
+      const uses = byUrl.get(url) ?? [];
+      if (!uses.some(use => use.report._id === report._id)) uses.push({ report, side });
+      byUrl.set(url, uses);
+    });
+  });
+
+  const flags: DetectedFlag[] = [];
+  byUrl.forEach((uses, imageUrl) => {
+    if (uses.length < 2) return;
+    const sorted = uses.sort((a, b) => a.report.reportedAt.getTime() - b.report.reportedAt.getTime());
+    const latest = sorted[sorted.length - 1].report;
+    const agentIds = sorted.map(use => use.report.agentId).filter((id, index, ids) => ids.indexOf(id) === index);
+
+    flags.push({
+      type: ActivityFlagType.DUPLICATE_IMAGE,
+      severity: 'HIGH',
+      agentId: latest.agentId,
+      reportIds: sorted.map(use => use.report._id),
+      evidence: {
+        imageUrl,
+        agentIds,
+        reports: sorted.map(({ report, side }) => ({
+          reportId: report._id,
+          agentId: report.agentId,
+          reportedAt: report.reportedAt,
+          side,
+        })),
+      },
+      fingerprint: fingerprint(ActivityFlagType.DUPLICATE_IMAGE, imageUrl, latest._id),
+    });
+  });
+  return flags;
+};
+
+/**
+ * Runs of reports by one agent with identical scanned data in quick succession
+ */
+export const detectScanBursts = (reports: ActivityReport[]): DetectedFlag[] => {
+  const flags: DetectedFlag[] = [];
+  const flagBurst = (agentId: string, burst: ActivityReport[]) => {
+    if (burst.length < BURST_MIN_REPORTS) return;
+    const first = burst[0];
+    const last = burst[burst.length - 1];
+    flags.push({
+      type: ActivityFlagType.DUPLICATE_SCAN_BURST,
+      severity: 'MEDIUM',
+      agentId,
+      reportIds: burst.map(report => report._id),
+      evidence: {
+        scannedData: first.scannedData,
+        count: burst.length,
+        firstAt: first.reportedAt,
+        lastAt: last.reportedAt,
+        spanMinutes: round((last.reportedAt.getTime() - first.reportedAt.getTime()) / 60000),
+        windowMinutes: BURST_WINDOW_MINUTES,
+      },
+      fingerprint: fingerprint(ActivityFlagType.DUPLICATE_SCAN_BURST, first._id),
+    });
+  };
+
+  byAgent(reports).forEach((agentReports, agentId) => {
+    const bySignature = new Map<string, ActivityReport[]>();
+    agentReports.forEach(report => {
+      if (!report.scannedData || Object.keys(report.scannedData).length === 0) return;
+      const signature = stableStringify(report.scannedData);
+      bySignature.set(signature, (bySignature.get(signature) ?? []).concat(report));
+    });
+
+    bySignature.forEach(sameData => {
+      const sorted = sameData.sort((a, b) => a.reportedAt.getTime() - b.reportedAt.getTime());
+      let burst: ActivityReport[] = [];
+      sorted.forEach(report => {
+        const previous = burst[burst.length - 1];
+        if (previous && report.reportedAt.getTime() - previous.reportedAt.getTime() > BURST_WINDOW_MINUTES * 60000) {
+          flagBurst(agentId, burst);
+          burst = [];
+        }
+        burst.push(report);
+      });
+      flagBurst(agentId, burst);
+    });
+  });
+  return flags;
+};
+
+/**
+ * Reports filed too far from the area the agent is assigned to
+ */
+export const detectOutOfArea = (reports: ActivityReport[], areas: Map<string, AssignedArea>): DetectedFlag[] =>
+  reports.filter(located).reduce((flags, report) => {
+    const area = areas.get(report.agentId);
+    if (!area) return flags;
+
+    const point: [number, number] = [report.lng as number, report.lat as number];
+    const toleranceKm = area.geometry ? OUT_OF_AREA_KM : ASSIGNED_POINT_RADIUS_KM;
+    const distanceKm = area.geometry
+      ? Math.max(0, turf.pointToPolygonDistance(point, area.geometry, { units: 'kilometers' }))
+      : area.point
+        ? turf.distance(area.point, point)
+        : 0;
+    if (distanceKm <= toleranceKm) return flags;
+
+    return flags.concat({
+      type: ActivityFlagType.OUT_OF_AREA,
+      severity: distanceKm > toleranceKm * 5 ? 'MEDIUM' : 'LOW',
+      agentId: report.agentId,
+      reportIds: [report._id],
+      evidence: {
+        assignedLocation: area.location,
+        regionId: area.regionId ?? null,
+        reportedAt: report.reportedAt,
+        reportLocation: { latitude: report.lat, longitude: report.lng },
+        // Outside the assigned boundary, or from the assigned coordinates
+        distanceKm: round(distanceKm),
+        toleranceKm,
+      },
+      fingerprint: fingerprint(ActivityFlagType.OUT_OF_AREA, report._id, area.location),
+    });
+  }, [] as DetectedFlag[]);
+
+/**
+ * Match agents' assigned locations to boundaries by name, preferring the largest level,
+ * or read them as "latitude, longitude"
+ */
+export const resolveAssignedAreas = (
+  agents: { _id: string; location: string }[],
+  regions: { _id: string; name: string; level: RegionLevel; geometry: Polygon | MultiPolygon }[]
+): { areas: Map<string, AssignedArea>; unresolved: { agentId: string; location: string }[] } => {
+  const areas = new Map<string, AssignedArea>();
+  const unresolved: { agentId: string; location: string }[] = [];
+
+  agents.forEach(agent => {
+    const location = (agent.location ?? '').trim();
+    const coordinates = location.match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+    if (coordinates) {
+      areas.set(agent._id, { location, point: [Number(coordinates[2]), Number(coordinates[1])] });
+      return;
+    }
+
+    const region = regions
+      .filter(candidate => candidate.name.trim().toLowerCase() === location.toLowerCase())
+      .sort((a, b) => REGION_LEVELS.indexOf(a.level) - REGION_LEVELS.indexOf(b.level))[0];
+    if (region) {
+      areas.set(agent._id, { location, regionId: region._id, geometry: region.geometry });
+    } else {
+      unresolved.push({ agentId: agent._id, location });
+    }
+  });
+  return { areas, unresolved };
+};
+
+// The range of a run, with a missing end taken as now; capped like a range given in full
+const period = (scan: ActivityScan, now: Date) => {
+  const to = scan.to ?? now;
+  const from = scan.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  if (from > to) {
+    throw new CustomError(400, "'from' must not be after 'to'");
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new CustomError(400, `A run can cover at most ${MAX_RANGE_DAYS} days`);
+  }
+  return { from, to };
+};
+
+const toActivityReport = (row: ActivityReportRow): ActivityReport => {
+  const coordinate = (value: unknown) =>
+    value === null || value === undefined || !isFinite(Number(value)) ? null : Number(value);
+  return {
+    ...row,
+    reportedAt: new Date(row.reportedAt),
+    lat: coordinate(row.lat),
+    lng: coordinate(row.lng),
+  };
+};
+
+const emptyTypeCounts = () =>
+  Object.values(ActivityFlagType).reduce(
+    (counts, type) => ({ ...counts, [type]: 0 }),
+    {} as Record<ActivityFlagType, number>
+  );
+
+export class SuspiciousActivityService {
+  private static readonly job = createDailyJob({
+    name: 'Suspicious activity monitor',
+    hourEnv: 'ACTIVITY_CHECK_HOUR',
+    enabledEnv: 'ACTIVITY_MONITOR_ENABLED',
+    defaultHour: DEFAULT_CHECK_HOUR,
+    lockId: ACTIVITY_JOB_LOCK_ID,
+    run: async () => {
+      const summary = await SuspiciousActivityService.run({});
+      console.log(`Suspicious activity check done: ${summary.detected} found, ${summary.created} new`);
+    },
+  });
+
+  /**
+   * Suspicious activity in the reports and location updates of a period, without saving anything
+   */
+  static async detect(scan: ActivityScan, now: Date = new Date()) {
+    const range = period(scan, now);
+    const [reports, pings] = await Promise.all([this.reports(range, scan.agentId), this.pings(range, scan.agentId)]);
+
+    // Images are also compared with earlier reports, so reuse of an old photo is caught
+    const imageUrls = reports
+      .reduce((urls, report) => urls.concat(report.frontImageUrl, report.backImageUrl), [] as string[])
+      .filter(Boolean);
+    const earlierReports = imageUrls.length
+      ? await this.reportQuery()
+          .where(`${REPORTED_AT} < :from`, range)
+          .andWhere('(report.frontImageUrl = ANY(:imageUrls) OR report.backImageUrl = ANY(:imageUrls))', { imageUrls })
+          .getRawMany<ActivityReportRow>()
+          .then(rows => rows.map(toActivityReport))
+      : [];
+
+    const agentIds = Array.from(new Set(reports.map(report => report.agentId)));
+    const agents = agentIds.length
+      ? await UserRepo.find({ select: ['_id', 'location'], where: { _id: In(agentIds) } })
+      : [];
+    const regions = await RegionService.findByNames(agents.map(agent => agent.location).filter(Boolean));
+    const { areas, unresolved } = resolveAssignedAreas(agents, regions);
+
+    const flags = [
+      ...detectImpossibleTravel(reports, pings),
+      ...detectDuplicateImages(earlierReports.concat(reports)),
+      ...detectScanBursts(reports),
+      ...detectOutOfArea(reports, areas),
+    ];
+
+    return { ...range, flags, unresolvedAgents: unresolved };
+  }
+
+  /**
+   * Detect suspicious activity and queue the flags not raised by an earlier run
+   */
+  static async run(scan: ActivityScan, now: Date = new Date(), userId?: string): Promise<ActivityRunSummary> {
+    const { from, to, flags, unresolvedAgents } = await this.detect(scan, now);
+
+    // A manual run can overlap the scheduled one, so the unique fingerprint decides which flags are new
+    const inserted = new Set<string>();
+    for (let i = 0; i < flags.length; i += FLAG_INSERT_CHUNK) {
+      const result = await ActivityFlagRepo.createQueryBuilder()
+        .insert()
+        .values(flags.slice(i, i + FLAG_INSERT_CHUNK))
+        .orIgnore()
+        .returning(['fingerprint'])
+        .execute();
+      (result.raw as { fingerprint: string }[]).forEach(row => inserted.add(row.fingerprint));
+    }
+    const newFlags = flags.filter(flag => inserted.has(flag.fingerprint));
+
+    const summary: ActivityRunSummary = {
+      from,
+      to,
+      detected: flags.length,
+      created: newFlags.length,
+      byType: newFlags.reduce((counts, flag) => ({ ...counts, [flag.type]: counts[flag.type] + 1 }), emptyTypeCounts()),
+      unresolvedAgents,
+    };
+
+    await AuditLogService.createLog({
+      action: `Suspicious activity check: ${flags.length} found, ${newFlags.length} new`,
+      actionType: 'ACTIVITY_CHECK',
+      userId,
+      platform: 'WEB',
+      metadata: { ...summary, agentId: scan.agentId },
+      userAgent: userId ? undefined : 'activity-monitor',
+    });
+
+    return summary;
+  }
+
+  /**
+   * Review queue, newest first
+   */
+  static async list(filter: ActivityFlagFilter, skip: number, take: number) {
+    const qb = ActivityFlagRepo.createQueryBuilder('flag')
+      .leftJoin('flag.agent', 'agent')
+      .addSelect(USER_FIELDS.map(field => `agent.${field}`));
+
+    if (filter.statuses?.length) {
+      qb.andWhere('flag.status IN (:...statuses)', { statuses: filter.statuses });
+    }
+    if (filter.types?.length) {
+      qb.andWhere('flag.type IN (:...types)', { types: filter.types });
+    }
+    if (filter.agentId) {
+      qb.andWhere('flag.agentId = :agentId', { agentId: filter.agentId });
+    }
+    if (filter.from) {
+      qb.andWhere('flag.createdAt >= :from', { from: filter.from });
+    }
+    if (filter.to) {
+      qb.andWhere('flag.createdAt <= :to', { to: filter.to });
+    }
+
+    return await qb.orderBy('flag.createdAt', 'DESC').skip(skip).take(take).getManyAndCount();
+  }
+
+  /**
+   * A flag with its agent and the reports it is about
+   */
+  static async getById(flagId: string) {
+    const flag = await ActivityFlagRepo.createQueryBuilder('flag')
+      .leftJoin('flag.agent', 'agent')
+      .addSelect(USER_FIELDS.map(field => `agent.${field}`))
+      .where('flag._id = :flagId', { flagId })
+      .getOne();
+    if (!flag) {
+      throw new CustomError(404, 'Flag not found');
+    }
+
+    const reports = flag.reportIds.length
+      ? await ComplianceReportRepo.find({ where: { _id: In(flag.reportIds) }, order: { createdAt: 'ASC' } })
+      : [];
+    return { ...flag, reports };
+  }
+
+  /**
+   * Confirm or dismiss a flag
+   */
+  static async review(
+    flagId: string,
+    input: ActivityFlagReviewInput,
+    reviewerId: string,
+    context: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<ActivityFlag> {
+    const flag = await ActivityFlagRepo.findOne({ where: { _id: flagId } });
+    if (!flag) {
+      throw new CustomError(404, 'Flag not found');
+    }
+
+    const previousStatus = flag.status;
+    flag.status = input.status;
+    flag.reviewNote = input.note ?? null;
+    flag.reviewedById = reviewerId;
+    flag.reviewedAt = new Date();
+    const saved = await ActivityFlagRepo.save(flag);
+
+    await AuditLogService.createLog({
+      action: `Marked ${flag.type} flag as ${input.status}`,
+      actionType: 'REVIEW_ACTIVITY_FLAG',
+      userId: reviewerId,
+      targetUserId: flag.agentId,
+      platform: 'WEB',
+      metadata: { flagId, previousStatus, status: input.status, note: input.note },
+      ...context,
+    });
+
+    return saved;
+  }
+
+  /**
+   * Check the last week every day at ACTIVITY_CHECK_HOUR (Philippine time)
+   */
+  static start(): void {
+    this.job.start();
+  }
+
+  static stop(): void {
+    this.job.stop();
+  }
+
+  private static reportQuery() {
+    return ComplianceReportRepo.createQueryBuilder('report')
+      .select('report._id', '_id')
+      .addSelect('report.agentId', 'agentId')
+      .addSelect(REPORTED_AT, 'reportedAt')
+      .addSelect(LATITUDE, 'lat')
+      .addSelect(LONGITUDE, 'lng')
+      .addSelect('report.frontImageUrl', 'frontImageUrl')
+      .addSelect('report.backImageUrl', 'backImageUrl')
+      .addSelect('report.scannedData', 'scannedData');
+  }
+
+  private static async reports(range: { from: Date; to: Date }, agentId?: string): Promise<ActivityReport[]> {
+    const query = this.reportQuery().where(`${REPORTED_AT} BETWEEN :from AND :to`, range);
+    if (agentId) query.andWhere('report.agentId = :agentId', { agentId });
+    return (await query.getRawMany<ActivityReportRow>()).map(toActivityReport);
+  }
+
+  // LOCATION_UPDATE audit logs with coordinates
+  private static async pings(range: { from: Date; to: Date }, agentId?: string): Promise<ActivityPing[]> {
+    const LOGGED_AT = 'COALESCE(log.capturedAt, log.createdAt)';
+    const query = AuditLogRepo.createQueryBuilder('log')
+      .select('log._id', '_id')
+      .addSelect('log.userId', 'agentId')
+      .addSelect(LOGGED_AT, 'at')
+      .addSelect(`(log.location->>'latitude')::float`, 'lat')
+      .addSelect(`(log.location->>'longitude')::float`, 'lng')
+      .where("log.actionType = 'LOCATION_UPDATE'")
+      .andWhere('log.userId IS NOT NULL')
+      .andWhere("log.location->>'latitude' IS NOT NULL")
+      .andWhere("log.location->>'longitude' IS NOT NULL")
+      .andWhere(`${LOGGED_AT} BETWEEN :from AND :to`, range);
+    if (agentId) query.andWhere('log.userId = :agentId', { agentId });
+
+    return (await query.getRawMany())
+      .map(row => ({ ...row, at: new Date(row.at), lat: Number(row.lat), lng: Number(row.lng) }))
+      .filter(ping => isFinite(ping.lat) && isFinite(ping.lng));
+  }
+}
@@ -0,0 +1,226 @@
+import { EntityManager, LessThan } from "typeorm";
+import { SyncItemRepo } from "../typeorm/data-source";
+import { AuditLogValidation } from "../typeorm/entities/auditLog.entity";
+import {
+  SyncItem,
+  SyncItemInput,
+  SyncItemType,
+  SyncItemValidation,
+} from "../typeorm/entities/syncItem.entity";
+import { User } from "../typeorm/entities/user.entity";
+import CustomError from "../utils/CustomError";
+import { AuditLogService } from "./auditLogService";
+import { ComplianceReportService } from "./complianceReportService";
+import { ScanHistoryService } from "./scanHistoryService";
+
+export type SyncResultStatus = "created" | "duplicate" | "failed" | "in_progress";
+
+export interface SyncItemResult {
+  idempotencyKey: string | null;
+  type: SyncItemType | null;
+  status: SyncResultStatus;
+  resultId?: string | null; // _id of the record created from the item
+  error?: string;
+}
+
+interface SyncContext {
+  deviceId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+type Claim =
+  | { claimed: true; syncItem: SyncItem }
+  | { claimed: false; result: SyncItemResult };
+
+// An item left "processing" this long (e.g. the server restarted mid-item) may be retried
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const SyncAuditEventValidation = AuditLogValidation.pick({
+  action: true,
+  actionType: true,
+  targetUserId: true,
+  targetProductId: true,
+  location: true,
+  metadata: true,
+});
+
+const errorMessage = (error: any): string => {
+  if (error instanceof CustomError) return error.message;
+  if (error?.name === "ZodError") return "Validation error: " + JSON.stringify(error.issues ?? error.errors);
+  return "Failed to process item";
+};
+
+export class SyncService {
+  /**
+   * Apply a batch of items an agent queued while offline, in order.
+   *
+   * Each item carries an idempotency key; an item already applied is
+   * reported as a duplicate instead of being created again, so a batch can
+   * be replayed safely. Failed items can be retried with the same key.
+   */
+  static async syncBatch(agent: User, items: unknown[], context: SyncContext = {}): Promise<SyncItemResult[]> {
+    const results: SyncItemResult[] = [];
+    for (const item of items) {
+      results.push(await this.syncItem(agent, item, context));
+    }
+    return results;
+  }
+
+  private static async syncItem(agent: User, raw: unknown, context: SyncContext): Promise<SyncItemResult> {
+    const parsed = SyncItemValidation.safeParse(raw);
+    if (!parsed.success) {
+      const value = (raw ?? {}) as Record<string, any>;
+      return {
+        idempotencyKey: typeof value.idempotencyKey === "string" ? value.idempotencyKey : null,
+        type: typeof value.type === "string" ? (value.type as SyncItemType) : null,
+        status: "failed",
+        error: errorMessage(parsed.error),
+      };
+    }
+
+    const item = parsed.data;
+    const claim = await this.claim(agent._id, item, context.deviceId);
+    if (!claim.claimed) {
+      return claim.result;
+    }
+
+    const { idempotencyKey, type } = item;
+    try {
+      const resultId = await this.apply(agent, item, context, claim.syncItem);
+      return { idempotencyKey, type, status: "created", resultId };
+    } catch (error: any) {
+      console.error(`Error syncing ${type} ${idempotencyKey}:`, error);
+      const message = errorMessage(error);
+      const { affected } = await SyncItemRepo.update(
+        { _id: claim.syncItem._id, status: "processing" },
+        { status: "failed", error: message }
+      );
+
+      // The record was saved, and the item marked created with it, before a later step failed
+      if (!affected) {
+        const recorded = await SyncItemRepo.findOne({ where: { _id: claim.syncItem._id } });
+        return { idempotencyKey, type, status: "created", resultId: recorded?.resultId ?? null };
+      }
+      return { idempotencyKey, type, status: "failed", error: message };
+    }
+  }
+
+  /**
+   * Reserve an idempotency key for processing. Fails when the key was
+   * already applied or another request is processing it.
+   */
+  private static async claim(agentId: string, item: SyncItemInput, deviceId?: string): Promise<Claim> {
+    const { idempotencyKey, type } = item;
+
+    const existing = await SyncItemRepo.findOne({ where: { agentId, idempotencyKey } });
+    if (!existing) {
+      try {
+        const syncItem = await SyncItemRepo.save(
+          SyncItemRepo.create({
+            agentId,
+            idempotencyKey,
+            type,
+            status: "processing",
+            deviceId: deviceId || null,
+            capturedAt: item.capturedAt,
+          })
+        );
+        return { claimed: true, syncItem };
+      } catch (error: any) {
+        // Unique violation: the same key arrived in a concurrent request
+        if (error?.code === "23505") {
+          return { claimed: false, result: { idempotencyKey, type, status: "in_progress" } };
+        }
+        throw error;
+      }
+    }
+
+    if (existing.type !== type) {
+      return {
+        claimed: false,
+        result: {
+          idempotencyKey,
+          type,
+          status: "failed",
+          error: `Idempotency key was already used for a ${existing.type}`,
+        },
+      };
+    }
+
+    if (existing.status === "created") {
+      return {
+        claimed: false,
+        result: { idempotencyKey, type, status: "duplicate", resultId: existing.resultId },
+      };
+    }
+
+    // Retry a failed or abandoned item, unless another request got to it first
+    const { affected } = await SyncItemRepo.update(
+      existing.status === "failed"
+        ? { _id: existing._id, status: "failed" }
+        : { _id: existing._id, status: "processing", updatedAt: LessThan(new Date(Date.now() - STALE_PROCESSING_MS)) },
+      { status: "processing", error: null }
+    );
+    if (!affected) {
+      return { claimed: false, result: { idempotencyKey, type, status: "in_progress" } };
+    }
+    return { claimed: true, syncItem: existing };
+  }
+
+  /**
+   * Create the record for one item, keeping the device time it was captured at.
+   *
+   * The item is marked created in the transaction that saves the record, so a
+   * retry after a later step (e.g. the audit log) fails can't save it twice.
+   */
+  private static async apply(
+    agent: User,
+    item: SyncItemInput,
+    context: SyncContext,
+    syncItem: SyncItem
+  ): Promise<string> {
+    const { payload, capturedAt } = item;
+    const markCreated = (saved: { _id: string }, manager: EntityManager) =>
+      manager.update(SyncItem, syncItem._id, { status: "created", resultId: saved._id, error: null });
+
+    switch (item.type) {
+      case "scan": {
+        const { scan } = await ScanHistoryService.processScan({
+          agent,
+          blockOfText: payload.blockOfText,
+          frontImageUrl: payload.frontImageUrl,
+          backImageUrl: payload.backImageUrl,
+          location: payload.location,
+          scannedAt: capturedAt,
+          onSaved: markCreated,
+        });
+        return scan._id;
+      }
+
+      case "compliance_report": {
+        const report = await ComplianceReportService.createReport(
+          agent._id,
+          { ...payload, capturedAt },
+          context,
+          markCreated
+        );
+        return report._id;
+      }
+
+      case "audit_event": {
+        const event = SyncAuditEventValidation.parse(payload);
+        const auditLog = await AuditLogService.createLog({
+          ...event,
+          userId: agent._id,
+          platform: "MOBILE",
+          capturedAt,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+          onSaved: markCreated,
+        });
+        return auditLog._id;
+      }
+    }
+  }
+}
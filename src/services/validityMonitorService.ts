@@ -0,0 +1,352 @@
+import { In, MoreThan } from "typeorm";
+import { ProductRepo, RegistryEntryRepo, UserRepo } from "../typeorm/data-source";
+import { Product, ValidityStatus } from "../typeorm/entities/product.entity";
+import { escapeHtml, sendMail } from "../utils/nodemailer";
+import { normalizeCode } from "../utils/fuzzyMatch";
+import { createDailyJob } from "../utils/dailyJob";
+import { daysBetween, manilaDate, toDateOnly } from "../utils/dates";
+import { compareValidUntilDesc } from "../utils/registryDiff";
+import { AuditLogService } from "./auditLogService";
+import { CompanyRiskService } from "./companyRiskService";
+import { RegistryService } from "./registryService";
+
+export interface ValidityClassification {
+  status: ValidityStatus;
+  windowDays: number | null; // Smallest alert window the date falls in
+  daysLeft: number | null; // Negative once lapsed
+}
+
+export interface ValidityAlert {
+  productId: string;
+  productName: string;
+  CFPRNumber: string;
+  companyId: string;
+  validUntil: string;
+  validUntilSource: "expirationDate" | "registry";
+  status: ValidityStatus;
+  windowDays: number | null;
+  daysLeft: number;
+}
+
+export interface ValidityRunSummary {
+  checkedOn: string;
+  windows: number[];
+  checked: number;
+  expiring: number;
+  lapsed: number;
+  changed: number;
+  alerts: ValidityAlert[]; // Products that entered a new window or lapsed in this run
+  notifiedAdmins: number;
+}
+
+const DEFAULT_ALERT_WINDOWS = [90, 30, 7];
+
+// Hour of the day (Philippine time) the scheduled check runs
+const DEFAULT_CHECK_HOUR = 6;
+
+// Held while the scheduled check runs, so only one server runs it
+const VALIDITY_JOB_LOCK_ID = 71150303;
+
+// Products loaded per query while checking
+const CHECK_BATCH_SIZE = 500;
+
+/**
+ * Alert windows in days, largest first, from a comma-separated list such as "90,30,7"
+ */
+export const parseAlertWindows = (value?: string): number[] => {
+  const windows = (value || "")
+    .split(",")
+    .map(part => parseInt(part.trim(), 10))
+    .filter(days => Number.isInteger(days) && days > 0);
+  return Array.from(new Set(windows.length ? windows : DEFAULT_ALERT_WINDOWS)).sort((a, b) => b - a);
+};
+
+/**
+ * Where a validity date stands relative to today and the alert windows
+ */
+export const classifyValidity = (
+  validUntil: string | null,
+  today: string,
+  windows: number[]
+): ValidityClassification => {
+  if (!validUntil) {
+    return { status: "VALID", windowDays: null, daysLeft: null };
+  }
+
+  const daysLeft = daysBetween(today, validUntil);
+  if (daysLeft < 0) {
+    return { status: "LAPSED", windowDays: null, daysLeft };
+  }
+
+  const entered = windows.filter(days => daysLeft <= days);
+  return entered.length
+    ? { status: "EXPIRING", windowDays: Math.min(...entered), daysLeft }
+    : { status: "VALID", windowDays: null, daysLeft };
+};
+
+/**
+ * Whether moving from the previous classification to the new one should alert admins:
+ * the product lapsed, or entered a smaller window than before
+ */
+const isEscalation = (
+  previous: Pick<Product, "validityStatus" | "validityWindowDays">,
+  next: ValidityClassification
+): boolean => {
+  if (next.status === "LAPSED") return previous.validityStatus !== "LAPSED";
+  if (next.status !== "EXPIRING") return false;
+  return previous.validityStatus !== "EXPIRING"
+    || previous.validityWindowDays == null
+    || next.windowDays! < previous.validityWindowDays;
+};
+
+const alertEmail = (summary: ValidityRunSummary): string => {
+  const rows = summary.alerts
+    .map(alert => `
+      <tr>
+        <td>${escapeHtml(alert.productName)}</td>
+        <td>${escapeHtml(alert.CFPRNumber)}</td>
+        <td>${alert.validUntil}</td>
+        <td>${alert.validUntilSource === "registry" ? "Registry validity" : "Product expiration"}</td>
+        <td>${alert.status === "LAPSED" ? `Lapsed ${-alert.daysLeft} day(s) ago` : `${alert.daysLeft} day(s) left`}</td>
+      </tr>`)
+    .join("");
+
+  return `
+    <h2>Registration validity check for ${summary.checkedOn}</h2>
+    <p>${summary.alerts.length} product(s) entered an alert window or lapsed today.
+    In total, ${summary.expiring} product(s) are expiring and ${summary.lapsed} have lapsed.</p>
+    <table border="1" cellpadding="6" cellspacing="0">
+      <tr><th>Product</th><th>CFPR Number</th><th>Valid until</th><th>Based on</th><th>Status</th></tr>
+      ${rows}
+    </table>
+  `;
+};
+
+export class ValidityMonitorService {
+  private static readonly job = createDailyJob({
+    name: "Validity monitor",
+    hourEnv: "VALIDITY_CHECK_HOUR",
+    enabledEnv: "VALIDITY_MONITOR_ENABLED",
+    defaultHour: DEFAULT_CHECK_HOUR,
+    lockId: VALIDITY_JOB_LOCK_ID,
+    run: async () => {
+      try {
+        const summary = await ValidityMonitorService.run();
+        console.log(`Validity check done: ${summary.checked} products, ${summary.alerts.length} new alert(s)`);
+      } catch (error) {
+        console.error("Validity check failed:", error);
+      }
+      // Rescore companies with the updated registrations, and so older reports weigh less
+      try {
+        const scored = await CompanyRiskService.recalculateAll();
+        console.log(`Company risk rescored for ${scored} companies`);
+      } catch (error) {
+        console.error("Company risk scoring failed:", error);
+      }
+    },
+  });
+
+  /**
+   * Check every product's expiration and registry validity dates, mark the
+   * ones that are expiring or lapsed, email admins about new alerts and
+   * record the run in the audit log.
+   */
+  static async run(now: Date = new Date()): Promise<ValidityRunSummary> {
+    const checkedOn = manilaDate(now);
+    const windows = parseAlertWindows(process.env.VALIDITY_ALERT_WINDOWS);
+    const registryValidity = await this.getRegistryValidity();
+
+    const summary: ValidityRunSummary = {
+      checkedOn,
+      windows,
+      checked: 0,
+      expiring: 0,
+      lapsed: 0,
+      changed: 0,
+      alerts: [],
+      notifiedAdmins: 0,
+    };
+
+    let lastId: string | null = null;
+    for (;;) {
+      const products: Product[] = await ProductRepo.find({
+        select: [
+          "_id",
+          "productName",
+          "CFPRNumber",
+          "companyId",
+          "expirationDate",
+          "validityStatus",
+          "validUntil",
+          "validUntilSource",
+          "validityWindowDays",
+        ],
+        where: lastId ? { _id: MoreThan(lastId) } : {},
+        order: { _id: "ASC" },
+        take: CHECK_BATCH_SIZE,
+      });
+      if (products.length === 0) break;
+
+      for (const product of products) {
+        const expiration = toDateOnly(product.expirationDate);
+        const registry = product.CFPRNumber
+          ? registryValidity.get(normalizeCode(product.CFPRNumber)) ?? null
+          : null;
+        const [validUntil, validUntilSource] = registry && (!expiration || registry < expiration)
+          ? [registry, "registry" as const]
+          : [expiration, expiration ? "expirationDate" as const : null];
+
+        const classification = classifyValidity(validUntil, checkedOn, windows);
+        if (classification.status === "EXPIRING") summary.expiring++;
+        if (classification.status === "LAPSED") summary.lapsed++;
+
+        if (validUntil && validUntilSource && isEscalation(product, classification)) {
+          summary.alerts.push({
+            productId: product._id,
+            productName: product.productName,
+            CFPRNumber: product.CFPRNumber,
+            companyId: product.companyId,
+            validUntil,
+            validUntilSource,
+            status: classification.status,
+            windowDays: classification.windowDays,
+            daysLeft: classification.daysLeft!,
+          });
+        }
+
+        const changed = product.validityStatus !== classification.status
+          || (product.validityWindowDays ?? null) !== classification.windowDays
+          || toDateOnly(product.validUntil) !== validUntil
+          || (product.validUntilSource ?? null) !== validUntilSource;
+        if (changed) {
+          summary.changed++;
+          await ProductRepo.update(product._id, {
+            validityStatus: classification.status,
+            validityWindowDays: classification.windowDays,
+            validUntil,
+            validUntilSource,
+          });
+        }
+      }
+
+      await ProductRepo.update({ _id: In(products.map(product => product._id)) }, { validityCheckedAt: now });
+      summary.checked += products.length;
+      lastId = products[products.length - 1]._id;
+    }
+
+    summary.notifiedAdmins = await this.notifyAdmins(summary);
+
+    await AuditLogService.createLog({
+      action: `Registration validity check: ${summary.expiring} expiring, ${summary.lapsed} lapsed, ${summary.alerts.length} new alert(s)`,
+      actionType: "VALIDITY_CHECK",
+      platform: "WEB",
+      metadata: {
+        checkedOn,
+        windows,
+        checked: summary.checked,
+        expiring: summary.expiring,
+        lapsed: summary.lapsed,
+        changed: summary.changed,
+        alerts: summary.alerts.length,
+        alertedProductIds: summary.alerts.map(alert => alert.productId),
+        notifiedAdmins: summary.notifiedAdmins,
+      },
+      userAgent: "validity-monitor",
+    });
+
+    return summary;
+  }
+
+  /**
+   * Expiring and lapsed products of a company, soonest first
+   */
+  static async getCompanyProducts(
+    companyId: string,
+    statuses: ValidityStatus[],
+    skip: number,
+    take: number
+  ): Promise<[Product[], number]> {
+    return await ProductRepo.findAndCount({
+      select: [
+        "_id",
+        "productName",
+        "brandName",
+        "CFPRNumber",
+        "LTONumber",
+        "lotNumber",
+        "expirationDate",
+        "validityStatus",
+        "validUntil",
+        "validUntilSource",
+        "validityWindowDays",
+        "validityCheckedAt",
+      ],
+      where: { companyId, validityStatus: In(statuses) },
+      order: { validUntil: "ASC" },
+      skip,
+      take,
+    });
+  }
+
+  /**
+   * Run the check every day at VALIDITY_CHECK_HOUR (Philippine time)
+   */
+  static start(): void {
+    this.job.start();
+  }
+
+  static stop(): void {
+    this.job.stop();
+  }
+
+  /**
+   * "Valid until" dates of the latest registry import, by normalized CFPR number.
+   * A CFPR number listed more than once keeps its latest date, as registry lookups do.
+   */
+  private static async getRegistryValidity(): Promise<Map<string, string>> {
+    const registryImport = await RegistryService.getCurrentImport();
+    if (!registryImport) return new Map();
+
+    const entries = await RegistryEntryRepo.find({
+      select: ["normalizedCFPR", "validUntil"],
+      where: { importId: registryImport._id },
+    });
+
+    const validity = new Map<string, string>();
+    entries.forEach(entry => {
+      const validUntil = toDateOnly(entry.validUntil);
+      const current = validity.get(entry.normalizedCFPR);
+      if (validUntil && (!current || compareValidUntilDesc({ validUntil }, { validUntil: current }) < 0)) {
+        validity.set(entry.normalizedCFPR, validUntil);
+      }
+    });
+    return validity;
+  }
+
+  /**
+   * Email active admins about the products that raised an alert in this run
+   */
+  private static async notifyAdmins(summary: ValidityRunSummary): Promise<number> {
+    if (summary.alerts.length === 0) return 0;
+
+    const admins = await UserRepo.find({
+      select: ["_id", "email"],
+      where: { role: "ADMIN", status: "Active" },
+    });
+
+    let notified = 0;
+    for (const admin of admins) {
+      try {
+        await sendMail(
+          admin.email,
+          `RCV: ${summary.alerts.length} product registration(s) expiring or lapsed`,
+          alertEmail(summary)
+        );
+        notified++;
+      } catch (error) {
+        console.error(`Failed to send validity alert to ${admin.email}:`, error);
+      }
+    }
+    return notified;
+  }
+}
@@ -27,6 +27,14 @@ import AdminInviteRouter from "./routes/v1/adminInvite";
 import BrandNameRouter from "./routes/v1/brandName";
 import ProductClassificationRouter from "./routes/v1/productClassification";
 import PublicRouter from "./routes/v1/public";
+import RegistryRouter from "./routes/v1/registry";
+import LedgerRouter from "./routes/v1/ledger";
+import RecallRouter from "./routes/v1/recall";
+import ComplianceCaseRouter from "./routes/v1/complianceCase";
+import ComplianceReportRouter from "./routes/v1/complianceReport";
+import ExportRouter from "./routes/v1/export";
+import RegionRouter from "./routes/v1/region";
+import ActivityFlagRouter from "./routes/v1/activityFlag";
 import { verifyUser } from "./middleware/verifyUser";
 import { verifyMobileUser } from "./middleware/verifyMobileUser";
 import helmet from "helmet";
@@ -65,6 +73,14 @@ const setUpApp = async () => {
   app.use("/api/v1/admin-invite", AdminInviteRouter);
   app.use("/api/v1/brand-name", verifyUser, BrandNameRouter);
   app.use("/api/v1/classification", verifyUser, ProductClassificationRouter);
+  app.use("/api/v1/registry", verifyUser, RegistryRouter);
+  app.use("/api/v1/ledger", verifyUser, LedgerRouter);
+  app.use("/api/v1/recall", verifyUser, RecallRouter);
+  app.use("/api/v1/cases", verifyUser, ComplianceCaseRouter);
+  app.use("/api/v1/compliance-reports", verifyUser, ComplianceReportRouter);
+  app.use("/api/v1/exports", verifyUser, ExportRouter);
+  app.use("/api/v1/regions", verifyUser, RegionRouter);
+  app.use("/api/v1/activity-flags", verifyUser, ActivityFlagRouter);
 
   // Serve static uploads (avatars, etc.)
   const uploadsPath = path.resolve(process.cwd(), "uploads");
@@ -11,6 +11,16 @@ import { ComplianceReport } from "../entities/complianceReport.entity";
 import { AdminInvite } from "../entities/adminInvite.entity";
 import { BrandName } from "../entities/brandName.entity";
 import { ProductClassification } from "../entities/productClassification.entity";
+import { RegistryEntry } from "../entities/registryEntry.entity";
+import { RegistryImport } from "../entities/registryImport.entity";
+import { SyncItem } from "../entities/syncItem.entity";
+import { ProductLedgerBlock } from "../entities/productLedgerBlock.entity";
+import { Recall } from "../entities/recall.entity";
+import { ComplianceCase } from "../entities/complianceCase.entity";
+import { ComplianceCaseComment } from "../entities/complianceCaseComment.entity";
+import { ComplianceCaseEvent } from "../entities/complianceCaseEvent.entity";
+import { Region } from "../entities/region.entity";
+import { ActivityFlag } from "../entities/activityFlag.entity";
 // import { AuditTrail } from '../entities/audit-trail.entity';
 
 const { DEV_DATABASE_URI, MAIN_DATABASE_URI, DB_PORT, NODE_ENV } = process.env;
@@ -18,7 +28,7 @@ const config: DataSourceOptions = {
   type: "postgres",
   url: NODE_ENV === "development" ? DEV_DATABASE_URI : MAIN_DATABASE_URI,
   port: parseInt(DB_PORT!, 10),
-  entities: [User, Product, Company, ScanHistory, ForgotPassword, AuditLog, ComplianceReport, AdminInvite, BrandName, ProductClassification], // Add yung models na ginagawa
+  entities: [User, Product, Company, ScanHistory, ForgotPassword, AuditLog, ComplianceReport, AdminInvite, BrandName, ProductClassification, RegistryEntry, RegistryImport, SyncItem, ProductLedgerBlock, Recall, ComplianceCase, ComplianceCaseComment, ComplianceCaseEvent, Region, ActivityFlag], // Add yung models na ginagawa
   migrations: ["src/typeorm/migrations/*.ts"],
   subscribers: [],
   // logging: NODE_ENV === 'development' ? true : false,
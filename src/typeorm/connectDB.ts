@@ -72,7 +72,10 @@ const ConnectDatabase = async (): Promise<void> => {
   try {
     await DB.initialize();
     console.log('Data Source has been initialized!');
-    
+
+    // Product matching narrows candidates with pg_trgm similarity()
+    await DB.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+
     // Seed default accounts after DB initialization
     await seedDefaultAccounts();
   } catch (error) {
@@ -11,6 +11,16 @@ import { ComplianceReport } from './entities/complianceReport.entity';
 import { AdminInvite } from './entities/adminInvite.entity';
 import { BrandName } from './entities/brandName.entity';
 import { ProductClassification } from './entities/productClassification.entity';
+import { RegistryEntry } from './entities/registryEntry.entity';
+import { RegistryImport } from './entities/registryImport.entity';
+import { SyncItem } from './entities/syncItem.entity';
+import { ProductLedgerBlock } from './entities/productLedgerBlock.entity';
+import { Recall } from './entities/recall.entity';
+import { ComplianceCase } from './entities/complianceCase.entity';
+import { ComplianceCaseComment } from './entities/complianceCaseComment.entity';
+import { ComplianceCaseEvent } from './entities/complianceCaseEvent.entity';
+import { Region } from './entities/region.entity';
+import { ActivityFlag } from './entities/activityFlag.entity';
 
 // Initialize the datasource/database connection
 export const DB = new DataSource(config);
@@ -28,5 +38,15 @@ const ComplianceReportRepo = DB.getRepository(ComplianceReport);
 const AdminInviteRepo = DB.getRepository(AdminInvite);
 const BrandNameRepo = DB.getRepository(BrandName);
 const ProductClassificationRepo = DB.getRepository(ProductClassification);
+const RegistryEntryRepo = DB.getRepository(RegistryEntry);
+const RegistryImportRepo = DB.getRepository(RegistryImport);
+const SyncItemRepo = DB.getRepository(SyncItem);
+const ProductLedgerRepo = DB.getRepository(ProductLedgerBlock);
+const RecallRepo = DB.getRepository(Recall);
+const ComplianceCaseRepo = DB.getRepository(ComplianceCase);
+const ComplianceCaseCommentRepo = DB.getRepository(ComplianceCaseComment);
+const ComplianceCaseEventRepo = DB.getRepository(ComplianceCaseEvent);
+const RegionRepo = DB.getRepository(Region);
+const ActivityFlagRepo = DB.getRepository(ActivityFlag);
 
-export { UserRepo, ProductRepo, AuditTrailRepo, CompanyRepo, ScanRepo, ForgotPasswordRepo, AuditLogRepo, ComplianceReportRepo, AdminInviteRepo, BrandNameRepo, ProductClassificationRepo };
+export { UserRepo, ProductRepo, AuditTrailRepo, CompanyRepo, ScanRepo, ForgotPasswordRepo, AuditLogRepo, ComplianceReportRepo, AdminInviteRepo, BrandNameRepo, ProductClassificationRepo, RegistryEntryRepo, RegistryImportRepo, SyncItemRepo, ProductLedgerRepo, RecallRepo, ComplianceCaseRepo, ComplianceCaseCommentRepo, ComplianceCaseEventRepo, RegionRepo, ActivityFlagRepo };
@@ -0,0 +1,76 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { z } from 'zod';
+import { User } from './user.entity';
+import { ActivityFlagStatus, ActivityFlagType } from '../../types/enums';
+
+export const ActivityFlagReviewValidation = z.object({
+  status: z.enum([ActivityFlagStatus.CONFIRMED, ActivityFlagStatus.DISMISSED]),
+  note: z.string().trim().max(2000).optional(),
+});
+
+export type ActivityFlagReviewInput = z.infer<typeof ActivityFlagReviewValidation>;
+
+/**
+ * Suspicious agent activity found by the detector, waiting in the admin review queue.
+ * The evidence (positions, speeds, shared images, ...) is kept with the flag as found.
+ */
+@Entity('activity_flags')
+export class ActivityFlag {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  @Index()
+  @Column({ type: 'enum', enum: ActivityFlagType })
+  type!: ActivityFlagType;
+
+  @Column({ type: 'enum', enum: ['LOW', 'MEDIUM', 'HIGH'] })
+  severity!: 'LOW' | 'MEDIUM' | 'HIGH';
+
+  @Index()
+  @Column({ type: 'enum', enum: ActivityFlagStatus, default: ActivityFlagStatus.OPEN })
+  status!: ActivityFlagStatus;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'agentId' })
+  agent?: User;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  agentId!: string;
+
+  // Compliance reports the flag is about
+  @Column({ type: 'uuid', array: true, default: () => "'{}'" })
+  reportIds!: string[];
+
+  @Column({ type: 'jsonb' })
+  evidence!: Record<string, any>;
+
+  // Hash of the type and the records involved, so repeated runs do not flag the same thing twice
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  fingerprint!: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewedById?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  reviewNote?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  reviewedAt?: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
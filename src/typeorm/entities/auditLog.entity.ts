@@ -38,7 +38,19 @@ export const AuditLogValidation = z.object({
     'DELETE_CLASSIFICATION',
     'CREATE_COMPANY',
     'UPDATE_COMPANY',
-    'DELETE_COMPANY'
+    'DELETE_COMPANY',
+    'CREATE_RECALL',
+    'CLOSE_RECALL',
+    'VALIDITY_CHECK',
+    'OPEN_CASE',
+    'UPDATE_CASE_STATUS',
+    'ASSIGN_CASE',
+    'LINK_CASE_REPORTS',
+    'EXPORT_DATA',
+    'IMPORT_REGIONS',
+    'HOTSPOT_CHECK',
+    'ACTIVITY_CHECK',
+    'REVIEW_ACTIVITY_FLAG'
   ]),
   userId: z.string().uuid().optional(),
   targetUserId: z.string().uuid().optional(),
@@ -52,6 +64,7 @@ export const AuditLogValidation = z.object({
     address: z.string().optional(),
   }).optional(),
   metadata: z.record(z.string(), z.any()).optional(),
+  capturedAt: z.coerce.date().optional(),
 });
 
 export type AuditLogInput = z.infer<typeof AuditLogValidation>;
@@ -93,7 +106,19 @@ export class AuditLog {
       'DELETE_CLASSIFICATION',
       'CREATE_COMPANY',
       'UPDATE_COMPANY',
-      'DELETE_COMPANY'
+      'DELETE_COMPANY',
+      'CREATE_RECALL',
+      'CLOSE_RECALL',
+      'VALIDITY_CHECK',
+      'OPEN_CASE',
+      'UPDATE_CASE_STATUS',
+      'ASSIGN_CASE',
+      'LINK_CASE_REPORTS',
+      'EXPORT_DATA',
+      'IMPORT_REGIONS',
+      'HOTSPOT_CHECK',
+      'ACTIVITY_CHECK',
+      'REVIEW_ACTIVITY_FLAG'
     ],
   })
   actionType!: string;
@@ -138,6 +163,10 @@ export class AuditLog {
   @Column({ type: "json", nullable: true })
   metadata!: Record<string, any> | null;
 
+  // When the event happened on the device, for events synced after the fact
+  @Column({ type: "timestamp", nullable: true })
+  capturedAt!: Date | null;
+
   @CreateDateColumn()
   createdAt!: Date;
 }
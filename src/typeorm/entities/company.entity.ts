@@ -1,7 +1,27 @@
-import { Column, Entity, OneToMany, PrimaryColumn, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn } from "typeorm";
+import { Column, Entity, OneToMany, PrimaryColumn, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from "typeorm";
 import { Product } from "./product.entity";
 import { z } from "zod";
 
+export const LICENSE_STATUSES = ['ACTIVE', 'SUSPENDED', 'REVOKED', 'EXPIRED'] as const;
+export type LicenseStatus = (typeof LICENSE_STATUSES)[number];
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+// Points per risk factor and the counts behind them, as scored by CompanyRiskService
+export interface CompanyRiskBreakdown {
+    reports: {
+        points: number;
+        max: number;
+        compliant: number;
+        nonCompliant: number;
+        fraudulent: number;
+        halfLifeDays: number;
+    };
+    registrations: { points: number; max: number; lapsed: number; expiring: number };
+    recalls: { points: number; max: number; active: number; recentlyClosed: number };
+    license: { points: number; max: number; status: LicenseStatus; expiresAt: string | null; daysLeft: number | null };
+}
+
 // Helper to transform null to undefined for TypeORM compatibility
 const nullToUndefined = <T>(val: T | null | undefined): T | undefined => 
     val === null ? undefined : val;
@@ -11,6 +31,8 @@ export const CompanyValidation = z.object({
     name: z.string().min(2).max(100),
     address: z.string().min(5).max(255),
     licenseNumber: z.string().min(2).max(50),
+    licenseStatus: z.enum(LICENSE_STATUSES).optional(),
+    licenseExpiresAt: z.string().or(z.date()).optional().nullable().transform(nullToUndefined),
     // Location coordinates (optional)
     latitude: z.number().min(-90).max(90).optional().nullable().transform(nullToUndefined),
     longitude: z.number().min(-180).max(180).optional().nullable().transform(nullToUndefined),
@@ -46,6 +68,12 @@ export class Company {
     @Column()
     licenseNumber!: string;
 
+    @Column({ type: 'enum', enum: LICENSE_STATUSES, default: 'ACTIVE' })
+    licenseStatus!: LicenseStatus;
+
+    @Column({ type: 'date', nullable: true })
+    licenseExpiresAt?: Date | string | null;
+
     @Column({ type: 'decimal', precision: 10, scale: 7, nullable: true })
     latitude?: number;
 
@@ -78,6 +106,21 @@ export class Company {
     @Column({ type: 'text', nullable: true })
     description?: string;
 
+    // Compliance risk, 0 (lowest) to 100, recalculated by CompanyRiskService
+    @Index()
+    @Column({ type: 'int', default: 0 })
+    riskScore!: number;
+
+    @Column({ type: 'enum', enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'], default: 'LOW' })
+    riskLevel!: RiskLevel;
+
+    // Points per factor and the counts behind them
+    @Column({ type: 'jsonb', nullable: true })
+    riskBreakdown?: CompanyRiskBreakdown | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    riskScoredAt?: Date | null;
+
     @CreateDateColumn()
     createdAt!: Date;
 
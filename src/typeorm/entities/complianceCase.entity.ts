@@ -0,0 +1,94 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { z } from 'zod';
+import { User } from './user.entity';
+import { ComplianceReport } from './complianceReport.entity';
+import { ComplianceCaseComment } from './complianceCaseComment.entity';
+import { ComplianceCaseEvent } from './complianceCaseEvent.entity';
+import { CaseStatus } from '../../types/enums';
+
+export const OpenCaseValidation = z.object({
+  title: z.string().trim().min(1).max(255).optional(),
+  description: z.string().trim().max(5000).optional(),
+  reportIds: z.array(z.string().uuid()).min(1, 'At least one report is required').max(100),
+  assignedToId: z.string().uuid().optional().nullable(),
+});
+
+export const CaseTransitionValidation = z.object({
+  status: z.nativeEnum(CaseStatus),
+  note: z.string().trim().max(2000).optional(),
+});
+
+export const CaseAssignmentValidation = z.object({
+  assignedToId: z.string().uuid().nullable(),
+});
+
+export const CaseReportsValidation = z.object({
+  reportIds: z.array(z.string().uuid()).min(1, 'At least one report is required').max(100),
+});
+
+export const CaseCommentValidation = z.object({
+  body: z.string().trim().min(1, 'Comment is required').max(5000),
+  parentId: z.string().uuid().optional().nullable(),
+});
+
+export type OpenCaseInput = z.infer<typeof OpenCaseValidation>;
+
+/**
+ * Follow-up of one or more compliance reports by the admins.
+ * Moves through OPEN -> UNDER_REVIEW -> ESCALATED / ACTION_TAKEN -> CLOSED.
+ */
+@Entity('compliance_cases')
+export class ComplianceCase {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  title!: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string | null;
+
+  @Index()
+  @Column({ type: 'enum', enum: CaseStatus, default: CaseStatus.OPEN })
+  status!: CaseStatus;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assignedToId' })
+  assignedTo?: User | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  assignedToId?: string | null;
+
+  // Admin who opened the case, or the agent whose report opened it
+  @Column({ type: 'uuid', nullable: true })
+  openedById?: string | null;
+
+  @OneToMany(() => ComplianceReport, report => report.case)
+  reports?: ComplianceReport[];
+
+  @OneToMany(() => ComplianceCaseComment, comment => comment.case)
+  comments?: ComplianceCaseComment[];
+
+  @OneToMany(() => ComplianceCaseEvent, event => event.case)
+  events?: ComplianceCaseEvent[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt?: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
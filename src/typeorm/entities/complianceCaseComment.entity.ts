@@ -0,0 +1,45 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { ComplianceCase } from './complianceCase.entity';
+
+/**
+ * Comment on a compliance case; replies point to the comment they answer
+ */
+@Entity('compliance_case_comments')
+export class ComplianceCaseComment {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  @ManyToOne(() => ComplianceCase, complianceCase => complianceCase.comments, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'caseId' })
+  case?: ComplianceCase;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  caseId!: string;
+
+  // Comment this one replies to; null for a top-level comment
+  @Column({ type: 'uuid', nullable: true })
+  parentId?: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'authorId' })
+  author?: User | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  authorId?: string | null;
+
+  @Column({ type: 'text' })
+  body!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
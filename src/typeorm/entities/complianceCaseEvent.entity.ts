@@ -0,0 +1,52 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ComplianceCase } from './complianceCase.entity';
+import { CaseStatus } from '../../types/enums';
+
+export type CaseEventType = 'OPENED' | 'STATUS_CHANGED' | 'ASSIGNED' | 'REPORTS_LINKED';
+
+/**
+ * One entry of a compliance case timeline
+ */
+@Entity('compliance_case_events')
+export class ComplianceCaseEvent {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  @ManyToOne(() => ComplianceCase, complianceCase => complianceCase.events, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'caseId' })
+  case?: ComplianceCase;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  caseId!: string;
+
+  @Column({ type: 'enum', enum: ['OPENED', 'STATUS_CHANGED', 'ASSIGNED', 'REPORTS_LINKED'] })
+  type!: CaseEventType;
+
+  @Column({ type: 'enum', enum: CaseStatus, nullable: true })
+  fromStatus?: CaseStatus | null;
+
+  @Column({ type: 'enum', enum: CaseStatus, nullable: true })
+  toStatus?: CaseStatus | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  actorId?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  note?: string | null;
+
+  // Event details, e.g. the previous and new assignee or the linked report ids
+  @Column({ type: 'jsonb', nullable: true })
+  metadata?: Record<string, any> | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -5,8 +5,14 @@ import {
   PrimaryGeneratedColumn,
   JoinColumn,
   CreateDateColumn,
+  Index,
 } from 'typeorm';
 import { User } from './user.entity';
+import { ComplianceCase } from './complianceCase.entity';
+import { Product } from './product.entity';
+import { Company } from './company.entity';
+import { BrandName } from './brandName.entity';
+import { Region } from './region.entity';
 import { z } from 'zod';
 import { ComplianceStatus, NonComplianceReason } from '../../types/enums';
 
@@ -16,6 +22,7 @@ export const ComplianceReportValidation = z.object({
   status: z.nativeEnum(ComplianceStatus),
   scannedData: z.record(z.string(), z.any()),
   productSearchResult: z.record(z.string(), z.any()).optional().nullable(),
+  productId: z.string().uuid().optional().nullable(), // Product the agent picked; defaults to productSearchResult.productId
   nonComplianceReason: z.nativeEnum(NonComplianceReason).optional().nullable(),
   additionalNotes: z.string().max(500).optional().nullable(),
   frontImageUrl: z.string().url(), // Required - always must have front image
@@ -26,6 +33,7 @@ export const ComplianceReportValidation = z.object({
     longitude: z.number().optional(),
     address: z.string().optional(),
   }).optional().nullable(),
+  capturedAt: z.coerce.date().optional().nullable(), // Device time for reports synced after the fact
   createdAt: z.date().optional(),
 });
 
@@ -56,6 +64,31 @@ export class ComplianceReport {
   @Column({ type: 'json', nullable: true })
   productSearchResult?: Record<string, any> | null;
 
+  // Registered product the report is about, with its company and brand, for querying by product
+  @ManyToOne(() => Product, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'productId' })
+  product?: Product | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  productId?: string | null;
+
+  @ManyToOne(() => Company, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'companyId' })
+  company?: Company | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  companyId?: string | null;
+
+  @ManyToOne(() => BrandName, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'brandNameId' })
+  brandName?: BrandName | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  brandNameId?: string | null;
+
   // Reason for non-compliance
   @Column({
     type: 'enum',
@@ -87,6 +120,44 @@ export class ComplianceReport {
     address?: string;
   } | null;
 
+  // Uploaded boundaries the report location falls in, one per level
+  @ManyToOne(() => Region, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'regionId' })
+  region?: Region | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  regionId?: string | null;
+
+  @ManyToOne(() => Region, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'provinceId' })
+  province?: Region | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  provinceId?: string | null;
+
+  @ManyToOne(() => Region, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'municipalityId' })
+  municipality?: Region | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  municipalityId?: string | null;
+
+  // When the report was made on the device, for reports synced after the fact
+  @Column({ type: 'timestamp', nullable: true })
+  capturedAt?: Date | null;
+
+  // Case the report is followed up in
+  @ManyToOne(() => ComplianceCase, complianceCase => complianceCase.reports, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'caseId' })
+  case?: ComplianceCase | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  caseId?: string | null;
+
   @CreateDateColumn()
   createdAt!: Date;
 }
@@ -11,6 +11,8 @@ import { BrandName } from './brandName.entity';
 import { ProductClassification } from './productClassification.entity';
 import { z } from 'zod';
 
+export type ValidityStatus = 'VALID' | 'EXPIRING' | 'LAPSED';
+
 const coerceDate = (val: unknown) => {
   if (typeof val === 'string') return new Date(val);
   if (val instanceof Date) return val;
@@ -138,4 +140,26 @@ export class Product {
 
   @Column({ nullable: true })
   productImageBack?: string;
+
+  // False once the product is deactivated; the row is kept so scans can still report it
+  @Column({ default: true })
+  isActive!: boolean;
+
+  // Registration validity, kept up to date by the scheduled validity monitor
+  @Column({ type: 'enum', enum: ['VALID', 'EXPIRING', 'LAPSED'], default: 'VALID' })
+  validityStatus!: ValidityStatus;
+
+  // Earliest of the product expiration date and the registry "valid until" date
+  @Column({ type: 'date', nullable: true })
+  validUntil?: string | null; // YYYY-MM-DD
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  validUntilSource?: 'expirationDate' | 'registry' | null;
+
+  // Smallest alert window (in days) the product has entered, e.g. 30
+  @Column({ type: 'int', nullable: true })
+  validityWindowDays?: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  validityCheckedAt?: Date | null;
 }
\ No newline at end of file
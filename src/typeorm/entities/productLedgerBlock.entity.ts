@@ -0,0 +1,58 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  Index,
+} from 'typeorm';
+
+export type ProductLedgerAction = 'CREATE' | 'UPDATE' | 'DEACTIVATE';
+
+/**
+ * One block of the append-only product ledger.
+ *
+ * Each block stores a snapshot of a product after a change, the hash of the
+ * previous block and its own hash, signed by the server's ledger key. Editing
+ * or removing any block breaks the chain from that point on.
+ */
+@Entity('product_ledger')
+export class ProductLedgerBlock {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  // Position in the chain, starting at 0
+  @Index({ unique: true })
+  @Column({ type: 'int' })
+  index!: number;
+
+  // Not a foreign key: the history outlives a deleted product
+  @Index()
+  @Column({ type: 'uuid' })
+  productId!: string;
+
+  @Column({ type: 'enum', enum: ['CREATE', 'UPDATE', 'DEACTIVATE'] })
+  action!: ProductLedgerAction;
+
+  // Product snapshot after the change
+  @Column({ type: 'jsonb' })
+  data!: Record<string, any>;
+
+  @Column({ type: 'uuid', nullable: true })
+  actorId?: string | null;
+
+  @Column({ type: 'varchar', length: 66 })
+  previousHash!: string;
+
+  @Column({ type: 'varchar', length: 66 })
+  hash!: string;
+
+  // Signature of the hash by the ledger key
+  @Column({ type: 'varchar', length: 132 })
+  signature!: string;
+
+  @Column({ type: 'varchar', length: 42 })
+  signerAddress!: string;
+
+  // Part of the hashed content, so it is set explicitly rather than by the database
+  @Column({ type: 'timestamptz' })
+  createdAt!: Date;
+}
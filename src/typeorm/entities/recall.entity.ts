@@ -0,0 +1,92 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { z } from 'zod';
+import { Product } from './product.entity';
+
+export type RecallStatus = 'ACTIVE' | 'CLOSED';
+
+export const RecallValidation = z.object({
+  productId: z.string().uuid().optional().nullable(),
+  CFPRNumber: z.string().trim().min(2).max(100).optional().nullable(),
+  lotNumbers: z.array(z.string().trim().min(1).max(100)).min(1, 'At least one lot number is required'),
+  reason: z.string().trim().min(1, 'Reason is required').max(2000),
+  effectiveDate: z.coerce.date(),
+}).refine(
+  recall => !!recall.productId || !!recall.CFPRNumber,
+  { message: 'A recall must cover a product or a CFPR number', path: ['productId'] }
+);
+
+export const CloseRecallValidation = z.object({
+  closureNote: z.string().trim().max(2000).optional(),
+});
+
+export type RecallInput = z.infer<typeof RecallValidation>;
+
+/**
+ * Recall of one or more lots of a product.
+ *
+ * A recall covers a registered product, a CFPR number, or both (a CFPR can
+ * cover products that are not in our database). It applies from its
+ * effective date until it is closed.
+ */
+@Entity('recalls')
+export class Recall {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  productId?: string | null;
+
+  @ManyToOne(() => Product, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'productId' })
+  product?: Product | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  CFPRNumber?: string | null;
+
+  // CFPR NUMBER with separators and OCR confusions normalized, used for lookups
+  @Index()
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  normalizedCFPR?: string | null;
+
+  // Lot numbers as entered; compared ignoring case, separators and OCR confusions
+  @Column({ type: 'text', array: true })
+  lotNumbers!: string[];
+
+  @Column({ type: 'text' })
+  reason!: string;
+
+  @Column({ type: 'date' })
+  effectiveDate!: Date;
+
+  @Index()
+  @Column({ type: 'enum', enum: ['ACTIVE', 'CLOSED'], default: 'ACTIVE' })
+  status!: RecallStatus;
+
+  @Column({ type: 'uuid', nullable: true })
+  createdById?: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt?: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  closedById?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  closureNote?: string | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,82 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { MultiPolygon, Polygon } from 'geojson';
+import { z } from 'zod';
+
+// From largest to smallest; each level nests in the one before it
+export const REGION_LEVELS = ['REGION', 'PROVINCE', 'MUNICIPALITY'] as const;
+export type RegionLevel = typeof REGION_LEVELS[number];
+
+/**
+ * Options for a boundary upload: which level the features are and which
+ * feature properties hold their name, code and parent code
+ */
+export const RegionUploadValidation = z.object({
+  level: z.enum(REGION_LEVELS),
+  nameProperty: z.string().trim().min(1).max(100).default('name'),
+  codeProperty: z.string().trim().min(1).max(100).default('code'),
+  parentCodeProperty: z.string().trim().min(1).max(100).optional(),
+});
+
+export type RegionUploadOptions = z.infer<typeof RegionUploadValidation>;
+
+/**
+ * Administrative boundary (region, province or municipality) uploaded as GeoJSON.
+ *
+ * The bounding box is stored alongside the geometry so reports can be matched
+ * against a few candidate boundaries before the point-in-polygon test.
+ */
+@Entity('regions')
+@Index(['level', 'code'], { unique: true })
+export class Region {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  @Column({ type: 'varchar', length: 200 })
+  name!: string;
+
+  // Code from the boundary file, e.g. the PSGC code
+  @Column({ type: 'varchar', length: 50 })
+  code!: string;
+
+  @Index()
+  @Column({ type: 'enum', enum: REGION_LEVELS })
+  level!: RegionLevel;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  parentId?: string | null;
+
+  @ManyToOne(() => Region, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'parentId' })
+  parent?: Region | null;
+
+  @Column({ type: 'jsonb', select: false })
+  geometry!: Polygon | MultiPolygon;
+
+  @Column({ type: 'double precision' })
+  minLng!: number;
+
+  @Column({ type: 'double precision' })
+  minLat!: number;
+
+  @Column({ type: 'double precision' })
+  maxLng!: number;
+
+  @Column({ type: 'double precision' })
+  maxLat!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,82 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { z } from 'zod';
+import { RegistryImport } from './registryImport.entity';
+
+export const RegistryEntryValidation = z.object({
+  productClassification: z.string().max(255).optional().nullable(),
+  subClassification: z.string().max(255).optional().nullable(),
+  CFPRNumber: z.string().min(2).max(100),
+  brandName: z.string().max(255).optional().nullable(),
+  productName: z.string().min(1).max(500),
+  companyName: z.string().max(500).optional().nullable(),
+  validUntil: z.date().optional().nullable(),
+});
+
+export type RegistryEntryInput = z.infer<typeof RegistryEntryValidation>;
+
+/**
+ * One row of the official BAI registry of feed products
+ * (columns mirror the published list). Every import keeps its own rows so
+ * editions can be compared.
+ */
+@Entity('registry_entries')
+export class RegistryEntry {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  // PRODUCT CLASSIFICATION
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  productClassification?: string | null;
+
+  // SUB CLASSIFICATION
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  subClassification?: string | null;
+
+  // CFPR NUMBER (as printed in the registry)
+  @Column({ type: 'varchar', length: 100 })
+  CFPRNumber!: string;
+
+  // CFPR NUMBER with separators and OCR confusions normalized, used for lookups
+  @Index()
+  @Column({ type: 'varchar', length: 100 })
+  normalizedCFPR!: string;
+
+  // BRAND NAME
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  brandName?: string | null;
+
+  // NAME OF THE PRODUCT
+  @Column({ type: 'varchar', length: 500 })
+  productName!: string;
+
+  // COMPANY NAME
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  companyName?: string | null;
+
+  // VALID UNTIL
+  @Column({ type: 'date', nullable: true })
+  validUntil?: Date | null;
+
+  @ManyToOne(() => RegistryImport, registryImport => registryImport.entries, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'importId' })
+  registryImport?: RegistryImport;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  importId?: string | null;
+
+  // File the entry was imported from
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  sourceFile?: string | null;
+
+  @CreateDateColumn()
+  importedAt!: Date;
+}
@@ -0,0 +1,50 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  OneToMany,
+} from 'typeorm';
+import { RegistryEntry } from './registryEntry.entity';
+
+/**
+ * One imported edition of the BAI registry.
+ * Counts are relative to the previous import.
+ */
+@Entity('registry_imports')
+export class RegistryImport {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  // Sequential edition number (1, 2, 3, ...)
+  @Column({ type: 'int', unique: true })
+  version!: number;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  sourceFile?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  importedById?: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  totalEntries!: number;
+
+  @Column({ type: 'int', default: 0 })
+  addedCount!: number;
+
+  @Column({ type: 'int', default: 0 })
+  removedCount!: number;
+
+  @Column({ type: 'int', default: 0 })
+  changedCount!: number;
+
+  // CFPR numbers listed more than once in this edition
+  @Column({ type: 'int', default: 0 })
+  duplicateCount!: number;
+
+  @OneToMany(() => RegistryEntry, entry => entry.registryImport)
+  entries?: RegistryEntry[];
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
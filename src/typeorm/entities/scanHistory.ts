@@ -1,4 +1,4 @@
-import { Column, Entity, ManyToOne, PrimaryColumn, PrimaryGeneratedColumn } from "typeorm";
+import { Column, Entity, JoinColumn, ManyToOne, PrimaryColumn, PrimaryGeneratedColumn } from "typeorm";
 import { Product } from "./product.entity";
 import { User } from "./user.entity";
 import { ScanResult } from "../../types/enums";
@@ -31,8 +31,13 @@ export class ScanHistory {
     long?: string;
 
     @ManyToOne(() => Product, product => product._id, { nullable: true })
+    @JoinColumn({ name: 'productId' })
     product?: Product;
 
+    // Set once the agent searches the scanned label and a product is matched
+    @Column({ nullable: true })
+    productId?: string;
+
     @ManyToOne(() => User, user => user._id, { nullable: true })
     scannedBy?: User;
 
@@ -0,0 +1,77 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { z } from 'zod';
+
+export const SYNC_ITEM_TYPES = ['scan', 'compliance_report', 'audit_event'] as const;
+export type SyncItemType = typeof SYNC_ITEM_TYPES[number];
+
+export type SyncItemStatus = 'processing' | 'created' | 'failed';
+
+// Largest batch accepted in one sync request
+export const MAX_SYNC_BATCH_SIZE = 100;
+
+export const SyncItemValidation = z.object({
+  idempotencyKey: z.string().min(8).max(100),
+  type: z.enum(SYNC_ITEM_TYPES),
+  capturedAt: z.coerce.date(),
+  payload: z.record(z.string(), z.any()),
+});
+
+export const SyncBatchValidation = z.object({
+  deviceId: z.string().max(100).optional(),
+  items: z.array(z.any()).min(1).max(MAX_SYNC_BATCH_SIZE),
+});
+
+export type SyncItemInput = z.infer<typeof SyncItemValidation>;
+
+/**
+ * An item an agent queued offline and uploaded through the sync endpoint.
+ * The idempotency key is unique per agent so replaying a batch never
+ * creates the record twice.
+ */
+@Entity('sync_items')
+@Index(['agentId', 'idempotencyKey'], { unique: true })
+export class SyncItem {
+  @PrimaryGeneratedColumn('uuid')
+  _id!: string;
+
+  @Column({ type: 'uuid' })
+  agentId!: string;
+
+  // Generated by the mobile app when the item was queued
+  @Column({ type: 'varchar', length: 100 })
+  idempotencyKey!: string;
+
+  @Column({ type: 'enum', enum: SYNC_ITEM_TYPES })
+  type!: SyncItemType;
+
+  @Column({ type: 'enum', enum: ['processing', 'created', 'failed'], default: 'processing' })
+  status!: SyncItemStatus;
+
+  // _id of the scan, compliance report or audit log created from the item
+  @Column({ type: 'uuid', nullable: true })
+  resultId?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  deviceId?: string | null;
+
+  // When the item was captured on the device
+  @Column({ type: 'timestamp' })
+  capturedAt!: Date;
+
+  // When the server first received the item
+  @CreateDateColumn()
+  receivedAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
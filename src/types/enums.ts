@@ -45,3 +45,26 @@ export enum NonComplianceReason {
     MISLABELED = 'MISLABELED',
     OTHERS = 'OTHERS',
 }
+
+// Compliance case workflow
+export enum CaseStatus {
+    OPEN = 'OPEN',
+    UNDER_REVIEW = 'UNDER_REVIEW',
+    ESCALATED = 'ESCALATED',
+    ACTION_TAKEN = 'ACTION_TAKEN',
+    CLOSED = 'CLOSED',
+}
+
+// Suspicious agent activity review queue
+export enum ActivityFlagType {
+    IMPOSSIBLE_TRAVEL = 'IMPOSSIBLE_TRAVEL',
+    DUPLICATE_IMAGE = 'DUPLICATE_IMAGE',
+    DUPLICATE_SCAN_BURST = 'DUPLICATE_SCAN_BURST',
+    OUT_OF_AREA = 'OUT_OF_AREA',
+}
+
+export enum ActivityFlagStatus {
+    OPEN = 'OPEN',
+    CONFIRMED = 'CONFIRMED',
+    DISMISSED = 'DISMISSED',
+}
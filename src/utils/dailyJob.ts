@@ -0,0 +1,89 @@
+import { DB } from '../typeorm/data-source';
+import { APP_TIME_ZONE } from './dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyJobOptions {
+  name: string; // Used in logs, e.g. "Validity monitor"
+  hourEnv: string; // Variable holding the hour of the day (Philippine time) to run at
+  enabledEnv: string; // Variable that turns the job off when set to "false"
+  defaultHour: number;
+  lockId: number; // pg advisory lock held while the job runs
+  run: () => Promise<void>;
+}
+
+export interface DailyJob {
+  start: () => void;
+  stop: () => void;
+  // Run the job unless another server holds its lock; false when skipped
+  runOnce: () => Promise<boolean>;
+}
+
+/**
+ * Milliseconds until the next time the clock in the Philippines (UTC+8, no DST) reads hour:00
+ */
+export const msUntilHour = (hour: number, now: Date): number => {
+  const manilaOffsetMs = 8 * 60 * 60 * 1000;
+  const manilaNow = new Date(now.getTime() + manilaOffsetMs);
+  const next = Date.UTC(manilaNow.getUTCFullYear(), manilaNow.getUTCMonth(), manilaNow.getUTCDate(), hour);
+  const delay = next - manilaNow.getTime();
+  return delay > 0 ? delay : delay + DAY_MS;
+};
+
+/**
+ * A job run every day at a configured hour. Each server schedules it, and an
+ * advisory lock lets only one of them run it at a time.
+ */
+export const createDailyJob = (options: DailyJobOptions): DailyJob => {
+  let timer: NodeJS.Timeout | null = null;
+
+  const runOnce = async (): Promise<boolean> => {
+    // Session locks belong to a connection, so lock and unlock on the same one
+    const queryRunner = DB.createQueryRunner();
+    await queryRunner.connect();
+    try {
+      const [{ locked }] = await queryRunner.query('SELECT pg_try_advisory_lock($1) AS locked', [options.lockId]);
+      if (!locked) {
+        console.log(`${options.name} skipped: already running on another server`);
+        return false;
+      }
+      try {
+        await options.run();
+      } finally {
+        await queryRunner.query('SELECT pg_advisory_unlock($1)', [options.lockId]);
+      }
+      return true;
+    } finally {
+      await queryRunner.release();
+    }
+  };
+
+  const start = () => {
+    if (timer || process.env[options.enabledEnv] === 'false') return;
+
+    const hour = parseInt(process.env[options.hourEnv] || '', 10);
+    const checkHour = hour >= 0 && hour < 24 ? hour : options.defaultHour;
+
+    const scheduleNext = () => {
+      timer = setTimeout(async () => {
+        try {
+          await runOnce();
+        } catch (error) {
+          console.error(`${options.name} failed:`, error);
+        }
+        scheduleNext();
+      }, msUntilHour(checkHour, new Date()));
+      timer.unref();
+    };
+
+    scheduleNext();
+    console.log(`${options.name} scheduled daily at ${checkHour}:00 (${APP_TIME_ZONE})`);
+  };
+
+  const stop = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return { start, stop, runOnce };
+};
@@ -0,0 +1,35 @@
+import { parseLabelDate } from '../services/ruleBasedExtractor';
+
+// Dates are reported in Philippine time
+export const APP_TIME_ZONE = 'Asia/Manila';
+
+/**
+ * Calendar date in the Philippines as YYYY-MM-DD
+ */
+export const manilaDate = (date: Date): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: APP_TIME_ZONE }).format(date);
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+/**
+ * Date part of a stored date or a date printed on a label, as YYYY-MM-DD
+ */
+export const toDateOnly = (value?: Date | string | null): string | null => {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : manilaDate(value);
+  return parseLabelDate(value)?.value ?? null;
+};
+
+/**
+ * Date and time in the Philippines for printed documents, e.g. "Oct 19, 2026, 2:05 PM"
+ */
+export const manilaDateTime = (date: Date): string =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: APP_TIME_ZONE,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(date);
@@ -0,0 +1,110 @@
+/**
+ * Fuzzy string matching helpers tolerant of OCR errors
+ */
+
+// Letters OCR reads in place of digits, folded to the digit
+export const OCR_FOLD: Record<string, string> = {
+  O: '0',
+  Q: '0',
+  D: '0',
+  I: '1',
+  L: '1',
+  '|': '1',
+  S: '5',
+  B: '8',
+  Z: '2',
+  G: '6',
+};
+
+/**
+ * Normalize a registration code (CFPR/LTO) or lot number for comparison:
+ * uppercase, separators removed and OCR-confusable characters folded together.
+ * Optional prefixes such as "CFPR" or "LTO" are dropped.
+ *
+ * This is the one key used to store and compare codes (registry entries,
+ * recalls, products, scans), so the same code always meets itself.
+ */
+export const normalizeCode = (value: string): string =>
+  value
+    .toUpperCase()
+    .replace(/^\s*(CFPR|LTO)(\s*NO\.?)?[\s\-:#.]*/, '')
+    .replace(/[^A-Z0-9|]/g, '')
+    .split('')
+    .map(ch => OCR_FOLD[ch] ?? ch)
+    .join('');
+
+/**
+ * SQL expression computing normalizeCode over a column, for comparing codes in
+ * queries; keep the two in step
+ */
+export const normalizedCodeSql = (column: string): string =>
+  `translate(regexp_replace(regexp_replace(upper(${column}), ` +
+  `'^\\s*(CFPR|LTO)(\\s*NO\\.?)?[\\s\\-:#.]*', ''), '[^A-Z0-9|]', '', 'g'), ` +
+  `'${Object.keys(OCR_FOLD).join('')}', '${Object.keys(OCR_FOLD).map(ch => OCR_FOLD[ch]).join('')}')`;
+
+// Code similarity at which two codes are taken to be the same code read with OCR errors
+export const CODE_MATCH_THRESHOLD = 0.8; // e.g. one wrong character in a 6-character code
+
+/**
+ * Normalize free text for comparison: lowercase, punctuation removed,
+ * whitespace collapsed
+ */
+export const normalizeText = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two registration codes from 0 to 1 (normalized edit distance)
+ */
+export const codeSimilarity = (a: string, b: string): number => {
+  const x = normalizeCode(a);
+  const y = normalizeCode(b);
+  if (!x.length || !y.length) return 0;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+};
+
+const trigrams = (value: string): Set<string> => {
+  const padded = `  ${value} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+/**
+ * Similarity of two texts from 0 to 1 (trigram Jaccard index)
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const x = normalizeText(a);
+  const y = normalizeText(b);
+  if (!x.length || !y.length) return 0;
+  if (x === y) return 1;
+
+  const gx = trigrams(x);
+  const gy = trigrams(y);
+  let shared = 0;
+  gx.forEach(gram => {
+    if (gy.has(gram)) shared++;
+  });
+  return shared / (gx.size + gy.size - shared);
+};
@@ -0,0 +1,139 @@
+/**
+ * Label Comparison
+ *
+ * Compares the values read from a scanned label with the registered product,
+ * field by field, so agents and reviewers can see exactly what differs.
+ */
+
+import { normalizeCode, normalizeText, textSimilarity } from './fuzzyMatch';
+import { toDateOnly } from './dates';
+
+export type ComparedField =
+  | 'productName'
+  | 'brandName'
+  | 'LTONumber'
+  | 'CFPRNumber'
+  | 'lotNumber'
+  | 'expirationDate'
+  | 'manufacturer';
+
+export type FieldComparisonStatus =
+  | 'match'
+  | 'minor_difference' // Differs only in ways OCR commonly misreads
+  | 'mismatch'
+  | 'not_read'; // Not found on the label
+
+export interface FieldComparison {
+  field: ComparedField;
+  scanned: string | null;
+  registered: string | null;
+  status: FieldComparisonStatus;
+}
+
+export interface LabelComparison {
+  fields: FieldComparison[];
+  summary: Record<FieldComparisonStatus, number>;
+}
+
+export type ScannedLabel = Partial<Record<ComparedField, string | null>>;
+
+export interface RegisteredProduct {
+  productName?: string | null;
+  brandName?: string | null;
+  LTONumber?: string | null;
+  CFPRNumber?: string | null;
+  lotNumber?: string | null;
+  expirationDate?: Date | string | null;
+  company?: { name?: string | null } | null;
+}
+
+const CODE_FIELDS: ComparedField[] = ['LTONumber', 'CFPRNumber', 'lotNumber'];
+
+// Trigram similarity above which differing text counts as an OCR misread
+const MINOR_TEXT_SIMILARITY = 0.5;
+
+const present = (value?: string | null): value is string =>
+  !!value && value.trim().length > 0 && value.trim().toLowerCase() !== 'unknown';
+
+const registeredValue = (product: RegisteredProduct, field: ComparedField): string | null => {
+  switch (field) {
+    case 'manufacturer':
+      return product.company?.name || null;
+    case 'expirationDate':
+      return toDateOnly(product.expirationDate);
+    default:
+      return product[field] || null;
+  }
+};
+
+const compareCodes = (scanned: string, registered: string): FieldComparisonStatus => {
+  const bare = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (bare(scanned) === bare(registered)) return 'match';
+  return normalizeCode(scanned) === normalizeCode(registered) ? 'minor_difference' : 'mismatch';
+};
+
+const compareDates = (scanned: string, registered: string): FieldComparisonStatus => {
+  const date = toDateOnly(scanned);
+  if (!date) return 'mismatch';
+  if (date === registered) return 'match';
+
+  // Day and month read the wrong way round, e.g. 05/06 vs 06/05
+  const [year, month, day] = date.split('-');
+  return `${year}-${day}-${month}` === registered ? 'minor_difference' : 'mismatch';
+};
+
+const compareText = (scanned: string, registered: string): FieldComparisonStatus => {
+  const x = normalizeText(scanned);
+  const y = normalizeText(registered);
+  if (x === y) return 'match';
+
+  // Labels often print more or less of a name than was registered
+  if (x.includes(y) || y.includes(x) || textSimilarity(x, y) >= MINOR_TEXT_SIMILARITY) {
+    return 'minor_difference';
+  }
+  return 'mismatch';
+};
+
+/**
+ * Compare each scanned field with the registered value.
+ * Fields with no registered value are left out.
+ */
+export const compareLabel = (label: ScannedLabel, product: RegisteredProduct): LabelComparison => {
+  const fields: FieldComparison[] = [];
+  const summary: Record<FieldComparisonStatus, number> = {
+    match: 0,
+    minor_difference: 0,
+    mismatch: 0,
+    not_read: 0,
+  };
+
+  ([
+    'productName',
+    'brandName',
+    'LTONumber',
+    'CFPRNumber',
+    'lotNumber',
+    'expirationDate',
+    'manufacturer',
+  ] as ComparedField[]).forEach(field => {
+    const registered = registeredValue(product, field);
+    if (!registered) return;
+
+    const scanned = label[field];
+    let status: FieldComparisonStatus;
+    if (!present(scanned)) {
+      status = 'not_read';
+    } else if (CODE_FIELDS.includes(field)) {
+      status = compareCodes(scanned, registered);
+    } else if (field === 'expirationDate') {
+      status = compareDates(scanned, registered);
+    } else {
+      status = compareText(scanned, registered);
+    }
+
+    fields.push({ field, scanned: present(scanned) ? scanned.trim() : null, registered, status });
+    summary[status]++;
+  });
+
+  return { fields, summary };
+};
@@ -10,6 +10,19 @@ const nodemailer_transporter = createTransport({
     },
 });
 
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+/**
+ * Escape text for use in an HTML email, e.g. product names entered by users
+ */
+export const escapeHtml = (value: string): string => value.replace(/[&<>"']/g, ch => HTML_ESCAPES[ch]);
+
 /**
  * Send an email using the configured nodemailer transporter
  * @param to - Recipient email address
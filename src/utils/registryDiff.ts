@@ -0,0 +1,135 @@
+/**
+ * Registry Diff
+ *
+ * Compares two editions of the BAI registry, keyed by normalized CFPR number.
+ */
+
+export interface RegistrySnapshotRow {
+  normalizedCFPR: string;
+  CFPRNumber: string;
+  productClassification?: string | null;
+  subClassification?: string | null;
+  brandName?: string | null;
+  productName: string;
+  companyName?: string | null;
+  validUntil?: Date | string | null;
+}
+
+export interface RegistryFieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+// A CFPR number listed more than once in one edition; only `kept` is compared
+export interface RegistryDuplicate {
+  normalizedCFPR: string;
+  kept: RegistrySnapshotRow;
+  ignored: RegistrySnapshotRow[];
+}
+
+export interface RegistryDiff {
+  added: RegistrySnapshotRow[];
+  removed: RegistrySnapshotRow[];
+  changed: {
+    CFPRNumber: string;
+    normalizedCFPR: string;
+    productName: string;
+    changes: RegistryFieldChange[];
+  }[];
+  // Duplicate CFPR numbers in the newer edition
+  duplicates: RegistryDuplicate[];
+}
+
+const COMPARED_FIELDS = [
+  'productClassification',
+  'subClassification',
+  'brandName',
+  'productName',
+  'companyName',
+  'validUntil',
+] as const;
+
+/**
+ * Comparable form of a registry value. Dates become YYYY-MM-DD because
+ * `date` columns come back from Postgres as strings.
+ */
+const comparable = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  const text = String(value).trim();
+  return /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : text;
+};
+
+/**
+ * Order of entries sharing a CFPR number: latest validity first, undated last.
+ * Registry lookups pick the first entry in this order too.
+ */
+export const compareValidUntilDesc = (
+  a: Pick<RegistrySnapshotRow, 'validUntil'>,
+  b: Pick<RegistrySnapshotRow, 'validUntil'>
+): number => {
+  const x = comparable(a.validUntil);
+  const y = comparable(b.validUntil);
+  if (x === y) return 0;
+  if (x === null) return 1;
+  if (y === null) return -1;
+  return x < y ? 1 : -1;
+};
+
+/**
+ * Rows keyed by normalized CFPR number, keeping the preferred row of each duplicate
+ */
+const byCFPR = (rows: RegistrySnapshotRow[]) => {
+  const groups = rows.reduce(
+    (map, row) => map.set(row.normalizedCFPR, (map.get(row.normalizedCFPR) ?? []).concat(row)),
+    new Map<string, RegistrySnapshotRow[]>()
+  );
+
+  const kept = new Map<string, RegistrySnapshotRow>();
+  const duplicates: RegistryDuplicate[] = [];
+  groups.forEach((group, normalizedCFPR) => {
+    const [preferred, ...ignored] = group.slice().sort(compareValidUntilDesc);
+    kept.set(normalizedCFPR, preferred);
+    if (ignored.length > 0) duplicates.push({ normalizedCFPR, kept: preferred, ignored });
+  });
+  return { kept, duplicates };
+};
+
+export const diffRegistrySnapshots = (
+  before: RegistrySnapshotRow[],
+  after: RegistrySnapshotRow[]
+): RegistryDiff => {
+  const previous = byCFPR(before).kept;
+  const { kept: current, duplicates } = byCFPR(after);
+  const diff: RegistryDiff = { added: [], removed: [], changed: [], duplicates };
+
+  current.forEach((row, key) => {
+    const old = previous.get(key);
+    if (!old) {
+      diff.added.push(row);
+      return;
+    }
+
+    const changes = COMPARED_FIELDS.map(field => ({
+      field,
+      before: comparable(old[field]),
+      after: comparable(row[field]),
+    })).filter(change => change.before !== change.after);
+
+    if (changes.length > 0) {
+      diff.changed.push({
+        CFPRNumber: row.CFPRNumber,
+        normalizedCFPR: key,
+        productName: row.productName,
+        changes,
+      });
+    }
+  });
+
+  previous.forEach((row, key) => {
+    if (!current.has(key)) diff.removed.push(row);
+  });
+
+  return diff;
+};
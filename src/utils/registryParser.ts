@@ -0,0 +1,238 @@
+/**
+ * Registry Parser
+ *
+ * Turns an official BAI registry export (CSV, XLSX, or text extracted from the
+ * published PDF) into plain rows keyed by the registry columns.
+ */
+
+import ExcelJS from 'exceljs';
+import { parseLabelDate } from '../services/ruleBasedExtractor';
+
+export interface RegistryRow {
+  productClassification: string | null;
+  subClassification: string | null;
+  CFPRNumber: string;
+  brandName: string | null;
+  productName: string;
+  companyName: string | null;
+  validUntil: Date | null;
+}
+
+export interface RegistryParseResult {
+  rows: RegistryRow[];
+  skipped: { line: number; reason: string }[];
+}
+
+// Column order of the published registry table
+const REGISTRY_COLUMNS = [
+  'productClassification',
+  'subClassification',
+  'CFPRNumber',
+  'brandName',
+  'productName',
+  'companyName',
+  'validUntil',
+] as const;
+
+type RegistryColumn = typeof REGISTRY_COLUMNS[number];
+
+// Header text (uppercase, letters only) -> column
+const HEADER_ALIASES: Record<string, RegistryColumn> = {
+  PRODUCTCLASSIFICATION: 'productClassification',
+  CLASSIFICATION: 'productClassification',
+  SUBCLASSIFICATION: 'subClassification',
+  CFPRNUMBER: 'CFPRNumber',
+  CFPRNO: 'CFPRNumber',
+  CFPR: 'CFPRNumber',
+  BRANDNAME: 'brandName',
+  BRAND: 'brandName',
+  NAMEOFTHEPRODUCT: 'productName',
+  PRODUCTNAME: 'productName',
+  COMPANYNAME: 'companyName',
+  COMPANY: 'companyName',
+  VALIDUNTIL: 'validUntil',
+  VALIDITY: 'validUntil',
+};
+
+const CFPR_CELL = /^(?=.*\d)[A-Z0-9]{1,6}[\-\s\/]?[A-Z0-9\-\s\/]{2,}$/i;
+
+const headerKey = (value: string) => value.toUpperCase().replace(/[^A-Z]/g, '');
+
+const emptyToNull = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text.length > 0 ? text : null;
+};
+
+const parseValidUntil = (value: unknown): Date | null => {
+  if (value instanceof Date) return value;
+  const text = emptyToNull(value);
+  if (!text) return null;
+  const parsed = parseLabelDate(text);
+  return parsed ? new Date(`${parsed.value}T00:00:00Z`) : null;
+};
+
+/**
+ * Map a header row to column positions. Returns null when the row does not
+ * contain at least the CFPR number and product name columns.
+ */
+const mapHeader = (cells: unknown[]): Partial<Record<RegistryColumn, number>> | null => {
+  const mapping: Partial<Record<RegistryColumn, number>> = {};
+  cells.forEach((cell, index) => {
+    const column = HEADER_ALIASES[headerKey(String(cell ?? ''))];
+    if (column && mapping[column] === undefined) mapping[column] = index;
+  });
+  return mapping.CFPRNumber !== undefined && mapping.productName !== undefined ? mapping : null;
+};
+
+const toRow = (
+  cells: unknown[],
+  mapping: Partial<Record<RegistryColumn, number>>
+): RegistryRow | string => {
+  const cell = (column: RegistryColumn) =>
+    mapping[column] === undefined ? undefined : cells[mapping[column]!];
+
+  const CFPRNumber = emptyToNull(cell('CFPRNumber'));
+  const productName = emptyToNull(cell('productName'));
+  if (!CFPRNumber) return 'Missing CFPR number';
+  if (!productName) return 'Missing product name';
+
+  return {
+    productClassification: emptyToNull(cell('productClassification')),
+    subClassification: emptyToNull(cell('subClassification')),
+    CFPRNumber,
+    brandName: emptyToNull(cell('brandName')),
+    productName,
+    companyName: emptyToNull(cell('companyName')),
+    validUntil: parseValidUntil(cell('validUntil')),
+  };
+};
+
+const rowsFromTable = (table: unknown[][]): RegistryParseResult => {
+  const result: RegistryParseResult = { rows: [], skipped: [] };
+  let mapping: Partial<Record<RegistryColumn, number>> | null = null;
+
+  table.forEach((cells, index) => {
+    if (cells.every(cell => emptyToNull(cell) === null)) return;
+
+    // The header may repeat on every page of an export
+    const header = mapHeader(cells);
+    if (header) {
+      mapping = header;
+      return;
+    }
+    if (!mapping) {
+      result.skipped.push({ line: index + 1, reason: 'Row before header' });
+      return;
+    }
+
+    const row = toRow(cells, mapping);
+    if (typeof row === 'string') {
+      result.skipped.push({ line: index + 1, reason: row });
+    } else {
+      result.rows.push(row);
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting)
+ */
+export const parseCsvTable = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+export const parseRegistryCsv = (text: string): RegistryParseResult =>
+  rowsFromTable(parseCsvTable(text.replace(/^\uFEFF/, '')));
+
+export const parseRegistryXlsx = async (buffer: Buffer): Promise<RegistryParseResult> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const table: unknown[][] = [];
+  workbook.eachSheet(sheet => {
+    sheet.eachRow({ includeEmpty: false }, row => {
+      // row.values is 1-indexed
+      const values = (row.values as unknown[]).slice(1).map(value =>
+        value && typeof value === 'object' && !(value instanceof Date)
+          ? (value as any).text ?? (value as any).result ?? ''
+          : value
+      );
+      table.push(values);
+    });
+  });
+
+  return rowsFromTable(table);
+};
+
+/**
+ * Parse text extracted from the registry PDF (e.g. `pdftotext -layout`).
+ *
+ * Columns are separated by two or more spaces. Lines that do not split into
+ * the seven registry columns around a CFPR-looking cell are skipped.
+ */
+export const parseRegistryPdfText = (text: string): RegistryParseResult => {
+  const result: RegistryParseResult = { rows: [], skipped: [] };
+  const mapping = REGISTRY_COLUMNS.reduce((acc, column, index) => {
+    acc[column] = index;
+    return acc;
+  }, {} as Record<RegistryColumn, number>);
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const cells = line.trim().split(/\s{2,}|\t+/);
+    if (cells.length === 1 && cells[0] === '') return;
+    if (mapHeader(cells) || headerKey(line).startsWith('PRODUCTCLASSIFICATION')) return;
+
+    if (cells.length !== REGISTRY_COLUMNS.length || !CFPR_CELL.test(cells[mapping.CFPRNumber])) {
+      result.skipped.push({ line: index + 1, reason: 'Not a registry row' });
+      return;
+    }
+
+    const row = toRow(cells, mapping);
+    if (typeof row === 'string') {
+      result.skipped.push({ line: index + 1, reason: row });
+    } else {
+      result.rows.push(row);
+    }
+  });
+
+  return result;
+};
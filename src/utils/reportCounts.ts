@@ -0,0 +1,42 @@
+import { ComplianceStatus, NonComplianceReason } from '../types/enums';
+
+/**
+ * Number of reports in total, per verdict and per non-compliance reason
+ */
+export interface ReportCounts {
+  total: number;
+  byStatus: Record<ComplianceStatus, number>;
+  byReason: Record<NonComplianceReason, number>;
+}
+
+const zeroes = <K extends string>(keys: K[]): Record<K, number> =>
+  keys.reduce((record, key) => ({ ...record, [key]: 0 }), {} as Record<K, number>);
+
+export const emptyReportCounts = (): ReportCounts => ({
+  total: 0,
+  byStatus: zeroes(Object.values(ComplianceStatus)),
+  byReason: zeroes(Object.values(NonComplianceReason)),
+});
+
+export const addReportCount = (
+  counts: ReportCounts,
+  status: ComplianceStatus,
+  reason: NonComplianceReason | null,
+  count = 1
+): void => {
+  counts.total += count;
+  counts.byStatus[status] += count;
+  if (reason) counts.byReason[reason] += count;
+};
+
+/**
+ * Percentage of reports that were non-compliant or fraudulent, to one decimal
+ */
+export const nonComplianceRate = (counts: ReportCounts): number | null =>
+  counts.total === 0
+    ? null
+    : Math.round(
+        ((counts.byStatus[ComplianceStatus.NON_COMPLIANT] + counts.byStatus[ComplianceStatus.FRAUDULENT]) /
+          counts.total) *
+          1000
+      ) / 10;